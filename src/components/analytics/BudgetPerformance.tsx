@@ -4,7 +4,8 @@ import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContaine
 import { useInternationalization } from '../../contexts/InternationalizationContext';
 
 interface BudgetPerformanceData {
-  category: string;
+  category: string; // The budget's name
+  categories?: string[];
   budgeted: number;
   spent: number;
   remaining: number;
@@ -140,7 +141,12 @@ export const BudgetPerformance: React.FC<BudgetPerformanceProps> = ({
             <div key={budget.category} className="p-4 bg-black/30 rounded-xl border border-white/10">
               <div className="flex items-center justify-between mb-3">
                 <div className="flex items-center space-x-3">
-                  <span className="font-medium text-white">{budget.category}</span>
+                  <div>
+                    <span className="font-medium text-white">{budget.category}</span>
+                    {budget.categories && budget.categories.length > 1 && (
+                      <p className="text-xs text-gray-400">{budget.categories.join(', ')}</p>
+                    )}
+                  </div>
                   <span className={`px-2 py-1 rounded-full text-xs ${getStatusColor(budget.status)}`}>
                     {getStatusLabel(budget.status)}
                   </span>
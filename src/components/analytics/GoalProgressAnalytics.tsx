@@ -1,57 +1,51 @@
-import React from 'react';
-import { Target, Calendar, TrendingUp, Clock, CheckCircle, AlertTriangle } from 'lucide-react';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
-import { format, differenceInDays, differenceInMonths } from 'date-fns';
+import React, { useState } from 'react';
+import { Target, TrendingUp, Clock, CheckCircle, AlertTriangle } from 'lucide-react';
+import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { format, differenceInDays } from 'date-fns';
 import { useInternationalization } from '../../contexts/InternationalizationContext';
-import { Goal } from '../../types';
+import { Goal, GoalContribution } from '../../types';
+import { goalProjectionSeries, projectGoal } from '../../utils/goals';
 
 interface GoalProgressAnalyticsProps {
   goals: Goal[];
+  contributions: GoalContribution[];
   timeRange: { start: Date; end: Date; label: string };
 }
 
 export const GoalProgressAnalytics: React.FC<GoalProgressAnalyticsProps> = ({
   goals,
+  contributions,
   timeRange
 }) => {
   const { formatCurrency } = useInternationalization();
+  const [projectionGoalId, setProjectionGoalId] = useState<string>('');
 
-  // Calculate goal analytics
+  // Calculate goal analytics; the status compares the recent pace of
+  // contributions with the saving the target date requires
   const goalAnalytics = goals.map(goal => {
-    const progress = (goal.currentAmount / goal.targetAmount) * 100;
-    const daysRemaining = differenceInDays(goal.targetDate, new Date());
-    const monthsRemaining = differenceInMonths(goal.targetDate, new Date());
-    const remaining = goal.targetAmount - goal.currentAmount;
-    const monthlyNeeded = monthsRemaining > 0 ? remaining / monthsRemaining : 0;
-    
-    let status: 'on_track' | 'behind' | 'ahead' | 'completed' | 'overdue';
-    if (progress >= 100) {
-      status = 'completed';
-    } else if (daysRemaining < 0) {
-      status = 'overdue';
-    } else if (monthlyNeeded <= 500) { // Assuming $500/month is reasonable
-      status = 'on_track';
-    } else if (monthlyNeeded <= 1000) {
-      status = 'behind';
-    } else {
-      status = 'ahead';
-    }
+    const projection = projectGoal(goal, contributions);
 
     return {
       ...goal,
-      progress,
-      daysRemaining,
-      monthsRemaining,
-      remaining,
-      monthlyNeeded,
-      status
+      ...projection,
+      progress: (goal.currentAmount / goal.targetAmount) * 100,
+      daysRemaining: differenceInDays(goal.targetDate, new Date()),
     };
   });
 
   const completedGoals = goalAnalytics.filter(g => g.status === 'completed');
   const activeGoals = goalAnalytics.filter(g => g.status !== 'completed');
   const onTrackGoals = goalAnalytics.filter(g => g.status === 'on_track');
-  const behindGoals = goalAnalytics.filter(g => g.status === 'behind');
+  const behindGoals = goalAnalytics.filter(g => g.status === 'behind' || g.status === 'overdue');
+  const unreachableGoals = goalAnalytics.filter(g => g.status === 'unreachable');
+
+  const projectionGoal = activeGoals.find(g => g.id === projectionGoalId) ?? activeGoals[0];
+  const projectionData = projectionGoal
+    ? goalProjectionSeries(projectionGoal, contributions, projectionGoal).map(point => ({
+        ...point,
+        label: format(point.month, 'MMM yy'),
+      }))
+    : [];
 
   const chartData = goalAnalytics.map(goal => ({
     name: goal.title.length > 15 ? goal.title.substring(0, 15) + '...' : goal.title,
@@ -65,7 +59,8 @@ export const GoalProgressAnalytics: React.FC<GoalProgressAnalyticsProps> = ({
       case 'completed': return 'text-success-400 bg-success-500/20';
       case 'on_track': return 'text-primary-400 bg-primary-500/20';
       case 'behind': return 'text-warning-400 bg-warning-500/20';
-      case 'overdue': return 'text-error-400 bg-error-500/20';
+      case 'overdue':
+      case 'unreachable': return 'text-error-400 bg-error-500/20';
       default: return 'text-gray-400 bg-gray-500/20';
     }
   };
@@ -75,7 +70,8 @@ export const GoalProgressAnalytics: React.FC<GoalProgressAnalyticsProps> = ({
       case 'completed': return <CheckCircle size={16} className="text-success-400" />;
       case 'on_track': return <Target size={16} className="text-primary-400" />;
       case 'behind': return <Clock size={16} className="text-warning-400" />;
-      case 'overdue': return <AlertTriangle size={16} className="text-error-400" />;
+      case 'overdue':
+      case 'unreachable': return <AlertTriangle size={16} className="text-error-400" />;
       default: return <Target size={16} className="text-gray-400" />;
     }
   };
@@ -153,6 +149,64 @@ export const GoalProgressAnalytics: React.FC<GoalProgressAnalyticsProps> = ({
         )}
       </div>
 
+      {/* Projection Chart */}
+      {projectionGoal && (
+        <div className="bg-black/20 backdrop-blur-md rounded-2xl p-4 sm:p-6 border border-white/10">
+          <div className="flex items-center justify-between gap-3 mb-4">
+            <h4 className="font-medium text-white flex items-center">
+              <TrendingUp size={18} className="mr-2 text-primary-400" />
+              Projection
+            </h4>
+            {activeGoals.length > 1 && (
+              <select
+                value={projectionGoal.id}
+                onChange={(e) => setProjectionGoalId(e.target.value)}
+                className="rounded-lg border-white/20 bg-black/40 text-white text-sm py-1.5 px-3 focus:border-primary-500 focus:ring-primary-500"
+              >
+                {activeGoals.map(goal => (
+                  <option key={goal.id} value={goal.id} className="bg-black/90">{goal.title}</option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          <ResponsiveContainer width="100%" height={260}>
+            <LineChart data={projectionData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+              <XAxis dataKey="label" stroke="#9CA3AF" fontSize={12} />
+              <YAxis stroke="#9CA3AF" fontSize={12} tickFormatter={(value) => formatCurrency(value)} width={80} />
+              <Tooltip
+                formatter={(value, name) => [
+                  formatCurrency(value as number),
+                  name === 'saved' ? 'Saved' : name === 'projected' ? 'At current pace' : 'Needed to stay on track'
+                ]}
+                contentStyle={{
+                  backgroundColor: 'rgba(0, 0, 0, 0.8)',
+                  border: '1px solid rgba(255, 255, 255, 0.1)',
+                  borderRadius: '8px',
+                  color: '#F9FAFB',
+                  backdropFilter: 'blur(10px)'
+                }}
+              />
+              <ReferenceLine y={projectionGoal.targetAmount} stroke="#10B981" strokeDasharray="4 4" />
+              <Line type="monotone" dataKey="saved" stroke="#10B981" strokeWidth={2} dot={false} connectNulls={false} />
+              <Line type="monotone" dataKey="projected" stroke="#3B82F6" strokeWidth={2} strokeDasharray="6 3" dot={false} />
+              <Line type="monotone" dataKey="required" stroke="#9CA3AF" strokeWidth={1.5} strokeDasharray="2 4" dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+
+          <p className="text-xs text-gray-400 mt-3">
+            {projectionGoal.projectedCompletion
+              ? `At ${formatCurrency(projectionGoal.monthlyPace ?? 0)} a month, ${projectionGoal.title} is reached in ${format(projectionGoal.projectedCompletion, 'MMMM yyyy')}. `
+              : projectionGoal.status === 'not_started'
+                ? `Nothing has been added to ${projectionGoal.title} yet. `
+                : `Nothing has been saved towards ${projectionGoal.title} recently. `}
+            {projectionGoal.status !== 'overdue' &&
+              `${formatCurrency(projectionGoal.requiredMonthly)} a month reaches it by ${format(projectionGoal.targetDate, 'MMMM yyyy')}.`}
+          </p>
+        </div>
+      )}
+
       {/* Individual Goal Analysis */}
       <div className="bg-black/20 backdrop-blur-md rounded-2xl p-4 sm:p-6 border border-white/10">
         <h4 className="font-medium text-white mb-4">Individual Goal Performance</h4>
@@ -195,10 +249,24 @@ export const GoalProgressAnalytics: React.FC<GoalProgressAnalyticsProps> = ({
                 <div>
                   <p className="text-gray-400">Monthly Needed</p>
                   <p className={`font-medium ${
-                    goal.monthlyNeeded <= 500 ? 'text-success-400' :
-                    goal.monthlyNeeded <= 1000 ? 'text-warning-400' : 'text-error-400'
+                    goal.status === 'completed' || goal.status === 'on_track' ? 'text-success-400' :
+                    goal.status === 'behind' || goal.status === 'not_started' ? 'text-warning-400' : 'text-error-400'
                   }`}>
-                    {formatCurrency(goal.monthlyNeeded)}
+                    {formatCurrency(goal.requiredMonthly)}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-gray-400">Saving Pace</p>
+                  <p className="text-white">
+                    {goal.monthlyPace !== undefined ? `${formatCurrency(goal.monthlyPace)} / month` : '—'}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-gray-400">Projected Completion</p>
+                  <p className="text-white">
+                    {goal.status === 'completed' ? 'Completed' :
+                      goal.projectedCompletion ? format(goal.projectedCompletion, 'MMM yyyy') :
+                      goal.status === 'not_started' ? '—' : 'Never at this pace'}
                   </p>
                 </div>
               </div>
@@ -227,6 +295,22 @@ export const GoalProgressAnalytics: React.FC<GoalProgressAnalyticsProps> = ({
             </div>
           )}
 
+          {unreachableGoals.length > 0 && (
+            <div className="p-4 bg-error-500/20 rounded-lg border border-error-500/30">
+              <div className="flex items-start space-x-3">
+                <AlertTriangle size={16} className="text-error-400 mt-0.5" />
+                <div>
+                  <h5 className="font-medium text-error-400 text-sm">Out of Reach at This Pace</h5>
+                  <p className="text-error-300 text-sm mt-1">
+                    {unreachableGoals.map(g => g.title).join(', ')} {unreachableGoals.length !== 1 ? 'have' : 'has'} had
+                    nothing saved towards {unreachableGoals.length !== 1 ? 'them' : 'it'} recently and will never be reached
+                    unless contributions resume.
+                  </p>
+                </div>
+              </div>
+            </div>
+          )}
+
           {behindGoals.length > 0 && (
             <div className="p-4 bg-warning-500/20 rounded-lg border border-warning-500/30">
               <div className="flex items-start space-x-3">
@@ -0,0 +1,308 @@
+import React, { useState } from 'react';
+import { AlertCircle, BarChart3, Percent, Bookmark, Trash2, X, Save } from 'lucide-react';
+import { Input } from '../common/Input';
+import { Button } from '../common/Button';
+import { useFinance } from '../../contexts/FinanceContext';
+import { useInternationalization } from '../../contexts/InternationalizationContext';
+import { BudgetDraft } from '../../types';
+import { fiftyThirtyTwenty, suggestBudgetsFromSpending } from '../../utils/budgets';
+import { roundCurrency } from '../../utils/currency';
+
+const HISTORY_MONTHS = 3;
+
+type Source = 'spending' | 'rule' | 'template';
+
+interface BudgetGeneratorProps {
+  onDone: () => void;
+}
+
+// Suggests a whole set of budgets, from recent spending, the 50/30/20 rule or
+// a saved template, as an editable preview that is created in one batch
+export const BudgetGenerator: React.FC<BudgetGeneratorProps> = ({ onDone }) => {
+  const {
+    budgets,
+    budgetTemplates,
+    userCategories,
+    getCategoryBreakdown,
+    addBudgets,
+    saveBudgetTemplate,
+    deleteBudgetTemplate,
+  } = useFinance();
+  const { formatCurrency } = useInternationalization();
+
+  const spending = getCategoryBreakdown('expense', HISTORY_MONTHS);
+  const averageIncome = Math.round(
+    getCategoryBreakdown('income', HISTORY_MONTHS).reduce((sum, c) => sum + c.amount, 0) / HISTORY_MONTHS
+  );
+
+  // Categories that already have a budget of their own are not suggested again
+  const budgetedCategories = new Set(budgets.filter(b => b.period !== 'custom').flatMap(b => b.categories));
+  const spendingDrafts = suggestBudgetsFromSpending(
+    spending.filter(c => !budgetedCategories.has(c.category)),
+    HISTORY_MONTHS
+  );
+  const knownCategories = new Set([
+    ...userCategories.filter(c => c.type === 'expense').map(c => c.name),
+    ...spending.map(c => c.category),
+  ]);
+  const expenseCategories = knownCategories.size > 0
+    ? [...knownCategories]
+    : ['Food', 'Transportation', 'Entertainment', 'Shopping', 'Bills', 'Healthcare', 'Other'];
+
+  const [source, setSource] = useState<Source>('spending');
+  const [income, setIncome] = useState(averageIncome);
+  const [drafts, setDrafts] = useState<BudgetDraft[]>(spendingDrafts);
+  const [templateName, setTemplateName] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const split = fiftyThirtyTwenty(income, expenseCategories);
+
+  const chooseSource = (next: Source) => {
+    setSource(next);
+    setError(null);
+    if (next === 'spending') setDrafts(spendingDrafts);
+    if (next === 'rule') setDrafts(split.drafts);
+    if (next === 'template') setDrafts([]);
+  };
+
+  const changeIncome = (value: number) => {
+    setIncome(value);
+    setDrafts(fiftyThirtyTwenty(value, expenseCategories).drafts);
+  };
+
+  const updateDraft = (index: number, updates: Partial<BudgetDraft>) =>
+    setDrafts(prev => prev.map((draft, i) => (i === index ? { ...draft, ...updates } : draft)));
+
+  const removeDraft = (index: number) => setDrafts(prev => prev.filter((_, i) => i !== index));
+
+  const invalidDraft = drafts.find(draft => !draft.category.trim() || !(draft.amount > 0));
+
+  const handleCreate = async () => {
+    try {
+      setIsCreating(true);
+      setError(null);
+      if (invalidDraft) throw new Error('Every budget needs a name and an amount greater than 0');
+      await addBudgets(drafts.map(draft => ({
+        ...draft,
+        category: draft.category.trim(),
+        amount: roundCurrency(draft.amount),
+      })));
+      onDone();
+    } catch (error: unknown) {
+      console.error('Error creating budgets:', error);
+      setError(error instanceof Error ? error.message : 'Failed to create budgets. Please try again.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleSaveTemplate = async () => {
+    try {
+      setIsSaving(true);
+      setError(null);
+      if (invalidDraft) throw new Error('Every budget needs a name and an amount greater than 0');
+      await saveBudgetTemplate(templateName, drafts);
+      setTemplateName('');
+    } catch (error: unknown) {
+      console.error('Error saving budget template:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save template. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const total = drafts.reduce((sum, draft) => sum + (draft.amount || 0), 0);
+
+  const sources: Array<[Source, string, React.ReactNode]> = [
+    ['spending', 'Recent Spending', <BarChart3 size={16} />],
+    ['rule', '50/30/20', <Percent size={16} />],
+    ['template', 'Templates', <Bookmark size={16} />],
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Error Message */}
+      {error && (
+        <div className="bg-error-500/20 border border-error-500/30 rounded-lg p-4">
+          <div className="flex items-center space-x-2">
+            <AlertCircle size={18} className="text-error-400" />
+            <p className="text-error-400 text-sm">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Source */}
+      <div className="grid grid-cols-3 gap-2">
+        {sources.map(([value, label, icon]) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => chooseSource(value)}
+            className={`p-3 rounded-lg border-2 text-sm flex flex-col items-center gap-1 transition-colors ${
+              source === value
+                ? 'border-primary-500 bg-primary-500/20 text-primary-400'
+                : 'border-white/20 hover:border-white/30 text-gray-300'
+            }`}
+          >
+            {icon}
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {source === 'spending' && (
+        <p className="text-sm text-gray-400">
+          Monthly budgets at your average spending per category over the last {HISTORY_MONTHS} months.
+          {budgetedCategories.size > 0 && ' Categories that already have a budget are left out.'}
+        </p>
+      )}
+
+      {source === 'rule' && (
+        <div className="bg-black/30 backdrop-blur-md rounded-xl p-4 border border-white/20 space-y-3">
+          <Input
+            label="Monthly Income"
+            type="number"
+            step="0.01"
+            value={income || ''}
+            onChange={(e) => changeIncome(Number(e.target.value) || 0)}
+            className="bg-black/40 border-white/20 text-white"
+          />
+          <p className="text-xs text-gray-400">
+            {formatCurrency(split.needs)} for needs, {formatCurrency(split.wants)} for wants and{' '}
+            {formatCurrency(split.savings)} left for savings and paying down debt.
+            {averageIncome > 0 && ` Your average over the last ${HISTORY_MONTHS} months is ${formatCurrency(averageIncome)}.`}
+          </p>
+        </div>
+      )}
+
+      {source === 'template' && (
+        <div className="space-y-2">
+          {budgetTemplates.length === 0 ? (
+            <p className="text-sm text-gray-400">
+              No saved templates yet. Save a preview as a template to reuse it later.
+            </p>
+          ) : (
+            budgetTemplates.map(template => (
+              <div key={template.id} className="flex items-center justify-between bg-black/30 rounded-lg p-3 border border-white/10">
+                <button
+                  type="button"
+                  onClick={() => setDrafts(template.items)}
+                  className="text-left min-w-0 flex-1"
+                >
+                  <p className="text-white text-sm font-medium truncate">{template.name}</p>
+                  <p className="text-xs text-gray-400">
+                    {template.items.length} budget{template.items.length === 1 ? '' : 's'} •{' '}
+                    {formatCurrency(template.items.reduce((sum, item) => sum + item.amount, 0))}
+                  </p>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => deleteBudgetTemplate(template.id).catch(() => undefined)}
+                  className="p-2 hover:bg-error-500/20 rounded-lg transition-colors"
+                  title="Delete Template"
+                >
+                  <Trash2 size={14} className="text-error-400" />
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+      )}
+
+      {/* Preview */}
+      {drafts.length > 0 ? (
+        <div className="bg-black/30 backdrop-blur-md rounded-xl p-4 border border-white/20 space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-medium text-white">Preview</h4>
+            <span className="text-xs text-gray-400">{formatCurrency(total)} per month</span>
+          </div>
+          {drafts.map((draft, index) => (
+            <div key={index} className="flex items-start gap-2">
+              <div className="flex-1 min-w-0">
+                <input
+                  value={draft.category}
+                  onChange={(e) => updateDraft(index, { category: e.target.value })}
+                  className="block w-full rounded-lg border-white/20 bg-black/40 text-white text-sm py-2 px-3 focus:border-primary-500 focus:ring-primary-500"
+                />
+                {(draft.categories.length > 1 || draft.categories[0] !== draft.category) && (
+                  <p className="text-xs text-gray-400 mt-1 truncate">{draft.categories.join(', ')}</p>
+                )}
+              </div>
+              <input
+                type="number"
+                step="0.01"
+                value={draft.amount || ''}
+                onChange={(e) => updateDraft(index, { amount: Number(e.target.value) || 0 })}
+                className="w-28 rounded-lg border-white/20 bg-black/40 text-white text-sm py-2 px-3 focus:border-primary-500 focus:ring-primary-500"
+              />
+              <button
+                type="button"
+                onClick={() => removeDraft(index)}
+                className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+                title="Remove"
+              >
+                <X size={14} className="text-gray-400" />
+              </button>
+            </div>
+          ))}
+        </div>
+      ) : source !== 'template' && (
+        <p className="text-sm text-gray-400">
+          {source === 'spending'
+            ? 'There is no spending to base budgets on yet. Try the 50/30/20 rule instead.'
+            : 'Enter your monthly income to split it.'}
+        </p>
+      )}
+
+      {/* Save as template */}
+      {drafts.length > 0 && (
+        <div className="flex items-end gap-2">
+          <div className="flex-1">
+            <Input
+              label="Save as Template"
+              value={templateName}
+              onChange={(e) => setTemplateName(e.target.value)}
+              className="bg-black/40 border-white/20 text-white"
+              placeholder="e.g., Everyday months"
+            />
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleSaveTemplate}
+            loading={isSaving}
+            disabled={!templateName.trim()}
+            className="border-white/20 text-white hover:bg-white/10"
+          >
+            <Save size={14} className="mr-1" />
+            Save
+          </Button>
+        </div>
+      )}
+
+      {/* Actions */}
+      <div className="flex space-x-4 pt-4">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={onDone}
+          className="flex-1 border-white/20 text-white hover:bg-white/10"
+          disabled={isCreating}
+        >
+          Cancel
+        </Button>
+        <Button
+          type="button"
+          onClick={handleCreate}
+          className="flex-1 bg-gradient-to-r from-primary-500 to-primary-600 hover:from-primary-600 hover:to-primary-700"
+          loading={isCreating}
+          disabled={drafts.length === 0}
+        >
+          Create {drafts.length} Budget{drafts.length === 1 ? '' : 's'}
+        </Button>
+      </div>
+    </div>
+  );
+};
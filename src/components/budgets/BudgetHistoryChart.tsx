@@ -0,0 +1,138 @@
+import React, { useMemo, useState } from 'react';
+import { History } from 'lucide-react';
+import { BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { format } from 'date-fns';
+import { Budget, BudgetPeriod } from '../../types';
+import { useInternationalization } from '../../contexts/InternationalizationContext';
+import { budgetAvailable, budgetUtilization } from '../../utils/budgets';
+
+const HISTORY_PERIODS = 12;
+
+interface BudgetHistoryChartProps {
+  budgets: Budget[];
+  periods: BudgetPeriod[];
+}
+
+interface HistoryPoint {
+  label: string;
+  utilization: number;
+  spent: number;
+  available: number;
+  isCurrent: boolean;
+}
+
+const periodLabel = (date: Date, period: Budget['period']) =>
+  format(date, period === 'weekly' ? 'MMM d' : period === 'monthly' ? 'MMM yy' : 'yyyy');
+
+const utilizationColor = (utilization: number) =>
+  utilization >= 100 ? '#EF4444' : utilization >= 80 ? '#F59E0B' : '#10B981';
+
+// Utilization of one budget over its last recorded periods and the current one.
+// One-off budgets have a single period, so there is no history to chart.
+export const BudgetHistoryChart: React.FC<BudgetHistoryChartProps> = ({ budgets: allBudgets, periods }) => {
+  const { formatCurrency } = useInternationalization();
+  const [selectedId, setSelectedId] = useState<string>('');
+
+  const budgets = allBudgets.filter(b => b.period !== 'custom');
+  const budget = budgets.find(b => b.id === selectedId) ?? budgets[0];
+
+  const history = useMemo<HistoryPoint[]>(() => {
+    if (!budget) return [];
+
+    const recorded = periods
+      .filter(p => p.budgetId === budget.id)
+      .slice(-(HISTORY_PERIODS - 1))
+      .map(p => ({
+        label: periodLabel(p.periodStart, budget.period),
+        utilization: budgetUtilization(p.spent, p.budgeted + p.carriedIn),
+        spent: p.spent,
+        available: p.budgeted + p.carriedIn,
+        isCurrent: false,
+      }));
+
+    const available = budgetAvailable(budget);
+    return [...recorded, {
+      label: periodLabel(budget.periodStart ?? new Date(), budget.period),
+      utilization: budgetUtilization(budget.spent, available),
+      spent: budget.spent,
+      available,
+      isCurrent: true,
+    }];
+  }, [budget, periods]);
+
+  if (!budget) return null;
+
+  const ended = history.filter(point => !point.isCurrent);
+  const averageUtilization = ended.length > 0
+    ? ended.reduce((sum, point) => sum + point.utilization, 0) / ended.length
+    : 0;
+  const overCount = ended.filter(point => point.utilization >= 100).length;
+
+  return (
+    <div className="bg-black/20 backdrop-blur-md rounded-2xl p-4 sm:p-6 border border-white/10 mb-4 sm:mb-6">
+      <div className="flex items-center justify-between mb-4 gap-3">
+        <h3 className="text-base sm:text-lg font-semibold text-white flex items-center">
+          <History size={18} className="mr-2 text-primary-400" />
+          Budget History
+        </h3>
+        <select
+          value={budget.id}
+          onChange={(e) => setSelectedId(e.target.value)}
+          className="rounded-lg border-white/20 bg-black/40 text-white text-sm py-2 px-3 focus:border-primary-500 focus:ring-primary-500"
+        >
+          {budgets.map(b => (
+            <option key={b.id} value={b.id} className="bg-black/90">
+              {b.category} ({b.period})
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <ResponsiveContainer width="100%" height={220}>
+        <BarChart data={history}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+          <XAxis dataKey="label" stroke="#9CA3AF" fontSize={12} />
+          <YAxis stroke="#9CA3AF" fontSize={12} tickFormatter={(value) => `${value}%`} />
+          <Tooltip
+            formatter={(value, _name, item) => {
+              const point = item.payload as HistoryPoint;
+              return [
+                `${Number(value).toFixed(1)}% (${formatCurrency(point.spent)} of ${formatCurrency(point.available)})`,
+                point.isCurrent ? 'Current period' : 'Utilization',
+              ];
+            }}
+            contentStyle={{
+              backgroundColor: 'rgba(0, 0, 0, 0.8)',
+              border: '1px solid rgba(255, 255, 255, 0.1)',
+              borderRadius: '8px',
+              color: '#F9FAFB',
+              backdropFilter: 'blur(10px)'
+            }}
+          />
+          <ReferenceLine y={100} stroke="#EF4444" strokeDasharray="4 4" />
+          <Bar dataKey="utilization" radius={[4, 4, 0, 0]}>
+            {history.map(point => (
+              <Cell
+                key={point.label}
+                fill={utilizationColor(point.utilization)}
+                fillOpacity={point.isCurrent ? 0.5 : 1}
+              />
+            ))}
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+
+      {ended.length > 0 ? (
+        <p className="text-xs sm:text-sm text-gray-400 mt-3">
+          Averaged {averageUtilization.toFixed(1)}% over the last {ended.length} {ended.length === 1 ? 'period' : 'periods'}
+          {overCount > 0 ? `, over budget in ${overCount}` : ', never over budget'}.
+          The faded bar is the current period.
+        </p>
+      ) : (
+        <p className="text-xs sm:text-sm text-gray-400 mt-3">
+          History starts once the first {budget.period} period of this budget has ended.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,257 @@
+import React, { useState } from 'react';
+import { ChevronLeft, ChevronRight, Wallet, ArrowRightLeft, AlertTriangle, Edit3, Trash2, Undo2, Target } from 'lucide-react';
+import { format } from 'date-fns';
+import { Modal } from '../common/Modal';
+import { Button } from '../common/Button';
+import { EnvelopeTransferForm, EnvelopeTransferSubmitData } from '../forms/EnvelopeTransferForm';
+import { useFinance } from '../../contexts/FinanceContext';
+import { useInternationalization } from '../../contexts/InternationalizationContext';
+import { envelopeMonth } from '../../utils/envelopes';
+
+interface EnvelopeBudgetProps {
+  onEditBudget: (budgetId: string) => void;
+  onDeleteBudget: (budgetId: string) => void;
+}
+
+// Zero-based budgeting: the month's income is assigned to envelopes until
+// nothing is left, and overspending is covered from other envelopes
+export const EnvelopeBudget: React.FC<EnvelopeBudgetProps> = ({ onEditBudget, onDeleteBudget }) => {
+  const { envelopeTransfers, getEnvelopePlan, moveEnvelopeFunds, assignEnvelopeTargets, deleteEnvelopeTransfer } = useFinance();
+  const { formatCurrency } = useInternationalization();
+  const [month, setMonth] = useState(() => envelopeMonth(new Date()));
+  const [transfer, setTransfer] = useState<Partial<EnvelopeTransferSubmitData> | null>(null);
+  const [isAssigning, setIsAssigning] = useState(false);
+
+  const plan = getEnvelopePlan(month);
+  const categoryById = new Map(plan.envelopes.map(e => [e.budget.id, e.budget.category]));
+  const monthTransfers = envelopeTransfers
+    .filter(t => t.month.getTime() === plan.month.getTime())
+    .slice()
+    .reverse();
+
+  const shiftMonth = (months: number) =>
+    setMonth(prev => new Date(Date.UTC(prev.getUTCFullYear(), prev.getUTCMonth() + months, 1)));
+
+  const handleTransfer = async (data: EnvelopeTransferSubmitData) => {
+    await moveEnvelopeFunds(plan.month, data.fromBudgetId, data.toBudgetId, data.amount, data.note);
+    setTransfer(null);
+  };
+
+  const handleAssignTargets = async () => {
+    try {
+      setIsAssigning(true);
+      await assignEnvelopeTargets(plan.month);
+    } catch (error: unknown) {
+      console.error('Error assigning envelope targets:', error);
+    } finally {
+      setIsAssigning(false);
+    }
+  };
+
+  // The envelope with the most money left is the usual place to cover from
+  const coverSource = (budgetId: string) =>
+    plan.envelopes
+      .filter(e => e.budget.id !== budgetId && e.available > 0)
+      .sort((a, b) => b.available - a.available)[0]?.budget.id;
+
+  const describe = (budgetId?: string) => (budgetId ? categoryById.get(budgetId) ?? 'Deleted envelope' : 'To be assigned');
+
+  return (
+    <div className="space-y-4">
+      {/* Month */}
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => shiftMonth(-1)}
+          className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+          title="Previous month"
+        >
+          <ChevronLeft size={18} className="text-gray-400" />
+        </button>
+        <h3 className="text-base sm:text-lg font-semibold text-white">{format(plan.month, 'MMMM yyyy')}</h3>
+        <button
+          onClick={() => shiftMonth(1)}
+          className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+          title="Next month"
+        >
+          <ChevronRight size={18} className="text-gray-400" />
+        </button>
+      </div>
+
+      {/* To be assigned */}
+      <div className={`rounded-2xl p-4 sm:p-6 border ${
+        plan.toBeAssigned < 0 ? 'bg-error-500/10 border-error-500/30' :
+        plan.toBeAssigned > 0 ? 'bg-primary-500/10 border-primary-500/30' :
+        'bg-success-500/10 border-success-500/30'
+      }`}>
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <p className="text-xs sm:text-sm text-gray-400 flex items-center">
+              <Wallet size={16} className="mr-2" />
+              To be assigned
+            </p>
+            <p className={`text-2xl font-bold ${
+              plan.toBeAssigned < 0 ? 'text-error-400' : plan.toBeAssigned > 0 ? 'text-primary-400' : 'text-success-400'
+            }`}>
+              {formatCurrency(plan.toBeAssigned)}
+            </p>
+            <p className="text-xs text-gray-400 mt-1">
+              {formatCurrency(plan.income)} income • {formatCurrency(plan.assigned)} assigned
+            </p>
+          </div>
+          <div className="flex flex-col gap-2">
+            <Button size="sm" onClick={() => setTransfer({})} disabled={plan.envelopes.length === 0}>
+              <ArrowRightLeft size={14} className="mr-1" />
+              Move
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleAssignTargets}
+              loading={isAssigning}
+              disabled={plan.toBeAssigned <= 0 || plan.envelopes.length === 0}
+              className="border-white/20 text-white hover:bg-white/10"
+            >
+              <Target size={14} className="mr-1" />
+              Fill Targets
+            </Button>
+          </div>
+        </div>
+        {plan.toBeAssigned < 0 && (
+          <p className="text-xs text-error-400 mt-3">
+            More is assigned than this month's income. Take money back from an envelope.
+          </p>
+        )}
+      </div>
+
+      {plan.overspent > 0 && (
+        <div className="bg-warning-500/10 rounded-xl p-4 border border-warning-500/30 flex items-start space-x-3">
+          <AlertTriangle size={18} className="text-warning-400 mt-0.5" />
+          <p className="text-sm text-warning-300">
+            {formatCurrency(plan.overspent)} of overspending still has to be covered from other envelopes.
+          </p>
+        </div>
+      )}
+
+      {/* Envelopes */}
+      <div className="space-y-3">
+        {plan.envelopes.map(e => {
+          const percent = e.assigned > 0 ? Math.min((e.spent / e.assigned) * 100, 100) : e.spent > 0 ? 100 : 0;
+          const overspent = e.available < 0;
+
+          return (
+            <div key={e.budget.id} className="bg-black/20 backdrop-blur-md rounded-2xl p-4 border border-white/10">
+              <div className="flex items-start justify-between mb-3">
+                <div>
+                  <h4 className="font-semibold text-white text-sm sm:text-base">{e.budget.category}</h4>
+                  <p className="text-xs text-gray-400">
+                    {formatCurrency(e.assigned)} assigned of {formatCurrency(e.budget.amount)} target
+                  </p>
+                </div>
+                <div className="flex items-center space-x-1">
+                  <button
+                    onClick={() => onEditBudget(e.budget.id)}
+                    className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+                    title="Edit Envelope"
+                  >
+                    <Edit3 size={14} className="text-gray-400" />
+                  </button>
+                  <button
+                    onClick={() => onDeleteBudget(e.budget.id)}
+                    className="p-2 hover:bg-error-500/20 rounded-lg transition-colors"
+                    title="Delete Envelope"
+                  >
+                    <Trash2 size={14} className="text-error-400" />
+                  </button>
+                </div>
+              </div>
+
+              <div className="w-full bg-white/10 rounded-full h-2 mb-2">
+                <div
+                  className={`h-2 rounded-full transition-all duration-500 ${
+                    overspent ? 'bg-error-500' : percent >= 80 ? 'bg-warning-500' : 'bg-success-500'
+                  }`}
+                  style={{ width: `${percent}%` }}
+                />
+              </div>
+
+              <div className="flex items-center justify-between text-xs sm:text-sm">
+                <span className="text-gray-400">{formatCurrency(e.spent)} spent</span>
+                <span className={overspent ? 'text-error-400 font-medium' : 'text-white font-medium'}>
+                  {overspent ? `Overspent by ${formatCurrency(-e.available)}` : `${formatCurrency(e.available)} available`}
+                </span>
+              </div>
+
+              <div className="flex gap-2 mt-3">
+                {overspent ? (
+                  <Button
+                    size="sm"
+                    onClick={() => setTransfer({ fromBudgetId: coverSource(e.budget.id), toBudgetId: e.budget.id, amount: -e.available })}
+                    className="flex-1 bg-error-500 hover:bg-error-600"
+                  >
+                    Cover Overspending
+                  </Button>
+                ) : (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setTransfer({
+                      toBudgetId: e.budget.id,
+                      amount: Math.max(0, Math.min(plan.toBeAssigned, e.budget.amount - e.assigned)) || undefined,
+                    })}
+                    className="flex-1 border-white/20 text-white hover:bg-white/10"
+                  >
+                    Assign
+                  </Button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Transfers this month */}
+      {monthTransfers.length > 0 && (
+        <div className="bg-black/20 backdrop-blur-md rounded-2xl p-4 border border-white/10">
+          <h4 className="font-medium text-white mb-3 text-sm sm:text-base">Moves this month</h4>
+          <div className="space-y-2">
+            {monthTransfers.map(t => (
+              <div key={t.id} className="flex items-center justify-between text-sm">
+                <div className="min-w-0">
+                  <p className="text-white truncate">
+                    {describe(t.fromBudgetId)} → {describe(t.toBudgetId)}
+                  </p>
+                  {t.note && <p className="text-xs text-gray-400 truncate">{t.note}</p>}
+                </div>
+                <div className="flex items-center space-x-2">
+                  <span className="text-white font-medium">{formatCurrency(t.amount)}</span>
+                  <button
+                    onClick={() => deleteEnvelopeTransfer(t.id).catch(() => undefined)}
+                    className="p-1 hover:bg-white/10 rounded-lg transition-colors"
+                    title="Undo"
+                  >
+                    <Undo2 size={14} className="text-gray-400" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <Modal
+        isOpen={transfer !== null}
+        onClose={() => setTransfer(null)}
+        title="Move Money"
+      >
+        {transfer && (
+          <EnvelopeTransferForm
+            plan={plan}
+            initialData={transfer}
+            onSubmit={handleTransfer}
+            onCancel={() => setTransfer(null)}
+          />
+        )}
+      </Modal>
+    </div>
+  );
+};
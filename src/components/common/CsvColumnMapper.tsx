@@ -0,0 +1,251 @@
+import React, { useState } from 'react';
+import { Save, Trash2 } from 'lucide-react';
+import { Button } from './Button';
+import { useCsvMappingProfiles } from '../../hooks/useCsvMappingProfiles';
+import {
+  CsvColumnMapping,
+  CsvDelimiter,
+  DATE_FORMATS,
+  DateFormat,
+  DecimalSeparator,
+  readCsvRows,
+} from '../../utils/bankCsv';
+
+interface CsvColumnMapperProps {
+  text: string;
+  mapping: CsvColumnMapping;
+  onChange: (mapping: CsvColumnMapping) => void;
+}
+
+const selectClass = 'block w-full rounded-lg border-gray-300 text-sm text-gray-900 focus:border-primary-500 focus:ring-primary-500';
+
+const DELIMITERS: Array<{ value: CsvDelimiter; label: string }> = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+];
+
+export const CsvColumnMapper: React.FC<CsvColumnMapperProps> = ({ text, mapping, onChange }) => {
+  const { profiles, saveProfile, deleteProfile } = useCsvMappingProfiles();
+  const [profileName, setProfileName] = useState('');
+  const [selectedProfileId, setSelectedProfileId] = useState('');
+
+  const rows = readCsvRows(text, mapping.delimiter);
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.cells.length), 0);
+  const headers = Array.from({ length: columnCount }, (_, index) =>
+    mapping.hasHeader && rows[0]?.cells[index]?.trim()
+      ? rows[0].cells[index].trim()
+      : `Column ${index + 1}`
+  );
+  const sampleRows = (mapping.hasHeader ? rows.slice(1) : rows).slice(0, 3);
+
+  const update = (updates: Partial<CsvColumnMapping>) => onChange({ ...mapping, ...updates });
+
+  const columnSelect = (
+    label: string,
+    value: number | undefined,
+    onSelect: (value: number | undefined) => void,
+    optional: boolean = false
+  ) => (
+    <div>
+      <label className="block text-xs font-medium text-gray-700 mb-1">{label}</label>
+      <select
+        value={value ?? ''}
+        onChange={(e) => onSelect(e.target.value === '' ? undefined : Number(e.target.value))}
+        className={selectClass}
+      >
+        {optional && <option value="">Not mapped</option>}
+        {headers.map((header, index) => (
+          <option key={index} value={index}>{header}</option>
+        ))}
+      </select>
+    </div>
+  );
+
+  const handleLoadProfile = (id: string) => {
+    setSelectedProfileId(id);
+    const profile = profiles.find(p => p.id === id);
+    if (profile) {
+      setProfileName(profile.name);
+      onChange(profile.mapping);
+    }
+  };
+
+  const handleSaveProfile = () => {
+    if (!profileName.trim()) return;
+    const profile = saveProfile(profileName, mapping);
+    setSelectedProfileId(profile.id);
+  };
+
+  const handleDeleteProfile = () => {
+    if (!selectedProfileId) return;
+    deleteProfile(selectedProfileId);
+    setSelectedProfileId('');
+    setProfileName('');
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Saved profiles */}
+      <div className="space-y-2">
+        <label className="block text-sm font-medium text-gray-700">Bank Profile</label>
+        <div className="flex space-x-2">
+          <select
+            value={selectedProfileId}
+            onChange={(e) => handleLoadProfile(e.target.value)}
+            className={selectClass}
+          >
+            <option value="">New mapping</option>
+            {profiles.map(profile => (
+              <option key={profile.id} value={profile.id}>{profile.name}</option>
+            ))}
+          </select>
+          {selectedProfileId && (
+            <button
+              type="button"
+              onClick={handleDeleteProfile}
+              className="p-2 text-gray-500 hover:text-error-600"
+              title="Delete profile"
+            >
+              <Trash2 size={16} />
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* File options */}
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Delimiter</label>
+          <select
+            value={mapping.delimiter}
+            onChange={(e) => update({ delimiter: e.target.value as CsvDelimiter })}
+            className={selectClass}
+          >
+            {DELIMITERS.map(d => (
+              <option key={d.label} value={d.value}>{d.label}</option>
+            ))}
+          </select>
+        </div>
+        <label className="flex items-end space-x-2 text-sm text-gray-700 pb-2">
+          <input
+            type="checkbox"
+            checked={mapping.hasHeader}
+            onChange={(e) => update({ hasHeader: e.target.checked })}
+            className="rounded border-gray-300 text-primary-600"
+          />
+          <span>First row is a header</span>
+        </label>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Date Format</label>
+          <select
+            value={mapping.dateFormat}
+            onChange={(e) => update({ dateFormat: e.target.value as DateFormat })}
+            className={selectClass}
+          >
+            {DATE_FORMATS.map(format => (
+              <option key={format} value={format}>{format}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Decimal Separator</label>
+          <select
+            value={mapping.decimalSeparator}
+            onChange={(e) => update({ decimalSeparator: e.target.value as DecimalSeparator })}
+            className={selectClass}
+          >
+            <option value=".">Dot (1,234.56)</option>
+            <option value=",">Comma (1.234,56)</option>
+          </select>
+        </div>
+      </div>
+
+      {/* Column mapping */}
+      <div className="grid grid-cols-2 gap-3">
+        {columnSelect('Date', mapping.dateColumn, value => update({ dateColumn: value ?? 0 }))}
+        {columnSelect('Description', mapping.descriptionColumn, value => update({ descriptionColumn: value ?? 0 }))}
+        <div className="col-span-2">
+          <label className="block text-xs font-medium text-gray-700 mb-1">Amounts</label>
+          <select
+            value={mapping.amountMode}
+            onChange={(e) => update({ amountMode: e.target.value as CsvColumnMapping['amountMode'] })}
+            className={selectClass}
+          >
+            <option value="single">One amount column</option>
+            <option value="split">Separate debit and credit columns</option>
+          </select>
+        </div>
+        {mapping.amountMode === 'single' ? (
+          <>
+            {columnSelect('Amount', mapping.amountColumn, value => update({ amountColumn: value }))}
+            {columnSelect('Type (optional)', mapping.typeColumn, value => update({ typeColumn: value }), true)}
+            {mapping.typeColumn === undefined && (
+              <label className="col-span-2 flex items-center space-x-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={mapping.negativeIsExpense}
+                  onChange={(e) => update({ negativeIsExpense: e.target.checked })}
+                  className="rounded border-gray-300 text-primary-600"
+                />
+                <span>Negative amounts are expenses</span>
+              </label>
+            )}
+          </>
+        ) : (
+          <>
+            {columnSelect('Debit (expense)', mapping.debitColumn, value => update({ debitColumn: value }))}
+            {columnSelect('Credit (income)', mapping.creditColumn, value => update({ creditColumn: value }))}
+          </>
+        )}
+        {columnSelect('Category (optional)', mapping.categoryColumn, value => update({ categoryColumn: value }), true)}
+      </div>
+
+      {/* Sample */}
+      {sampleRows.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs text-gray-600">
+            <thead>
+              <tr>
+                {headers.map((header, index) => (
+                  <th key={index} className="px-2 py-1 text-left font-medium text-gray-500 whitespace-nowrap">{header}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {sampleRows.map(row => (
+                <tr key={row.line} className="border-t border-gray-100">
+                  {headers.map((_, index) => (
+                    <td key={index} className="px-2 py-1 whitespace-nowrap">{row.cells[index]}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Save profile */}
+      <div className="flex space-x-2">
+        <input
+          type="text"
+          value={profileName}
+          onChange={(e) => setProfileName(e.target.value)}
+          placeholder="Profile name, e.g. My Bank"
+          className={selectClass}
+        />
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={handleSaveProfile}
+          disabled={!profileName.trim()}
+          className="text-gray-700 whitespace-nowrap"
+        >
+          <Save size={14} className="mr-1" />
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+};
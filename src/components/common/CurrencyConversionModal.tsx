@@ -1,9 +1,17 @@
-import React, { useState } from 'react';
-import { RefreshCw, TrendingUp, Clock, Wifi, WifiOff, AlertCircle, CheckCircle, ArrowRight } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { RefreshCw, TrendingUp, Clock, Wifi, WifiOff, AlertCircle, CheckCircle, ArrowRight, Undo2 } from 'lucide-react';
 import { Modal } from './Modal';
 import { Button } from './Button';
 import { useInternationalization } from '../../contexts/InternationalizationContext';
-import { useCurrencyConversion } from '../../contexts/CurrencyConversionContext';
+import { useCurrencyConversion, BaseCurrencyConversionPreview, ConvertibleEntity } from '../../contexts/CurrencyConversionContext';
+
+const ENTITY_LABELS: Record<ConvertibleEntity, string> = {
+  goals: 'Goals (target)',
+  liabilities: 'Liabilities (remaining)',
+  budgets: 'Budgets',
+  recurring_transactions: 'Recurring transactions',
+  transactions: 'Transactions',
+};
 
 interface CurrencyConversionModalProps {
   isOpen: boolean;
@@ -18,7 +26,10 @@ export const CurrencyConversionModal: React.FC<CurrencyConversionModalProps> = (
 }) => {
   const { currency, formatCurrency, setCurrency } = useInternationalization();
   const { 
-    convertAllUserData, 
+    changeBaseCurrency,
+    previewBaseCurrencyChange,
+    undoBaseCurrencyChange,
+    lastConversion,
     getConversionRate, 
     isLoading, 
     lastUpdated, 
@@ -30,6 +41,43 @@ export const CurrencyConversionModal: React.FC<CurrencyConversionModalProps> = (
   const [isConverting, setIsConverting] = useState(false);
   const [conversionComplete, setConversionComplete] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [preview, setPreview] = useState<BaseCurrencyConversionPreview | null>(null);
+  const [isPreviewLoading, setIsPreviewLoading] = useState(false);
+  const [isUndoing, setIsUndoing] = useState(false);
+
+  const targetCode: string | undefined = targetCurrency?.code;
+  // Rate the preview converts at; a refreshed rate calls for a new preview
+  const previewRate = targetCode ? getConversionRate(currency.code, targetCode) : undefined;
+  // The provider's latest preview function, so a re-render of the provider
+  // doesn't start another dry run
+  const previewRef = useRef(previewBaseCurrencyChange);
+  previewRef.current = previewBaseCurrencyChange;
+
+  // Dry run of the conversion so the user sees what will change
+  useEffect(() => {
+    if (!isOpen || !targetCode || targetCode === currency.code) {
+      setPreview(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsPreviewLoading(true);
+    setError(null);
+    previewRef.current(targetCode)
+      .then(result => {
+        if (!cancelled) setPreview(result);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err.message || 'Failed to preview conversion.');
+      })
+      .finally(() => {
+        if (!cancelled) setIsPreviewLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, targetCode, currency.code, previewRate]);
 
   const conversionRate = getConversionRate(currency.code, targetCurrency.code);
   const sampleAmounts = [100, 1000, 10000];
@@ -39,13 +87,12 @@ export const CurrencyConversionModal: React.FC<CurrencyConversionModalProps> = (
       setIsConverting(true);
       setError(null);
       
-      await convertAllUserData(targetCurrency.code);
+      await changeBaseCurrency(targetCurrency.code);
       setConversionComplete(true);
       
-      // Auto-close after success
+      // Reload so every page picks up the converted amounts
       setTimeout(() => {
-        onClose();
-        setConversionComplete(false);
+        window.location.reload();
       }, 2000);
       
     } catch (err: any) {
@@ -55,6 +102,19 @@ export const CurrencyConversionModal: React.FC<CurrencyConversionModalProps> = (
     }
   };
 
+  const handleUndo = async () => {
+    try {
+      setIsUndoing(true);
+      setError(null);
+      await undoBaseCurrencyChange();
+      window.location.reload();
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'Undo failed. Please try again.');
+    } finally {
+      setIsUndoing(false);
+    }
+  };
+
   const handleDirectCurrencyChange = (selectedCurrency: any) => {
     setCurrency(selectedCurrency);
     onClose();
@@ -194,6 +254,34 @@ export const CurrencyConversionModal: React.FC<CurrencyConversionModalProps> = (
           </div>
         </div>
 
+        {/* Dry-run Preview */}
+        <div>
+          <h4 className="text-sm font-medium text-gray-300 mb-3">What Will Be Converted</h4>
+          {isPreviewLoading ? (
+            <p className="text-sm text-gray-400">Calculating preview...</p>
+          ) : preview ? (
+            <div className="space-y-2">
+              {(Object.keys(ENTITY_LABELS) as ConvertibleEntity[]).map(entity => (
+                <div key={entity} className="flex justify-between items-center p-3 bg-black/20 rounded-lg text-sm">
+                  <span className="text-gray-300">
+                    {ENTITY_LABELS[entity]} ({preview.entities[entity].count})
+                  </span>
+                  <span className="text-white">
+                    {formatCurrency(Number(preview.entities[entity].before))}
+                    {' → '}
+                    {targetCurrency.symbol}{Number(preview.entities[entity].after).toLocaleString(undefined, {
+                      minimumFractionDigits: targetCurrency.decimals,
+                      maximumFractionDigits: targetCurrency.decimals
+                    })}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-400">Preview unavailable</p>
+          )}
+        </div>
+
         {/* Sample Conversions */}
         <div>
           <h4 className="text-sm font-medium text-gray-300 mb-3">Sample Conversions</h4>
@@ -247,14 +335,40 @@ export const CurrencyConversionModal: React.FC<CurrencyConversionModalProps> = (
               <p className="text-warning-400 font-medium mb-1">Important Notice</p>
               <ul className="text-warning-300 space-y-1 text-xs">
                 <li>• All your financial data will be converted to {targetCurrency.name}</li>
-                <li>• This action cannot be undone automatically</li>
+                <li>• Everything is converted at once; if any part fails nothing changes</li>
                 <li>• {isOnline ? 'Using live exchange rates' : 'Using cached exchange rates'}</li>
-                <li>• Original amounts are preserved for reference</li>
+                <li>• Transactions keep their original amounts and dated rates</li>
+                <li>• You can undo the conversion later, but amounts edited in between are reset</li>
               </ul>
             </div>
           </div>
         </div>
 
+        {/* Undo Last Conversion */}
+        {lastConversion && (
+          <div className="flex items-center justify-between p-3 bg-black/20 rounded-lg border border-white/10">
+            <div className="text-sm">
+              <p className="text-gray-300">
+                Last conversion: {lastConversion.fromCurrency} → {lastConversion.toCurrency}
+              </p>
+              <p className="text-xs text-gray-500">
+                {lastConversion.createdAt.toLocaleString()} • Rate {lastConversion.rate.toFixed(4)}
+              </p>
+            </div>
+            <Button
+              onClick={handleUndo}
+              size="sm"
+              variant="outline"
+              loading={isUndoing}
+              disabled={isConverting}
+              className="flex items-center space-x-1"
+            >
+              <Undo2 size={14} />
+              <span>Undo</span>
+            </Button>
+          </div>
+        )}
+
         {/* Error Message */}
         {error && (
           <div className="bg-error-500/20 border border-error-500/30 rounded-lg p-4">
@@ -286,7 +400,7 @@ export const CurrencyConversionModal: React.FC<CurrencyConversionModalProps> = (
             onClick={handleConversion}
             className="flex-1 bg-warning-500 hover:bg-warning-600"
             loading={isConverting}
-            disabled={isConverting || currency.code === targetCurrency.code}
+            disabled={isConverting || isUndoing || !preview || currency.code === targetCurrency.code}
           >
             Convert Data
           </Button>
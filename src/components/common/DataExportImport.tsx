@@ -2,17 +2,39 @@ import React, { useState } from 'react';
 import { Download, Upload, FileText, Database, AlertCircle, CheckCircle } from 'lucide-react';
 import { Button } from './Button';
 import { Modal } from './Modal';
+import { CsvColumnMapper } from './CsvColumnMapper';
 import { useFinance } from '../../contexts/FinanceContext';
+import {
+  ImportBundle,
+  ImportFormat,
+  ImportPreview,
+  ImportSummary,
+  IMPORT_ENTITIES,
+  IMPORT_ENTITY_LABELS,
+  StatementParseResult,
+  isExportCsv,
+  parseImportFile,
+} from '../../utils/dataImport';
+import { CsvColumnMapping, CsvRowError, DATE_FORMATS, DateFormat, guessMapping, mapBankCsv } from '../../utils/bankCsv';
+import { parseOfx, parseQif } from '../../utils/statementFormats';
 
 export const DataExportImport: React.FC = () => {
   const [showModal, setShowModal] = useState(false);
   const [activeTab, setActiveTab] = useState<'export' | 'import'>('export');
   const [exportFormat, setExportFormat] = useState<'json' | 'csv'>('json');
   const [importFile, setImportFile] = useState<File | null>(null);
+  const [importText, setImportText] = useState('');
+  const [importBundleData, setImportBundleData] = useState<ImportBundle | null>(null);
+  const [csvMapping, setCsvMapping] = useState<CsvColumnMapping | null>(null);
+  const [rowErrors, setRowErrors] = useState<CsvRowError[]>([]);
+  const [qifDateFormat, setQifDateFormat] = useState<DateFormat>('MM/DD/YYYY');
+  const [statementAccountId, setStatementAccountId] = useState('');
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(null);
+  const [importSummary, setImportSummary] = useState<ImportSummary | null>(null);
   const [status, setStatus] = useState<'idle' | 'loading' | 'success' | 'error'>('idle');
   const [message, setMessage] = useState('');
 
-  const { exportData, importData } = useFinance();
+  const { exportData, previewImportBundle, importBundle, accounts } = useFinance();
 
   const handleExport = async () => {
     try {
@@ -39,22 +61,112 @@ export const DataExportImport: React.FC = () => {
     }
   };
 
+  const getImportFormat = (file: File): ImportFormat => {
+    const name = file.name.toLowerCase();
+    if (name.endsWith('.csv')) return 'csv';
+    if (name.endsWith('.ofx') || name.endsWith('.qfx')) return 'ofx';
+    if (name.endsWith('.qif')) return 'qif';
+    return 'json';
+  };
+
+  const clearImport = () => {
+    setImportText('');
+    setImportBundleData(null);
+    setCsvMapping(null);
+    setRowErrors([]);
+    setImportPreview(null);
+  };
+
+  const handleFileSelect = async (file: File | null) => {
+    setImportFile(file);
+    setImportSummary(null);
+    clearImport();
+    resetStatus();
+    if (!file) return;
+
+    try {
+      setStatus('loading');
+      setMessage('Reading file...');
+      const text = await file.text();
+      const format = getImportFormat(file);
+      setImportText(text);
+
+      // Anything that isn't our own CSV export is treated as a bank statement
+      if (format === 'csv' && !isExportCsv(text)) {
+        setCsvMapping(guessMapping(text));
+      } else if (format === 'ofx') {
+        applyStatement(parseOfx(text), format);
+      } else if (format === 'qif') {
+        applyStatement(parseQif(text, qifDateFormat), format);
+      } else if (format === 'json' || format === 'csv') {
+        const bundle = parseImportFile(text, format);
+        setImportBundleData(bundle);
+        setImportPreview(previewImportBundle(bundle, format));
+      }
+      resetStatus();
+    } catch (error) {
+      setStatus('error');
+      setMessage(error instanceof Error ? error.message : 'Failed to read the file. Please check the file format.');
+    }
+  };
+
+  const applyStatement = (result: StatementParseResult, format: ImportFormat) => {
+    setRowErrors(result.errors);
+    setImportBundleData(result.bundle);
+    setImportPreview(previewImportBundle(result.bundle, format));
+  };
+
+  const handleQifDateFormatChange = (format: DateFormat) => {
+    setQifDateFormat(format);
+    try {
+      applyStatement(parseQif(importText, format), 'qif');
+    } catch (error) {
+      setStatus('error');
+      setMessage(error instanceof Error ? error.message : 'Failed to read the file.');
+    }
+  };
+
+  const handleMappingChange = (mapping: CsvColumnMapping) => {
+    setCsvMapping(mapping);
+    setImportBundleData(null);
+    setImportPreview(null);
+    setRowErrors([]);
+  };
+
+  const handleApplyMapping = () => {
+    if (!csvMapping) return;
+    applyStatement(mapBankCsv(importText, csvMapping), 'csv');
+  };
+
+  // Bank statements describe a single account; our own exports carry theirs
+  const isStatementImport = !!importFile && (
+    csvMapping !== null || ['ofx', 'qif'].includes(getImportFormat(importFile))
+  );
+
   const handleImport = async () => {
-    if (!importFile) return;
+    if (!importBundleData || !importPreview) return;
 
     try {
       setStatus('loading');
-      const text = await importFile.text();
-      const format = importFile.name.endsWith('.csv') ? 'csv' : 'json';
-      
-      await importData(text, format);
-      
-      setStatus('success');
-      setMessage('Data imported successfully!');
+      setMessage('Importing data...');
+      const summary = await importBundle(isStatementImport && statementAccountId
+        ? {
+          ...importBundleData,
+          transactions: importBundleData.transactions.map(t => ({ ...t, accountId: statementAccountId })),
+        }
+        : importBundleData);
+      const failed = IMPORT_ENTITIES.reduce((sum, entity) => sum + summary[entity].failed, 0);
+
+      setImportSummary(summary);
       setImportFile(null);
+      clearImport();
+      setStatus(failed > 0 ? 'error' : 'success');
+      setMessage(failed > 0
+        ? `Import finished with ${failed} failed record${failed === 1 ? '' : 's'}.`
+        : 'Data imported successfully!');
     } catch (error) {
       setStatus('error');
-      setMessage('Failed to import data. Please check the file format.');
+      setMessage(error instanceof Error ? error.message : 'Failed to import data. Please check the file format.');
     }
   };
 
@@ -228,8 +340,8 @@ export const DataExportImport: React.FC = () => {
                 <div className="border-2 border-dashed border-gray-300 rounded-lg p-6 text-center">
                   <input
                     type="file"
-                    accept=".json,.csv"
-                    onChange={(e) => setImportFile(e.target.files?.[0] || null)}
+                    accept=".json,.csv,.ofx,.qfx,.qif"
+                    onChange={(e) => handleFileSelect(e.target.files?.[0] || null)}
                     className="hidden"
                     id="import-file"
                   />
@@ -239,7 +351,7 @@ export const DataExportImport: React.FC = () => {
                       {importFile ? importFile.name : 'Click to select a file'}
                     </p>
                     <p className="text-xs text-gray-500 mt-1">
-                      Supports JSON and CSV files
+                      Supports Finspire backups (JSON, CSV) and bank statements (CSV, OFX/QFX, QIF)
                     </p>
                   </label>
                 </div>
@@ -258,10 +370,154 @@ export const DataExportImport: React.FC = () => {
                 </div>
               </div>
 
+              {/* Bank statement column mapping */}
+              {csvMapping && (
+                <div className="space-y-3">
+                  <h4 className="text-sm font-semibold text-gray-900">Map Columns</h4>
+                  <CsvColumnMapper text={importText} mapping={csvMapping} onChange={handleMappingChange} />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={handleApplyMapping}
+                    className="w-full text-gray-700 border-gray-300 hover:bg-gray-50"
+                  >
+                    Check Rows
+                  </Button>
+                </div>
+              )}
+
+              {/* Statement target account */}
+              {isStatementImport && accounts.some(a => !a.isArchived) && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Import into Account</label>
+                  <select
+                    value={statementAccountId}
+                    onChange={(e) => setStatementAccountId(e.target.value)}
+                    className="block w-full rounded-lg border-gray-300 text-sm text-gray-900 focus:border-primary-500 focus:ring-primary-500"
+                  >
+                    <option value="">No account</option>
+                    {accounts.filter(a => !a.isArchived).map(account => (
+                      <option key={account.id} value={account.id}>{account.name}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {/* QIF dates carry no format marker */}
+              {importFile && getImportFormat(importFile) === 'qif' && importText && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Date Format</label>
+                  <select
+                    value={qifDateFormat}
+                    onChange={(e) => handleQifDateFormatChange(e.target.value as DateFormat)}
+                    className="block w-full rounded-lg border-gray-300 text-sm text-gray-900 focus:border-primary-500 focus:ring-primary-500"
+                  >
+                    {DATE_FORMATS.map(format => (
+                      <option key={format} value={format}>{format}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {/* Rows rejected by validation */}
+              {rowErrors.length > 0 && (
+                <div className="bg-error-50 border border-error-200 rounded-lg p-3">
+                  <p className="text-sm font-medium text-error-700 mb-1">
+                    {rowErrors.length} row{rowErrors.length === 1 ? '' : 's'} will not be imported
+                  </p>
+                  <ul className="text-xs text-error-700 space-y-1 max-h-32 overflow-y-auto">
+                    {rowErrors.map(rowError => (
+                      <li key={rowError.line}>Line {rowError.line}: {rowError.messages.join('; ')}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              {/* Preview */}
+              {importPreview && (
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <h4 className="text-sm font-semibold text-gray-900">Preview</h4>
+                    <p className="text-xs text-gray-500">
+                      {importPreview.format.toUpperCase()} v{importPreview.version}
+                      {importPreview.exportDate && ` · exported ${importPreview.exportDate.toLocaleDateString()}`}
+                    </p>
+                  </div>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500">
+                        <th className="py-1 font-medium">Type</th>
+                        <th className="py-1 font-medium text-right">In file</th>
+                        <th className="py-1 font-medium text-right">New</th>
+                        <th className="py-1 font-medium text-right">Existing</th>
+                        <th className="py-1 font-medium text-right">Invalid</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {IMPORT_ENTITIES.filter(entity => importPreview.entities[entity].total > 0).map(entity => (
+                        <tr key={entity} className="border-t border-gray-100 text-gray-700">
+                          <td className="py-1">{IMPORT_ENTITY_LABELS[entity]}</td>
+                          <td className="py-1 text-right">{importPreview.entities[entity].total}</td>
+                          <td className="py-1 text-right text-success-700">{importPreview.entities[entity].new}</td>
+                          <td className="py-1 text-right">{importPreview.entities[entity].duplicates}</td>
+                          <td className="py-1 text-right text-error-700">{importPreview.entities[entity].invalid}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {importPreview.warnings.length > 0 && (
+                    <ul className="text-xs text-error-700 space-y-1">
+                      {importPreview.warnings.map((warning, index) => (
+                        <li key={index}>{warning}</li>
+                      ))}
+                    </ul>
+                  )}
+                  <p className="text-xs text-gray-500">
+                    Records that already exist will be skipped.
+                  </p>
+                </div>
+              )}
+
+              {/* Summary */}
+              {importSummary && (
+                <div className="space-y-2">
+                  <h4 className="text-sm font-semibold text-gray-900">Import Summary</h4>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500">
+                        <th className="py-1 font-medium">Type</th>
+                        <th className="py-1 font-medium text-right">Created</th>
+                        <th className="py-1 font-medium text-right">Skipped</th>
+                        <th className="py-1 font-medium text-right">Failed</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {IMPORT_ENTITIES.map(entity => (
+                        <tr key={entity} className="border-t border-gray-100 text-gray-700">
+                          <td className="py-1">{IMPORT_ENTITY_LABELS[entity]}</td>
+                          <td className="py-1 text-right text-success-700">{importSummary[entity].created}</td>
+                          <td className="py-1 text-right">{importSummary[entity].skipped}</td>
+                          <td className="py-1 text-right text-error-700">{importSummary[entity].failed}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {IMPORT_ENTITIES.some(entity => importSummary[entity].errors.length > 0) && (
+                    <ul className="text-xs text-error-700 space-y-1 max-h-32 overflow-y-auto">
+                      {IMPORT_ENTITIES.flatMap(entity =>
+                        importSummary[entity].errors.map((error, index) => (
+                          <li key={`${entity}-${index}`}>{IMPORT_ENTITY_LABELS[entity]} {error}</li>
+                        ))
+                      )}
+                    </ul>
+                  )}
+                </div>
+              )}
+
               <Button
                 onClick={handleImport}
                 className="w-full"
-                disabled={!importFile || status === 'loading'}
+                disabled={!importPreview || status === 'loading'}
                 loading={status === 'loading'}
               >
                 <Upload size={16} className="mr-2" />
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { TrendingUp, TrendingDown, RefreshCw, Wifi, WifiOff, Clock } from 'lucide-react';
+import { TrendingUp, TrendingDown, RefreshCw, Wifi, WifiOff, Clock, Pencil, Check, X } from 'lucide-react';
 import { useCurrencyConversion } from '../../contexts/CurrencyConversionContext';
 import { useInternationalization } from '../../contexts/InternationalizationContext';
 
@@ -12,10 +12,18 @@ export const LiveExchangeRateWidget: React.FC = () => {
     isLoading, 
     lastUpdated, 
     isOnline,
-    conversionHistory 
+    conversionHistory,
+    getRateSource,
+    getManualRate,
+    setManualRate,
+    clearManualRate
   } = useCurrencyConversion();
   
   const [showDetails, setShowDetails] = useState(false);
+  const [editingCurrency, setEditingCurrency] = useState<string | null>(null);
+  const [manualRateInput, setManualRateInput] = useState('');
+  const [manualFromInput, setManualFromInput] = useState('');
+  const [manualToInput, setManualToInput] = useState('');
 
   // Popular currencies to show rates for
   const popularCurrencies = ['USD', 'EUR', 'GBP', 'JPY', 'CNY', 'INR'];
@@ -35,6 +43,35 @@ export const LiveExchangeRateWidget: React.FC = () => {
     return { trend, change };
   };
 
+  const formatSource = (fromCurrency: string, toCurrency: string) => {
+    const source = getRateSource(fromCurrency, toCurrency);
+    return source.fetchedAt
+      ? `${source.provider} · ${source.fetchedAt.toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}`
+      : source.provider;
+  };
+
+  // A new manual rate covers today onwards unless other days are entered
+  const startEditing = (currencyCode: string, rate: number) => {
+    setEditingCurrency(currencyCode);
+    setManualRateInput(rate.toString());
+    setManualFromInput(new Date().toISOString().split('T')[0]);
+    setManualToInput('');
+  };
+
+  const saveManualRate = (currencyCode: string) => {
+    const rate = parseFloat(manualRateInput);
+    if (rate > 0 && manualFromInput) {
+      setManualRate(currency.code, currencyCode, rate, manualFromInput, manualToInput || undefined);
+    }
+    setEditingCurrency(null);
+  };
+
+  const formatManualRange = (currencyCode: string) => {
+    const manual = getManualRate(currency.code, currencyCode) ?? getManualRate(currencyCode, currency.code);
+    if (!manual) return null;
+    return manual.validTo ? `Manual ${manual.validFrom} – ${manual.validTo}` : `Manual from ${manual.validFrom}`;
+  };
+
   const getCurrencySymbol = (code: string) => {
     const symbols: Record<string, string> = {
       'USD': '$', 'EUR': '€', 'GBP': '£', 'JPY': '¥', 'CNY': '¥', 'INR': '₹',
@@ -84,18 +121,90 @@ export const LiveExchangeRateWidget: React.FC = () => {
         {displayCurrencies.map((currencyCode) => {
           const rate = getConversionRate(currency.code, currencyCode);
           const trend = getRecentTrend(currencyCode);
+          const isManual = !!(getManualRate(currency.code, currencyCode) || getManualRate(currencyCode, currency.code));
           
           return (
             <div key={currencyCode} className="flex items-center justify-between p-2 bg-black/20 rounded-lg hover:bg-black/30 transition-colors">
-              <div className="flex items-center space-x-3">
-                <span className="text-sm font-medium text-white">{currencyCode}</span>
-                <span className="text-xs text-gray-400">{getCurrencySymbol(currencyCode)}</span>
+              <div>
+                <div className="flex items-center space-x-3">
+                  <span className="text-sm font-medium text-white">{currencyCode}</span>
+                  <span className="text-xs text-gray-400">{getCurrencySymbol(currencyCode)}</span>
+                </div>
+                <p className={`text-[10px] ${isManual ? 'text-primary-400' : 'text-gray-500'}`}>
+                  {formatSource(currency.code, currencyCode)}
+                </p>
+                {isManual && (
+                  <p className="text-[10px] text-gray-500">{formatManualRange(currencyCode)}</p>
+                )}
               </div>
               
               <div className="flex items-center space-x-2">
-                <span className="text-sm font-medium text-white">
-                  {rate.toFixed(rate < 1 ? 6 : 4)}
-                </span>
+                {editingCurrency === currencyCode ? (
+                  <>
+                    <input
+                      type="number"
+                      step="any"
+                      min="0"
+                      value={manualRateInput}
+                      onChange={(e) => setManualRateInput(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && saveManualRate(currencyCode)}
+                      className="w-24 rounded border-white/20 bg-black/40 text-white text-sm py-1 px-2"
+                      aria-label={`Manual ${currency.code} to ${currencyCode} rate`}
+                      autoFocus
+                    />
+                    <input
+                      type="date"
+                      value={manualFromInput}
+                      onChange={(e) => setManualFromInput(e.target.value)}
+                      className="w-32 rounded border-white/20 bg-black/40 text-white text-xs py-1 px-1"
+                      aria-label="Manual rate applies from"
+                    />
+                    <input
+                      type="date"
+                      value={manualToInput}
+                      min={manualFromInput}
+                      onChange={(e) => setManualToInput(e.target.value)}
+                      className="w-32 rounded border-white/20 bg-black/40 text-white text-xs py-1 px-1"
+                      aria-label="Manual rate applies until (optional)"
+                    />
+                    <button
+                      onClick={() => saveManualRate(currencyCode)}
+                      className="p-1 hover:bg-white/10 rounded transition-colors"
+                      title="Use this rate"
+                    >
+                      <Check size={12} className="text-success-400" />
+                    </button>
+                    <button
+                      onClick={() => setEditingCurrency(null)}
+                      className="p-1 hover:bg-white/10 rounded transition-colors"
+                      title="Cancel"
+                    >
+                      <X size={12} className="text-gray-400" />
+                    </button>
+                  </>
+                ) : (
+                  <>
+                    <span className="text-sm font-medium text-white">
+                      {rate.toFixed(rate < 1 ? 6 : 4)}
+                    </span>
+                    <button
+                      onClick={() => startEditing(currencyCode, rate)}
+                      className="p-1 hover:bg-white/10 rounded transition-colors"
+                      title="Set a manual rate"
+                    >
+                      <Pencil size={12} className="text-gray-400" />
+                    </button>
+                    {isManual && (
+                      <button
+                        onClick={() => clearManualRate(currency.code, currencyCode)}
+                        className="p-1 hover:bg-white/10 rounded transition-colors"
+                        title="Clear manual rate"
+                      >
+                        <X size={12} className="text-gray-400" />
+                      </button>
+                    )}
+                  </>
+                )}
                 
                 {trend && (
                   <div className={`flex items-center space-x-1 ${
@@ -130,10 +239,10 @@ export const LiveExchangeRateWidget: React.FC = () => {
             {Object.entries(exchangeRates)
               .filter(([code]) => !displayCurrencies.includes(code) && code !== currency.code)
               .slice(0, 8)
-              .map(([code, rate]) => (
-                <div key={code} className="flex justify-between items-center p-1">
+              .map(([code]) => (
+                <div key={code} className="flex justify-between items-center p-1" title={formatSource(currency.code, code)}>
                   <span className="text-gray-400">{code}</span>
-                  <span className="text-gray-300">{rate.toFixed(4)}</span>
+                  <span className="text-gray-300">{getConversionRate(currency.code, code).toFixed(4)}</span>
                 </div>
               ))}
           </div>
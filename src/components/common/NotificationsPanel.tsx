@@ -3,6 +3,8 @@ import { Bell, X, CheckCircle, AlertCircle, Info, Calendar, CreditCard, Target,
 import { Button } from './Button';
 import { useFinance } from '../../contexts/FinanceContext';
 import { format, isToday, isYesterday, addDays } from 'date-fns';
+import { budgetAlertMessage, budgetAlertTitle } from '../../utils/budgets';
+import { goalMilestoneMessage, projectGoal } from '../../utils/goals';
 
 interface Notification {
   id: string;
@@ -11,6 +13,8 @@ interface Notification {
   type: 'info' | 'warning' | 'success' | 'error';
   read: boolean;
   createdAt: Date;
+  budgetAlertId?: string; // Stored budget alerts keep their read state
+  goalMilestoneId?: string; // So do reached milestones
 }
 
 interface NotificationsPanelProps {
@@ -19,7 +23,7 @@ interface NotificationsPanelProps {
 }
 
 export const NotificationsPanel: React.FC<NotificationsPanelProps> = ({ isOpen, onClose }) => {
-  const { transactions, goals, liabilities, budgets } = useFinance();
+  const { transactions, goals, goalContributions, liabilities, budgets, budgetAlerts, markBudgetAlertsRead, dismissBudgetAlert, markGoalMilestonesRead } = useFinance();
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [unreadCount, setUnreadCount] = useState(0);
   const [isAiGenerating, setIsAiGenerating] = useState(false);
@@ -48,19 +52,52 @@ export const NotificationsPanel: React.FC<NotificationsPanelProps> = ({ isOpen,
       }
     });
 
-    // Check for budget alerts
-    budgets.forEach(budget => {
-      const utilization = (budget.spent / budget.amount) * 100;
-      if (utilization >= 90) {
+    // Budget alerts are raised as thresholds are crossed and stored
+    budgetAlerts
+      .filter(alert => !alert.dismissedAt)
+      .forEach(alert => {
+        const budget = budgets.find(b => b.id === alert.budgetId);
+        if (!budget) return;
         generatedNotifications.push({
-          id: `budget_${budget.id}`,
-          title: 'Budget Alert',
-          message: `Your ${budget.category} budget is at ${utilization.toFixed(0)}% of its limit.`,
-          type: utilization >= 100 ? 'error' : 'warning',
-          read: false,
-          createdAt: new Date(now.getTime() - Math.floor(Math.random() * 3) * 24 * 60 * 60 * 1000)
+          id: `budget_alert_${alert.id}`,
+          title: budgetAlertTitle(alert),
+          message: budgetAlertMessage(alert, budget.category),
+          type: alert.kind === 'threshold' && alert.threshold >= 100 ? 'error' : 'warning',
+          read: !!alert.readAt,
+          createdAt: alert.createdAt,
+          budgetAlertId: alert.id,
+        });
+      });
+
+    // Milestones reached in the last 30 days
+    goals.forEach(goal => {
+      goal.milestones
+        .filter(m => m.reachedAt && now.getTime() - m.reachedAt.getTime() <= 30 * 24 * 60 * 60 * 1000)
+        .forEach(milestone => {
+          generatedNotifications.push({
+            id: `goal_milestone_${milestone.id}`,
+            title: 'Milestone Reached',
+            message: goalMilestoneMessage(milestone, goal.title),
+            type: 'success',
+            read: !!milestone.readAt,
+            createdAt: milestone.reachedAt as Date,
+            goalMilestoneId: milestone.id,
+          });
         });
-      }
+    });
+
+    // Goals that the recent pace of contributions will never reach
+    goals.forEach(goal => {
+      const projection = projectGoal(goal, goalContributions, now);
+      if (projection.status !== 'unreachable') return;
+      generatedNotifications.push({
+        id: `goal_unreachable_${goal.id}`,
+        title: 'Goal Out of Reach',
+        message: `Nothing has been saved towards ${goal.title} recently. It needs ${projection.requiredMonthly.toLocaleString()} a month to be reached by ${format(goal.targetDate, 'MMM d, yyyy')}.`,
+        type: 'warning',
+        read: false,
+        createdAt: now
+      });
     });
 
     // Check for goal milestones
@@ -154,14 +191,24 @@ export const NotificationsPanel: React.FC<NotificationsPanelProps> = ({ isOpen,
 
     setNotifications(sortedNotifications);
     setUnreadCount(sortedNotifications.filter(n => !n.read).length);
-  }, [isOpen, liabilities, budgets, goals, transactions]);
+  }, [isOpen, liabilities, budgets, budgetAlerts, goals, goalContributions, transactions]);
 
   const markAllAsRead = () => {
+    markBudgetAlertsRead().catch(() => undefined);
+    markGoalMilestonesRead().catch(() => undefined);
     setNotifications(prev => prev.map(notification => ({ ...notification, read: true })));
     setUnreadCount(0);
   };
 
   const markAsRead = (id: string) => {
+    const notification = notifications.find(n => n.id === id);
+    if (!notification || notification.read) return;
+    if (notification.budgetAlertId) {
+      markBudgetAlertsRead([notification.budgetAlertId]).catch(() => undefined);
+    }
+    if (notification.goalMilestoneId) {
+      markGoalMilestonesRead([notification.goalMilestoneId]).catch(() => undefined);
+    }
     setNotifications(prev => 
       prev.map(notification => 
         notification.id === id ? { ...notification, read: true } : notification
@@ -172,6 +219,12 @@ export const NotificationsPanel: React.FC<NotificationsPanelProps> = ({ isOpen,
 
   const deleteNotification = (id: string) => {
     const notification = notifications.find(n => n.id === id);
+    if (notification?.budgetAlertId) {
+      dismissBudgetAlert(notification.budgetAlertId).catch(() => undefined);
+    }
+    if (notification?.goalMilestoneId) {
+      markGoalMilestonesRead([notification.goalMilestoneId]).catch(() => undefined);
+    }
     setNotifications(prev => prev.filter(notification => notification.id !== id));
     if (notification && !notification.read) {
       setUnreadCount(prev => Math.max(0, prev - 1));
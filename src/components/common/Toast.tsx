@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { CheckCircle, AlertCircle, Info, X } from 'lucide-react';
 
 interface ToastProps {
@@ -88,10 +88,11 @@ export const ToastProvider: React.FC<ToastProviderProps> = ({ children }) => {
     type: 'success' | 'error' | 'info';
   }>>([]);
 
-  const showToast = (message: string, type: 'success' | 'error' | 'info') => {
+  // Stable, so effects that announce with it don't re-run on every toast
+  const showToast = useCallback((message: string, type: 'success' | 'error' | 'info') => {
     const id = Date.now().toString();
     setToasts(prev => [...prev, { id, message, type }]);
-  };
+  }, []);
 
   const removeToast = (id: string) => {
     setToasts(prev => prev.filter(toast => toast.id !== id));
@@ -0,0 +1,283 @@
+import React, { useState } from 'react';
+import { Plus, Edit3, Trash2, Wallet, Archive, ArchiveRestore, AlertCircle, ArrowLeftRight } from 'lucide-react';
+import { Button } from '../common/Button';
+import { Modal } from '../common/Modal';
+import { AccountForm } from '../forms/AccountForm';
+import { TransferForm, TransferSubmitData } from '../forms/TransferForm';
+import { useFinance } from '../../contexts/FinanceContext';
+import { useInternationalization } from '../../contexts/InternationalizationContext';
+import { Account } from '../../types';
+import { ACCOUNT_TYPE_LABELS } from '../../utils/accountBalances';
+
+const getTypeColor = (type: Account['type']) => {
+  const colors = {
+    checking: 'bg-blue-500',
+    savings: 'bg-green-500',
+    cash: 'bg-yellow-500',
+    credit_card: 'bg-purple-500',
+    investment: 'bg-orange-500',
+  };
+  return colors[type] || 'bg-gray-500';
+};
+
+export const AccountBalances: React.FC = () => {
+  const { getAccountBalances, addAccount, updateAccount, deleteAccount, addTransaction } = useFinance();
+  const { formatCurrency, currency } = useInternationalization();
+  const [showModal, setShowModal] = useState(false);
+  const [editingAccount, setEditingAccount] = useState<Account | null>(null);
+  const [accountToDelete, setAccountToDelete] = useState<Account | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [showTransferModal, setShowTransferModal] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const balances = getAccountBalances();
+  const activeBalances = balances.filter(b => !b.account.isArchived);
+  const archivedBalances = balances.filter(b => b.account.isArchived);
+
+  // Balances in another currency are shown as-is with their code
+  const formatBalance = (amount: number, accountCurrency: string) =>
+    accountCurrency === currency.code
+      ? formatCurrency(amount)
+      : `${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${accountCurrency}`;
+
+  const totalBalance = activeBalances
+    .filter(b => b.account.currency === currency.code)
+    .reduce((sum, b) => sum + b.balance, 0);
+
+  const handleSubmit = async (data: Omit<Account, 'id' | 'userId' | 'createdAt'>) => {
+    if (editingAccount) {
+      await updateAccount(editingAccount.id, data);
+    } else {
+      await addAccount(data);
+    }
+    setShowModal(false);
+    setEditingAccount(null);
+  };
+
+  const handleTransfer = async (data: TransferSubmitData) => {
+    await addTransaction(data);
+    setShowTransferModal(false);
+  };
+
+  const handleToggleArchived = async (account: Account) => {
+    try {
+      setError(null);
+      await updateAccount(account.id, { isArchived: !account.isArchived });
+    } catch (error: unknown) {
+      console.error('Error archiving account:', error);
+      setError(error instanceof Error ? error.message : 'Failed to update account');
+    }
+  };
+
+  const confirmDeleteAccount = async () => {
+    if (!accountToDelete) return;
+
+    try {
+      setIsSubmitting(true);
+      setError(null);
+      await deleteAccount(accountToDelete.id);
+      setAccountToDelete(null);
+    } catch (error: unknown) {
+      console.error('Error deleting account:', error);
+      setError(error instanceof Error ? error.message : 'Failed to delete account');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderAccount = (account: Account, balance: number, transactionCount: number) => (
+    <div key={account.id} className="bg-black/20 backdrop-blur-md rounded-xl p-4 border border-white/10">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-3">
+          <div className={`w-10 h-10 rounded-lg ${getTypeColor(account.type)} flex items-center justify-center`}>
+            <Wallet size={20} className="text-white" />
+          </div>
+          <div>
+            <h4 className="font-medium text-white">{account.name}</h4>
+            <p className="text-xs text-gray-400">
+              {ACCOUNT_TYPE_LABELS[account.type]} • {transactionCount} transaction{transactionCount !== 1 ? 's' : ''}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <p className={`font-semibold ${balance >= 0 ? 'text-white' : 'text-error-400'}`}>
+            {formatBalance(balance, account.currency)}
+          </p>
+          <button
+            onClick={() => {
+              setEditingAccount(account);
+              setShowModal(true);
+            }}
+            className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+            title="Edit account"
+          >
+            <Edit3 size={14} className="text-gray-400" />
+          </button>
+          <button
+            onClick={() => handleToggleArchived(account)}
+            className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+            title={account.isArchived ? 'Restore account' : 'Archive account'}
+          >
+            {account.isArchived ? (
+              <ArchiveRestore size={14} className="text-gray-400" />
+            ) : (
+              <Archive size={14} className="text-gray-400" />
+            )}
+          </button>
+          {account.isArchived && (
+            <button
+              onClick={() => setAccountToDelete(account)}
+              className="p-2 hover:bg-error-500/20 rounded-lg transition-colors"
+              title="Delete account"
+            >
+              <Trash2 size={14} className="text-error-400" />
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-white flex items-center">
+            <Wallet size={20} className="mr-2 text-primary-400" />
+            Accounts
+          </h3>
+          {activeBalances.length > 0 && (
+            <p className="text-sm text-gray-400">
+              Total: {formatCurrency(totalBalance)} across {activeBalances.length} account{activeBalances.length !== 1 ? 's' : ''}
+            </p>
+          )}
+        </div>
+        <div className="flex items-center space-x-2">
+          {activeBalances.length > 1 && (
+            <Button
+              onClick={() => setShowTransferModal(true)}
+              size="sm"
+              variant="outline"
+              className="flex items-center space-x-2"
+            >
+              <ArrowLeftRight size={16} />
+              <span>Transfer</span>
+            </Button>
+          )}
+          <Button
+            onClick={() => setShowModal(true)}
+            size="sm"
+            className="flex items-center space-x-2"
+          >
+            <Plus size={16} />
+            <span>Add Account</span>
+          </Button>
+        </div>
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div className="bg-error-500/20 border border-error-500/30 rounded-lg p-4">
+          <div className="flex items-center space-x-2">
+            <AlertCircle size={18} className="text-error-400" />
+            <p className="text-error-400 text-sm">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Active Accounts */}
+      {activeBalances.length > 0 ? (
+        <div className="space-y-3">
+          {activeBalances.map(b => renderAccount(b.account, b.balance, b.transactionCount))}
+        </div>
+      ) : (
+        <div className="text-center py-8 bg-black/20 backdrop-blur-md rounded-xl border border-white/10">
+          <Wallet size={48} className="mx-auto text-gray-600 mb-4" />
+          <h4 className="text-lg font-semibold text-white mb-2">No Accounts</h4>
+          <p className="text-gray-400 mb-4">Add your bank accounts, cards and cash to see a balance for each</p>
+          <Button onClick={() => setShowModal(true)}>
+            <Plus size={18} className="mr-2" />
+            Add First Account
+          </Button>
+        </div>
+      )}
+
+      {/* Archived Accounts */}
+      {archivedBalances.length > 0 && (
+        <div className="space-y-3">
+          <button
+            onClick={() => setShowArchived(!showArchived)}
+            className="text-sm text-gray-400 hover:text-white"
+          >
+            {showArchived ? 'Hide' : 'Show'} archived accounts ({archivedBalances.length})
+          </button>
+          {showArchived && archivedBalances.map(b => renderAccount(b.account, b.balance, b.transactionCount))}
+        </div>
+      )}
+
+      {/* Add/Edit Modal */}
+      <Modal
+        isOpen={showModal}
+        onClose={() => {
+          setShowModal(false);
+          setEditingAccount(null);
+        }}
+        title={editingAccount ? 'Edit Account' : 'Add Account'}
+      >
+        <AccountForm
+          initialData={editingAccount || undefined}
+          onSubmit={handleSubmit}
+          onCancel={() => {
+            setShowModal(false);
+            setEditingAccount(null);
+          }}
+        />
+      </Modal>
+
+      {/* Transfer Modal */}
+      <Modal
+        isOpen={showTransferModal}
+        onClose={() => setShowTransferModal(false)}
+        title="Transfer Between Accounts"
+      >
+        <TransferForm
+          onSubmit={handleTransfer}
+          onCancel={() => setShowTransferModal(false)}
+        />
+      </Modal>
+
+      {/* Delete Confirmation Modal */}
+      <Modal
+        isOpen={!!accountToDelete}
+        onClose={() => setAccountToDelete(null)}
+        title="Delete Account"
+      >
+        <div className="space-y-4">
+          <p className="text-gray-300">
+            Delete {accountToDelete?.name}? Its transactions are kept but will no longer belong to an account.
+          </p>
+          <div className="flex space-x-3">
+            <Button
+              variant="outline"
+              onClick={() => setAccountToDelete(null)}
+              className="flex-1"
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+            <Button
+              onClick={confirmDeleteAccount}
+              className="flex-1 bg-error-500 hover:bg-error-600"
+              loading={isSubmitting}
+            >
+              Delete
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+};
@@ -1,10 +1,14 @@
 import React, { useState, useEffect } from 'react';
-import { TrendingUp, Calendar, DollarSign, Target, RefreshCw, AlertTriangle, CheckCircle, Info, ArrowRight, Zap } from 'lucide-react';
+import { TrendingUp, Calendar, DollarSign, Target, RefreshCw, AlertTriangle, CheckCircle, Info, ArrowRight, Zap, Repeat } from 'lucide-react';
+import { addDays, format } from 'date-fns';
 import { Button } from '../common/Button';
 import { useFinance } from '../../contexts/FinanceContext';
 import { useInternationalization } from '../../contexts/InternationalizationContext';
 import { CurrencyIcon } from '../common/CurrencyIcon';
 
+// Days of scheduled recurring transactions shown as upcoming cash flow
+const UPCOMING_DAYS = 30;
+
 interface FinancialForecastProps {
   maxRecommendations?: number;
 }
@@ -12,7 +16,7 @@ interface FinancialForecastProps {
 export const FinancialForecast: React.FC<FinancialForecastProps> = ({ 
   maxRecommendations = 3 
 }) => {
-  const { transactions, goals, liabilities, budgets, stats } = useFinance();
+  const { transactions, goals, liabilities, budgets, stats, getScheduledOccurrences } = useFinance();
   const { formatCurrency, currency } = useInternationalization();
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -20,6 +24,16 @@ export const FinancialForecast: React.FC<FinancialForecastProps> = ({
   const [timeHorizon, setTimeHorizon] = useState<1 | 5 | 10 | 20>(5);
   const [showDetails, setShowDetails] = useState(false);
 
+  // Skipped occurrences are left out; moved ones count on their new date
+  const upcoming = getScheduledOccurrences(new Date(), addDays(new Date(), UPCOMING_DAYS))
+    .filter(occurrence => !occurrence.isSkipped);
+  const upcomingIncome = upcoming
+    .filter(o => o.type === 'income')
+    .reduce((sum, o) => sum + o.amount, 0);
+  const upcomingExpenses = upcoming
+    .filter(o => o.type === 'expense')
+    .reduce((sum, o) => sum + o.amount, 0);
+
   const fetchForecast = async () => {
     try {
       setIsLoading(true);
@@ -28,7 +42,8 @@ export const FinancialForecast: React.FC<FinancialForecastProps> = ({
       // Calculate current financial state
       const monthlyIncome = stats.monthlyIncome || 0;
       const monthlyExpenses = stats.monthlyExpenses || 0;
-      const currentSavings = goals.reduce((sum, g) => sum + g.currentAmount, 0) || 0;
+      // Own amounts, so savings towards a sub-goal are not counted twice
+      const currentSavings = goals.reduce((sum, g) => sum + g.ownAmount, 0) || 0;
       const totalDebt = liabilities.reduce((sum, l) => sum + l.remainingAmount, 0) || 0;
       const monthlyDebtPayment = liabilities.reduce((sum, l) => sum + l.monthlyPayment, 0) || 0;
       
@@ -65,6 +80,11 @@ export const FinancialForecast: React.FC<FinancialForecastProps> = ({
           targetDate: g.targetDate.toISOString(),
         })),
         savingsRate: monthlyIncome > 0 ? ((monthlyIncome - monthlyExpenses) / monthlyIncome) * 100 : 0,
+        upcomingRecurring: {
+          days: UPCOMING_DAYS,
+          income: upcomingIncome,
+          expenses: upcomingExpenses,
+        },
         timeHorizon,
       };
 
@@ -391,6 +411,54 @@ export const FinancialForecast: React.FC<FinancialForecastProps> = ({
         </div>
       </div>
 
+      {/* Upcoming Cash Flow */}
+      {upcoming.length > 0 && (
+        <div className="mb-6">
+          <div className="flex items-center justify-between mb-3">
+            <h4 className="font-medium text-white flex items-center">
+              <Repeat size={16} className="mr-2 text-blue-400" />
+              Upcoming Cash Flow
+            </h4>
+            <span className="text-xs text-gray-400">Next {UPCOMING_DAYS} days</span>
+          </div>
+
+          <div className="grid grid-cols-3 gap-3 mb-3">
+            <div className="bg-black/30 rounded-lg p-3 border border-white/10 text-center">
+              <p className="text-xs text-gray-400 mb-1">Income</p>
+              <p className="text-lg font-semibold text-success-400">{formatCurrency(upcomingIncome)}</p>
+            </div>
+            <div className="bg-black/30 rounded-lg p-3 border border-white/10 text-center">
+              <p className="text-xs text-gray-400 mb-1">Bills</p>
+              <p className="text-lg font-semibold text-error-400">{formatCurrency(upcomingExpenses)}</p>
+            </div>
+            <div className="bg-black/30 rounded-lg p-3 border border-white/10 text-center">
+              <p className="text-xs text-gray-400 mb-1">Net</p>
+              <p className={`text-lg font-semibold ${upcomingIncome - upcomingExpenses >= 0 ? 'text-success-400' : 'text-error-400'}`}>
+                {formatCurrency(upcomingIncome - upcomingExpenses)}
+              </p>
+            </div>
+          </div>
+
+          {showDetails && (
+            <div className="space-y-2">
+              {upcoming.map(occurrence => (
+                <div
+                  key={`${occurrence.recurringTransactionId}-${occurrence.scheduledDate.toISOString()}`}
+                  className="flex items-center justify-between text-sm"
+                >
+                  <span className="text-gray-300">
+                    {format(occurrence.date, 'MMM d')} • {occurrence.description}
+                  </span>
+                  <span className={occurrence.type === 'income' ? 'text-success-400' : 'text-error-400'}>
+                    {occurrence.type === 'income' ? '+' : '-'}{formatCurrency(occurrence.amount)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Recommendations */}
       <div className="space-y-3">
         <h4 className="font-medium text-white">AI Recommendations</h4>
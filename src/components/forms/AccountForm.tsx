@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { Wallet, Globe, AlertCircle } from 'lucide-react';
+import { Input } from '../common/Input';
+import { Button } from '../common/Button';
+import { Account } from '../../types';
+import { useInternationalization } from '../../contexts/InternationalizationContext';
+import { CurrencyIcon } from '../common/CurrencyIcon';
+import { ACCOUNT_TYPE_LABELS } from '../../utils/accountBalances';
+
+interface AccountFormData {
+  name: string;
+  type: Account['type'];
+  openingBalance: number;
+  currency: string;
+}
+
+interface AccountFormProps {
+  initialData?: Account;
+  onSubmit: (data: Omit<Account, 'id' | 'userId' | 'createdAt'>) => Promise<void>;
+  onCancel: () => void;
+}
+
+const typeOptions: Array<{ value: Account['type']; icon: string; description: string }> = [
+  { value: 'checking', icon: '🏦', description: 'Everyday bank account' },
+  { value: 'savings', icon: '🐖', description: 'Money set aside' },
+  { value: 'cash', icon: '💵', description: 'Wallet or petty cash' },
+  { value: 'credit_card', icon: '💳', description: 'Card you pay off later' },
+  { value: 'investment', icon: '📈', description: 'Brokerage or retirement' },
+];
+
+export const AccountForm: React.FC<AccountFormProps> = ({ initialData, onSubmit, onCancel }) => {
+  const { currency, supportedCurrencies } = useInternationalization();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { register, handleSubmit, watch, formState: { errors } } = useForm<AccountFormData>({
+    defaultValues: initialData ? {
+      name: initialData.name,
+      type: initialData.type,
+      openingBalance: initialData.openingBalance,
+      currency: initialData.currency,
+    } : {
+      type: 'checking',
+      openingBalance: 0,
+      currency: currency.code,
+    },
+  });
+
+  const selectedType = watch('type');
+  const selectedCurrency = watch('currency');
+
+  const handleFormSubmit = async (data: AccountFormData) => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      await onSubmit({
+        name: data.name.trim(),
+        type: data.type,
+        openingBalance: Number(data.openingBalance) || 0,
+        currency: data.currency,
+        isArchived: initialData?.isArchived ?? false,
+      });
+    } catch (error: unknown) {
+      console.error('Error submitting account:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save account. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit(handleFormSubmit)} className="space-y-6">
+      {/* Error Message */}
+      {error && (
+        <div className="bg-error-500/20 border border-error-500/30 rounded-lg p-4">
+          <div className="flex items-center space-x-2">
+            <AlertCircle size={18} className="text-error-400" />
+            <p className="text-error-400 text-sm">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Name */}
+      <div className="bg-black/30 backdrop-blur-md rounded-xl p-4 border border-white/20">
+        <Input
+          label="Account Name"
+          type="text"
+          icon={<Wallet size={18} className="text-blue-400" />}
+          {...register('name', { required: 'Account name is required' })}
+          error={errors.name?.message}
+          className="bg-black/40 border-white/20 text-white"
+          placeholder="e.g., Main Checking, Travel Card"
+        />
+      </div>
+
+      {/* Type */}
+      <div className="bg-black/30 backdrop-blur-md rounded-xl p-4 border border-white/20">
+        <label className="block text-sm font-medium text-gray-300 mb-3">Account Type</label>
+        <div className="grid grid-cols-2 gap-3">
+          {typeOptions.map(option => (
+            <label key={option.value} className="cursor-pointer">
+              <input
+                type="radio"
+                value={option.value}
+                {...register('type', { required: 'Account type is required' })}
+                className="sr-only"
+              />
+              <div className={`p-3 rounded-lg border-2 transition-colors ${
+                selectedType === option.value
+                  ? 'border-primary-500 bg-primary-500/20 text-primary-400'
+                  : 'border-white/20 hover:border-white/30 text-gray-300'
+              }`}>
+                <p className="font-medium">
+                  <span className="mr-2">{option.icon}</span>
+                  {ACCOUNT_TYPE_LABELS[option.value]}
+                </p>
+                <p className="text-xs opacity-80">{option.description}</p>
+              </div>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {/* Opening balance and currency */}
+      <div className="bg-black/30 backdrop-blur-md rounded-xl p-4 border border-white/20 space-y-4">
+        <Input
+          label="Opening Balance"
+          type="number"
+          step="0.01"
+          icon={<CurrencyIcon currencyCode={selectedCurrency || currency.code} className="text-green-400" />}
+          {...register('openingBalance', { required: 'Opening balance is required' })}
+          error={errors.openingBalance?.message}
+          className="bg-black/40 border-white/20 text-white"
+          placeholder="e.g., 1500"
+        />
+        <p className="text-xs text-gray-400">
+          {selectedType === 'credit_card'
+            ? 'Enter what you owe as a negative number, e.g. -250.'
+            : 'The balance before the first transaction you record here.'}
+        </p>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2 flex items-center">
+            <Globe size={16} className="mr-2 text-purple-400" />
+            Currency
+          </label>
+          <select
+            {...register('currency', { required: 'Currency is required' })}
+            className="block w-full rounded-xl border-white/20 bg-black/40 text-white shadow-sm focus:border-primary-500 focus:ring-primary-500 py-3 px-4"
+          >
+            {supportedCurrencies.map(c => (
+              <option key={c.code} value={c.code} className="bg-black/90">
+                {c.code} - {c.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {/* Actions */}
+      <div className="flex space-x-4 pt-4">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={onCancel}
+          className="flex-1 border-white/20 text-white hover:bg-white/10"
+          disabled={isSubmitting}
+        >
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          className="flex-1 bg-gradient-to-r from-primary-500 to-primary-600 hover:from-primary-600 hover:to-primary-700"
+          loading={isSubmitting}
+        >
+          {initialData ? 'Update Account' : 'Add Account'}
+        </Button>
+      </div>
+    </form>
+  );
+};
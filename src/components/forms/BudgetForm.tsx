@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { useForm } from 'react-hook-form';
-import { Calculator, Tag, Calendar, AlertCircle } from 'lucide-react';
+import { Calculator, Tag, Calendar, AlertCircle, FileText, Bell } from 'lucide-react';
 import { validateBudget, sanitizeFinancialData, toNumber } from '../../utils/validation';
 import { Input } from '../common/Input';
 import { Button } from '../common/Button';
@@ -8,11 +8,16 @@ import { Budget } from '../../types';
 import { useInternationalization } from '../../contexts/InternationalizationContext';
 import { CurrencyIcon } from '../common/CurrencyIcon';
 import { useFinance } from '../../contexts/FinanceContext';
+import { DEFAULT_ALERT_THRESHOLDS } from '../../utils/budgets';
 
 interface BudgetFormData {
-  category: string;
+  name: string;
   amount: number;
-  period: 'weekly' | 'monthly' | 'yearly';
+  period: Budget['period'];
+  startDate: string;
+  endDate: string;
+  rollover: boolean;
+  paceAlerts: boolean;
 }
 
 interface BudgetFormProps {
@@ -24,26 +29,57 @@ interface BudgetFormProps {
 const periodOptions = [
   { value: 'weekly', label: 'Weekly', description: 'Reset every week' },
   { value: 'monthly', label: 'Monthly', description: 'Most common choice' },
-  { value: 'yearly', label: 'Yearly', description: 'Annual planning' }
+  { value: 'yearly', label: 'Yearly', description: 'Annual planning' },
+  { value: 'custom', label: 'One-off', description: 'Custom dates, e.g. a trip or project' }
 ];
 
+const thresholdOptions = [50, 75, 80, 90, 100];
+
+const toDateInput = (date?: Date) => (date ? date.toISOString().split('T')[0] : '');
+
 export const BudgetForm: React.FC<BudgetFormProps> = ({ initialData, onSubmit, onCancel }) => {
   const { currency } = useInternationalization();
   const { userCategories } = useFinance();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [selectedCategories, setSelectedCategories] = useState<string[]>(initialData?.categories ?? []);
+  const [alertThresholds, setAlertThresholds] = useState<number[]>(initialData?.alertThresholds ?? DEFAULT_ALERT_THRESHOLDS);
   
   const { register, handleSubmit, watch, formState: { errors } } = useForm<BudgetFormData>({
     defaultValues: initialData ? {
-      category: initialData.category,
+      // A single-category budget is named after its category
+      name: initialData.categories.length === 1 && initialData.categories[0] === initialData.category
+        ? ''
+        : initialData.category,
       amount: initialData.amount,
       period: initialData.period,
+      startDate: toDateInput(initialData.startDate),
+      endDate: toDateInput(initialData.endDate),
+      rollover: !!initialData.rollover,
+      paceAlerts: initialData.paceAlerts !== false,
     } : {
+      name: '',
       period: 'monthly',
+      startDate: '',
+      endDate: '',
+      rollover: false,
+      paceAlerts: true,
     },
   });
 
   const selectedPeriod = watch('period');
+  const rollover = watch('rollover');
+  const isCustom = selectedPeriod === 'custom';
+
+  const toggleThreshold = (threshold: number) =>
+    setAlertThresholds(prev =>
+      prev.includes(threshold) ? prev.filter(t => t !== threshold) : [...prev, threshold].sort((a, b) => a - b)
+    );
+
+  const toggleCategory = (category: string) =>
+    setSelectedCategories(prev =>
+      prev.includes(category) ? prev.filter(c => c !== category) : [...prev, category]
+    );
   
   // Get expense categories (with fallback to default categories)
   const defaultExpenseCategories = ['Food', 'Transportation', 'Entertainment', 'Shopping', 'Bills', 'Healthcare', 'Other'];
@@ -51,23 +87,35 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({ initialData, onSubmit, o
   const expenseCategories = userExpenseCategories.length > 0 
     ? userExpenseCategories.map(c => c.name)
     : defaultExpenseCategories;
+  // Keep categories of an existing budget selectable even if they were removed since
+  const categoryOptions = [...expenseCategories, ...selectedCategories.filter(c => !expenseCategories.includes(c))];
 
   const handleFormSubmit = async (data: BudgetFormData) => {
     try {
       setIsSubmitting(true);
       setError(null);
       
+      const name = data.name.trim();
+      if (!name && selectedCategories.length > 1) {
+        throw new Error('Name budgets that cover several categories');
+      }
+
       // Sanitize and validate data
       const sanitizedData = sanitizeFinancialData(data, ['amount']);
       const validatedData = validateBudget({
-        ...sanitizedData,
+        category: name || selectedCategories[0] || '',
+        categories: selectedCategories,
         amount: toNumber(sanitizedData.amount),
+        period: sanitizedData.period,
+        startDate: isCustom && data.startDate ? new Date(data.startDate) : undefined,
+        endDate: isCustom && data.endDate ? new Date(data.endDate) : undefined,
+        // A one-off budget has no next period to carry into
+        rollover: !isCustom && sanitizedData.rollover,
+        alertThresholds,
+        paceAlerts: sanitizedData.paceAlerts,
       });
       
-      await onSubmit({
-        ...validatedData,
-        spent: initialData?.spent || 0,
-      });
+      await onSubmit(validatedData);
       
     } catch (error: any) {
       console.error('Error submitting budget:', error);
@@ -102,24 +150,42 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({ initialData, onSubmit, o
 
       {/* Category Selection */}
       <div className="bg-black/30 backdrop-blur-md rounded-xl p-4 border border-white/20">
-        <label className="block text-sm font-medium text-gray-300 mb-3 flex items-center">
+        <label className="block text-sm font-medium text-gray-300 mb-1 flex items-center">
           <Tag size={16} className="mr-2 text-yellow-400" />
-          Category
+          Categories
         </label>
-        <select
-          {...register('category', { required: 'Category is required' })}
-          className="block w-full rounded-xl border-white/20 bg-black/40 text-white shadow-sm focus:border-primary-500 focus:ring-primary-500 py-3 px-4"
-        >
-          <option value="" className="bg-black/90">Select a category</option>
-          {expenseCategories.map((category) => (
-            <option key={category.id} value={category.name} className="bg-black/90">
-              {category.name}
-            </option>
+        <p className="text-xs text-gray-400 mb-3">
+          Choose one category, or several to budget them together.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {categoryOptions.map((category) => (
+            <button
+              key={category}
+              type="button"
+              onClick={() => toggleCategory(category)}
+              className={`px-3 py-1.5 rounded-full text-sm border transition-colors ${
+                selectedCategories.includes(category)
+                  ? 'border-primary-500 bg-primary-500/20 text-primary-400'
+                  : 'border-white/20 text-gray-300 hover:border-white/30'
+              }`}
+            >
+              {category}
+            </button>
           ))}
-        </select>
-        {errors.category && (
-          <p className="text-sm text-error-400 mt-1">{errors.category.message}</p>
-        )}
+        </div>
+
+        <div className="mt-4">
+          <Input
+            label={selectedCategories.length > 1 ? 'Budget Name' : 'Budget Name (optional)'}
+            icon={<FileText size={18} className="text-blue-400" />}
+            {...register('name', {
+              maxLength: { value: 100, message: 'Name too long' },
+            })}
+            error={errors.name?.message}
+            className="bg-black/40 border-white/20 text-white"
+            placeholder={selectedCategories.length > 1 ? 'e.g., Going out' : selectedCategories[0] || 'Defaults to the category'}
+          />
+        </div>
       </div>
 
       {/* Budget Amount */}
@@ -172,6 +238,91 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({ initialData, onSubmit, o
         {errors.period && (
           <p className="text-sm text-error-400 mt-1">{errors.period.message}</p>
         )}
+
+        {isCustom && (
+          <div className="grid grid-cols-2 gap-3 mt-4">
+            <Input
+              label="Start Date"
+              type="date"
+              {...register('startDate', { required: isCustom ? 'Start date is required' : false })}
+              error={errors.startDate?.message}
+              className="bg-black/40 border-white/20 text-white"
+            />
+            <Input
+              label="End Date"
+              type="date"
+              {...register('endDate', { required: isCustom ? 'End date is required' : false })}
+              error={errors.endDate?.message}
+              className="bg-black/40 border-white/20 text-white"
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Rollover */}
+      {!isCustom && (
+        <div className="bg-black/30 backdrop-blur-md rounded-xl p-4 border border-white/20">
+          <div className="flex items-center justify-between">
+            <div>
+              <label className="text-sm font-medium text-white">Roll Over</label>
+              <p className="text-xs text-gray-400 mt-1">
+                Carry what is left at the end of each period into the next one. Overspending is carried over too.
+              </p>
+            </div>
+            <label className="relative inline-flex items-center cursor-pointer">
+              <input
+                type="checkbox"
+                {...register('rollover')}
+                className="sr-only peer"
+              />
+              <div className="w-11 h-6 bg-gray-700 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-primary-500/20 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-primary-500"></div>
+            </label>
+          </div>
+        </div>
+      )}
+
+      {/* Alerts */}
+      <div className="bg-black/30 backdrop-blur-md rounded-xl p-4 border border-white/20">
+        <label className="block text-sm font-medium text-gray-300 mb-1 flex items-center">
+          <Bell size={16} className="mr-2 text-orange-400" />
+          Alerts
+        </label>
+        <p className="text-xs text-gray-400 mb-3">
+          Get notified once per period when spending passes these shares of the budget.
+        </p>
+        <div className="flex flex-wrap gap-2">
+          {[...new Set([...thresholdOptions, ...alertThresholds])].sort((a, b) => a - b).map((threshold) => (
+            <button
+              key={threshold}
+              type="button"
+              onClick={() => toggleThreshold(threshold)}
+              className={`px-3 py-1.5 rounded-full text-sm border transition-colors ${
+                alertThresholds.includes(threshold)
+                  ? 'border-primary-500 bg-primary-500/20 text-primary-400'
+                  : 'border-white/20 text-gray-300 hover:border-white/30'
+              }`}
+            >
+              {threshold}%
+            </button>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-between mt-4">
+          <div>
+            <label className="text-sm font-medium text-white">Pace Warnings</label>
+            <p className="text-xs text-gray-400 mt-1">
+              Warn when spending so far is on pace to go over the budget before the period ends.
+            </p>
+          </div>
+          <label className="relative inline-flex items-center cursor-pointer">
+            <input
+              type="checkbox"
+              {...register('paceAlerts')}
+              className="sr-only peer"
+            />
+            <div className="w-11 h-6 bg-gray-700 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-primary-500/20 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-primary-500"></div>
+          </label>
+        </div>
       </div>
 
       {/* Info Box */}
@@ -181,8 +332,13 @@ export const BudgetForm: React.FC<BudgetFormProps> = ({ initialData, onSubmit, o
           <span className="font-medium">Budget Tracking</span>
         </div>
         <p className="text-sm text-blue-300">
-          Your spending will be automatically tracked based on expense transactions in this category.
-          The budget will reset at the beginning of each {selectedPeriod} period.
+          Your spending will be automatically tracked based on expense transactions in
+          {selectedCategories.length > 1 ? ' these categories. ' : ' this category. '}
+          {isCustom
+            ? 'Only transactions between the start and end dates count, and the budget ends after the end date.'
+            : rollover
+              ? `Each ${selectedPeriod} period starts with the budget amount plus what was left over from the last one.`
+              : `The budget will reset at the beginning of each ${selectedPeriod} period.`}
         </p>
       </div>
 
@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { AlertCircle, ArrowRight, FileText } from 'lucide-react';
+import { Input } from '../common/Input';
+import { Button } from '../common/Button';
+import { useInternationalization } from '../../contexts/InternationalizationContext';
+import { CurrencyIcon } from '../common/CurrencyIcon';
+import { EnvelopePlan, envelopeBalance } from '../../utils/envelopes';
+
+// The money still to be assigned stands in for an envelope in the selects
+const TO_BE_ASSIGNED = '';
+
+interface EnvelopeTransferFormData {
+  fromBudgetId: string;
+  toBudgetId: string;
+  amount: number;
+  note: string;
+}
+
+export interface EnvelopeTransferSubmitData {
+  fromBudgetId?: string;
+  toBudgetId?: string;
+  amount: number;
+  note?: string;
+}
+
+interface EnvelopeTransferFormProps {
+  plan: EnvelopePlan;
+  initialData?: Partial<EnvelopeTransferSubmitData>;
+  onSubmit: (data: EnvelopeTransferSubmitData) => Promise<void>;
+  onCancel: () => void;
+}
+
+export const EnvelopeTransferForm: React.FC<EnvelopeTransferFormProps> = ({ plan, initialData, onSubmit, onCancel }) => {
+  const { currency, formatCurrency } = useInternationalization();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { register, handleSubmit, watch, formState: { errors } } = useForm<EnvelopeTransferFormData>({
+    defaultValues: {
+      fromBudgetId: initialData?.fromBudgetId ?? TO_BE_ASSIGNED,
+      toBudgetId: initialData?.toBudgetId ?? TO_BE_ASSIGNED,
+      amount: initialData?.amount,
+      note: initialData?.note ?? '',
+    },
+  });
+
+  const fromBudgetId = watch('fromBudgetId');
+  const available = envelopeBalance(plan, fromBudgetId || undefined);
+
+  const handleFormSubmit = async (data: EnvelopeTransferFormData) => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      await onSubmit({
+        fromBudgetId: data.fromBudgetId || undefined,
+        toBudgetId: data.toBudgetId || undefined,
+        amount: Number(data.amount),
+        note: data.note.trim() || undefined,
+      });
+    } catch (error: unknown) {
+      console.error('Error moving envelope funds:', error);
+      setError(error instanceof Error ? error.message : 'Failed to move money. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const options = (
+    <>
+      <option value={TO_BE_ASSIGNED} className="bg-black/90">
+        To be assigned ({formatCurrency(plan.toBeAssigned)})
+      </option>
+      {plan.envelopes.map(e => (
+        <option key={e.budget.id} value={e.budget.id} className="bg-black/90">
+          {e.budget.category} ({formatCurrency(e.available)})
+        </option>
+      ))}
+    </>
+  );
+
+  const selectClassName = "block w-full rounded-xl border-white/20 bg-black/40 text-white shadow-sm focus:border-primary-500 focus:ring-primary-500 py-3 px-4";
+
+  return (
+    <form onSubmit={handleSubmit(handleFormSubmit)} className="space-y-6">
+      {/* Error Message */}
+      {error && (
+        <div className="bg-error-500/20 border border-error-500/30 rounded-lg p-4">
+          <div className="flex items-center space-x-2">
+            <AlertCircle size={18} className="text-error-400" />
+            <p className="text-error-400 text-sm">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {/* From and to */}
+      <div className="bg-black/30 backdrop-blur-md rounded-xl p-4 border border-white/20 space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">From</label>
+          <select {...register('fromBudgetId')} className={selectClassName}>
+            {options}
+          </select>
+        </div>
+
+        <div className="flex justify-center">
+          <ArrowRight size={18} className="text-gray-400 rotate-90" />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">To</label>
+          <select
+            {...register('toBudgetId', {
+              validate: value => value !== fromBudgetId || 'Choose two different envelopes',
+            })}
+            className={selectClassName}
+          >
+            {options}
+          </select>
+          {errors.toBudgetId && (
+            <p className="text-sm text-error-400 mt-1">{errors.toBudgetId.message}</p>
+          )}
+        </div>
+      </div>
+
+      {/* Amount and note */}
+      <div className="bg-black/30 backdrop-blur-md rounded-xl p-4 border border-white/20 space-y-4">
+        <Input
+          label="Amount"
+          type="number"
+          step="0.01"
+          icon={<CurrencyIcon currencyCode={currency.code} className="text-green-400" />}
+          {...register('amount', {
+            required: 'Amount is required',
+            min: { value: 0.01, message: 'Amount must be greater than 0' },
+            validate: value => Number(value) <= available || `Only ${formatCurrency(Math.max(available, 0))} is available`,
+          })}
+          error={errors.amount?.message}
+          className="bg-black/40 border-white/20 text-white"
+        />
+
+        <Input
+          label="Note (optional)"
+          icon={<FileText size={18} className="text-blue-400" />}
+          {...register('note')}
+          className="bg-black/40 border-white/20 text-white"
+          placeholder="e.g., Cover dining out"
+        />
+      </div>
+
+      {/* Actions */}
+      <div className="flex space-x-4 pt-4">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={onCancel}
+          className="flex-1 border-white/20 text-white hover:bg-white/10"
+          disabled={isSubmitting}
+        >
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          className="flex-1 bg-gradient-to-r from-primary-500 to-primary-600 hover:from-primary-600 hover:to-primary-700"
+          loading={isSubmitting}
+        >
+          Move Money
+        </Button>
+      </div>
+    </form>
+  );
+};
@@ -1,10 +1,11 @@
 import React, { useState } from 'react';
 import { useForm } from 'react-hook-form';
-import { Target, FileText, Calendar } from 'lucide-react';
+import { Target, FileText, Calendar, Flag, Plus, X } from 'lucide-react';
 import { validateGoal, sanitizeFinancialData, toNumber } from '../../utils/validation';
 import { Input } from '../common/Input';
 import { Button } from '../common/Button';
-import { Goal } from '../../types';
+import { GoalInput, GoalMilestoneDraft } from '../../types';
+import { useFinance } from '../../contexts/FinanceContext';
 import { useInternationalization } from '../../contexts/InternationalizationContext';
 import { CurrencyIcon } from '../common/CurrencyIcon';
 import { AlertCircle } from 'lucide-react';
@@ -16,12 +17,22 @@ interface GoalFormData {
   currentAmount: number;
   targetDate: string;
   category: string;
+  parentGoalId: string;
+  milestones: MilestoneFormData[];
+}
+
+interface MilestoneFormData {
+  id?: string;
+  title: string;
+  amount: number;
+  targetDate: string;
 }
 
 interface GoalFormProps {
-  onSubmit: (data: Omit<Goal, 'id' | 'userId' | 'createdAt'>) => Promise<void>;
+  onSubmit: (data: GoalInput) => Promise<void>;
   onCancel: () => void;
   initialData?: Partial<GoalFormData>;
+  goalId?: string; // The goal being edited
 }
 
 const goalCategories = ['Emergency', 'Travel', 'Education', 'Home', 'Investment', 'Other'];
@@ -29,11 +40,22 @@ const goalCategories = ['Emergency', 'Travel', 'Education', 'Home', 'Investment'
 export const GoalForm: React.FC<GoalFormProps> = ({
   onSubmit,
   onCancel,
-  initialData
+  initialData,
+  goalId
 }) => {
+  const { goals } = useFinance();
   const { currency } = useInternationalization();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [milestones, setMilestones] = useState<MilestoneFormData[]>(initialData?.milestones || []);
+
+  // Sub-goals are one level deep: a parent cannot be a sub-goal itself, and a
+  // goal that has sub-goals cannot become one
+  const hasSubGoals = goals.some(g => g.parentGoalId && g.parentGoalId === goalId);
+  const parentOptions = goals.filter(g => !g.parentGoalId && g.id !== goalId);
+
+  const updateMilestone = (index: number, updates: Partial<MilestoneFormData>) =>
+    setMilestones(prev => prev.map((milestone, i) => (i === index ? { ...milestone, ...updates } : milestone)));
   
   const { register, handleSubmit, formState: { errors } } = useForm<GoalFormData>({
     defaultValues: {
@@ -42,7 +64,8 @@ export const GoalForm: React.FC<GoalFormProps> = ({
       description: initialData?.description || '',
       targetAmount: initialData?.targetAmount || undefined,
       targetDate: initialData?.targetDate || '',
-      category: initialData?.category || ''
+      category: initialData?.category || '',
+      parentGoalId: initialData?.parentGoalId || ''
     },
   });
 
@@ -61,9 +84,23 @@ export const GoalForm: React.FC<GoalFormProps> = ({
         currentAmount: toNumber(sanitizedData.currentAmount),
       });
       
+      const milestoneDrafts: GoalMilestoneDraft[] = milestones.map(milestone => {
+        const amount = toNumber(milestone.amount);
+        if (!(amount > 0)) throw new Error('Every milestone needs an amount greater than 0');
+        if (amount > validatedData.targetAmount) throw new Error('A milestone cannot be more than the target amount');
+        return {
+          id: milestone.id,
+          title: milestone.title.trim() || undefined,
+          amount,
+          targetDate: milestone.targetDate ? new Date(milestone.targetDate) : undefined,
+        };
+      });
+      
       await onSubmit({
         ...validatedData,
         targetDate: new Date(data.targetDate),
+        parentGoalId: data.parentGoalId || undefined,
+        milestones: milestoneDrafts,
       });
       
     } catch (error: any) {
@@ -186,6 +223,84 @@ export const GoalForm: React.FC<GoalFormProps> = ({
         />
       </div>
 
+      {(parentOptions.length > 0 || hasSubGoals) && (
+        <div className="bg-black/30 backdrop-blur-md rounded-xl p-4 border border-white/20">
+          <label className="block text-sm font-medium text-gray-300 mb-2">
+            Part Of
+          </label>
+          <select
+            {...register('parentGoalId')}
+            disabled={hasSubGoals}
+            className="block w-full rounded-xl border-white/20 bg-black/40 text-white shadow-sm focus:border-primary-500 focus:ring-primary-500 py-3 px-4 disabled:opacity-50"
+          >
+            <option value="" className="bg-black/90">No parent goal</option>
+            {parentOptions.map((goal) => (
+              <option key={goal.id} value={goal.id} className="bg-black/90">
+                {goal.title}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-400 mt-1">
+            {hasSubGoals
+              ? 'This goal has sub-goals of its own, so it cannot be a sub-goal.'
+              : 'What is saved towards a sub-goal counts towards its parent too.'}
+          </p>
+        </div>
+      )}
+
+      <div className="bg-black/30 backdrop-blur-md rounded-xl p-4 border border-white/20 space-y-3">
+        <div className="flex items-center justify-between">
+          <label className="text-sm font-medium text-gray-300 flex items-center">
+            <Flag size={16} className="mr-2 text-orange-400" />
+            Milestones
+          </label>
+          <button
+            type="button"
+            onClick={() => setMilestones(prev => [...prev, { title: '', amount: 0, targetDate: '' }])}
+            className="text-xs text-primary-400 hover:text-primary-300 flex items-center"
+          >
+            <Plus size={14} className="mr-1" />
+            Add Milestone
+          </button>
+        </div>
+        {milestones.length === 0 ? (
+          <p className="text-xs text-gray-400">Break a large goal into checkpoints to celebrate along the way.</p>
+        ) : (
+          milestones.map((milestone, index) => (
+            <div key={milestone.id ?? `new-${index}`} className="flex items-start gap-2">
+              <input
+                value={milestone.title}
+                onChange={(e) => updateMilestone(index, { title: e.target.value })}
+                placeholder="e.g., First 10%"
+                className="flex-1 min-w-0 rounded-lg border-white/20 bg-black/40 text-white text-sm py-2 px-3 focus:border-primary-500 focus:ring-primary-500"
+              />
+              <input
+                type="number"
+                step="0.01"
+                value={milestone.amount || ''}
+                onChange={(e) => updateMilestone(index, { amount: Number(e.target.value) || 0 })}
+                placeholder="Amount"
+                className="w-24 rounded-lg border-white/20 bg-black/40 text-white text-sm py-2 px-3 focus:border-primary-500 focus:ring-primary-500"
+              />
+              <input
+                type="date"
+                value={milestone.targetDate}
+                onChange={(e) => updateMilestone(index, { targetDate: e.target.value })}
+                className="w-36 rounded-lg border-white/20 bg-black/40 text-white text-sm py-2 px-3 focus:border-primary-500 focus:ring-primary-500"
+              />
+              <button
+                type="button"
+                onClick={() => setMilestones(prev => prev.filter((_, i) => i !== index))}
+                className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+                title="Remove Milestone"
+              >
+                <X size={14} className="text-gray-400" />
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+
       <div className="flex space-x-4 pt-4">
         <Button 
           type="button" 
@@ -78,7 +78,7 @@ export const GoalTransactionForm: React.FC<GoalTransactionFormProps> = ({
     setValue('amount', amount);
   };
 
-  const maxWithdrawAmount = transactionType === 'withdraw' ? goal.currentAmount : Infinity;
+  const maxWithdrawAmount = transactionType === 'withdraw' ? goal.ownAmount : Infinity;
   const maxEmergencyAmount = watchedSource === 'emergency_fund' ? emergencyFundBalance : Infinity;
   const effectiveMaxAmount = Math.min(maxWithdrawAmount, maxEmergencyAmount);
 
@@ -345,8 +345,8 @@ export const GoalTransactionForm: React.FC<GoalTransactionFormProps> = ({
                   type="button"
                   variant="outline"
                   size="sm"
-                  onClick={() => handleQuickAmount(Math.min(100, goal.currentAmount))}
-                  disabled={goal.currentAmount < 100}
+                  onClick={() => handleQuickAmount(Math.min(100, goal.ownAmount))}
+                  disabled={goal.ownAmount < 100}
                   className="border-white/20 text-white hover:bg-white/10 disabled:opacity-50"
                 >
                   <CurrencyIcon currencyCode={currency.code} size={12} className="inline mr-1" />
@@ -356,8 +356,8 @@ export const GoalTransactionForm: React.FC<GoalTransactionFormProps> = ({
                   type="button"
                   variant="outline"
                   size="sm"
-                  onClick={() => handleQuickAmount(Math.min(500, goal.currentAmount))}
-                  disabled={goal.currentAmount < 500}
+                  onClick={() => handleQuickAmount(Math.min(500, goal.ownAmount))}
+                  disabled={goal.ownAmount < 500}
                   className="border-white/20 text-white hover:bg-white/10 disabled:opacity-50"
                 >
                   <CurrencyIcon currencyCode={currency.code} size={12} className="inline mr-1" />
@@ -367,8 +367,8 @@ export const GoalTransactionForm: React.FC<GoalTransactionFormProps> = ({
                   type="button"
                   variant="outline"
                   size="sm"
-                  onClick={() => handleQuickAmount(Math.min(1000, goal.currentAmount))}
-                  disabled={goal.currentAmount < 1000}
+                  onClick={() => handleQuickAmount(Math.min(1000, goal.ownAmount))}
+                  disabled={goal.ownAmount < 1000}
                   className="border-white/20 text-white hover:bg-white/10 disabled:opacity-50"
                 >
                   <CurrencyIcon currencyCode={currency.code} size={12} className="inline mr-1" />
@@ -378,8 +378,8 @@ export const GoalTransactionForm: React.FC<GoalTransactionFormProps> = ({
                   type="button"
                   variant="outline"
                   size="sm"
-                  onClick={() => handleQuickAmount(goal.currentAmount)}
-                  disabled={goal.currentAmount === 0}
+                  onClick={() => handleQuickAmount(goal.ownAmount)}
+                  disabled={goal.ownAmount === 0}
                   className="border-white/20 text-white hover:bg-white/10 disabled:opacity-50"
                 >
                   All
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { Calendar, AlertCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import { Input } from '../common/Input';
+import { Button } from '../common/Button';
+import { ScheduledOccurrence } from '../../types';
+import { useInternationalization } from '../../contexts/InternationalizationContext';
+import { CurrencyIcon } from '../common/CurrencyIcon';
+
+interface OccurrenceExceptionFormData {
+  date: string;
+  amount: number;
+}
+
+export interface OccurrenceExceptionSubmitData {
+  date: Date;
+  amount: number;
+}
+
+interface OccurrenceExceptionFormProps {
+  occurrence: ScheduledOccurrence;
+  onSubmit: (data: OccurrenceExceptionSubmitData) => Promise<void>;
+  onCancel: () => void;
+}
+
+// Moves a single scheduled occurrence or changes its amount; the rest of the
+// series is left as it is
+export const OccurrenceExceptionForm: React.FC<OccurrenceExceptionFormProps> = ({ occurrence, onSubmit, onCancel }) => {
+  const { currency } = useInternationalization();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { register, handleSubmit, formState: { errors } } = useForm<OccurrenceExceptionFormData>({
+    defaultValues: {
+      date: occurrence.date.toISOString().split('T')[0],
+      amount: occurrence.amount,
+    },
+  });
+
+  const handleFormSubmit = async (data: OccurrenceExceptionFormData) => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      await onSubmit({
+        date: new Date(data.date),
+        amount: Number(data.amount),
+      });
+    } catch (error: unknown) {
+      console.error('Error saving occurrence change:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save occurrence. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const today = new Date().toISOString().split('T')[0];
+
+  return (
+    <form onSubmit={handleSubmit(handleFormSubmit)} className="space-y-6">
+      {/* Error Message */}
+      {error && (
+        <div className="bg-error-500/20 border border-error-500/30 rounded-lg p-4">
+          <div className="flex items-center space-x-2">
+            <AlertCircle size={18} className="text-error-400" />
+            <p className="text-error-400 text-sm">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {/* Occurrence */}
+      <div className="bg-black/30 backdrop-blur-md rounded-xl p-4 border border-white/20">
+        <p className="font-medium text-white">{occurrence.description}</p>
+        <p className="text-sm text-gray-400">
+          {occurrence.category} • scheduled for {format(occurrence.scheduledDate, 'EEEE, MMMM d, yyyy')}
+        </p>
+      </div>
+
+      {/* Date and amount */}
+      <div className="bg-black/30 backdrop-blur-md rounded-xl p-4 border border-white/20 space-y-4">
+        <Input
+          label="Date"
+          type="date"
+          icon={<Calendar size={18} className="text-blue-400" />}
+          {...register('date', {
+            required: 'Date is required',
+            validate: value => value >= today || 'Choose today or a later date',
+          })}
+          error={errors.date?.message}
+          className="bg-black/40 border-white/20 text-white"
+        />
+
+        <Input
+          label="Amount"
+          type="number"
+          step="0.01"
+          icon={<CurrencyIcon currencyCode={currency.code} className="text-blue-400" />}
+          {...register('amount', {
+            required: 'Amount is required',
+            min: { value: 0.01, message: 'Amount must be greater than 0' },
+          })}
+          error={errors.amount?.message}
+          className="bg-black/40 border-white/20 text-white"
+        />
+      </div>
+
+      {/* Actions */}
+      <div className="flex space-x-4 pt-4">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={onCancel}
+          className="flex-1 border-white/20 text-white hover:bg-white/10"
+          disabled={isSubmitting}
+        >
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          className="flex-1 bg-gradient-to-r from-primary-500 to-primary-600 hover:from-primary-600 hover:to-primary-700"
+          loading={isSubmitting}
+        >
+          Save Occurrence
+        </Button>
+      </div>
+    </form>
+  );
+};
@@ -3,9 +3,10 @@ import { useForm } from 'react-hook-form';
 import { FileText, Calculator, Info, AlertTriangle } from 'lucide-react';
 import { Input } from '../common/Input';
 import { Button } from '../common/Button';
-import { Liability } from '../../types';
+import { Liability, LiabilityPayment } from '../../types';
 import { useInternationalization } from '../../contexts/InternationalizationContext';
 import { CurrencyIcon } from '../common/CurrencyIcon';
+import { liabilityPayoffAmount, splitLiabilityPayment } from '../../utils/liabilities';
 
 interface PaymentFormData {
   amount: number;
@@ -15,15 +16,18 @@ interface PaymentFormData {
 
 interface PaymentFormProps {
   liability?: Liability;
+  payments: LiabilityPayment[]; // Earlier payments, interest accrues from the latest
   onSubmit: (data: PaymentFormData) => void;
   onCancel: () => void;
 }
 
-export const PaymentForm: React.FC<PaymentFormProps> = ({ liability, onSubmit, onCancel }) => {
+export const PaymentForm: React.FC<PaymentFormProps> = ({ liability, payments, onSubmit, onCancel }) => {
   const { currency, formatCurrency } = useInternationalization();
   const [paymentImpact, setPaymentImpact] = useState<{
     newBalance: number;
     percentagePaid: number;
+    interest: number;
+    principal: number;
   } | null>(null);
   
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -47,41 +51,42 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({ liability, onSubmit, o
       const totalAmount = Number(liability.totalAmount) || 0;
       
       if (paymentAmount > 0 && !isNaN(paymentAmount)) {
-        const newBalance = Math.max(0, remainingAmount - paymentAmount);
+        const split = splitLiabilityPayment({ ...liability, remainingAmount }, payments, paymentAmount);
+        const newBalance = split.balanceAfter;
       const percentagePaid = totalAmount > 0 ? ((totalAmount - newBalance) / totalAmount) * 100 : 0;
-      setPaymentImpact({ newBalance, percentagePaid });
+      setPaymentImpact({ newBalance, percentagePaid, interest: split.interest, principal: split.principal });
       } else {
         setPaymentImpact(null);
       }
     } else {
       setPaymentImpact(null);
     }
-  }, [watchedAmount, liability]);
+  }, [watchedAmount, liability, payments]);
 
   const handleFormSubmit = (data: PaymentFormData) => {
     try {
       setIsSubmitting(true);
       
       const amount = Number(data.amount) || 0;
-      const remainingAmount = Number(liability?.remainingAmount) || 0;
+      const payoffAmount = liability ? liabilityPayoffAmount(liability, payments) : 0;
       
       if (amount <= 0) {
         throw new Error('Payment amount must be greater than 0');
       }
       
       // Handle overpayment with user confirmation
-      if (amount > remainingAmount && remainingAmount > 0) {
-        const confirmed = window.confirm(`Payment of ${formatCurrency(amount)} exceeds remaining balance of ${formatCurrency(remainingAmount)}. Adjust to full payoff amount?`);
+      if (amount > payoffAmount && payoffAmount > 0) {
+        const confirmed = window.confirm(`Payment of ${formatCurrency(amount)} exceeds the payoff amount of ${formatCurrency(payoffAmount)}. Adjust to full payoff amount?`);
         if (!confirmed) {
           setIsSubmitting(false);
           return;
         }
-        // Adjust amount to remaining balance
-        data.amount = remainingAmount;
+        // Adjust amount to the payoff amount
+        data.amount = payoffAmount;
       }
       
       onSubmit({
-        amount: Number(amount) || 0,
+        amount: Number(data.amount) || 0,
         description: data.description || `Payment for ${liability?.name}`,
         createTransaction: data.createTransaction,
       });
@@ -103,6 +108,8 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({ liability, onSubmit, o
   const remainingAmount = Number(liability.remainingAmount) || 0;
   const monthlyPayment = Number(liability.monthlyPayment) || 0;
   const totalAmount = Number(liability.totalAmount) || 0;
+  // The balance plus the interest accrued since the last payment
+  const payoffAmount = liabilityPayoffAmount({ ...liability, remainingAmount }, payments);
 
   return (
     <div className="space-y-6">
@@ -187,8 +194,8 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({ liability, onSubmit, o
               required: 'Payment amount is required',
               min: { value: 0.01, message: 'Amount must be greater than 0' },
               max: { 
-                value: remainingAmount, 
-                message: 'Payment cannot exceed remaining balance' 
+                value: payoffAmount, 
+                message: 'Payment cannot exceed the payoff amount' 
               },
             })}
             error={errors.amount?.message}
@@ -238,6 +245,18 @@ export const PaymentForm: React.FC<PaymentFormProps> = ({ liability, onSubmit, o
               <span className="font-medium">Payment Impact</span>
             </div>
             <div className="space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-300">Interest:</span>
+                <span className="font-medium text-warning-400">
+                  {formatCurrency(paymentImpact.interest || 0)}
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-300">Principal:</span>
+                <span className="font-medium text-white">
+                  {formatCurrency(paymentImpact.principal || 0)}
+                </span>
+              </div>
               <div className="flex justify-between">
                 <span className="text-gray-300">New Balance:</span>
                 <span className="font-medium text-white">
@@ -6,6 +6,15 @@ import { Button } from '../common/Button';
 import { RecurringTransaction } from '../../types';
 import { useInternationalization } from '../../contexts/InternationalizationContext';
 import { CurrencyIcon } from '../common/CurrencyIcon';
+import {
+  DEFAULT_ESTIMATE_WINDOW,
+  RecurrenceRule,
+  describeRRule,
+  getFirstOccurrence,
+  getUpcomingOccurrences,
+  occurrencesPerYear,
+  parseRRule,
+} from '../../utils/recurrence';
 
 interface RecurringTransactionFormData {
   type: 'income' | 'expense';
@@ -19,6 +28,9 @@ interface RecurringTransactionFormData {
   dayOfMonth?: number;
   monthOfYear?: number;
   maxOccurrences?: number;
+  rrule?: string;
+  isVariable: boolean;
+  estimateWindow: number;
 }
 
 interface RecurringTransactionFormProps {
@@ -37,6 +49,16 @@ const frequencyOptions = [
   { value: 'yearly', label: 'Yearly', description: 'Every year', icon: '📊', example: 'Insurance premium' },
 ];
 
+// Schedules the simple options can't express
+const rrulePresets = [
+  { label: 'Every other Friday', rrule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=FR' },
+  { label: 'Last business day', rrule: 'FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1' },
+  { label: '1st and 15th', rrule: 'FREQ=MONTHLY;BYMONTHDAY=1,15' },
+  { label: 'Quarterly', rrule: 'FREQ=MONTHLY;INTERVAL=3' },
+];
+
+const PREVIEW_COUNT = 5;
+
 const weekDays = [
   'Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'
 ];
@@ -54,6 +76,8 @@ export const RecurringTransactionForm: React.FC<RecurringTransactionFormProps> =
   const { currency } = useInternationalization();
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [currentStep, setCurrentStep] = useState(1);
+  const [useCustomRule, setUseCustomRule] = useState(!!initialData?.rrule);
+  const [submitError, setSubmitError] = useState<string | null>(null);
   
   const { register, handleSubmit, watch, setValue, formState: { errors } } = useForm<RecurringTransactionFormData>({
     defaultValues: initialData ? {
@@ -68,78 +92,119 @@ export const RecurringTransactionForm: React.FC<RecurringTransactionFormProps> =
       dayOfMonth: initialData.dayOfMonth,
       monthOfYear: initialData.monthOfYear,
       maxOccurrences: initialData.maxOccurrences,
+      rrule: initialData.rrule,
+      isVariable: !!initialData.isVariable,
+      estimateWindow: initialData.estimateWindow ?? DEFAULT_ESTIMATE_WINDOW,
     } : {
       type: 'expense',
       frequency: 'monthly',
       startDate: new Date().toISOString().split('T')[0],
+      isVariable: false,
+      estimateWindow: DEFAULT_ESTIMATE_WINDOW,
     },
   });
 
   const type = watch('type');
   const frequency = watch('frequency');
   const amount = watch('amount');
+  const rrule = watch('rrule');
+  const isVariable = watch('isVariable');
   const categories = type === 'income' ? incomeCategories : expenseCategories;
 
-  const calculateNextOccurrence = (startDate: Date, frequency: string, dayOfWeek?: number, dayOfMonth?: number, monthOfYear?: number): Date => {
-    const next = new Date(startDate);
-    
-    switch (frequency) {
-      case 'daily':
-        next.setDate(next.getDate() + 1);
-        break;
-      case 'weekly':
-        if (dayOfWeek !== undefined) {
-          const daysUntilTarget = (dayOfWeek - next.getDay() + 7) % 7;
-          next.setDate(next.getDate() + (daysUntilTarget || 7));
-        } else {
-          next.setDate(next.getDate() + 7);
-        }
-        break;
-      case 'monthly':
-        if (dayOfMonth !== undefined) {
-          next.setMonth(next.getMonth() + 1);
-          next.setDate(Math.min(dayOfMonth, new Date(next.getFullYear(), next.getMonth() + 1, 0).getDate()));
-        } else {
-          next.setMonth(next.getMonth() + 1);
-        }
-        break;
-      case 'yearly':
-        if (monthOfYear !== undefined) {
-          next.setFullYear(next.getFullYear() + 1);
-          next.setMonth(monthOfYear - 1);
-          if (dayOfMonth !== undefined) {
-            next.setDate(Math.min(dayOfMonth, new Date(next.getFullYear(), monthOfYear, 0).getDate()));
-          }
-        } else {
-          next.setFullYear(next.getFullYear() + 1);
-        }
-        break;
+  // Select and number inputs hand back strings, with '' for "not set"
+  const optionalNumber = (value: unknown): number | undefined =>
+    value === undefined || value === null || value === '' ? undefined : Number(value);
+
+  const normaliseRRule = (value?: string) => (value || '').trim().toUpperCase().replace(/^RRULE:/, '');
+
+  // With a custom rule the day options are cleared and frequency follows the
+  // rule's FREQ, so lists and totals that only know frequency stay sensible
+  const buildRule = (data: RecurringTransactionFormData): RecurrenceRule => {
+    const base = {
+      startDate: new Date(data.startDate),
+      endDate: data.endDate ? new Date(data.endDate) : undefined,
+      maxOccurrences: optionalNumber(data.maxOccurrences),
+    };
+
+    if (useCustomRule) {
+      const customRule = normaliseRRule(data.rrule);
+      return {
+        ...base,
+        frequency: parseRRule(customRule).freq,
+        rrule: customRule,
+        dayOfWeek: undefined,
+        dayOfMonth: undefined,
+        monthOfYear: undefined,
+      };
+    }
+
+    return {
+      ...base,
+      frequency: data.frequency,
+      rrule: undefined,
+      dayOfWeek: data.frequency === 'weekly' ? optionalNumber(data.dayOfWeek) : undefined,
+      dayOfMonth: data.frequency === 'monthly' || data.frequency === 'yearly' ? optionalNumber(data.dayOfMonth) : undefined,
+      monthOfYear: data.frequency === 'yearly' ? optionalNumber(data.monthOfYear) : undefined,
+    };
+  };
+
+  const getRRuleError = (): string | null => {
+    if (!useCustomRule) return null;
+    try {
+      parseRRule(normaliseRRule(rrule));
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Invalid recurrence rule';
+    }
+  };
+  const rruleError = getRRuleError();
+
+  // Upcoming dates for the schedule as currently entered; empty while the
+  // form is incomplete
+  const getUpcomingDates = (): Date[] => {
+    if (rruleError || !watch('startDate')) return [];
+    try {
+      return getUpcomingOccurrences(buildRule(watch()), new Date(), PREVIEW_COUNT);
+    } catch {
+      return [];
     }
-    
-    return next;
   };
 
   const handleFormSubmit = (data: RecurringTransactionFormData) => {
     try {
       console.log('🔄 RecurringTransactionForm submitting:', data);
-    const startDate = new Date(data.startDate);
-    const nextOccurrenceDate = calculateNextOccurrence(
-      startDate, 
-      data.frequency, 
-      data.dayOfWeek, 
-      data.dayOfMonth, 
-      data.monthOfYear
-    );
+    setSubmitError(null);
+    const rule = buildRule(data);
+    const firstOccurrence = getFirstOccurrence(rule);
+    if (!firstOccurrence) {
+      setSubmitError('This schedule never produces a date. Please adjust it.');
+      return;
+    }
+
+    // Editing only the amount, category or limits keeps the series' progress;
+    // a new schedule starts counting again from its first occurrence
+    const scheduleChanged = !initialData ||
+      initialData.frequency !== rule.frequency ||
+      initialData.startDate.getTime() !== rule.startDate.getTime() ||
+      initialData.dayOfWeek !== rule.dayOfWeek ||
+      initialData.dayOfMonth !== rule.dayOfMonth ||
+      initialData.monthOfYear !== rule.monthOfYear ||
+      initialData.rrule !== rule.rrule;
 
     const formattedData = {
-      ...data,
+      type: data.type,
       amount: Number(data.amount),
-      startDate,
-      endDate: data.endDate ? new Date(data.endDate) : undefined,
-      nextOccurrenceDate,
-      currentOccurrences: 0,
-      isActive: true,
-      lastProcessedDate: undefined,
+      category: data.category,
+      description: data.description,
+      isVariable: data.isVariable,
+      estimateWindow: data.isVariable ? Number(data.estimateWindow) : undefined,
+      ...rule,
+      ...(scheduleChanged ? {
+        nextOccurrenceDate: firstOccurrence,
+        currentOccurrences: 0,
+        isActive: true,
+        lastProcessedDate: undefined,
+      } : {}),
     };
     
       console.log('🔄 Formatted data for submission:', formattedData);
@@ -147,7 +212,7 @@ export const RecurringTransactionForm: React.FC<RecurringTransactionFormProps> =
     onSubmit(formattedData);
     } catch (error) {
       console.error("Error in form submission:", error);
-      // Error will be handled by parent component
+      setSubmitError(error instanceof Error ? error.message : 'Invalid recurrence rule');
     }
   };
 
@@ -188,6 +253,11 @@ export const RecurringTransactionForm: React.FC<RecurringTransactionFormProps> =
 
   const getEstimatedMonthlyImpact = () => {
     if (!amount || !frequency) return 0;
+
+    if (useCustomRule) {
+      if (rruleError || !watch('startDate')) return 0;
+      return (amount * occurrencesPerYear(buildRule(watch()))) / 12;
+    }
     
     const monthlyMultiplier = {
       daily: 30,
@@ -200,6 +270,7 @@ export const RecurringTransactionForm: React.FC<RecurringTransactionFormProps> =
   };
 
   const totalSteps = 4;
+  const upcomingDates = currentStep === 4 ? getUpcomingDates() : [];
 
   return (
     <div className="space-y-6">
@@ -344,7 +415,7 @@ export const RecurringTransactionForm: React.FC<RecurringTransactionFormProps> =
             <div className="bg-black/30 backdrop-blur-md rounded-xl p-4 border border-white/20">
               <div className="relative">
                 <Input
-                  label="Amount"
+                  label={isVariable ? 'Expected Amount' : 'Amount'}
                   type="number"
                   step="0.01"
                   icon={<CurrencyIcon currencyCode={currency.code} className={type === 'income' ? 'text-success-400' : 'text-error-400'} />}
@@ -364,6 +435,42 @@ export const RecurringTransactionForm: React.FC<RecurringTransactionFormProps> =
               </div>
             </div>
 
+            {/* Variable Amount Toggle */}
+            <div className="bg-black/30 backdrop-blur-md rounded-xl p-4 border border-white/20 space-y-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <label className="text-sm font-medium text-white">Variable Amount</label>
+                  <p className="text-xs text-gray-400 mt-1">
+                    For bills like utilities: each occurrence is created with an estimate and waits for you to confirm the actual amount
+                  </p>
+                </div>
+                <label className="relative inline-flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    {...register('isVariable')}
+                    className="sr-only peer"
+                  />
+                  <div className="w-11 h-6 bg-gray-700 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-primary-500/20 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-primary-500"></div>
+                </label>
+              </div>
+
+              {isVariable && (
+                <Input
+                  label="Estimate from the last N confirmed occurrences"
+                  type="number"
+                  min="1"
+                  max="24"
+                  {...register('estimateWindow', {
+                    required: 'Number of occurrences is required',
+                    min: { value: 1, message: 'Use at least 1 occurrence' },
+                    max: { value: 24, message: 'Use at most 24 occurrences' },
+                  })}
+                  error={errors.estimateWindow?.message}
+                  className="bg-black/40 border-white/20 text-white"
+                />
+              )}
+            </div>
+
             {/* Category */}
             <div className="bg-black/30 backdrop-blur-md rounded-xl p-4 border border-white/20">
               <label className="block text-sm font-medium text-gray-300 mb-3 flex items-center">
@@ -438,7 +545,7 @@ export const RecurringTransactionForm: React.FC<RecurringTransactionFormProps> =
 
             <div className="grid grid-cols-1 gap-3">
               {frequencyOptions.map((option) => (
-                <label key={option.value} className="cursor-pointer">
+                <label key={option.value} className="cursor-pointer" onClick={() => setUseCustomRule(false)}>
                   <input
                     type="radio"
                     value={option.value}
@@ -446,7 +553,7 @@ export const RecurringTransactionForm: React.FC<RecurringTransactionFormProps> =
                     className="sr-only"
                   />
                   <div className={`p-4 rounded-lg border-2 transition-all duration-200 ${
-                    frequency === option.value 
+                    !useCustomRule && frequency === option.value 
                       ? 'border-primary-500 bg-primary-500/20 shadow-lg text-white' 
                       : 'border-white/20 hover:border-white/30 hover:shadow-md text-gray-300'
                   }`}>
@@ -455,7 +562,7 @@ export const RecurringTransactionForm: React.FC<RecurringTransactionFormProps> =
                       <div className="flex-1">
                         <div className="flex items-center justify-between">
                           <h4 className="font-semibold">{option.label}</h4>
-                          {frequency === option.value && amount && (
+                          {!useCustomRule && frequency === option.value && amount && (
                             <span className={`text-sm font-medium ${
                               type === 'income' ? 'text-success-400' : 'text-error-400'
                             }`}>
@@ -472,6 +579,60 @@ export const RecurringTransactionForm: React.FC<RecurringTransactionFormProps> =
               ))}
             </div>
 
+            {/* Custom RRULE schedule */}
+            <div className={`p-4 rounded-lg border-2 transition-all duration-200 ${
+              useCustomRule
+                ? 'border-primary-500 bg-primary-500/20 shadow-lg text-white'
+                : 'border-white/20 hover:border-white/30 text-gray-300'
+            }`}>
+              <button
+                type="button"
+                onClick={() => setUseCustomRule(true)}
+                className="w-full flex items-center space-x-4 text-left"
+              >
+                <div className="text-2xl">🧩</div>
+                <div className="flex-1">
+                  <h4 className="font-semibold">Custom</h4>
+                  <p className="text-sm opacity-80">Any schedule, written as an iCalendar RRULE</p>
+                  <p className="text-xs text-gray-500 mt-1">Example: every other Friday, last business day</p>
+                </div>
+              </button>
+
+              {useCustomRule && (
+                <div className="mt-4 space-y-3">
+                  <div className="flex flex-wrap gap-2">
+                    {rrulePresets.map(preset => (
+                      <button
+                        key={preset.rrule}
+                        type="button"
+                        onClick={() => setValue('rrule', preset.rrule)}
+                        className={`px-3 py-1 rounded-full text-xs border transition-colors ${
+                          normaliseRRule(rrule) === preset.rrule
+                            ? 'border-primary-500 bg-primary-500/30 text-white'
+                            : 'border-white/20 text-gray-300 hover:bg-white/10'
+                        }`}
+                      >
+                        {preset.label}
+                      </button>
+                    ))}
+                  </div>
+                  <Input
+                    label="Recurrence Rule"
+                    type="text"
+                    icon={<Repeat size={18} className="text-purple-400" />}
+                    {...register('rrule')}
+                    placeholder="FREQ=MONTHLY;BYMONTHDAY=1,15"
+                    className="bg-black/40 border-white/20 text-white font-mono text-sm"
+                  />
+                  {rrule && (rruleError ? (
+                    <p className="text-sm text-error-400">{rruleError}</p>
+                  ) : (
+                    <p className="text-sm text-primary-300">{describeRRule(normaliseRRule(rrule))}</p>
+                  ))}
+                </div>
+              )}
+            </div>
+
             <div className="flex space-x-3">
               <Button
                 type="button"
@@ -485,7 +646,7 @@ export const RecurringTransactionForm: React.FC<RecurringTransactionFormProps> =
                 type="button"
                 onClick={() => setCurrentStep(4)}
                 className="flex-1 bg-gradient-to-r from-primary-500 to-primary-600 hover:from-primary-600 hover:to-primary-700"
-                disabled={!frequency}
+                disabled={useCustomRule ? !rrule || !!rruleError : !frequency}
               >
                 Continue
               </Button>
@@ -530,7 +691,7 @@ export const RecurringTransactionForm: React.FC<RecurringTransactionFormProps> =
               {showAdvanced && (
                 <div className="mt-4 space-y-4 bg-black/30 rounded-lg p-4 border border-white/10">
                   {/* Specific Day/Date Options */}
-                  {frequency === 'weekly' && (
+                  {!useCustomRule && frequency === 'weekly' && (
                     <div>
                       <label className="block text-sm font-medium text-gray-300 mb-2">
                         Day of Week (Optional)
@@ -549,7 +710,7 @@ export const RecurringTransactionForm: React.FC<RecurringTransactionFormProps> =
                     </div>
                   )}
 
-                  {frequency === 'monthly' && (
+                  {!useCustomRule && frequency === 'monthly' && (
                     <div>
                       <label className="block text-sm font-medium text-gray-300 mb-2">
                         Day of Month (Optional)
@@ -565,7 +726,7 @@ export const RecurringTransactionForm: React.FC<RecurringTransactionFormProps> =
                     </div>
                   )}
 
-                  {frequency === 'yearly' && (
+                  {!useCustomRule && frequency === 'yearly' && (
                     <div className="grid grid-cols-2 gap-3">
                       <div>
                         <label className="block text-sm font-medium text-gray-300 mb-2">
@@ -634,8 +795,9 @@ export const RecurringTransactionForm: React.FC<RecurringTransactionFormProps> =
                   <p className="text-blue-400 font-medium">Summary</p>
                   <div className="text-blue-300 space-y-1">
                     <p>
-                      <strong>{type === 'income' ? 'Receive' : 'Pay'}</strong> <CurrencyIcon currencyCode={currency.code} size={14} className="inline mr-1 text-blue-300" />{watch('amount') || '0'} 
-                      for <strong>{watch('category')}</strong> {getPreviewText().toLowerCase()}
+                      <strong>{type === 'income' ? 'Receive' : 'Pay'}</strong> {isVariable ? 'about ' : ''}<CurrencyIcon currencyCode={currency.code} size={14} className="inline mr-1 text-blue-300" />{watch('amount') || '0'} 
+                      for <strong>{watch('category')}</strong>{' '}
+                      {(useCustomRule && !rruleError ? describeRRule(normaliseRRule(rrule)) : getPreviewText()).toLowerCase()}
                     </p>
                     <p>
                       Monthly impact: <strong>{type === 'income' ? '+' : '-'}<CurrencyIcon currencyCode={currency.code} size={14} className="inline mr-1 text-blue-300" />{getEstimatedMonthlyImpact().toFixed(2)}</strong>
@@ -646,11 +808,32 @@ export const RecurringTransactionForm: React.FC<RecurringTransactionFormProps> =
                     {watch('maxOccurrences') && (
                       <p>Maximum: <strong>{watch('maxOccurrences')} times</strong></p>
                     )}
+                    {upcomingDates.length > 0 && (
+                      <div>
+                        <p>Next {upcomingDates.length === 1 ? 'date' : `${upcomingDates.length} dates`}:</p>
+                        <ul className="ml-4 list-disc">
+                          {upcomingDates.map(date => (
+                            <li key={date.getTime()}>
+                              {date.toLocaleDateString(undefined, { weekday: 'short', year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' })}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
                   </div>
                 </div>
               </div>
             </div>
 
+            {submitError && (
+              <div className="bg-error-500/20 border border-error-500/30 rounded-lg p-4">
+                <div className="flex items-center space-x-2">
+                  <AlertCircle size={18} className="text-error-400" />
+                  <p className="text-error-400 text-sm">{submitError}</p>
+                </div>
+              </div>
+            )}
+
             {/* Actions */}
             <div className="flex space-x-3 pt-4">
               <Button
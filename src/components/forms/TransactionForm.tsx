@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
-import { FileText, Tag, Calendar, Target, CreditCard, CheckCircle, AlertCircle, Plus, Minus, Zap } from 'lucide-react';
+import { FileText, Tag, Calendar, Target, CreditCard, CheckCircle, AlertCircle, Plus, Minus, Zap, Wallet } from 'lucide-react';
 import { Input } from '../common/Input';
 import { Button } from '../common/Button';
 import { Transaction, UserCategory } from '../../types';
@@ -14,6 +14,8 @@ interface TransactionFormData {
   category: string;
   description: string;
   date: string;
+  accountId: string;
+  originalCurrency: string;
 }
 
 interface TransactionFormProps {
@@ -29,8 +31,8 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({
   initialType = 'expense',
   initialData,
 }) => {
-  const { goals, liabilities, updateGoal, updateLiability, userCategories } = useFinance();
-  const { currency } = useInternationalization();
+  const { goals, liabilities, addGoalContributions, updateLiability, userCategories, accounts } = useFinance();
+  const { currency, supportedCurrencies } = useInternationalization();
   const [selectedGoal, setSelectedGoal] = useState<string>('');
   const [selectedLiability, setSelectedLiability] = useState<string>('');
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -38,22 +40,31 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({
   const [isAiCategorizing, setIsAiCategorizing] = useState(false);
   
   const { register, handleSubmit, watch, setValue, formState: { errors } } = useForm<TransactionFormData>({
+    // Transfers are edited with TransferForm
     defaultValues: initialData ? {
-      type: initialData.type,
-      amount: initialData.amount,
+      type: initialData.type === 'income' ? 'income' : 'expense',
+      amount: initialData.originalAmount ?? initialData.amount,
       category: initialData.category,
       description: initialData.description,
       date: initialData.date.toISOString().split('T')[0],
+      accountId: initialData.accountId || '',
+      originalCurrency: initialData.originalCurrency || currency.code,
     } : {
       type: initialType,
       date: new Date().toISOString().split('T')[0],
+      accountId: accounts.find(a => !a.isArchived)?.id || '',
+      originalCurrency: accounts.find(a => !a.isArchived)?.currency || currency.code,
     },
   });
 
+  // Archived accounts stay selectable for transactions already in them
+  const selectableAccounts = accounts.filter(a => !a.isArchived || a.id === initialData?.accountId);
+
   const type = watch('type');
   const amount = watch('amount');
   const category = watch('category');
   const description = watch('description');
+  const entryCurrency = watch('originalCurrency') || currency.code;
   
   // Get available categories based on type (with fallback to default categories)
   const defaultCategories = {
@@ -89,11 +100,7 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({
       if (!initialData && selectedGoal && type === 'expense') {
         const goal = goals.find(g => g.id === selectedGoal);
         if (goal) {
-          const newAmount = Math.min(
-            (Number(goal.currentAmount) || 0) + (Number(data.amount) || 0), 
-            (Number(goal.targetAmount) || 0)
-          );
-          await updateGoal(selectedGoal, { currentAmount: newAmount });
+          await addGoalContributions([{ goalId: goal.id, amount: Number(data.amount) || 0, note: data.description }]);
         }
       }
 
@@ -438,7 +445,7 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({
             label="Amount"
             type="number"
             step="0.01"
-            icon={<CurrencyIcon currencyCode={currency.code} className={type === 'income' ? 'text-success-400' : 'text-error-400'} />}
+            icon={<CurrencyIcon currencyCode={entryCurrency} className={type === 'income' ? 'text-success-400' : 'text-error-400'} />}
             {...register('amount', {
               required: 'Amount is required',
               min: { value: 0.01, message: 'Amount must be greater than 0' },
@@ -447,6 +454,21 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({
             className="bg-black/40 border-white/20 text-white text-lg"
             placeholder={`e.g., 100`}
           />
+          <select
+            {...register('originalCurrency')}
+            className="mt-3 block w-full rounded-xl border-white/20 bg-black/40 text-white shadow-sm focus:border-primary-500 focus:ring-primary-500 py-2 px-4 text-sm"
+          >
+            {supportedCurrencies.map(c => (
+              <option key={c.code} value={c.code} className="bg-black/90">
+                {c.code} - {c.name}
+              </option>
+            ))}
+          </select>
+          {entryCurrency !== currency.code && (
+            <p className="text-xs text-gray-400 mt-2">
+              Converted to {currency.code} at the exchange rate on the transaction date.
+            </p>
+          )}
         </div>
 
         {/* Description with AI categorization */}
@@ -526,6 +548,33 @@ export const TransactionForm: React.FC<TransactionFormProps> = ({
           />
         </div>
 
+        {/* Account */}
+        {selectableAccounts.length > 0 && (
+          <div className="bg-black/30 backdrop-blur-md rounded-xl p-4 border border-white/20">
+            <label className="block text-sm font-medium text-gray-300 mb-3 flex items-center">
+              <Wallet size={16} className="mr-2 text-blue-400" />
+              Account
+            </label>
+            <select
+              {...register('accountId', {
+                // Entries default to the currency the account is held in
+                onChange: (e) => {
+                  const account = accounts.find(a => a.id === e.target.value);
+                  if (account) setValue('originalCurrency', account.currency);
+                },
+              })}
+              className="block w-full rounded-xl border-white/20 bg-black/40 text-white shadow-sm focus:border-primary-500 focus:ring-primary-500 py-3 px-4"
+            >
+              <option value="" className="bg-black/90">No account</option>
+              {selectableAccounts.map(account => (
+                <option key={account.id} value={account.id} className="bg-black/90">
+                  {account.name}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
         {/* Submit Button */}
         <div className="flex space-x-4 pt-4">
           <Button 
@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { ArrowRight, Calendar, FileText, AlertCircle } from 'lucide-react';
+import { Input } from '../common/Input';
+import { Button } from '../common/Button';
+import { Transaction } from '../../types';
+import { useFinance } from '../../contexts/FinanceContext';
+import { useInternationalization } from '../../contexts/InternationalizationContext';
+import { CurrencyIcon } from '../common/CurrencyIcon';
+
+interface TransferFormData {
+  accountId: string;
+  transferAccountId: string;
+  amount: number;
+  description: string;
+  date: string;
+}
+
+export type TransferSubmitData = Pick<
+  Transaction,
+  'accountId' | 'transferAccountId' | 'amount' | 'description' | 'date' | 'category' | 'type'
+>;
+
+interface TransferFormProps {
+  initialData?: Transaction;
+  defaultFromAccountId?: string;
+  onSubmit: (data: TransferSubmitData) => Promise<void>;
+  onCancel: () => void;
+}
+
+export const TransferForm: React.FC<TransferFormProps> = ({ initialData, defaultFromAccountId, onSubmit, onCancel }) => {
+  const { accounts } = useFinance();
+  const { currency } = useInternationalization();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Archived accounts stay selectable when they are already part of the transfer
+  const selectableAccounts = accounts.filter(a =>
+    !a.isArchived || a.id === initialData?.accountId || a.id === initialData?.transferAccountId
+  );
+
+  const { register, handleSubmit, watch, formState: { errors } } = useForm<TransferFormData>({
+    defaultValues: initialData ? {
+      accountId: initialData.accountId || '',
+      transferAccountId: initialData.transferAccountId || '',
+      amount: initialData.amount,
+      description: initialData.description,
+      date: initialData.date.toISOString().split('T')[0],
+    } : {
+      accountId: defaultFromAccountId || selectableAccounts[0]?.id || '',
+      transferAccountId: selectableAccounts.find(a => a.id !== (defaultFromAccountId || selectableAccounts[0]?.id))?.id || '',
+      description: '',
+      date: new Date().toISOString().split('T')[0],
+    },
+  });
+
+  const fromAccountId = watch('accountId');
+  const fromAccount = accounts.find(a => a.id === fromAccountId);
+
+  const handleFormSubmit = async (data: TransferFormData) => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      const from = accounts.find(a => a.id === data.accountId);
+      const to = accounts.find(a => a.id === data.transferAccountId);
+
+      await onSubmit({
+        type: 'transfer',
+        category: 'Transfer',
+        accountId: data.accountId,
+        transferAccountId: data.transferAccountId,
+        amount: Number(data.amount),
+        description: data.description.trim() || `${from?.name ?? 'Account'} → ${to?.name ?? 'Account'}`,
+        date: new Date(data.date),
+      });
+    } catch (error: unknown) {
+      console.error('Error submitting transfer:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save transfer. Please try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (selectableAccounts.length < 2) {
+    return (
+      <div className="space-y-4">
+        <p className="text-gray-300">Add at least two accounts to move money between them.</p>
+        <Button type="button" variant="outline" onClick={onCancel} className="w-full">
+          Close
+        </Button>
+      </div>
+    );
+  }
+
+  const selectClassName = 'block w-full rounded-xl border-white/20 bg-black/40 text-white shadow-sm focus:border-primary-500 focus:ring-primary-500 py-3 px-4';
+
+  return (
+    <form onSubmit={handleSubmit(handleFormSubmit)} className="space-y-6">
+      {/* Error Message */}
+      {error && (
+        <div className="bg-error-500/20 border border-error-500/30 rounded-lg p-4">
+          <div className="flex items-center space-x-2">
+            <AlertCircle size={18} className="text-error-400" />
+            <p className="text-error-400 text-sm">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {/* From / To */}
+      <div className="bg-black/30 backdrop-blur-md rounded-xl p-4 border border-white/20 space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">From Account</label>
+          <select
+            {...register('accountId', { required: 'Source account is required' })}
+            className={selectClassName}
+          >
+            {selectableAccounts.map(account => (
+              <option key={account.id} value={account.id} className="bg-black/90">
+                {account.name}{account.isArchived ? ' (archived)' : ''}
+              </option>
+            ))}
+          </select>
+          {errors.accountId && <p className="text-sm text-error-400 mt-1">{errors.accountId.message}</p>}
+        </div>
+
+        <div className="flex justify-center">
+          <ArrowRight size={18} className="text-blue-400 rotate-90" />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-2">To Account</label>
+          <select
+            {...register('transferAccountId', {
+              required: 'Destination account is required',
+              validate: value => value !== fromAccountId || 'Choose a different account to transfer to',
+            })}
+            className={selectClassName}
+          >
+            {selectableAccounts.map(account => (
+              <option key={account.id} value={account.id} className="bg-black/90">
+                {account.name}{account.isArchived ? ' (archived)' : ''}
+              </option>
+            ))}
+          </select>
+          {errors.transferAccountId && (
+            <p className="text-sm text-error-400 mt-1">{errors.transferAccountId.message}</p>
+          )}
+        </div>
+      </div>
+
+      {/* Amount, date and note */}
+      <div className="bg-black/30 backdrop-blur-md rounded-xl p-4 border border-white/20 space-y-4">
+        <Input
+          label="Amount"
+          type="number"
+          step="0.01"
+          icon={<CurrencyIcon currencyCode={fromAccount?.currency || currency.code} className="text-blue-400" />}
+          {...register('amount', {
+            required: 'Amount is required',
+            min: { value: 0.01, message: 'Amount must be greater than 0' },
+          })}
+          error={errors.amount?.message}
+          className="bg-black/40 border-white/20 text-white"
+          placeholder="e.g., 250"
+        />
+
+        <Input
+          label="Date"
+          type="date"
+          icon={<Calendar size={18} className="text-blue-400" />}
+          {...register('date', { required: 'Date is required' })}
+          error={errors.date?.message}
+          className="bg-black/40 border-white/20 text-white"
+        />
+
+        <Input
+          label="Note (optional)"
+          type="text"
+          icon={<FileText size={18} className="text-blue-400" />}
+          {...register('description')}
+          className="bg-black/40 border-white/20 text-white"
+          placeholder="e.g., Credit card payment"
+        />
+      </div>
+
+      {/* Actions */}
+      <div className="flex space-x-4 pt-4">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={onCancel}
+          className="flex-1 border-white/20 text-white hover:bg-white/10"
+          disabled={isSubmitting}
+        >
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          className="flex-1 bg-gradient-to-r from-primary-500 to-primary-600 hover:from-primary-600 hover:to-primary-700"
+          loading={isSubmitting}
+        >
+          {initialData ? 'Update Transfer' : 'Transfer'}
+        </Button>
+      </div>
+    </form>
+  );
+};
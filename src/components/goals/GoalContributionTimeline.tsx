@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { ArrowDownRight, ArrowUpRight, Receipt, Undo2, Zap } from 'lucide-react';
+import { format } from 'date-fns';
+import { GoalContribution } from '../../types';
+import { useFinance } from '../../contexts/FinanceContext';
+import { useInternationalization } from '../../contexts/InternationalizationContext';
+import { roundCurrency } from '../../utils/currency';
+
+const COLLAPSED_ENTRIES = 5;
+
+interface GoalContributionTimelineProps {
+  contributions: GoalContribution[];
+}
+
+// A goal's contributions, newest first, with the saved amount after each one.
+// Undoing a contribution made with a transaction deletes the transaction too,
+// except for a funding rule's share of an income, which keeps the income.
+export const GoalContributionTimeline: React.FC<GoalContributionTimelineProps> = ({ contributions }) => {
+  const { deleteGoalContribution } = useFinance();
+  const { formatCurrency } = useInternationalization();
+  const [showAll, setShowAll] = useState(false);
+  const [undoingId, setUndoingId] = useState<string | null>(null);
+
+  const ordered = contributions
+    .slice()
+    .sort((a, b) => a.date.getTime() - b.date.getTime() || a.createdAt.getTime() - b.createdAt.getTime());
+
+  const entries: Array<{ contribution: GoalContribution; balance: number }> = [];
+  ordered.forEach(contribution => {
+    const previous = entries[entries.length - 1]?.balance ?? 0;
+    entries.push({ contribution, balance: roundCurrency(previous + contribution.amount) });
+  });
+  entries.reverse();
+
+  const visible = showAll ? entries : entries.slice(0, COLLAPSED_ENTRIES);
+
+  const handleUndo = async (id: string) => {
+    try {
+      setUndoingId(id);
+      await deleteGoalContribution(id);
+    } catch (error: unknown) {
+      console.error('Error undoing goal contribution:', error);
+    } finally {
+      setUndoingId(null);
+    }
+  };
+
+  if (entries.length === 0) {
+    return <p className="text-xs text-gray-400">No contributions yet.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {visible.map(({ contribution, balance }) => {
+        const isDeposit = contribution.amount > 0;
+
+        return (
+          <div key={contribution.id} className="flex items-center justify-between text-sm">
+            <div className="flex items-center space-x-2 min-w-0">
+              {isDeposit ? (
+                <ArrowUpRight size={14} className="text-success-400 shrink-0" />
+              ) : (
+                <ArrowDownRight size={14} className="text-error-400 shrink-0" />
+              )}
+              <div className="min-w-0">
+                <p className="text-white truncate">
+                  {contribution.note || (isDeposit ? 'Contribution' : 'Withdrawal')}
+                </p>
+                <p className="text-xs text-gray-400 flex items-center">
+                  {format(contribution.date, 'MMM d, yyyy')}
+                  {contribution.fundingRuleId ? (
+                    <Zap size={12} className="ml-2" aria-label="Made by a funding rule" />
+                  ) : contribution.transactionId && (
+                    <Receipt size={12} className="ml-2" aria-label="Recorded with a transaction" />
+                  )}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <div className="text-right">
+                <p className={`font-medium ${isDeposit ? 'text-success-400' : 'text-error-400'}`}>
+                  {isDeposit ? '+' : '−'}{formatCurrency(Math.abs(contribution.amount))}
+                </p>
+                <p className="text-xs text-gray-400">{formatCurrency(balance)}</p>
+              </div>
+              <button
+                onClick={() => handleUndo(contribution.id)}
+                disabled={undoingId !== null}
+                className="p-1 hover:bg-white/10 rounded-lg transition-colors disabled:opacity-50"
+                title={contribution.transactionId && !contribution.fundingRuleId ? 'Undo (also deletes its transaction)' : 'Undo'}
+              >
+                <Undo2 size={14} className="text-gray-400" />
+              </button>
+            </div>
+          </div>
+        );
+      })}
+
+      {entries.length > COLLAPSED_ENTRIES && (
+        <button
+          onClick={() => setShowAll(prev => !prev)}
+          className="text-xs text-primary-400 hover:text-primary-300"
+        >
+          {showAll ? 'Show less' : `Show all ${entries.length}`}
+        </button>
+      )}
+    </div>
+  );
+};
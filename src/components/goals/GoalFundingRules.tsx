@@ -0,0 +1,316 @@
+import React, { useState } from 'react';
+import { AlertCircle, Edit3, Pause, Play, Plus, Trash2 } from 'lucide-react';
+import { Input } from '../common/Input';
+import { Button } from '../common/Button';
+import { useFinance } from '../../contexts/FinanceContext';
+import { useInternationalization } from '../../contexts/InternationalizationContext';
+import { GoalFundingRule } from '../../types';
+import { roundCurrency } from '../../utils/currency';
+
+type RuleDraft = Omit<GoalFundingRule, 'id' | 'userId' | 'createdAt'>;
+
+interface GoalFundingRulesProps {
+  onDone: () => void;
+}
+
+const selectClassName = "block w-full rounded-xl border-white/20 bg-black/40 text-white shadow-sm focus:border-primary-500 focus:ring-primary-500 py-3 px-4";
+
+const sourceLabels: Record<GoalFundingRule['source'], string> = {
+  income: 'Every income',
+  budget_leftover: 'Budget leftovers',
+};
+
+// Rules that move money into goals automatically, from every income as it is
+// recorded or from what is left of budgets when their period ends. The rules
+// of a source run in priority order, each taking what its goal still needs
+// out of what the rules before it left.
+export const GoalFundingRules: React.FC<GoalFundingRulesProps> = ({ onDone }) => {
+  const {
+    goals,
+    goalFundingRules,
+    userCategories,
+    addGoalFundingRule,
+    updateGoalFundingRule,
+    deleteGoalFundingRule,
+  } = useFinance();
+  const { formatCurrency } = useInternationalization();
+
+  const emptyDraft = (): RuleDraft => ({
+    goalId: goals[0]?.id ?? '',
+    source: 'income',
+    amountType: 'percent',
+    amount: 10,
+    category: undefined,
+    priority: goalFundingRules.reduce((max, r) => Math.max(max, r.priority + 1), 0),
+    isActive: true,
+  });
+
+  const [draft, setDraft] = useState<RuleDraft | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const incomeCategories = userCategories.filter(c => c.type === 'income').map(c => c.name);
+  const goalName = (goalId: string) => goals.find(g => g.id === goalId)?.title ?? 'Deleted goal';
+
+  const describeAmount = (rule: Pick<GoalFundingRule, 'amountType' | 'amount'>) =>
+    rule.amountType === 'percent' ? `${rule.amount}%` : formatCurrency(rule.amount);
+
+  const startEditing = (rule: GoalFundingRule) => {
+    setEditingId(rule.id);
+    setDraft({
+      goalId: rule.goalId,
+      source: rule.source,
+      amountType: rule.amountType,
+      amount: rule.amount,
+      category: rule.category,
+      priority: rule.priority,
+      isActive: rule.isActive,
+    });
+    setError(null);
+  };
+
+  const closeForm = () => {
+    setDraft(null);
+    setEditingId(null);
+    setError(null);
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    try {
+      setIsSaving(true);
+      setError(null);
+      if (!draft.goalId) throw new Error('Choose a goal to fund');
+      if (!(draft.amount > 0)) throw new Error('Amount must be greater than 0');
+      if (draft.amountType === 'percent' && draft.amount > 100) throw new Error('A percentage cannot be more than 100');
+
+      const rule = { ...draft, amount: roundCurrency(draft.amount) };
+      if (editingId) {
+        await updateGoalFundingRule(editingId, rule);
+      } else {
+        await addGoalFundingRule(rule);
+      }
+      closeForm();
+    } catch (error: unknown) {
+      console.error('Error saving goal funding rule:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save funding rule. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderRules = (source: GoalFundingRule['source']) => {
+    const rules = goalFundingRules.filter(r => r.source === source);
+
+    return (
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium text-white">{sourceLabels[source]}</h4>
+        {rules.length === 0 ? (
+          <p className="text-xs text-gray-400">No rules yet.</p>
+        ) : (
+          rules.map((rule, index) => (
+            <div
+              key={rule.id}
+              className={`flex items-center justify-between bg-black/30 rounded-lg p-3 border border-white/10 ${rule.isActive ? '' : 'opacity-50'}`}
+            >
+              <div className="min-w-0 flex-1">
+                <p className="text-white text-sm font-medium truncate">
+                  {index + 1}. {describeAmount(rule)} to {goalName(rule.goalId)}
+                </p>
+                <p className="text-xs text-gray-400">
+                  {rule.category ? `${rule.category} income only • ` : ''}
+                  Priority {rule.priority}{rule.isActive ? '' : ' • Paused'}
+                </p>
+              </div>
+              <div className="flex items-center space-x-1">
+                <button
+                  type="button"
+                  onClick={() => updateGoalFundingRule(rule.id, { isActive: !rule.isActive }).catch(() => undefined)}
+                  className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+                  title={rule.isActive ? 'Pause Rule' : 'Resume Rule'}
+                >
+                  {rule.isActive ? <Pause size={14} className="text-gray-400" /> : <Play size={14} className="text-gray-400" />}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => startEditing(rule)}
+                  className="p-2 hover:bg-white/10 rounded-lg transition-colors"
+                  title="Edit Rule"
+                >
+                  <Edit3 size={14} className="text-gray-400" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => deleteGoalFundingRule(rule.id).catch(() => undefined)}
+                  className="p-2 hover:bg-error-500/20 rounded-lg transition-colors"
+                  title="Delete Rule"
+                >
+                  <Trash2 size={14} className="text-error-400" />
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    );
+  };
+
+  if (goals.length === 0) {
+    return (
+      <div className="space-y-6">
+        <p className="text-sm text-gray-400">Create a goal first to fund it automatically.</p>
+        <Button type="button" variant="outline" onClick={onDone} className="w-full border-white/20 text-white hover:bg-white/10">
+          Close
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Error Message */}
+      {error && (
+        <div className="bg-error-500/20 border border-error-500/30 rounded-lg p-4">
+          <div className="flex items-center space-x-2">
+            <AlertCircle size={18} className="text-error-400" />
+            <p className="text-error-400 text-sm">{error}</p>
+          </div>
+        </div>
+      )}
+
+      {draft ? (
+        <div className="bg-black/30 backdrop-blur-md rounded-xl p-4 border border-white/20 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Goal</label>
+            <select
+              value={draft.goalId}
+              onChange={(e) => setDraft({ ...draft, goalId: e.target.value })}
+              className={selectClassName}
+            >
+              {goals.map(goal => (
+                <option key={goal.id} value={goal.id}>{goal.title}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            {(Object.keys(sourceLabels) as Array<GoalFundingRule['source']>).map(source => (
+              <button
+                key={source}
+                type="button"
+                onClick={() => setDraft({ ...draft, source, category: source === 'income' ? draft.category : undefined })}
+                className={`p-3 rounded-lg border-2 text-sm transition-colors ${
+                  draft.source === source
+                    ? 'border-primary-500 bg-primary-500/20 text-primary-400'
+                    : 'border-white/20 hover:border-white/30 text-gray-300'
+                }`}
+              >
+                {sourceLabels[source]}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Take</label>
+              <select
+                value={draft.amountType}
+                onChange={(e) => setDraft({ ...draft, amountType: e.target.value as GoalFundingRule['amountType'] })}
+                className={selectClassName}
+              >
+                <option value="percent">A percentage</option>
+                <option value="fixed">A fixed amount</option>
+              </select>
+            </div>
+            <Input
+              label={draft.amountType === 'percent' ? 'Percent' : 'Amount'}
+              type="number"
+              step="0.01"
+              value={draft.amount || ''}
+              onChange={(e) => setDraft({ ...draft, amount: Number(e.target.value) || 0 })}
+              className="bg-black/40 border-white/20 text-white"
+            />
+          </div>
+
+          {draft.source === 'income' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Income Category</label>
+              <select
+                value={draft.category ?? ''}
+                onChange={(e) => setDraft({ ...draft, category: e.target.value || undefined })}
+                className={selectClassName}
+              >
+                <option value="">Any income</option>
+                {incomeCategories.map(category => (
+                  <option key={category} value={category}>{category}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <Input
+            label="Priority"
+            type="number"
+            step="1"
+            value={draft.priority}
+            onChange={(e) => setDraft({ ...draft, priority: Math.trunc(Number(e.target.value) || 0) })}
+            className="bg-black/40 border-white/20 text-white"
+            helpText="Lower numbers are funded first"
+          />
+
+          <div className="flex space-x-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={closeForm}
+              className="flex-1 border-white/20 text-white hover:bg-white/10"
+              disabled={isSaving}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              onClick={handleSave}
+              className="flex-1 bg-gradient-to-r from-primary-500 to-primary-600 hover:from-primary-600 hover:to-primary-700"
+              loading={isSaving}
+            >
+              {editingId ? 'Update Rule' : 'Add Rule'}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <p className="text-sm text-gray-400">
+            Rules run in priority order. Each one takes its share of the money, up to what its goal still
+            needs, and the rest flows on to the next rule.
+          </p>
+          {renderRules('income')}
+          {renderRules('budget_leftover')}
+          <p className="text-xs text-gray-400">
+            Budget leftovers are funded when a period ends, except for budgets that roll their leftover over.
+          </p>
+
+          <div className="flex space-x-4 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onDone}
+              className="flex-1 border-white/20 text-white hover:bg-white/10"
+            >
+              Close
+            </Button>
+            <Button
+              type="button"
+              onClick={() => setDraft(emptyDraft())}
+              className="flex-1 bg-gradient-to-r from-primary-500 to-primary-600 hover:from-primary-600 hover:to-primary-700"
+            >
+              <Plus size={16} className="mr-1" />
+              Add Rule
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
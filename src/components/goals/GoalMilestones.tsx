@@ -0,0 +1,50 @@
+import React from 'react';
+import { CheckCircle, Flag } from 'lucide-react';
+import { format } from 'date-fns';
+import { Goal } from '../../types';
+import { useInternationalization } from '../../contexts/InternationalizationContext';
+
+interface GoalMilestonesProps {
+  goal: Goal;
+}
+
+// A goal's milestones, smallest first: when each was reached, or what is left
+// to reach it and whether its date has passed
+export const GoalMilestones: React.FC<GoalMilestonesProps> = ({ goal }) => {
+  const { formatCurrency } = useInternationalization();
+  const today = new Date();
+
+  return (
+    <div className="space-y-2">
+      {goal.milestones.map(milestone => {
+        const isReached = !!milestone.reachedAt;
+        const isLate = !isReached && !!milestone.targetDate && milestone.targetDate < today;
+
+        return (
+          <div key={milestone.id} className="flex items-center justify-between text-xs sm:text-sm">
+            <div className="flex items-center space-x-2 min-w-0">
+              {isReached ? (
+                <CheckCircle size={14} className="text-success-400 shrink-0" />
+              ) : (
+                <Flag size={14} className={`shrink-0 ${isLate ? 'text-error-400' : 'text-gray-400'}`} />
+              )}
+              <span className={`truncate ${isReached ? 'text-gray-300' : 'text-white'}`}>
+                {milestone.title || formatCurrency(milestone.amount)}
+              </span>
+              {milestone.title && (
+                <span className="text-gray-400 shrink-0">{formatCurrency(milestone.amount)}</span>
+              )}
+            </div>
+            <span className={`shrink-0 ml-2 ${isReached ? 'text-success-400' : isLate ? 'text-error-400' : 'text-gray-400'}`}>
+              {isReached && milestone.reachedAt
+                ? `Reached ${format(milestone.reachedAt, 'MMM d')}`
+                : `${formatCurrency(Math.max(milestone.amount - goal.currentAmount, 0))} to go${
+                  milestone.targetDate ? ` • ${isLate ? 'was due' : 'by'} ${format(milestone.targetDate, 'MMM d, yyyy')}` : ''
+                }`}
+            </span>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,160 @@
+import React, { useState } from 'react';
+import { Receipt, Undo2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { Liability } from '../../types';
+import { Button } from '../common/Button';
+import { useFinance } from '../../contexts/FinanceContext';
+import { useInternationalization } from '../../contexts/InternationalizationContext';
+import { amortizationSchedule } from '../../utils/liabilities';
+
+const COLLAPSED_ROWS = 12;
+
+interface AmortizationScheduleProps {
+  liability: Liability;
+  onClose: () => void;
+}
+
+// A liability's payments so far and the monthly payments still to come, each
+// split into interest and principal, with the interest paid to date against
+// what is left to pay. Only the latest payment can be undone, so the interest
+// of the ones after it stays right.
+export const AmortizationSchedule: React.FC<AmortizationScheduleProps> = ({ liability, onClose }) => {
+  const { liabilityPayments, deleteLiabilityPayment } = useFinance();
+  const { formatCurrency } = useInternationalization();
+  const [showAll, setShowAll] = useState(false);
+  const [isUndoing, setIsUndoing] = useState(false);
+
+  const schedule = amortizationSchedule(liability, liabilityPayments);
+  const payments = liabilityPayments.filter(p => p.liabilityId === liability.id);
+  const latestPayment = payments
+    .slice()
+    .sort((a, b) => a.date.getTime() - b.date.getTime() || a.createdAt.getTime() - b.createdAt.getTime())
+    .pop();
+  const paidRows = schedule.rows.filter(row => !row.projected).length;
+  // Rows around today: the last few payments made and the next ones to come
+  const firstVisible = Math.max(paidRows - 3, 0);
+  const visible = showAll ? schedule.rows : schedule.rows.slice(firstVisible, firstVisible + COLLAPSED_ROWS);
+
+  const handleUndo = async () => {
+    if (!latestPayment) return;
+    try {
+      setIsUndoing(true);
+      await deleteLiabilityPayment(latestPayment.id);
+    } catch (error: unknown) {
+      console.error('Error undoing liability payment:', error);
+    } finally {
+      setIsUndoing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Interest Summary */}
+      <div className="grid grid-cols-2 gap-3">
+        <div className="bg-black/30 rounded-xl p-3 border border-white/10">
+          <p className="text-xs text-gray-400">Interest Paid</p>
+          <p className="text-lg font-semibold text-white">{formatCurrency(schedule.interestPaid)}</p>
+          <p className="text-xs text-gray-400">In {payments.length} payment{payments.length !== 1 ? 's' : ''} recorded</p>
+        </div>
+        <div className="bg-black/30 rounded-xl p-3 border border-white/10">
+          <p className="text-xs text-gray-400">Interest Remaining</p>
+          <p className="text-lg font-semibold text-warning-400">
+            {schedule.interestRemaining !== undefined ? formatCurrency(schedule.interestRemaining) : '—'}
+          </p>
+          <p className="text-xs text-gray-400">At {formatCurrency(liability.monthlyPayment)} a month</p>
+        </div>
+        <div className="bg-black/30 rounded-xl p-3 border border-white/10">
+          <p className="text-xs text-gray-400">Principal Paid</p>
+          <p className="text-lg font-semibold text-success-400">{formatCurrency(schedule.principalPaid)}</p>
+          <p className="text-xs text-gray-400">Of {formatCurrency(liability.totalAmount)}</p>
+        </div>
+        <div className="bg-black/30 rounded-xl p-3 border border-white/10">
+          <p className="text-xs text-gray-400">Payoff</p>
+          <p className="text-lg font-semibold text-white">
+            {schedule.payoffDate ? format(schedule.payoffDate, 'MMM yyyy') : 'Never'}
+          </p>
+          <p className="text-xs text-gray-400">{liability.interestRate}% APR</p>
+        </div>
+      </div>
+
+      {!schedule.payoffDate && liability.remainingAmount > 0 && (
+        <div className="bg-error-500/20 border border-error-500/30 rounded-lg p-3">
+          <p className="text-error-400 text-sm">
+            At this monthly payment the interest takes up all or most of every payment, so this debt is never
+            paid off. Raise the monthly payment to see when it would be.
+          </p>
+        </div>
+      )}
+
+      {/* Schedule */}
+      {schedule.rows.length === 0 ? (
+        <p className="text-sm text-gray-400">No payments recorded or to come.</p>
+      ) : (
+        <div className="space-y-2">
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs sm:text-sm">
+              <thead>
+                <tr className="text-gray-400 text-left">
+                  <th className="py-2 pr-2 font-medium">Date</th>
+                  <th className="py-2 px-2 font-medium text-right">Payment</th>
+                  <th className="py-2 px-2 font-medium text-right">Interest</th>
+                  <th className="py-2 px-2 font-medium text-right">Principal</th>
+                  <th className="py-2 pl-2 font-medium text-right">Balance</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visible.map((row, index) => (
+                  <tr
+                    key={`${row.projected ? 'projected' : 'paid'}-${row.date.getTime()}-${index}`}
+                    className={`border-t border-white/10 ${row.projected ? 'text-gray-400' : 'text-white'}`}
+                  >
+                    <td className="py-2 pr-2 whitespace-nowrap">
+                      {format(row.date, 'MMM d, yyyy')}
+                      {!row.projected && <Receipt size={12} className="inline ml-1 text-success-400" aria-label="Paid" />}
+                    </td>
+                    <td className="py-2 px-2 text-right">{formatCurrency(row.payment)}</td>
+                    <td className="py-2 px-2 text-right text-warning-400">{formatCurrency(row.interest)}</td>
+                    <td className="py-2 px-2 text-right">{formatCurrency(row.principal)}</td>
+                    <td className="py-2 pl-2 text-right">{formatCurrency(row.balance)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {schedule.rows.length > COLLAPSED_ROWS && (
+            <button
+              onClick={() => setShowAll(prev => !prev)}
+              className="text-xs text-primary-400 hover:text-primary-300"
+            >
+              {showAll ? 'Show less' : `Show all ${schedule.rows.length}`}
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="flex space-x-4">
+        {latestPayment && (
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleUndo}
+            loading={isUndoing}
+            className="flex-1 border-white/20 text-white hover:bg-white/10"
+            title={latestPayment.transactionId ? 'Also deletes its transaction' : undefined}
+          >
+            <Undo2 size={16} className="mr-1" />
+            Undo Last Payment
+          </Button>
+        )}
+        <Button
+          type="button"
+          onClick={onClose}
+          className="flex-1 bg-gradient-to-r from-primary-500 to-primary-600 hover:from-primary-600 hover:to-primary-700"
+        >
+          Close
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -1,10 +1,34 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
 import { useInternationalization } from './InternationalizationContext';
-
-interface ExchangeRates {
-  [currencyCode: string]: number;
+import { useAuth } from './AuthContext';
+import { supabase } from '../lib/supabase';
+import {
+  ExchangeRates,
+  RateSource,
+  OFFLINE_RATES,
+  OFFLINE_PROVIDER_NAME,
+  crossRate,
+  fetchHistoricalRate,
+  fetchLatestRates,
+  getDefaultProviders,
+} from '../lib/exchangeRates';
+
+// A user-entered rate for one currency pair, used instead of provider rates
+// on the days it covers (YYYY-MM-DD, inclusive; no end means still in use)
+export interface ManualRate {
+  rate: number;
+  updatedAt: Date;
+  validFrom: string;
+  validTo?: string;
 }
 
+const manualRateKey = (fromCurrency: string, toCurrency: string) => `${fromCurrency}|${toCurrency}`;
+
+const isoDay = (date: Date) => date.toISOString().split('T')[0];
+
+const coversDay = (manual: ManualRate, day: string) =>
+  manual.validFrom <= day && (!manual.validTo || day <= manual.validTo);
+
 interface ConversionHistory {
   timestamp: Date;
   fromCurrency: string;
@@ -14,6 +38,26 @@ interface ConversionHistory {
   convertedAmount: number;
 }
 
+export type ConvertibleEntity = 'goals' | 'liabilities' | 'budgets' | 'recurring_transactions' | 'transactions';
+
+// Dry-run result of changing the base currency: rows affected per table and
+// the headline total before and after conversion
+export interface BaseCurrencyConversionPreview {
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+  entities: Record<ConvertibleEntity, { count: number; before: number; after: number }>;
+}
+
+// A base currency change that can still be undone
+export interface BaseCurrencyConversion {
+  id: string;
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+  createdAt: Date;
+}
+
 interface CurrencyConversionContextType {
   exchangeRates: ExchangeRates;
   baseCurrency: string;
@@ -21,9 +65,18 @@ interface CurrencyConversionContextType {
   lastUpdated: Date | null;
   conversionHistory: ConversionHistory[];
   convertAmount: (amount: number, fromCurrency: string, toCurrency: string) => number;
-  convertAllUserData: (newCurrency: string) => Promise<void>;
+  lastConversion: BaseCurrencyConversion | null;
+  previewBaseCurrencyChange: (newCurrency: string) => Promise<BaseCurrencyConversionPreview>;
+  changeBaseCurrency: (newCurrency: string) => Promise<void>;
+  undoBaseCurrencyChange: () => Promise<void>;
   refreshRates: () => Promise<void>;
   getConversionRate: (fromCurrency: string, toCurrency: string) => number;
+  getHistoricalRate: (fromCurrency: string, toCurrency: string, date: Date) => Promise<number>;
+  getRateSource: (fromCurrency: string, toCurrency: string) => RateSource;
+  manualRates: Record<string, ManualRate>;
+  getManualRate: (fromCurrency: string, toCurrency: string) => ManualRate | undefined;
+  setManualRate: (fromCurrency: string, toCurrency: string, rate: number, validFrom: string, validTo?: string) => void;
+  clearManualRate: (fromCurrency: string, toCurrency: string) => void;
   isOnline: boolean;
   offlineRates: ExchangeRates;
 }
@@ -43,7 +96,8 @@ interface CurrencyConversionProviderProps {
 }
 
 export const CurrencyConversionProvider: React.FC<CurrencyConversionProviderProps> = ({ children }) => {
-  const { currency } = useInternationalization();
+  const { currency, setCurrency, supportedCurrencies } = useInternationalization();
+  const { user } = useAuth();
   const [exchangeRates, setExchangeRates] = useState<ExchangeRates>({});
   const [baseCurrency] = useState('USD'); // Always use USD as base for consistency
   const [isLoading, setIsLoading] = useState(false);
@@ -51,51 +105,13 @@ export const CurrencyConversionProvider: React.FC<CurrencyConversionProviderProp
   const [conversionHistory, setConversionHistory] = useState<ConversionHistory[]>([]);
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [offlineRates, setOfflineRates] = useState<ExchangeRates>({});
-
-  // Fallback exchange rates for offline use (approximate rates)
-  const fallbackRates: ExchangeRates = {
-    'USD': 1.0,
-    'EUR': 0.85,
-    'GBP': 0.73,
-    'JPY': 110.0,
-    'CNY': 6.45,
-    'INR': 74.5,
-    'AUD': 1.35,
-    'CAD': 1.25,
-    'SGD': 1.35,
-    'HKD': 7.8,
-    'KRW': 1180.0,
-    'THB': 33.0,
-    'MYR': 4.15,
-    'IDR': 14250.0,
-    'PHP': 50.5,
-    'VND': 23000.0,
-    'CHF': 0.92,
-    'SEK': 8.6,
-    'NOK': 8.5,
-    'DKK': 6.35,
-    'PLN': 3.9,
-    'CZK': 21.5,
-    'HUF': 295.0,
-    'RUB': 73.0,
-    'BRL': 5.2,
-    'MXN': 20.1,
-    'ARS': 98.0,
-    'CLP': 710.0,
-    'COP': 3650.0,
-    'PEN': 3.6,
-    'AED': 3.67,
-    'SAR': 3.75,
-    'QAR': 3.64,
-    'ILS': 3.2,
-    'TRY': 8.5,
-    'ZAR': 14.8,
-    'EGP': 15.7,
-    'NGN': 411.0,
-    'KES': 108.0,
-    'BTC': 0.000023,
-    'ETH': 0.00035
-  };
+  const [rateSources, setRateSources] = useState<Record<string, RateSource>>({});
+  const [manualRates, setManualRates] = useState<Record<string, ManualRate>>({});
+  const [providers] = useState(getDefaultProviders);
+  const [lastConversion, setLastConversion] = useState<BaseCurrencyConversion | null>(null);
+  // The base currency stored on the profile: undefined until loaded, null
+  // if none has been stored yet
+  const [savedBaseCurrency, setSavedBaseCurrency] = useState<string | null | undefined>(undefined);
 
   // Monitor online status
   useEffect(() => {
@@ -116,19 +132,44 @@ export const CurrencyConversionProvider: React.FC<CurrencyConversionProviderProp
     const cachedRates = localStorage.getItem('finspire_exchange_rates');
     const cachedTimestamp = localStorage.getItem('finspire_rates_timestamp');
     const cachedHistory = localStorage.getItem('finspire_conversion_history');
+    const cachedSources = localStorage.getItem('finspire_rate_sources');
+    const cachedManualRates = localStorage.getItem('finspire_manual_rates');
 
     if (cachedRates) {
       const rates = JSON.parse(cachedRates);
       setExchangeRates(rates);
       setOfflineRates(rates);
     } else {
-      setOfflineRates(fallbackRates);
+      setOfflineRates(OFFLINE_RATES);
     }
 
     if (cachedTimestamp) {
       setLastUpdated(new Date(cachedTimestamp));
     }
 
+    if (cachedSources) {
+      const sources: Record<string, { provider: string; fetchedAt: string | null }> = JSON.parse(cachedSources);
+      setRateSources(Object.fromEntries(Object.entries(sources).map(([code, source]) => [
+        code,
+        { provider: source.provider, fetchedAt: source.fetchedAt ? new Date(source.fetchedAt) : null },
+      ])));
+    }
+
+    if (cachedManualRates) {
+      const manual: Record<string, { rate: number; updatedAt: string; validFrom?: string; validTo?: string }> =
+        JSON.parse(cachedManualRates);
+      // Rates saved before they had a range cover the days from their entry on
+      setManualRates(Object.fromEntries(Object.entries(manual).map(([pair, entry]) => [
+        pair,
+        {
+          rate: entry.rate,
+          updatedAt: new Date(entry.updatedAt),
+          validFrom: entry.validFrom ?? isoDay(new Date(entry.updatedAt)),
+          validTo: entry.validTo,
+        },
+      ])));
+    }
+
     if (cachedHistory) {
       const history = JSON.parse(cachedHistory).map((item: any) => ({
         ...item,
@@ -147,94 +188,131 @@ export const CurrencyConversionProvider: React.FC<CurrencyConversionProviderProp
     }
   }, [isOnline]);
 
-  // Fetch exchange rates from multiple APIs with fallbacks
+  // Ask each provider in turn for current rates; the offline table always
+  // answers, so this only fails if every provider throws
   const refreshRates = async (): Promise<void> => {
     if (!isOnline) return;
 
     setIsLoading(true);
     try {
-      // Try multiple free APIs for reliability
-      let rates: ExchangeRates | null = null;
-
-      // Primary API: ExchangeRate-API (free tier)
-      try {
-        const response = await fetch(`https://api.exchangerate-api.com/v4/latest/${baseCurrency}`);
-        if (response.ok) {
-          const data = await response.json();
-          rates = data.rates;
-        }
-      } catch (error) {
-        console.log('Primary API failed, trying backup...');
-      }
-
-      // Backup API: Fixer.io (requires API key, but has free tier)
-      if (!rates) {
-        try {
-          const response = await fetch(`https://api.fixer.io/latest?base=${baseCurrency}`);
-          if (response.ok) {
-            const data = await response.json();
-            rates = data.rates;
-          }
-        } catch (error) {
-          console.log('Backup API failed, trying third option...');
-        }
-      }
-
-      // Third option: CurrencyAPI (free tier)
-      if (!rates) {
-        try {
-          const response = await fetch(`https://api.currencyapi.com/v3/latest?apikey=YOUR_API_KEY&base_currency=${baseCurrency}`);
-          if (response.ok) {
-            const data = await response.json();
-            rates = Object.fromEntries(
-              Object.entries(data.data).map(([key, value]: [string, any]) => [key, value.value])
-            );
-          }
-        } catch (error) {
-          console.log('Third API failed, using cached/fallback rates');
-        }
-      }
-
-      // Use fallback rates if all APIs fail
-      if (!rates) {
-        rates = fallbackRates;
-        console.log('Using fallback exchange rates');
-      }
-
-      // Ensure USD is always 1.0 in the rates
-      rates[baseCurrency] = 1.0;
+      const { rates, sources } = await fetchLatestRates(providers);
+      const fetchedAt = new Date();
 
       setExchangeRates(rates);
       setOfflineRates(rates);
-      setLastUpdated(new Date());
+      setRateSources(sources);
+      setLastUpdated(fetchedAt);
 
       // Cache the rates
       localStorage.setItem('finspire_exchange_rates', JSON.stringify(rates));
-      localStorage.setItem('finspire_rates_timestamp', new Date().toISOString());
+      localStorage.setItem('finspire_rate_sources', JSON.stringify(sources));
+      localStorage.setItem('finspire_rates_timestamp', fetchedAt.toISOString());
 
     } catch (error) {
       console.error('Failed to fetch exchange rates:', error);
       // Use cached rates or fallback
       if (Object.keys(exchangeRates).length === 0) {
-        setExchangeRates(fallbackRates);
-        setOfflineRates(fallbackRates);
+        setExchangeRates(OFFLINE_RATES);
+        setOfflineRates(OFFLINE_RATES);
       }
     } finally {
       setIsLoading(false);
     }
   };
 
+  const getManualRate = (fromCurrency: string, toCurrency: string): ManualRate | undefined =>
+    manualRates[manualRateKey(fromCurrency, toCurrency)];
+
+  const saveManualRates = (next: Record<string, ManualRate>) => {
+    setManualRates(next);
+    localStorage.setItem('finspire_manual_rates', JSON.stringify(next));
+  };
+
+  // Pin a rate for one pair from `validFrom` to `validTo`. It applies in both
+  // directions and wins over every provider on those days only.
+  const setManualRate = (fromCurrency: string, toCurrency: string, rate: number, validFrom: string, validTo?: string) => {
+    if (fromCurrency === toCurrency || !(rate > 0) || !validFrom || (validTo && validTo < validFrom)) return;
+    const next = { ...manualRates };
+    delete next[manualRateKey(toCurrency, fromCurrency)];
+    next[manualRateKey(fromCurrency, toCurrency)] = { rate, updatedAt: new Date(), validFrom, validTo: validTo || undefined };
+    saveManualRates(next);
+  };
+
+  const clearManualRate = (fromCurrency: string, toCurrency: string) => {
+    const next = { ...manualRates };
+    delete next[manualRateKey(fromCurrency, toCurrency)];
+    delete next[manualRateKey(toCurrency, fromCurrency)];
+    saveManualRates(next);
+  };
+
+  const manualConversionRate = (fromCurrency: string, toCurrency: string, day: string): number | undefined => {
+    const manual = getManualRate(fromCurrency, toCurrency);
+    if (manual) return coversDay(manual, day) ? manual.rate : undefined;
+    const inverse = getManualRate(toCurrency, fromCurrency);
+    return inverse && coversDay(inverse, day) ? 1 / inverse.rate : undefined;
+  };
+
+  // Latest provider rate, ignoring manual rates
+  const providerConversionRate = (fromCurrency: string, toCurrency: string): number => {
+    const rates = isOnline ? exchangeRates : offlineRates;
+    // Currencies missing from the fetched table use the bundled offline rate
+    return crossRate({ ...OFFLINE_RATES, ...rates }, fromCurrency, toCurrency) ?? 1.0;
+  };
+
   // Get conversion rate between two currencies
   const getConversionRate = (fromCurrency: string, toCurrency: string): number => {
-    const rates = isOnline ? exchangeRates : offlineRates;
-    
     if (fromCurrency === toCurrency) return 1.0;
-    
-    const fromRate = rates[fromCurrency] || fallbackRates[fromCurrency] || 1.0;
-    const toRate = rates[toCurrency] || fallbackRates[toCurrency] || 1.0;
-    
-    // Convert through USD as base currency
-    return toRate / fromRate;
+
+    const manual = manualConversionRate(fromCurrency, toCurrency, isoDay(new Date()));
+    if (manual) return manual;
+
+    return providerConversionRate(fromCurrency, toCurrency);
+  };
+
+  // Provider behind the rate for a pair. A cross rate is only as fresh as its
+  // oldest side, so the non-USD side with the older fetch time is reported.
+  const getRateSource = (fromCurrency: string, toCurrency: string): RateSource => {
+    const manual = getManualRate(fromCurrency, toCurrency) ?? getManualRate(toCurrency, fromCurrency);
+    if (manual && coversDay(manual, isoDay(new Date()))) return { provider: 'Manual', fetchedAt: manual.updatedAt };
+
+    const offline: RateSource = { provider: OFFLINE_PROVIDER_NAME, fetchedAt: null };
+    const sides = [fromCurrency, toCurrency]
+      .filter(code => code !== baseCurrency)
+      .map(code => rateSources[code] ?? offline);
+    if (sides.length === 0) return offline;
+
+    return sides.reduce((oldest, source) =>
+      !source.fetchedAt || (oldest.fetchedAt && source.fetchedAt < oldest.fetchedAt) ? source : oldest
+    );
+  };
+
+  // Rate between two currencies on a given day. A manual rate covering the
+  // day wins; otherwise past rates never change, so every lookup is cached.
+  // When offline or no provider has the date the current rate is used instead.
+  const getHistoricalRate = async (fromCurrency: string, toCurrency: string, date: Date): Promise<number> => {
+    if (fromCurrency === toCurrency) return 1.0;
+
+    const day = isoDay(date);
+    const manual = manualConversionRate(fromCurrency, toCurrency, day);
+    if (manual) return manual;
+
+    const cacheKey = `${day}|${fromCurrency}|${toCurrency}`;
+    const cache: ExchangeRates = JSON.parse(localStorage.getItem('finspire_historical_rates') || '{}');
+    if (cache[cacheKey]) return cache[cacheKey];
+
+    if (isOnline) {
+      try {
+        const { rate } = await fetchHistoricalRate(providers, fromCurrency, toCurrency, date);
+        cache[cacheKey] = rate;
+        localStorage.setItem('finspire_historical_rates', JSON.stringify(cache));
+        return rate;
+      } catch (error) {
+        console.log('Historical rate lookup failed, using current rate:', error);
+      }
+    }
+
+    // The day is outside any manual rate, so today's one must not stand in
+    return providerConversionRate(fromCurrency, toCurrency);
   };
 
   // Convert amount between currencies
@@ -261,105 +339,164 @@ export const CurrencyConversionProvider: React.FC<CurrencyConversionProviderProp
     return convertedAmount;
   };
 
-  // Convert all user data to new currency
-  const convertAllUserData = async (newCurrency: string): Promise<void> => {
-    const currentCurrency = currency.code;
-    if (currentCurrency === newCurrency) return;
+  // Latest base currency change that can still be undone
+  useEffect(() => {
+    if (!user) {
+      setLastConversion(null);
+      return;
+    }
 
-    try {
-      setIsLoading(true);
+    const loadLastConversion = async () => {
+      const { data, error } = await supabase
+        .from('currency_conversions')
+        .select('id, from_currency, to_currency, rate, created_at')
+        .eq('user_id', user.id)
+        .is('undone_at', null)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Failed to load currency conversions:', error);
+        return;
+      }
 
-      // Get conversion rate
-      const conversionRate = getConversionRate(currentCurrency, newCurrency);
-
-      // Convert transactions
-      const transactions = JSON.parse(localStorage.getItem('finspire_transactions') || '[]');
-      const convertedTransactions = transactions.map((transaction: any) => ({
-        ...transaction,
-        amount: transaction.amount * conversionRate,
-        originalAmount: transaction.originalAmount || transaction.amount,
-        originalCurrency: transaction.originalCurrency || currentCurrency,
-        date: new Date(transaction.date) // Ensure date is properly parsed
-      }));
+      setLastConversion(data ? {
+        id: data.id,
+        fromCurrency: data.from_currency,
+        toCurrency: data.to_currency,
+        rate: Number(data.rate),
+        createdAt: new Date(data.created_at),
+      } : null);
+    };
 
-      // Convert goals
-      const goals = JSON.parse(localStorage.getItem('finspire_goals') || '[]');
-      const convertedGoals = goals.map((goal: any) => ({
-        ...goal,
-        targetAmount: goal.targetAmount * conversionRate,
-        currentAmount: goal.currentAmount * conversionRate,
-        originalTargetAmount: goal.originalTargetAmount || goal.targetAmount,
-        originalCurrentAmount: goal.originalCurrentAmount || goal.currentAmount,
-        originalCurrency: goal.originalCurrency || currentCurrency,
-        targetDate: new Date(goal.targetDate),
-        createdAt: new Date(goal.createdAt)
-      }));
+    loadLastConversion();
+  }, [user]);
 
-      // Convert liabilities
-      const liabilities = JSON.parse(localStorage.getItem('finspire_liabilities') || '[]');
-      const convertedLiabilities = liabilities.map((liability: any) => ({
-        ...liability,
-        totalAmount: liability.totalAmount * conversionRate,
-        remainingAmount: liability.remainingAmount * conversionRate,
-        monthlyPayment: liability.monthlyPayment * conversionRate,
-        originalTotalAmount: liability.originalTotalAmount || liability.totalAmount,
-        originalRemainingAmount: liability.originalRemainingAmount || liability.remainingAmount,
-        originalMonthlyPayment: liability.originalMonthlyPayment || liability.monthlyPayment,
-        originalCurrency: liability.originalCurrency || currentCurrency,
-        dueDate: new Date(liability.dueDate),
-        createdAt: new Date(liability.createdAt)
-      }));
+  const switchToCurrency = (code: string) => {
+    const found = supportedCurrencies.find(c => c.code === code);
+    if (found) setCurrency(found);
+  };
+  // Latest render's version, so loading the profile doesn't re-run on every render
+  const switchCurrency = useRef(switchToCurrency);
+  switchCurrency.current = switchToCurrency;
 
-      // Convert budgets
-      const budgets = JSON.parse(localStorage.getItem('finspire_budgets') || '[]');
-      const convertedBudgets = budgets.map((budget: any) => ({
-        ...budget,
-        amount: budget.amount * conversionRate,
-        spent: budget.spent * conversionRate,
-        originalAmount: budget.originalAmount || budget.amount,
-        originalSpent: budget.originalSpent || budget.spent,
-        originalCurrency: budget.originalCurrency || currentCurrency,
-        createdAt: new Date(budget.createdAt)
-      }));
+  // The base currency is kept on the profile so every device agrees on it.
+  // The stored one wins over what this device remembers.
+  useEffect(() => {
+    if (!user) {
+      setSavedBaseCurrency(undefined);
+      return;
+    }
 
-      // Convert recurring transactions
-      const recurringTransactions = JSON.parse(localStorage.getItem('finspire_recurring_transactions') || '[]');
-      const convertedRecurringTransactions = recurringTransactions.map((rt: any) => ({
-        ...rt,
-        amount: rt.amount * conversionRate,
-        originalAmount: rt.originalAmount || rt.amount,
-        originalCurrency: rt.originalCurrency || currentCurrency,
-        startDate: new Date(rt.startDate),
-        endDate: rt.endDate ? new Date(rt.endDate) : undefined,
-        nextOccurrenceDate: new Date(rt.nextOccurrenceDate),
-        lastProcessedDate: rt.lastProcessedDate ? new Date(rt.lastProcessedDate) : undefined,
-        createdAt: new Date(rt.createdAt)
-      }));
+    const loadBaseCurrency = async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('base_currency')
+        .eq('id', user.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Failed to load base currency:', error);
+        return;
+      }
 
-      // Save converted data
-      localStorage.setItem('finspire_transactions', JSON.stringify(convertedTransactions));
-      localStorage.setItem('finspire_goals', JSON.stringify(convertedGoals));
-      localStorage.setItem('finspire_liabilities', JSON.stringify(convertedLiabilities));
-      localStorage.setItem('finspire_budgets', JSON.stringify(convertedBudgets));
-      localStorage.setItem('finspire_recurring_transactions', JSON.stringify(convertedRecurringTransactions));
-
-      // Save conversion metadata
-      const conversionMetadata = {
-        lastConversion: {
-          timestamp: new Date().toISOString(),
-          fromCurrency: currentCurrency,
-          toCurrency: newCurrency,
-          rate: conversionRate
-        }
-      };
-      localStorage.setItem('finspire_conversion_metadata', JSON.stringify(conversionMetadata));
-
-      // Trigger a page reload to refresh all components with new data
-      window.location.reload();
+      if (data?.base_currency) switchCurrency.current(data.base_currency);
+      setSavedBaseCurrency(data?.base_currency ?? null);
+    };
 
-    } catch (error) {
+    loadBaseCurrency();
+  }, [user]);
+
+  // Conversions store the new base currency themselves. Other changes, such
+  // as picking one during onboarding, are stored here.
+  useEffect(() => {
+    if (!user || savedBaseCurrency === undefined || savedBaseCurrency === currency.code) return;
+
+    setSavedBaseCurrency(currency.code);
+    supabase
+      .from('profiles')
+      .update({ base_currency: currency.code })
+      .eq('id', user.id)
+      .then(({ error }) => {
+        if (error) console.error('Failed to save base currency:', error);
+      });
+  }, [user, currency.code, savedBaseCurrency]);
+
+  // Goals, liabilities, budgets, recurring and regular transactions are
+  // converted by one database function, so either everything changes or
+  // nothing does. A dry run returns the same figures without writing.
+  const runBaseCurrencyConversion = async (newCurrency: string, dryRun: boolean) => {
+    if (!user) throw new Error('User not authenticated');
+
+    const currentCurrency = currency.code;
+    if (currentCurrency === newCurrency) {
+      throw new Error(`Your base currency is already ${newCurrency}`);
+    }
+
+    const rate = getConversionRate(currentCurrency, newCurrency);
+    const { data, error } = await supabase.rpc('convert_base_currency', {
+      p_from_currency: currentCurrency,
+      p_to_currency: newCurrency,
+      p_rate: rate,
+      p_dry_run: dryRun,
+    });
+
+    if (error) {
       console.error('Error converting user data:', error);
-      throw new Error('Failed to convert currency data. Please try again.');
+      throw new Error(`Failed to convert currency data: ${error.message}`);
+    }
+
+    return { rate, result: data as { conversion_id?: string; entities: BaseCurrencyConversionPreview['entities'] } };
+  };
+
+  const previewBaseCurrencyChange = async (newCurrency: string): Promise<BaseCurrencyConversionPreview> => {
+    const { rate, result } = await runBaseCurrencyConversion(newCurrency, true);
+    return { fromCurrency: currency.code, toCurrency: newCurrency, rate, entities: result.entities };
+  };
+
+  const changeBaseCurrency = async (newCurrency: string): Promise<void> => {
+    try {
+      setIsLoading(true);
+      const { rate, result } = await runBaseCurrencyConversion(newCurrency, false);
+
+      setLastConversion({
+        id: result.conversion_id!,
+        fromCurrency: currency.code,
+        toCurrency: newCurrency,
+        rate,
+        createdAt: new Date(),
+      });
+
+      setSavedBaseCurrency(newCurrency);
+      const target = supportedCurrencies.find(c => c.code === newCurrency);
+      if (target) setCurrency(target);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Undo the latest conversion, keeping what changed since, and switch back
+  // to the currency it converted from
+  const undoBaseCurrencyChange = async (): Promise<void> => {
+    if (!user) throw new Error('User not authenticated');
+    if (!lastConversion) throw new Error('There is no currency conversion to undo');
+
+    try {
+      setIsLoading(true);
+      const { error } = await supabase.rpc('undo_currency_conversion', {
+        p_conversion_id: lastConversion.id,
+      });
+
+      if (error) {
+        console.error('Error undoing currency conversion:', error);
+        throw new Error(`Failed to undo currency conversion: ${error.message}`);
+      }
+
+      setSavedBaseCurrency(lastConversion.fromCurrency);
+      const previous = supportedCurrencies.find(c => c.code === lastConversion.fromCurrency);
+      if (previous) setCurrency(previous);
+      setLastConversion(null);
     } finally {
       setIsLoading(false);
     }
@@ -372,9 +509,18 @@ export const CurrencyConversionProvider: React.FC<CurrencyConversionProviderProp
     lastUpdated,
     conversionHistory,
     convertAmount,
-    convertAllUserData,
+    lastConversion,
+    previewBaseCurrencyChange,
+    changeBaseCurrency,
+    undoBaseCurrencyChange,
     refreshRates,
     getConversionRate,
+    getHistoricalRate,
+    getRateSource,
+    manualRates,
+    getManualRate,
+    setManualRate,
+    clearManualRate,
     isOnline,
     offlineRates
   };
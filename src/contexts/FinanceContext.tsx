@@ -1,18 +1,84 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useMemo, useRef, ReactNode } from 'react';
 import { supabase, logQueryPerformance } from '../lib/supabase';
+import type { Database } from '../types/supabase';
 import { useAuth } from './AuthContext';
 import { useToast } from '../components/common/Toast';
+import { useInternationalization } from './InternationalizationContext';
+import { useCurrencyConversion } from './CurrencyConversionContext';
+import { usePersonalization } from './PersonalizationContext';
 import { 
   Transaction, 
   Goal, 
+  GoalContribution,
+  GoalFundingRule,
+  GoalInput,
+  GoalMilestone,
+  GoalMilestoneDraft,
   Liability, 
+  LiabilityPayment,
   Budget, 
+  BudgetPeriod,
+  BudgetAlert,
+  BudgetDraft,
+  BudgetTemplate,
+  EnvelopeTransfer,
   RecurringTransaction, 
+  RecurringException,
+  ScheduledOccurrence,
   DashboardStats, 
   UserCategory,
   SplitTransaction,
-  DebtRepaymentStrategy
+  DebtRepaymentStrategy,
+  Account
 } from '../types';
+import {
+  ImportBundle,
+  ImportEntity,
+  ImportEntitySummary,
+  ImportFormat,
+  ImportPreview,
+  ImportSummary,
+  PlannedRecord,
+  IMPORT_ENTITIES,
+  EXPORT_CSV_HEADERS,
+  createEmptySummary,
+  dateKey,
+  describePlan,
+  parseImportFile,
+  planImport,
+  toCsvField,
+} from '../utils/dataImport';
+import {
+  DuplicatePair,
+  findDuplicateTransactions,
+  mergedTransactionFields,
+} from '../utils/duplicateDetection';
+import {
+  AccountBalance,
+  calculateAccountBalances,
+} from '../utils/accountBalances';
+import { baseAmount, roundCurrency } from '../utils/currency';
+import {
+  DEFAULT_ALERT_THRESHOLDS,
+  budgetAlertMessage,
+  budgetAvailable,
+  budgetUtilization,
+  evaluateBudgetAlerts,
+} from '../utils/budgets';
+import { goalMilestoneMessage } from '../utils/goals';
+import { splitLiabilityPayment } from '../utils/liabilities';
+import {
+  EnvelopePlan,
+  buildEnvelopePlan,
+  envelopeBalance,
+  envelopeTargetFill,
+} from '../utils/envelopes';
+import { DEFAULT_ESTIMATE_WINDOW, estimateAmount, projectOccurrences } from '../utils/recurrence';
+import {
+  SubscriptionCandidate,
+  findSubscriptionCandidates,
+  subscriptionSchedule,
+} from '../utils/subscriptionDetection';
 
 // Local IncomeSource type used for dashboard income manager analytics
 export interface IncomeSource {
@@ -31,35 +97,86 @@ interface FinanceContextType {
   // Data
   transactions: Transaction[];
   goals: Goal[];
+  goalContributions: GoalContribution[];
+  goalFundingRules: GoalFundingRule[];
   liabilities: Liability[];
+  liabilityPayments: LiabilityPayment[];
   budgets: Budget[];
+  budgetPeriods: BudgetPeriod[];
+  envelopeTransfers: EnvelopeTransfer[];
+  budgetTemplates: BudgetTemplate[];
+  budgetAlerts: BudgetAlert[];
   recurringTransactions: RecurringTransaction[];
+  recurringExceptions: RecurringException[];
   userCategories: UserCategory[];
+  accounts: Account[];
   incomeSources: IncomeSource[];
   stats: DashboardStats;
   loading: boolean;
   
   // CRUD Operations
-  addTransaction: (transaction: Omit<Transaction, 'id' | 'userId'>) => Promise<void>;
+  addTransaction: (transaction: Omit<Transaction, 'id' | 'userId'>, options?: { fundGoals?: boolean }) => Promise<Transaction>;
   updateTransaction: (id: string, updates: Partial<Transaction>) => Promise<void>;
   deleteTransaction: (id: string) => Promise<void>;
   addSplitTransaction: (mainTransaction: Omit<Transaction, 'id' | 'userId'>, splits: SplitTransaction[]) => Promise<void>;
   
-  addGoal: (goal: Omit<Goal, 'id' | 'userId' | 'createdAt'>) => Promise<void>;
-  updateGoal: (id: string, updates: Partial<Goal>) => Promise<void>;
+  addGoal: (goal: GoalInput) => Promise<void>;
+  updateGoal: (id: string, updates: Partial<GoalInput>) => Promise<void>;
   deleteGoal: (id: string) => Promise<void>;
+  addGoalContributions: (
+    contributions: Array<Pick<GoalContribution, 'goalId' | 'amount' | 'note'>>,
+    transaction?: Omit<Transaction, 'id' | 'userId'>
+  ) => Promise<void>;
+  deleteGoalContribution: (id: string) => Promise<void>;
+  addGoalFundingRule: (rule: Omit<GoalFundingRule, 'id' | 'userId' | 'createdAt'>) => Promise<void>;
+  updateGoalFundingRule: (id: string, updates: Partial<GoalFundingRule>) => Promise<void>;
+  deleteGoalFundingRule: (id: string) => Promise<void>;
   
   addLiability: (liability: Omit<Liability, 'id' | 'userId' | 'createdAt'>) => Promise<void>;
   updateLiability: (id: string, updates: Partial<Liability>) => Promise<void>;
   deleteLiability: (id: string) => Promise<void>;
+  addLiabilityPayment: (
+    payment: Pick<LiabilityPayment, 'liabilityId' | 'amount' | 'note'>,
+    transaction?: Omit<Transaction, 'id' | 'userId'>
+  ) => Promise<void>;
+  deleteLiabilityPayment: (id: string) => Promise<void>;
   
   addBudget: (budget: Omit<Budget, 'id' | 'userId' | 'createdAt' | 'spent'>) => Promise<void>;
   updateBudget: (id: string, updates: Partial<Budget>) => Promise<void>;
   deleteBudget: (id: string) => Promise<void>;
+  addBudgets: (drafts: BudgetDraft[]) => Promise<void>;
+  saveBudgetTemplate: (name: string, items: BudgetDraft[]) => Promise<void>;
+  deleteBudgetTemplate: (id: string) => Promise<void>;
+  markBudgetAlertsRead: (ids?: string[]) => Promise<void>;
+  dismissBudgetAlert: (id: string) => Promise<void>;
+  markGoalMilestonesRead: (ids?: string[]) => Promise<void>;
+  getEnvelopePlan: (month?: Date) => EnvelopePlan;
+  moveEnvelopeFunds: (
+    month: Date,
+    fromBudgetId: string | undefined,
+    toBudgetId: string | undefined,
+    amount: number,
+    note?: string
+  ) => Promise<void>;
+  assignEnvelopeTargets: (month: Date) => Promise<void>;
+  deleteEnvelopeTransfer: (id: string) => Promise<void>;
   
-  addRecurringTransaction: (transaction: Omit<RecurringTransaction, 'id' | 'userId' | 'createdAt'>) => Promise<void>;
+  addRecurringTransaction: (transaction: Omit<RecurringTransaction, 'id' | 'userId' | 'createdAt'>) => Promise<RecurringTransaction>;
   updateRecurringTransaction: (id: string, updates: Partial<RecurringTransaction>) => Promise<void>;
   deleteRecurringTransaction: (id: string) => Promise<void>;
+  processRecurringTransactions: () => Promise<void>;
+  saveRecurringException: (
+    recurringTransactionId: string,
+    occurrenceDate: Date,
+    changes: { isSkipped: boolean; newDate?: Date; amount?: number }
+  ) => Promise<void>;
+  deleteRecurringException: (id: string) => Promise<void>;
+  getScheduledOccurrences: (from: Date, to: Date) => ScheduledOccurrence[];
+  getExpectedAmount: (rt: RecurringTransaction) => number;
+  
+  addAccount: (account: Omit<Account, 'id' | 'userId' | 'createdAt'>) => Promise<void>;
+  updateAccount: (id: string, updates: Partial<Account>) => Promise<void>;
+  deleteAccount: (id: string) => Promise<void>;
   
   addUserCategory: (category: Omit<UserCategory, 'id' | 'userId' | 'createdAt' | 'updatedAt'>) => Promise<void>;
   updateUserCategory: (id: string, updates: Partial<UserCategory>) => Promise<void>;
@@ -74,10 +191,20 @@ interface FinanceContextType {
   getIncomeAnalysis: (tx?: Transaction[]) => any[];
   getBudgetPerformance: () => any[];
   getSplitTransactions: (parentId: string) => Transaction[];
+  getAccountBalances: () => AccountBalance[];
   getTransactionsPaginated: (page: number, pageSize: number, filters?: any) => Promise<{ data: Transaction[]; count: number }>;
   calculateDebtRepaymentStrategy: (strategy: 'snowball' | 'avalanche', extraPayment: number) => DebtRepaymentStrategy;
   exportData: (format: 'json' | 'csv') => Promise<string>;
-  importData: (data: string, format: 'json' | 'csv') => Promise<void>;
+  previewImport: (data: string, format: 'json' | 'csv') => Promise<ImportPreview>;
+  importData: (data: string, format: 'json' | 'csv') => Promise<ImportSummary>;
+  previewImportBundle: (bundle: ImportBundle, format: ImportFormat) => ImportPreview;
+  importBundle: (bundle: ImportBundle) => Promise<ImportSummary>;
+  duplicateSuspects: DuplicatePair[];
+  mergeDuplicateTransactions: (keepId: string, removeId: string) => Promise<void>;
+  dismissDuplicatePair: (pairKey: string) => void;
+  subscriptionCandidates: SubscriptionCandidate[];
+  acceptSubscriptionCandidate: (candidate: SubscriptionCandidate) => Promise<void>;
+  dismissSubscriptionCandidate: (key: string) => void;
   getFinancialForecast: () => Promise<any>;
   refreshInsights: () => Promise<void>;
   insights: any[];
@@ -101,6 +228,177 @@ interface FinanceProviderProps {
   children: ReactNode;
 }
 
+// A budget as stored; spent and the period window come from get_budget_spending,
+// the carried over amount from the last recorded period
+type BudgetRecord = Omit<Budget, 'spent' | 'periodStart' | 'periodEnd' | 'carriedOver'>;
+
+// A goal as stored; saved amounts are summed from contributions, and
+// sub-goals and milestones are joined in
+type GoalRecord = Omit<Goal, 'currentAmount' | 'ownAmount' | 'subGoalIds' | 'milestones'>;
+
+type BudgetSpendingRow = Database['public']['Functions']['get_budget_spending']['Returns'][number];
+
+interface BudgetSpending {
+  spent: number;
+  periodStart: Date;
+  periodEnd: Date;
+}
+
+const formatRecurringTransaction = (
+  rt: Database['public']['Tables']['recurring_transactions']['Row']
+): RecurringTransaction => ({
+  id: rt.id,
+  type: rt.type,
+  amount: Number(rt.amount),
+  category: rt.category,
+  description: rt.description,
+  frequency: rt.frequency,
+  startDate: new Date(rt.start_date),
+  endDate: rt.end_date ? new Date(rt.end_date) : undefined,
+  nextOccurrenceDate: new Date(rt.next_occurrence_date),
+  lastProcessedDate: rt.last_processed_date ? new Date(rt.last_processed_date) : undefined,
+  isActive: rt.is_active,
+  userId: rt.user_id,
+  createdAt: new Date(rt.created_at),
+  dayOfWeek: rt.day_of_week ?? undefined,
+  dayOfMonth: rt.day_of_month ?? undefined,
+  monthOfYear: rt.month_of_year ?? undefined,
+  maxOccurrences: rt.max_occurrences ?? undefined,
+  currentOccurrences: rt.current_occurrences,
+  rrule: rt.rrule ?? undefined,
+  isVariable: rt.is_variable,
+  estimateWindow: rt.estimate_window,
+});
+
+const formatRecurringException = (
+  row: Database['public']['Tables']['recurring_transaction_exceptions']['Row']
+): RecurringException => ({
+  id: row.id,
+  recurringTransactionId: row.recurring_transaction_id,
+  occurrenceDate: new Date(row.occurrence_date),
+  isSkipped: row.is_skipped,
+  newDate: row.new_date ? new Date(row.new_date) : undefined,
+  amount: row.amount != null ? Number(row.amount) : undefined,
+  processedAt: row.processed_at ? new Date(row.processed_at) : undefined,
+  userId: row.user_id,
+});
+
+const formatGoalContribution = (
+  row: Database['public']['Tables']['goal_contributions']['Row']
+): GoalContribution => ({
+  id: row.id,
+  goalId: row.goal_id,
+  amount: Number(row.amount),
+  date: new Date(row.date),
+  note: row.note || undefined,
+  transactionId: row.transaction_id || undefined,
+  fundingRuleId: row.funding_rule_id || undefined,
+  budgetPeriodId: row.budget_period_id || undefined,
+  userId: row.user_id,
+  createdAt: new Date(row.created_at),
+});
+
+const formatGoalMilestone = (
+  row: Database['public']['Tables']['goal_milestones']['Row']
+): GoalMilestone => ({
+  id: row.id,
+  goalId: row.goal_id,
+  title: row.title || undefined,
+  amount: Number(row.amount),
+  targetDate: row.target_date ? new Date(row.target_date) : undefined,
+  reachedAt: row.reached_at ? new Date(row.reached_at) : undefined,
+  readAt: row.read_at ? new Date(row.read_at) : undefined,
+  userId: row.user_id,
+  createdAt: new Date(row.created_at),
+});
+
+const formatLiabilityPayment = (
+  row: Database['public']['Tables']['liability_payments']['Row']
+): LiabilityPayment => ({
+  id: row.id,
+  liabilityId: row.liability_id,
+  date: new Date(row.date),
+  amount: Number(row.amount),
+  principal: Number(row.principal),
+  interest: Number(row.interest),
+  balanceAfter: Number(row.balance_after),
+  note: row.note || undefined,
+  transactionId: row.transaction_id || undefined,
+  userId: row.user_id,
+  createdAt: new Date(row.created_at),
+});
+
+const formatGoalFundingRule = (
+  row: Database['public']['Tables']['goal_funding_rules']['Row']
+): GoalFundingRule => ({
+  id: row.id,
+  goalId: row.goal_id,
+  source: row.source,
+  amountType: row.amount_type,
+  amount: Number(row.amount),
+  category: row.category || undefined,
+  priority: row.priority,
+  isActive: row.is_active,
+  userId: row.user_id,
+  createdAt: new Date(row.created_at),
+});
+
+const formatBudgetPeriod = (
+  row: Database['public']['Tables']['budget_periods']['Row']
+): BudgetPeriod => ({
+  id: row.id,
+  budgetId: row.budget_id,
+  periodStart: new Date(row.period_start),
+  periodEnd: new Date(row.period_end),
+  budgeted: Number(row.budgeted),
+  spent: Number(row.spent),
+  carriedIn: Number(row.carried_in),
+  remaining: Number(row.remaining),
+  userId: row.user_id,
+});
+
+const formatEnvelopeTransfer = (
+  row: Database['public']['Tables']['envelope_transfers']['Row']
+): EnvelopeTransfer => ({
+  id: row.id,
+  month: new Date(row.month),
+  fromBudgetId: row.from_budget_id || undefined,
+  toBudgetId: row.to_budget_id || undefined,
+  amount: Number(row.amount),
+  note: row.note || undefined,
+  userId: row.user_id,
+  createdAt: new Date(row.created_at),
+});
+
+const formatBudgetAlert = (
+  row: Database['public']['Tables']['budget_alerts']['Row']
+): BudgetAlert => ({
+  id: row.id,
+  budgetId: row.budget_id,
+  periodStart: new Date(row.period_start),
+  kind: row.kind,
+  threshold: row.threshold,
+  utilization: Number(row.utilization),
+  projectedUtilization: row.projected_utilization != null ? Number(row.projected_utilization) : undefined,
+  readAt: row.read_at ? new Date(row.read_at) : undefined,
+  dismissedAt: row.dismissed_at ? new Date(row.dismissed_at) : undefined,
+  userId: row.user_id,
+  createdAt: new Date(row.created_at),
+});
+
+const formatBudgetTemplate = (
+  row: Database['public']['Tables']['budget_templates']['Row']
+): BudgetTemplate => ({
+  id: row.id,
+  name: row.name,
+  items: (Array.isArray(row.items) ? row.items as unknown as BudgetDraft[] : []).map(item => ({
+    ...item,
+    amount: Number(item.amount),
+  })),
+  userId: row.user_id,
+  createdAt: new Date(row.created_at),
+});
+
 // Timeout wrapper for Supabase operations
 const withTimeout = async <T,>(
   operation: Promise<T>, 
@@ -116,6 +414,9 @@ const withTimeout = async <T,>(
   return Promise.race([operation, timeoutPromise]);
 };
 
+// Rows per insert request when restoring an import
+const IMPORT_BATCH_SIZE = 200;
+
 // Retry wrapper for Supabase operations
 const withRetry = async <T,>(
   operation: () => Promise<T>,
@@ -147,17 +448,42 @@ const withRetry = async <T,>(
 export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) => {
   const { user } = useAuth();
   const { showToast } = useToast();
+  const { currency } = useInternationalization();
+  const { getHistoricalRate, getConversionRate } = useCurrencyConversion();
+  const { settings: personalization } = usePersonalization();
   
   // State
   const [transactions, setTransactions] = useState<Transaction[]>([]);
-  const [goals, setGoals] = useState<Goal[]>([]);
+  const [goalRecords, setGoalRecords] = useState<GoalRecord[]>([]);
+  const [goalContributions, setGoalContributions] = useState<GoalContribution[]>([]);
+  const [goalFundingRules, setGoalFundingRules] = useState<GoalFundingRule[]>([]);
+  const [goalMilestones, setGoalMilestones] = useState<GoalMilestone[]>([]);
   const [liabilities, setLiabilities] = useState<Liability[]>([]);
-  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [liabilityPayments, setLiabilityPayments] = useState<LiabilityPayment[]>([]);
+  const [budgetRecords, setBudgetRecords] = useState<BudgetRecord[]>([]);
+  const [budgetSpending, setBudgetSpending] = useState<Record<string, BudgetSpending>>({});
+  const [budgetPeriods, setBudgetPeriods] = useState<BudgetPeriod[]>([]);
+  const [envelopeTransfers, setEnvelopeTransfers] = useState<EnvelopeTransfer[]>([]);
+  const [budgetTemplates, setBudgetTemplates] = useState<BudgetTemplate[]>([]);
+  const [budgetAlerts, setBudgetAlerts] = useState<BudgetAlert[]>([]);
   const [recurringTransactions, setRecurringTransactions] = useState<RecurringTransaction[]>([]);
+  const [recurringExceptions, setRecurringExceptions] = useState<RecurringException[]>([]);
   const [userCategories, setUserCategories] = useState<UserCategory[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
   const [insights, setInsights] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
   const [incomeSources, setIncomeSources] = useState<IncomeSource[]>([]);
+  const [duplicateSuspects, setDuplicateSuspects] = useState<DuplicatePair[]>([]);
+  const [dismissedDuplicates, setDismissedDuplicates] = useState<string[]>([]);
+  const [dismissedSubscriptions, setDismissedSubscriptions] = useState<string[]>([]);
+  // Set by addTransaction and imports so the next duplicate scan reports what it found
+  const announceDuplicates = useRef(false);
+  // The suspects of the previous scan, which a new scan announces against
+  const previousDuplicates = useRef<DuplicatePair[]>([]);
+  // Alerts being raised, so overlapping evaluations don't raise them twice
+  const raisingAlerts = useRef(new Set<string>());
+  // Milestones being marked reached, for the same reason
+  const reachingMilestones = useRef(new Set<string>());
 
   // Load all data when user changes
   useEffect(() => {
@@ -166,17 +492,279 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
     } else {
       // Clear data when user logs out
       setTransactions([]);
-      setGoals([]);
+      setGoalRecords([]);
+      setGoalContributions([]);
+      setGoalFundingRules([]);
+      setGoalMilestones([]);
       setLiabilities([]);
-      setBudgets([]);
+      setLiabilityPayments([]);
+      setBudgetRecords([]);
+      setBudgetPeriods([]);
+      setEnvelopeTransfers([]);
+      setBudgetTemplates([]);
+      setBudgetAlerts([]);
       setRecurringTransactions([]);
+      setRecurringExceptions([]);
       setUserCategories([]);
+      setAccounts([]);
       setInsights([]);
       setIncomeSources([]);
       setLoading(false);
     }
   }, [user]);
 
+  // Dismissed duplicate pairs and subscription suggestions are remembered
+  // per user on this device
+  useEffect(() => {
+    if (!user) {
+      setDismissedDuplicates([]);
+      setDismissedSubscriptions([]);
+      return;
+    }
+
+    try {
+      const saved = localStorage.getItem(`finspire_dismissed_duplicates_${user.id}`);
+      setDismissedDuplicates(saved ? JSON.parse(saved) : []);
+    } catch (error) {
+      console.error('❌ Error loading dismissed duplicates:', error);
+      setDismissedDuplicates([]);
+    }
+
+    try {
+      const saved = localStorage.getItem(`finspire_dismissed_subscriptions_${user.id}`);
+      setDismissedSubscriptions(saved ? JSON.parse(saved) : []);
+    } catch (error) {
+      console.error('❌ Error loading dismissed subscriptions:', error);
+      setDismissedSubscriptions([]);
+    }
+  }, [user]);
+
+  // Spent is summed by the database from the transactions in each budget's
+  // current period and re-read whenever transactions or budgets change. The
+  // delay batches the bursts of changes that loads and imports make.
+  useEffect(() => {
+    if (!user || budgetRecords.length === 0) {
+      setBudgetSpending({});
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const startTime = Date.now();
+        console.log('🔄 Loading budget spending...');
+
+        const { data, error } = await withTimeout(
+          withRetry(async () => {
+            return supabase.rpc('get_budget_spending', {
+              p_as_of: new Date().toISOString().split('T')[0],
+            });
+          }, 2, 'Load budget spending'),
+          8000,
+          'Load budget spending'
+        );
+
+        logQueryPerformance('load-budget-spending', startTime);
+
+        if (error) {
+          console.error('❌ Supabase error loading budget spending:', error);
+          throw new Error(`Failed to load budget spending: ${error.message}`);
+        }
+        if (cancelled) return;
+
+        const spending: Record<string, BudgetSpending> = {};
+        (data || []).forEach((row: BudgetSpendingRow) => {
+          spending[row.budget_id] = {
+            spent: Number(row.spent),
+            periodStart: new Date(row.period_start),
+            periodEnd: new Date(row.period_end),
+          };
+        });
+
+        setBudgetSpending(spending);
+        console.log(`✅ Loaded spending for ${Object.keys(spending).length} budgets`);
+      } catch (error: unknown) {
+        console.error('❌ Error loading budget spending:', error);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [user, transactions, budgetRecords]);
+
+  const budgets = useMemo<Budget[]>(() => {
+    // budgetPeriods is ordered by period start, so the last one wins
+    const lastPeriods = new Map(budgetPeriods.map(p => [p.budgetId, p]));
+
+    return budgetRecords.map(b => ({
+      ...b,
+      spent: budgetSpending[b.id]?.spent ?? 0,
+      periodStart: budgetSpending[b.id]?.periodStart,
+      periodEnd: budgetSpending[b.id]?.periodEnd,
+      carriedOver: b.rollover ? lastPeriods.get(b.id)?.remaining ?? 0 : 0,
+    }));
+  }, [budgetRecords, budgetSpending, budgetPeriods]);
+
+  // Sub-goals are one level deep, so a parent's saved amount is its own plus
+  // that of each sub-goal
+  const goals = useMemo<Goal[]>(() => {
+    const saved = new Map<string, number>();
+    goalContributions.forEach(c => saved.set(c.goalId, (saved.get(c.goalId) ?? 0) + c.amount));
+
+    return goalRecords.map(g => {
+      const subGoalIds = goalRecords.filter(sub => sub.parentGoalId === g.id).map(sub => sub.id);
+      const ownAmount = roundCurrency(saved.get(g.id) ?? 0);
+      return {
+        ...g,
+        ownAmount,
+        currentAmount: roundCurrency(subGoalIds.reduce((sum, id) => sum + (saved.get(id) ?? 0), ownAmount)),
+        subGoalIds,
+        milestones: goalMilestones.filter(m => m.goalId === g.id).sort((a, b) => a.amount - b.amount),
+      };
+    });
+  }, [goalRecords, goalContributions, goalMilestones]);
+
+  // Regular payees in the history that have no recurring transaction yet
+  const subscriptionCandidates = useMemo(
+    () => findSubscriptionCandidates(transactions, recurringTransactions, dismissedSubscriptions),
+    [transactions, recurringTransactions, dismissedSubscriptions]
+  );
+
+  // Re-scan for duplicates whenever transactions change
+  useEffect(() => {
+    const pairs = findDuplicateTransactions(transactions, dismissedDuplicates);
+
+    const known = new Set(previousDuplicates.current.map(p => p.key));
+    previousDuplicates.current = pairs;
+    setDuplicateSuspects(pairs);
+
+    if (announceDuplicates.current) {
+      announceDuplicates.current = false;
+      const found = pairs.filter(p => !known.has(p.key)).length;
+      if (found > 0) {
+        console.log(`⚠️ Found ${found} possible duplicate transactions`);
+        showToast(`Found ${found} possible duplicate transaction${found === 1 ? '' : 's'}`, 'info');
+      }
+    }
+  }, [transactions, dismissedDuplicates, showToast]);
+
+  // Raise the alerts budgets have earned since spending was last read. Stored
+  // alerts are unique per budget period and threshold, so each crossing is
+  // announced once. Envelope budgets have targets rather than limits.
+  useEffect(() => {
+    if (!user || loading || personalization.budgetingMode === 'envelope') return;
+
+    const alertKey = (a: Pick<BudgetAlert, 'budgetId' | 'periodStart' | 'kind' | 'threshold'>) =>
+      `${a.budgetId}|${a.periodStart.getTime()}|${a.kind}|${a.threshold}`;
+    const drafts = evaluateBudgetAlerts(budgets, budgetAlerts)
+      .filter(draft => !raisingAlerts.current.has(alertKey(draft)));
+    if (drafts.length === 0) return;
+    drafts.forEach(draft => raisingAlerts.current.add(alertKey(draft)));
+
+    (async () => {
+      try {
+        const startTime = Date.now();
+        console.log('🔄 Raising budget alerts:', drafts);
+
+        const { data, error } = await withTimeout(
+          withRetry(async () => {
+            return supabase
+              .from('budget_alerts')
+              .upsert(drafts.map(draft => ({
+                user_id: user.id,
+                budget_id: draft.budgetId,
+                period_start: draft.periodStart.toISOString().split('T')[0],
+                kind: draft.kind,
+                threshold: draft.threshold,
+                utilization: draft.utilization,
+                projected_utilization: draft.projectedUtilization ?? null,
+              })), { onConflict: 'budget_id,period_start,kind,threshold', ignoreDuplicates: true })
+              .select();
+          }, 2, 'Raise budget alerts'),
+          8000,
+          'Raise budget alerts'
+        );
+
+        logQueryPerformance('raise-budget-alerts', startTime);
+
+        if (error) {
+          console.error('❌ Supabase error raising budget alerts:', error);
+          throw new Error(`Failed to raise budget alerts: ${error.message}`);
+        }
+
+        const raised = (data || []).map(formatBudgetAlert);
+        if (raised.length === 0) return;
+
+        setBudgetAlerts(prev => [...raised, ...prev]);
+        raised.forEach(alert => {
+          const name = budgets.find(b => b.id === alert.budgetId)?.category ?? 'A';
+          showToast(budgetAlertMessage(alert, name), alert.kind === 'threshold' && alert.threshold >= 100 ? 'error' : 'info');
+        });
+        console.log(`✅ Raised ${raised.length} budget alerts`);
+      } catch (error: unknown) {
+        console.error('❌ Error raising budget alerts:', error);
+      } finally {
+        drafts.forEach(draft => raisingAlerts.current.delete(alertKey(draft)));
+      }
+    })();
+  }, [user, loading, personalization.budgetingMode, budgets, budgetAlerts, showToast]);
+
+  // Mark the milestones goals have reached since they were last saved towards.
+  // A milestone is reached once; saving less later does not undo it.
+  useEffect(() => {
+    if (!user || loading) return;
+
+    const reached = goals.flatMap(goal => goal.milestones
+      .filter(m => !m.reachedAt && goal.currentAmount >= m.amount && !reachingMilestones.current.has(m.id)));
+    if (reached.length === 0) return;
+    reached.forEach(m => reachingMilestones.current.add(m.id));
+
+    (async () => {
+      try {
+        const startTime = Date.now();
+        console.log('🔄 Marking goal milestones reached:', reached.map(m => m.id));
+
+        const { data, error } = await withTimeout(
+          withRetry(async () => {
+            return supabase
+              .from('goal_milestones')
+              .update({ reached_at: new Date().toISOString() })
+              .in('id', reached.map(m => m.id))
+              .eq('user_id', user.id)
+              .is('reached_at', null)
+              .select();
+          }, 2, 'Mark goal milestones reached'),
+          8000,
+          'Mark goal milestones reached'
+        );
+
+        logQueryPerformance('mark-goal-milestones-reached', startTime);
+
+        if (error) {
+          console.error('❌ Supabase error marking goal milestones reached:', error);
+          throw new Error(`Failed to mark milestones reached: ${error.message}`);
+        }
+
+        const updated = (data || []).map(formatGoalMilestone);
+        if (updated.length === 0) return;
+
+        setGoalMilestones(prev => prev.map(m => updated.find(u => u.id === m.id) ?? m));
+        updated.forEach(milestone => {
+          const goal = goals.find(g => g.id === milestone.goalId);
+          if (!goal) return;
+          showToast(goalMilestoneMessage(milestone, goal.title), 'success');
+        });
+        console.log(`✅ Reached ${updated.length} goal milestones`);
+      } catch (error: unknown) {
+        console.error('❌ Error marking goal milestones reached:', error);
+      } finally {
+        reached.forEach(m => reachingMilestones.current.delete(m.id));
+      }
+    })();
+  }, [user, loading, goals, showToast]);
+
   const loadAllData = async () => {
     if (!user) return;
     
@@ -188,23 +776,43 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
       const [
         transactionsResult,
         goalsResult,
+        goalContributionsResult,
+        goalFundingRulesResult,
+        goalMilestonesResult,
         liabilitiesResult,
+        liabilityPaymentsResult,
         budgetsResult,
+        budgetPeriodsResult,
+        envelopeTransfersResult,
+        budgetTemplatesResult,
+        budgetAlertsResult,
         recurringResult,
-        categoriesResult
+        exceptionsResult,
+        categoriesResult,
+        accountsResult
       ] = await Promise.allSettled([
         loadTransactions(),
         loadGoals(),
+        loadGoalContributions(),
+        loadGoalFundingRules(),
+        loadGoalMilestones(),
         loadLiabilities(),
+        loadLiabilityPayments(),
         loadBudgets(),
+        loadBudgetPeriods(),
+        loadEnvelopeTransfers(),
+        loadBudgetTemplates(),
+        loadBudgetAlerts(),
         loadRecurringTransactions(),
-        loadUserCategories()
+        loadRecurringExceptions(),
+        loadUserCategories(),
+        loadAccounts()
       ]);
 
       // Log any failed operations
-      [transactionsResult, goalsResult, liabilitiesResult, budgetsResult, recurringResult, categoriesResult]
+      [transactionsResult, goalsResult, goalContributionsResult, goalFundingRulesResult, goalMilestonesResult, liabilitiesResult, liabilityPaymentsResult, budgetsResult, budgetPeriodsResult, envelopeTransfersResult, budgetTemplatesResult, budgetAlertsResult, recurringResult, exceptionsResult, categoriesResult, accountsResult]
         .forEach((result, index) => {
-          const names = ['transactions', 'goals', 'liabilities', 'budgets', 'recurring', 'categories'];
+          const names = ['transactions', 'goals', 'goal contributions', 'goal funding rules', 'goal milestones', 'liabilities', 'liability payments', 'budgets', 'budget periods', 'envelope transfers', 'budget templates', 'budget alerts', 'recurring', 'recurring exceptions', 'categories', 'accounts'];
           if (result.status === 'rejected') {
             console.error(`❌ Failed to load ${names[index]}:`, result.reason);
             showToast(`Failed to load ${names[index]}`, 'error');
@@ -223,6 +831,28 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
   };
 
   // Load functions with enhanced error handling and logging
+  // Currency columns of a transactions row
+  const transactionCurrencyFields = (t: Record<string, unknown>) => ({
+    originalCurrency: (t.original_currency as string | null) || undefined,
+    originalAmount: t.original_amount != null ? Number(t.original_amount) : undefined,
+    exchangeRate: t.exchange_rate != null ? Number(t.exchange_rate) : undefined,
+  });
+
+  // A transaction entered in another currency keeps its original amount and
+  // the rate on its date; `amount` becomes the base-currency value. Entries
+  // in the base currency carry no currency fields.
+  const resolveTransactionCurrency = async <T extends Pick<Transaction, 'amount' | 'date' | 'originalCurrency' | 'originalAmount' | 'exchangeRate'>>(
+    transaction: T
+  ): Promise<T> => {
+    if (!transaction.originalCurrency || transaction.originalCurrency === currency.code) {
+      return { ...transaction, originalCurrency: undefined, originalAmount: undefined, exchangeRate: undefined };
+    }
+    const originalAmount = transaction.originalAmount ?? transaction.amount;
+    const exchangeRate = transaction.exchangeRate
+      ?? await getHistoricalRate(transaction.originalCurrency, currency.code, transaction.date);
+    return { ...transaction, originalAmount, exchangeRate, amount: roundCurrency(originalAmount * exchangeRate) };
+  };
+
   const loadTransactions = async (): Promise<void> => {
     if (!user) return;
     
@@ -252,6 +882,13 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
         ...t,
         date: new Date(t.date),
         createdAt: new Date(t.created_at),
+        recurringTransactionId: t.recurring_transaction_id || undefined,
+        parentTransactionId: t.parent_transaction_id || undefined,
+        externalId: t.external_id || undefined,
+        accountId: t.account_id || undefined,
+        transferAccountId: t.transfer_account_id || undefined,
+        ...transactionCurrencyFields(t),
+        isPending: !!t.is_pending,
       }));
 
       setTransactions(formattedTransactions);
@@ -291,10 +928,10 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
         targetDate: new Date(g.target_date),
         createdAt: new Date(g.created_at),
         targetAmount: Number(g.target_amount),
-        currentAmount: Number(g.current_amount),
+        parentGoalId: g.parent_goal_id || undefined,
       }));
 
-      setGoals(formattedGoals);
+      setGoalRecords(formattedGoals);
       console.log(`✅ Loaded ${formattedGoals.length} goals`);
     } catch (error: any) {
       console.error('❌ Error in loadGoals:', error);
@@ -302,6 +939,116 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
     }
   };
 
+  const loadGoalContributions = async (): Promise<void> => {
+    if (!user) return;
+
+    try {
+      const startTime = Date.now();
+      console.log('🔄 Loading goal contributions...');
+
+      const { data, error } = await withTimeout(
+        withRetry(async () => {
+          return supabase
+            .from('goal_contributions')
+            .select('*')
+            .eq('user_id', user.id)
+            .order('date', { ascending: true })
+            .order('created_at', { ascending: true });
+        }, 1, 'Load goal contributions'),
+        8000,
+        'Load goal contributions'
+      );
+
+      logQueryPerformance('load-goal-contributions', startTime);
+
+      if (error) {
+        console.error('❌ Supabase error loading goal contributions:', error);
+        throw new Error(`Failed to load goal contributions: ${error.message}`);
+      }
+
+      const formattedContributions = (data || []).map(formatGoalContribution);
+
+      setGoalContributions(formattedContributions);
+      console.log(`✅ Loaded ${formattedContributions.length} goal contributions`);
+    } catch (error: unknown) {
+      console.error('❌ Error in loadGoalContributions:', error);
+      throw error;
+    }
+  };
+
+  const loadGoalMilestones = async (): Promise<void> => {
+    if (!user) return;
+
+    try {
+      const startTime = Date.now();
+      console.log('🔄 Loading goal milestones...');
+
+      const { data, error } = await withTimeout(
+        withRetry(async () => {
+          return supabase
+            .from('goal_milestones')
+            .select('*')
+            .eq('user_id', user.id)
+            .order('amount', { ascending: true });
+        }, 1, 'Load goal milestones'),
+        8000,
+        'Load goal milestones'
+      );
+
+      logQueryPerformance('load-goal-milestones', startTime);
+
+      if (error) {
+        console.error('❌ Supabase error loading goal milestones:', error);
+        throw new Error(`Failed to load goal milestones: ${error.message}`);
+      }
+
+      const formattedMilestones = (data || []).map(formatGoalMilestone);
+
+      setGoalMilestones(formattedMilestones);
+      console.log(`✅ Loaded ${formattedMilestones.length} goal milestones`);
+    } catch (error: unknown) {
+      console.error('❌ Error in loadGoalMilestones:', error);
+      throw error;
+    }
+  };
+
+  const loadGoalFundingRules = async (): Promise<void> => {
+    if (!user) return;
+
+    try {
+      const startTime = Date.now();
+      console.log('🔄 Loading goal funding rules...');
+
+      const { data, error } = await withTimeout(
+        withRetry(async () => {
+          return supabase
+            .from('goal_funding_rules')
+            .select('*')
+            .eq('user_id', user.id)
+            .order('priority', { ascending: true })
+            .order('created_at', { ascending: true });
+        }, 1, 'Load goal funding rules'),
+        8000,
+        'Load goal funding rules'
+      );
+
+      logQueryPerformance('load-goal-funding-rules', startTime);
+
+      if (error) {
+        console.error('❌ Supabase error loading goal funding rules:', error);
+        throw new Error(`Failed to load goal funding rules: ${error.message}`);
+      }
+
+      const formattedRules = (data || []).map(formatGoalFundingRule);
+
+      setGoalFundingRules(formattedRules);
+      console.log(`✅ Loaded ${formattedRules.length} goal funding rules`);
+    } catch (error: unknown) {
+      console.error('❌ Error in loadGoalFundingRules:', error);
+      throw error;
+    }
+  };
+
   const loadLiabilities = async (): Promise<void> => {
     if (!user) return;
     
@@ -344,6 +1091,43 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
     }
   };
 
+  const loadLiabilityPayments = async (): Promise<void> => {
+    if (!user) return;
+
+    try {
+      const startTime = Date.now();
+      console.log('🔄 Loading liability payments...');
+
+      const { data, error } = await withTimeout(
+        withRetry(async () => {
+          return supabase
+            .from('liability_payments')
+            .select('*')
+            .eq('user_id', user.id)
+            .order('date', { ascending: true })
+            .order('created_at', { ascending: true });
+        }, 1, 'Load liability payments'),
+        8000,
+        'Load liability payments'
+      );
+
+      logQueryPerformance('load-liability-payments', startTime);
+
+      if (error) {
+        console.error('❌ Supabase error loading liability payments:', error);
+        throw new Error(`Failed to load liability payments: ${error.message}`);
+      }
+
+      const formattedPayments = (data || []).map(formatLiabilityPayment);
+
+      setLiabilityPayments(formattedPayments);
+      console.log(`✅ Loaded ${formattedPayments.length} liability payments`);
+    } catch (error: unknown) {
+      console.error('❌ Error in loadLiabilityPayments:', error);
+      throw error;
+    }
+  };
+
   const loadBudgets = async (): Promise<void> => {
     if (!user) return;
     
@@ -372,10 +1156,13 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
         ...b,
         createdAt: new Date(b.created_at),
         amount: Number(b.amount),
-        spent: Number(b.spent),
+        startDate: b.start_date ? new Date(b.start_date) : undefined,
+        endDate: b.end_date ? new Date(b.end_date) : undefined,
+        alertThresholds: b.alert_thresholds,
+        paceAlerts: b.pace_alerts,
       }));
 
-      setBudgets(formattedBudgets);
+      setBudgetRecords(formattedBudgets);
       console.log(`✅ Loaded ${formattedBudgets.length} budgets`);
     } catch (error: any) {
       console.error('❌ Error in loadBudgets:', error);
@@ -383,153 +1170,425 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
     }
   };
 
-  const loadRecurringTransactions = async (): Promise<void> => {
+  // Periods that ended since the last visit are recorded first, so the
+  // history is complete up to the current period
+  const loadBudgetPeriods = async (): Promise<void> => {
     if (!user) return;
-    
+
     try {
       const startTime = Date.now();
-      console.log('🔄 Loading recurring transactions...');
-      
+      console.log('🔄 Loading budget periods...');
+
+      const { data: recorded, error: recordError } = await withTimeout(
+        withRetry(async () => {
+          return supabase.rpc('record_budget_periods', {
+            p_as_of: new Date().toISOString().split('T')[0],
+          });
+        }, 1, 'Record budget periods'),
+        10000,
+        'Record budget periods'
+      );
+
+      if (recordError) {
+        console.error('❌ Supabase error recording budget periods:', recordError);
+        throw new Error(`Failed to record budget periods: ${recordError.message}`);
+      }
+      if (recorded) {
+        console.log(`✅ Recorded ${recorded} ended budget periods`);
+        // Leftovers of the recorded periods may have funded goals
+        await loadGoalContributions();
+      }
+
       const { data, error } = await withTimeout(
-        supabase
-          .from('recurring_transactions')
-          .select('*')
-          .eq('user_id', user.id)
-          .order('created_at', { ascending: false }),
+        withRetry(async () => {
+          return supabase
+            .from('budget_periods')
+            .select('*')
+            .eq('user_id', user.id)
+            .order('period_start', { ascending: true });
+        }, 1, 'Load budget periods'),
         8000,
-        'Load recurring transactions'
+        'Load budget periods'
       );
 
-      logQueryPerformance('load-recurring-transactions', startTime);
+      logQueryPerformance('load-budget-periods', startTime);
 
       if (error) {
-        console.error('❌ Supabase error loading recurring transactions:', error);
-        throw new Error(`Failed to load recurring transactions: ${error.message}`);
+        console.error('❌ Supabase error loading budget periods:', error);
+        throw new Error(`Failed to load budget periods: ${error.message}`);
       }
 
-      const formattedRecurring = (data || []).map(rt => ({
-        ...rt,
-        startDate: new Date(rt.start_date),
-        endDate: rt.end_date ? new Date(rt.end_date) : undefined,
-        nextOccurrenceDate: new Date(rt.next_occurrence_date),
-        lastProcessedDate: rt.last_processed_date ? new Date(rt.last_processed_date) : undefined,
-        createdAt: new Date(rt.created_at),
-        amount: Number(rt.amount),
-      }));
+      const formattedPeriods = (data || []).map(formatBudgetPeriod);
 
-      setRecurringTransactions(formattedRecurring);
-      console.log(`✅ Loaded ${formattedRecurring.length} recurring transactions`);
-    } catch (error: any) {
-      console.error('❌ Error in loadRecurringTransactions:', error);
+      setBudgetPeriods(formattedPeriods);
+      console.log(`✅ Loaded ${formattedPeriods.length} budget periods`);
+    } catch (error: unknown) {
+      console.error('❌ Error in loadBudgetPeriods:', error);
       throw error;
     }
   };
 
-  const loadUserCategories = async (): Promise<void> => {
+  const loadEnvelopeTransfers = async (): Promise<void> => {
     if (!user) return;
-    
+
     try {
       const startTime = Date.now();
-      console.log('🔄 Loading user categories...');
-      
+      console.log('🔄 Loading envelope transfers...');
+
       const { data, error } = await withTimeout(
-        supabase
-          .from('user_categories')
-          .select('id, name, type, icon, color, created_at, updated_at')
-          .eq('user_id', user.id)
-          .order('name', { ascending: true }),
+        withRetry(async () => {
+          return supabase
+            .from('envelope_transfers')
+            .select('*')
+            .eq('user_id', user.id)
+            .order('created_at', { ascending: true });
+        }, 1, 'Load envelope transfers'),
         8000,
-        'Load user categories'
+        'Load envelope transfers'
       );
 
-      logQueryPerformance('load-user-categories', startTime);
+      logQueryPerformance('load-envelope-transfers', startTime);
 
       if (error) {
-        console.error('❌ Supabase error loading user categories:', error);
-        throw new Error(`Failed to load user categories: ${error.message}`);
+        console.error('❌ Supabase error loading envelope transfers:', error);
+        throw new Error(`Failed to load envelope transfers: ${error.message}`);
       }
 
-      const formattedCategories = (data || []).map(c => ({
-        ...c,
-        userId: user.id,
-        createdAt: new Date(c.created_at),
-        updatedAt: new Date(c.updated_at),
-      }));
+      const formattedTransfers = (data || []).map(formatEnvelopeTransfer);
 
-      setUserCategories(formattedCategories);
-      console.log(`✅ Loaded ${formattedCategories.length} user categories`);
-    } catch (error: any) {
-      console.error('❌ Error in loadUserCategories:', error);
+      setEnvelopeTransfers(formattedTransfers);
+      console.log(`✅ Loaded ${formattedTransfers.length} envelope transfers`);
+    } catch (error: unknown) {
+      console.error('❌ Error in loadEnvelopeTransfers:', error);
       throw error;
     }
   };
 
-  // Enhanced CRUD operations with comprehensive error handling
-  const addTransaction = async (transaction: Omit<Transaction, 'id' | 'userId'>): Promise<void> => {
-    if (!user) throw new Error('User not authenticated');
-    
+  const loadBudgetTemplates = async (): Promise<void> => {
+    if (!user) return;
+
     try {
-      console.log('🔄 Adding transaction:', transaction);
       const startTime = Date.now();
-      
+      console.log('🔄 Loading budget templates...');
+
       const { data, error } = await withTimeout(
         withRetry(async () => {
           return supabase
-            .from('transactions')
-            .insert([{
-              user_id: user.id,
-              type: transaction.type,
-              amount: transaction.amount,
-              category: transaction.category,
-              description: transaction.description,
-              date: transaction.date.toISOString().split('T')[0],
-              recurring_transaction_id: transaction.recurringTransactionId || null,
-              parent_transaction_id: transaction.parentTransactionId || null,
-            }])
-            .select()
-            .single();
-        }, 2, 'Add transaction'),
-        10000,
-        'Add transaction'
+            .from('budget_templates')
+            .select('*')
+            .eq('user_id', user.id)
+            .order('created_at', { ascending: false });
+        }, 1, 'Load budget templates'),
+        8000,
+        'Load budget templates'
       );
 
-      logQueryPerformance('add-transaction', startTime);
+      logQueryPerformance('load-budget-templates', startTime);
 
       if (error) {
-        console.error('❌ Supabase error adding transaction:', error);
-        throw new Error(`Failed to add transaction: ${error.message}`);
+        console.error('❌ Supabase error loading budget templates:', error);
+        throw new Error(`Failed to load budget templates: ${error.message}`);
       }
 
-      console.log('✅ Transaction added successfully:', data);
-      
-      // Update local state
-      const newTransaction = {
-        ...data,
-        date: new Date(data.date),
-        createdAt: new Date(data.created_at),
-        userId: user.id,
-      };
-      
-      setTransactions(prev => [newTransaction, ...prev]);
-      
-      // Update budget spent if it's an expense
-      if (transaction.type === 'expense') {
-        await updateBudgetSpent(transaction.category, transaction.amount);
-      }
-      
-      showToast('Transaction added successfully', 'success');
-    } catch (error: any) {
-      console.error('❌ Error in addTransaction:', error);
-      showToast(error.message || 'Failed to add transaction', 'error');
+      const formattedTemplates = (data || []).map(formatBudgetTemplate);
+
+      setBudgetTemplates(formattedTemplates);
+      console.log(`✅ Loaded ${formattedTemplates.length} budget templates`);
+    } catch (error: unknown) {
+      console.error('❌ Error in loadBudgetTemplates:', error);
       throw error;
     }
   };
 
-  const addGoal = async (goal: Omit<Goal, 'id' | 'userId' | 'createdAt'>): Promise<void> => {
-    if (!user) throw new Error('User not authenticated');
-    
+  const loadBudgetAlerts = async (): Promise<void> => {
+    if (!user) return;
+
     try {
-      console.log('🔄 Adding goal:', goal);
+      const startTime = Date.now();
+      console.log('🔄 Loading budget alerts...');
+
+      const { data, error } = await withTimeout(
+        withRetry(async () => {
+          return supabase
+            .from('budget_alerts')
+            .select('*')
+            .eq('user_id', user.id)
+            .order('created_at', { ascending: false })
+            .limit(200);
+        }, 1, 'Load budget alerts'),
+        8000,
+        'Load budget alerts'
+      );
+
+      logQueryPerformance('load-budget-alerts', startTime);
+
+      if (error) {
+        console.error('❌ Supabase error loading budget alerts:', error);
+        throw new Error(`Failed to load budget alerts: ${error.message}`);
+      }
+
+      const formattedAlerts = (data || []).map(formatBudgetAlert);
+
+      setBudgetAlerts(formattedAlerts);
+      console.log(`✅ Loaded ${formattedAlerts.length} budget alerts`);
+    } catch (error: unknown) {
+      console.error('❌ Error in loadBudgetAlerts:', error);
+      throw error;
+    }
+  };
+
+  const loadRecurringTransactions = async (): Promise<void> => {
+    if (!user) return;
+    
+    try {
+      const startTime = Date.now();
+      console.log('🔄 Loading recurring transactions...');
+      
+      const { data, error } = await withTimeout(
+        supabase
+          .from('recurring_transactions')
+          .select('*')
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: false }),
+        8000,
+        'Load recurring transactions'
+      );
+
+      logQueryPerformance('load-recurring-transactions', startTime);
+
+      if (error) {
+        console.error('❌ Supabase error loading recurring transactions:', error);
+        throw new Error(`Failed to load recurring transactions: ${error.message}`);
+      }
+
+      const formattedRecurring = (data || []).map(formatRecurringTransaction);
+
+      setRecurringTransactions(formattedRecurring);
+      console.log(`✅ Loaded ${formattedRecurring.length} recurring transactions`);
+    } catch (error: any) {
+      console.error('❌ Error in loadRecurringTransactions:', error);
+      throw error;
+    }
+  };
+
+  const loadRecurringExceptions = async (): Promise<void> => {
+    if (!user) return;
+
+    try {
+      const startTime = Date.now();
+      console.log('🔄 Loading recurring exceptions...');
+
+      const { data, error } = await withTimeout(
+        withRetry(async () => {
+          return supabase
+            .from('recurring_transaction_exceptions')
+            .select('*')
+            .eq('user_id', user.id)
+            .order('occurrence_date', { ascending: true });
+        }, 1, 'Load recurring exceptions'),
+        8000,
+        'Load recurring exceptions'
+      );
+
+      logQueryPerformance('load-recurring-exceptions', startTime);
+
+      if (error) {
+        console.error('❌ Supabase error loading recurring exceptions:', error);
+        throw new Error(`Failed to load recurring exceptions: ${error.message}`);
+      }
+
+      const formattedExceptions = (data || []).map(formatRecurringException);
+
+      setRecurringExceptions(formattedExceptions);
+      console.log(`✅ Loaded ${formattedExceptions.length} recurring exceptions`);
+    } catch (error: unknown) {
+      console.error('❌ Error in loadRecurringExceptions:', error);
+      throw error;
+    }
+  };
+
+  const loadUserCategories = async (): Promise<void> => {
+    if (!user) return;
+    
+    try {
+      const startTime = Date.now();
+      console.log('🔄 Loading user categories...');
+      
+      const { data, error } = await withTimeout(
+        supabase
+          .from('user_categories')
+          .select('id, name, type, icon, color, created_at, updated_at')
+          .eq('user_id', user.id)
+          .order('name', { ascending: true }),
+        8000,
+        'Load user categories'
+      );
+
+      logQueryPerformance('load-user-categories', startTime);
+
+      if (error) {
+        console.error('❌ Supabase error loading user categories:', error);
+        throw new Error(`Failed to load user categories: ${error.message}`);
+      }
+
+      const formattedCategories = (data || []).map(c => ({
+        ...c,
+        userId: user.id,
+        createdAt: new Date(c.created_at),
+        updatedAt: new Date(c.updated_at),
+      }));
+
+      setUserCategories(formattedCategories);
+      console.log(`✅ Loaded ${formattedCategories.length} user categories`);
+    } catch (error: any) {
+      console.error('❌ Error in loadUserCategories:', error);
+      throw error;
+    }
+  };
+
+  const formatAccount = (a: Record<string, unknown>): Account => ({
+    id: String(a.id),
+    name: String(a.name),
+    type: a.type as Account['type'],
+    openingBalance: Number(a.opening_balance) || 0,
+    currency: String(a.currency),
+    isArchived: a.is_archived === true,
+    userId: String(a.user_id),
+    createdAt: new Date(String(a.created_at)),
+  });
+
+  const loadAccounts = async (): Promise<void> => {
+    if (!user) return;
+    
+    try {
+      const startTime = Date.now();
+      console.log('🔄 Loading accounts...');
+      
+      const { data, error } = await withTimeout(
+        withRetry(async () => {
+          return supabase
+            .from('accounts')
+            .select('*')
+            .eq('user_id', user.id)
+            .order('created_at', { ascending: true });
+        }, 1, 'Load accounts'),
+        8000,
+        'Load accounts'
+      );
+
+      logQueryPerformance('load-accounts', startTime);
+
+      if (error) {
+        console.error('❌ Supabase error loading accounts:', error);
+        throw new Error(`Failed to load accounts: ${error.message}`);
+      }
+
+      const formattedAccounts = (data || []).map(formatAccount);
+
+      setAccounts(formattedAccounts);
+      console.log(`✅ Loaded ${formattedAccounts.length} accounts`);
+    } catch (error: any) {
+      console.error('❌ Error in loadAccounts:', error);
+      throw error;
+    }
+  };
+
+  // A transfer moves money between two of the user's accounts and is
+  // neither income nor expense, so both ends must be set and differ
+  const validateTransfer = (transaction: Pick<Transaction, 'accountId' | 'transferAccountId'>) => {
+    if (!transaction.accountId || !transaction.transferAccountId) {
+      throw new Error('A transfer needs both a source and a destination account');
+    }
+    if (transaction.accountId === transaction.transferAccountId) {
+      throw new Error('A transfer must be between two different accounts');
+    }
+  };
+
+  // Enhanced CRUD operations with comprehensive error handling
+  const addTransaction = async (
+    transaction: Omit<Transaction, 'id' | 'userId'>,
+    { fundGoals = true }: { fundGoals?: boolean } = {}
+  ): Promise<Transaction> => {
+    if (!user) throw new Error('User not authenticated');
+    
+    try {
+      console.log('🔄 Adding transaction:', transaction);
+      if (transaction.type === 'transfer') {
+        validateTransfer(transaction);
+      }
+      const resolved = await resolveTransactionCurrency(transaction);
+      const startTime = Date.now();
+      
+      const { data, error } = await withTimeout(
+        withRetry(async () => {
+          return supabase
+            .from('transactions')
+            .insert([{
+              user_id: user.id,
+              type: transaction.type,
+              amount: resolved.amount,
+              category: transaction.category,
+              description: transaction.description,
+              date: transaction.date.toISOString().split('T')[0],
+              recurring_transaction_id: transaction.recurringTransactionId || null,
+              parent_transaction_id: transaction.parentTransactionId || null,
+              account_id: transaction.accountId || null,
+              transfer_account_id: transaction.type === 'transfer' ? transaction.transferAccountId || null : null,
+              original_currency: resolved.originalCurrency || null,
+              original_amount: resolved.originalAmount ?? null,
+              exchange_rate: resolved.exchangeRate ?? null,
+            }])
+            .select()
+            .single();
+        }, 2, 'Add transaction'),
+        10000,
+        'Add transaction'
+      );
+
+      logQueryPerformance('add-transaction', startTime);
+
+      if (error) {
+        console.error('❌ Supabase error adding transaction:', error);
+        throw new Error(`Failed to add transaction: ${error.message}`);
+      }
+
+      console.log('✅ Transaction added successfully:', data);
+      
+      // Update local state
+      const newTransaction = {
+        ...data,
+        date: new Date(data.date),
+        createdAt: new Date(data.created_at),
+        userId: user.id,
+        recurringTransactionId: data.recurring_transaction_id || undefined,
+        parentTransactionId: data.parent_transaction_id || undefined,
+        accountId: data.account_id || undefined,
+        transferAccountId: data.transfer_account_id || undefined,
+        ...transactionCurrencyFields(data),
+        isPending: !!data.is_pending,
+      };
+      
+      announceDuplicates.current = true;
+      setTransactions(prev => [newTransaction, ...prev]);
+      
+      showToast(transaction.type === 'transfer' ? 'Transfer added successfully' : 'Transaction added successfully', 'success');
+
+      if (fundGoals && newTransaction.type === 'income' && goalFundingRules.some(r => r.isActive && r.source === 'income')) {
+        await fundGoalsFromIncome(newTransaction.id);
+      }
+      return newTransaction;
+    } catch (error: any) {
+      console.error('❌ Error in addTransaction:', error);
+      showToast(error.message || 'Failed to add transaction', 'error');
+      throw error;
+    }
+  };
+
+  const addGoal = async (goal: GoalInput): Promise<void> => {
+    if (!user) throw new Error('User not authenticated');
+    
+    try {
+      console.log('🔄 Adding goal:', goal);
       const startTime = Date.now();
       
       const { data, error } = await withTimeout(
@@ -544,6 +1603,7 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
               current_amount: goal.currentAmount || 0,
               target_date: goal.targetDate.toISOString().split('T')[0],
               category: goal.category,
+              parent_goal_id: goal.parentGoalId || null,
             }])
             .select()
             .single();
@@ -567,11 +1627,14 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
         targetDate: new Date(data.target_date),
         createdAt: new Date(data.created_at),
         targetAmount: Number(data.target_amount),
-        currentAmount: Number(data.current_amount),
+        parentGoalId: data.parent_goal_id || undefined,
         userId: user.id,
       };
       
-      setGoals(prev => [newGoal, ...prev]);
+      setGoalRecords(prev => [newGoal, ...prev]);
+      // The database records an amount already saved as the first contribution
+      if (goal.currentAmount) await loadGoalContributions();
+      if (goal.milestones?.length) await saveGoalMilestones(data.id, goal.milestones);
       showToast('Goal added successfully', 'success');
     } catch (error: any) {
       console.error('❌ Error in addGoal:', error);
@@ -594,9 +1657,14 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
             .insert([{
               user_id: user.id,
               category: budget.category,
+              categories: budget.categories,
               amount: budget.amount,
-              spent: 0,
               period: budget.period,
+              start_date: budget.period === 'custom' && budget.startDate ? budget.startDate.toISOString().split('T')[0] : null,
+              end_date: budget.period === 'custom' && budget.endDate ? budget.endDate.toISOString().split('T')[0] : null,
+              rollover: budget.rollover ?? false,
+              alert_thresholds: budget.alertThresholds ?? DEFAULT_ALERT_THRESHOLDS,
+              pace_alerts: budget.paceAlerts ?? true,
             }])
             .select()
             .single();
@@ -619,11 +1687,14 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
         ...data,
         createdAt: new Date(data.created_at),
         amount: Number(data.amount),
-        spent: Number(data.spent),
+        startDate: data.start_date ? new Date(data.start_date) : undefined,
+        endDate: data.end_date ? new Date(data.end_date) : undefined,
+        alertThresholds: data.alert_thresholds,
+        paceAlerts: data.pace_alerts,
         userId: user.id,
       };
       
-      setBudgets(prev => [newBudget, ...prev]);
+      setBudgetRecords(prev => [newBudget, ...prev]);
       showToast('Budget added successfully', 'success');
     } catch (error: any) {
       console.error('❌ Error in addBudget:', error);
@@ -692,7 +1763,7 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
     }
   };
 
-  const addRecurringTransaction = async (transaction: Omit<RecurringTransaction, 'id' | 'userId' | 'createdAt'>): Promise<void> => {
+  const addRecurringTransaction = async (transaction: Omit<RecurringTransaction, 'id' | 'userId' | 'createdAt'>): Promise<RecurringTransaction> => {
     if (!user) throw new Error('User not authenticated');
     
     try {
@@ -715,11 +1786,14 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
               next_occurrence_date: transaction.nextOccurrenceDate.toISOString().split('T')[0],
               last_processed_date: transaction.lastProcessedDate ? transaction.lastProcessedDate.toISOString().split('T')[0] : null,
               is_active: transaction.isActive,
-              day_of_week: transaction.dayOfWeek || null,
-              day_of_month: transaction.dayOfMonth || null,
-              month_of_year: transaction.monthOfYear || null,
-              max_occurrences: transaction.maxOccurrences || null,
+              day_of_week: transaction.dayOfWeek ?? null,
+              day_of_month: transaction.dayOfMonth ?? null,
+              month_of_year: transaction.monthOfYear ?? null,
+              max_occurrences: transaction.maxOccurrences ?? null,
               current_occurrences: transaction.currentOccurrences || 0,
+              rrule: transaction.rrule ?? null,
+              is_variable: transaction.isVariable ?? false,
+              estimate_window: transaction.estimateWindow ?? DEFAULT_ESTIMATE_WINDOW,
             }])
             .select()
             .single();
@@ -739,19 +1813,10 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
       console.log('✅ Recurring transaction added successfully:', data);
       
       // Update local state
-      const newRecurring = {
-        ...data,
-        startDate: new Date(data.start_date),
-        endDate: data.end_date ? new Date(data.end_date) : undefined,
-        nextOccurrenceDate: new Date(data.next_occurrence_date),
-        lastProcessedDate: data.last_processed_date ? new Date(data.last_processed_date) : undefined,
-        createdAt: new Date(data.created_at),
-        amount: Number(data.amount),
-        userId: user.id,
-      };
-      
-      setRecurringTransactions(prev => [newRecurring, ...prev]);
+      const created = formatRecurringTransaction(data);
+      setRecurringTransactions(prev => [created, ...prev]);
       showToast('Recurring transaction added successfully', 'success');
+      return created;
     } catch (error: any) {
       console.error('❌ Error in addRecurringTransaction:', error);
       showToast(error.message || 'Failed to add recurring transaction', 'error');
@@ -818,7 +1883,7 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
   };
 
   // Update operations with enhanced error handling
-  const updateGoal = async (id: string, updates: Partial<Goal>): Promise<void> => {
+  const updateGoal = async (id: string, updates: Partial<GoalInput>): Promise<void> => {
     if (!user) throw new Error('User not authenticated');
     
     try {
@@ -832,6 +1897,7 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
       if (updates.currentAmount !== undefined) updateData.current_amount = updates.currentAmount;
       if (updates.targetDate !== undefined) updateData.target_date = updates.targetDate.toISOString().split('T')[0];
       if (updates.category !== undefined) updateData.category = updates.category;
+      if ('parentGoalId' in updates) updateData.parent_goal_id = updates.parentGoalId || null;
       
       const { data, error } = await withTimeout(
         withRetry(async () => {
@@ -857,11 +1923,15 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
       console.log('✅ Goal updated successfully:', data);
       
       // Update local state
-      setGoals(prev => prev.map(g => g.id === id ? {
+      const { milestones, ...goalUpdates } = updates;
+      setGoalRecords(prev => prev.map(g => g.id === id ? {
         ...g,
-        ...updates,
+        ...goalUpdates,
         targetDate: updates.targetDate || g.targetDate,
       } : g));
+      // A changed saved amount is recorded as an adjustment contribution
+      if (updates.currentAmount !== undefined) await loadGoalContributions();
+      if (milestones !== undefined) await saveGoalMilestones(id, milestones);
       
       showToast('Goal updated successfully', 'success');
     } catch (error: any) {
@@ -880,9 +1950,17 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
       
       const updateData: any = {};
       if (updates.category !== undefined) updateData.category = updates.category;
+      if (updates.categories !== undefined) updateData.categories = updates.categories;
       if (updates.amount !== undefined) updateData.amount = updates.amount;
-      if (updates.spent !== undefined) updateData.spent = updates.spent;
       if (updates.period !== undefined) updateData.period = updates.period;
+      if (updates.period !== undefined || updates.startDate !== undefined || updates.endDate !== undefined) {
+        const isCustom = (updates.period ?? budgetRecords.find(b => b.id === id)?.period) === 'custom';
+        updateData.start_date = isCustom && updates.startDate ? updates.startDate.toISOString().split('T')[0] : null;
+        updateData.end_date = isCustom && updates.endDate ? updates.endDate.toISOString().split('T')[0] : null;
+      }
+      if (updates.rollover !== undefined) updateData.rollover = updates.rollover;
+      if (updates.alertThresholds !== undefined) updateData.alert_thresholds = updates.alertThresholds;
+      if (updates.paceAlerts !== undefined) updateData.pace_alerts = updates.paceAlerts;
       
       const { data, error } = await withTimeout(
         withRetry(async () => {
@@ -908,7 +1986,7 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
       console.log('✅ Budget updated successfully:', data);
       
       // Update local state
-      setBudgets(prev => prev.map(b => b.id === id ? {
+      setBudgetRecords(prev => prev.map(b => b.id === id ? {
         ...b,
         ...updates,
       } : b));
@@ -991,14 +2069,19 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
       if (updates.description !== undefined) updateData.description = updates.description;
       if (updates.frequency !== undefined) updateData.frequency = updates.frequency;
       if (updates.startDate !== undefined) updateData.start_date = updates.startDate.toISOString().split('T')[0];
-      if (updates.endDate !== undefined) updateData.end_date = updates.endDate ? updates.endDate.toISOString().split('T')[0] : null;
+      if ('endDate' in updates) updateData.end_date = updates.endDate ? updates.endDate.toISOString().split('T')[0] : null;
       if (updates.nextOccurrenceDate !== undefined) updateData.next_occurrence_date = updates.nextOccurrenceDate.toISOString().split('T')[0];
       if (updates.lastProcessedDate !== undefined) updateData.last_processed_date = updates.lastProcessedDate ? updates.lastProcessedDate.toISOString().split('T')[0] : null;
       if (updates.isActive !== undefined) updateData.is_active = updates.isActive;
-      if (updates.dayOfWeek !== undefined) updateData.day_of_week = updates.dayOfWeek;
-      if (updates.dayOfMonth !== undefined) updateData.day_of_month = updates.dayOfMonth;
-      if (updates.monthOfYear !== undefined) updateData.month_of_year = updates.monthOfYear;
-      if (updates.maxOccurrences !== undefined) updateData.max_occurrences = updates.maxOccurrences;
+      // Present-but-undefined clears the option, e.g. dayOfWeek when a weekly
+      // series becomes monthly
+      if ('dayOfWeek' in updates) updateData.day_of_week = updates.dayOfWeek ?? null;
+      if ('dayOfMonth' in updates) updateData.day_of_month = updates.dayOfMonth ?? null;
+      if ('monthOfYear' in updates) updateData.month_of_year = updates.monthOfYear ?? null;
+      if ('maxOccurrences' in updates) updateData.max_occurrences = updates.maxOccurrences ?? null;
+      if ('rrule' in updates) updateData.rrule = updates.rrule ?? null;
+      if (updates.isVariable !== undefined) updateData.is_variable = updates.isVariable;
+      if (updates.estimateWindow !== undefined) updateData.estimate_window = updates.estimateWindow;
       if (updates.currentOccurrences !== undefined) updateData.current_occurrences = updates.currentOccurrences;
       
       const { data, error } = await withTimeout(
@@ -1024,13 +2107,33 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
       }
 
       console.log('✅ Recurring transaction updated successfully:', data);
+
+      // Exceptions name occurrences by their scheduled date, which a new
+      // schedule no longer produces, so the unprocessed ones are dropped
+      const scheduleFields: (keyof RecurringTransaction)[] = [
+        'frequency', 'startDate', 'dayOfWeek', 'dayOfMonth', 'monthOfYear', 'rrule',
+      ];
+      if (scheduleFields.some(field => field in updates)) {
+        const { error: exceptionsError } = await supabase
+          .from('recurring_transaction_exceptions')
+          .delete()
+          .eq('recurring_transaction_id', id)
+          .eq('user_id', user.id)
+          .is('processed_at', null);
+
+        if (exceptionsError) {
+          console.error('❌ Supabase error clearing recurring exceptions:', exceptionsError);
+        } else {
+          setRecurringExceptions(prev => prev.filter(ex => ex.recurringTransactionId !== id || ex.processedAt));
+        }
+      }
       
       // Update local state
       setRecurringTransactions(prev => prev.map(rt => rt.id === id ? {
         ...rt,
         ...updates,
         startDate: updates.startDate || rt.startDate,
-        endDate: updates.endDate !== undefined ? updates.endDate : rt.endDate,
+        endDate: 'endDate' in updates ? updates.endDate : rt.endDate,
         nextOccurrenceDate: updates.nextOccurrenceDate || rt.nextOccurrenceDate,
         lastProcessedDate: updates.lastProcessedDate !== undefined ? updates.lastProcessedDate : rt.lastProcessedDate,
       } : rt));
@@ -1127,172 +2230,1386 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
         throw new Error(`Failed to delete goal: ${error.message}`);
       }
 
-      console.log('✅ Goal deleted successfully');
-      
-      // Update local state
-      setGoals(prev => prev.filter(g => g.id !== id));
-      showToast('Goal deleted successfully', 'success');
-    } catch (error: any) {
-      console.error('❌ Error in deleteGoal:', error);
-      showToast(error.message || 'Failed to delete goal', 'error');
+      console.log('✅ Goal deleted successfully');
+      
+      // Update local state
+      // Sub-goals of a deleted goal become goals of their own
+      setGoalRecords(prev => prev
+        .filter(g => g.id !== id)
+        .map(g => (g.parentGoalId === id ? { ...g, parentGoalId: undefined } : g)));
+      setGoalContributions(prev => prev.filter(c => c.goalId !== id));
+      setGoalFundingRules(prev => prev.filter(r => r.goalId !== id));
+      setGoalMilestones(prev => prev.filter(m => m.goalId !== id));
+      showToast('Goal deleted successfully', 'success');
+    } catch (error: any) {
+      console.error('❌ Error in deleteGoal:', error);
+      showToast(error.message || 'Failed to delete goal', 'error');
+      throw error;
+    }
+  };
+
+  // Brings a goal's milestones in line with the ones edited in the goal form.
+  // A milestone whose amount changes has to be reached again.
+  const saveGoalMilestones = async (goalId: string, drafts: GoalMilestoneDraft[]): Promise<void> => {
+    if (!user) throw new Error('User not authenticated');
+
+    const dateValue = (date?: Date) => (date ? date.toISOString().split('T')[0] : null);
+    const existing = goalMilestones.filter(m => m.goalId === goalId);
+    const removed = existing.filter(m => !drafts.some(d => d.id === m.id)).map(m => m.id);
+    const added = drafts.filter(d => !d.id);
+    const changed = drafts.flatMap(d => {
+      const current = existing.find(m => m.id === d.id);
+      if (!current) return [];
+      const unchanged = current.amount === d.amount
+        && (current.title ?? '') === (d.title ?? '')
+        && dateValue(current.targetDate) === dateValue(d.targetDate);
+      return unchanged ? [] : [{ draft: d, amountChanged: current.amount !== d.amount }];
+    });
+    if (removed.length === 0 && added.length === 0 && changed.length === 0) return;
+
+    console.log('🔄 Saving goal milestones:', goalId, drafts);
+    const startTime = Date.now();
+
+    const results = await withTimeout(
+      Promise.all([
+        ...(removed.length > 0 ? [
+          supabase.from('goal_milestones').delete().in('id', removed).eq('user_id', user.id),
+        ] : []),
+        ...(added.length > 0 ? [
+          supabase.from('goal_milestones').insert(added.map(d => ({
+            user_id: user.id,
+            goal_id: goalId,
+            title: d.title || null,
+            amount: d.amount,
+            target_date: dateValue(d.targetDate),
+          }))),
+        ] : []),
+        ...changed.map(({ draft, amountChanged }) =>
+          supabase
+            .from('goal_milestones')
+            .update({
+              title: draft.title || null,
+              amount: draft.amount,
+              target_date: dateValue(draft.targetDate),
+              ...(amountChanged ? { reached_at: null, read_at: null } : {}),
+            })
+            .eq('id', draft.id as string)
+            .eq('user_id', user.id)
+        ),
+      ]),
+      10000,
+      'Save goal milestones'
+    );
+
+    logQueryPerformance('save-goal-milestones', startTime);
+
+    const failed = results.find(result => result.error);
+    // Whatever did get saved is shown either way
+    await loadGoalMilestones();
+    if (failed?.error) {
+      console.error('❌ Supabase error saving goal milestones:', failed.error);
+      throw new Error(`Failed to save milestones: ${failed.error.message}`);
+    }
+    console.log('✅ Goal milestones saved');
+  };
+
+  const markGoalMilestonesRead = async (ids?: string[]): Promise<void> => {
+    if (!user) throw new Error('User not authenticated');
+
+    const unread = goalMilestones.filter(m => m.reachedAt && !m.readAt && (!ids || ids.includes(m.id))).map(m => m.id);
+    if (unread.length === 0) return;
+
+    try {
+      console.log('🔄 Marking goal milestones read:', unread);
+      const startTime = Date.now();
+      const readAt = new Date();
+
+      const { error } = await withTimeout(
+        withRetry(async () => {
+          return supabase
+            .from('goal_milestones')
+            .update({ read_at: readAt.toISOString() })
+            .in('id', unread)
+            .eq('user_id', user.id);
+        }, 2, 'Mark goal milestones read'),
+        10000,
+        'Mark goal milestones read'
+      );
+
+      logQueryPerformance('mark-goal-milestones-read', startTime);
+
+      if (error) {
+        console.error('❌ Supabase error marking goal milestones read:', error);
+        throw new Error(`Failed to mark milestones read: ${error.message}`);
+      }
+
+      setGoalMilestones(prev => prev.map(m => (unread.includes(m.id) ? { ...m, readAt } : m)));
+    } catch (error: unknown) {
+      console.error('❌ Error in markGoalMilestonesRead:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to mark milestones read', 'error');
+      throw error;
+    }
+  };
+
+  // Records money moved into or out of goals. A transaction given alongside,
+  // such as the expense that pays for a deposit, is added first and linked so
+  // that undoing the contributions removes it as well.
+  const addGoalContributions = async (
+    contributions: Array<Pick<GoalContribution, 'goalId' | 'amount' | 'note'>>,
+    transaction?: Omit<Transaction, 'id' | 'userId'>
+  ): Promise<void> => {
+    if (!user) throw new Error('User not authenticated');
+
+    let linked: Transaction | undefined;
+    try {
+      console.log('🔄 Adding goal contributions:', contributions);
+      // Money moved out of a goal is not income for funding rules
+      if (transaction) linked = await addTransaction(transaction, { fundGoals: false });
+      const startTime = Date.now();
+      const date = new Date().toISOString().split('T')[0];
+
+      const { data, error } = await withTimeout(
+        withRetry(async () => {
+          return supabase
+            .from('goal_contributions')
+            .insert(contributions.map(c => ({
+              user_id: user.id,
+              goal_id: c.goalId,
+              amount: c.amount,
+              date,
+              note: c.note || null,
+              transaction_id: linked?.id ?? null,
+            })))
+            .select();
+        }, 2, 'Add goal contributions'),
+        10000,
+        'Add goal contributions'
+      );
+
+      logQueryPerformance('add-goal-contributions', startTime);
+
+      if (error) {
+        console.error('❌ Supabase error adding goal contributions:', error);
+        throw new Error(`Failed to update goal: ${error.message}`);
+      }
+
+      console.log('✅ Goal contributions added successfully:', data);
+
+      setGoalContributions(prev => [...prev, ...(data || []).map(formatGoalContribution)]);
+      showToast('Goal updated successfully', 'success');
+    } catch (error: unknown) {
+      console.error('❌ Error in addGoalContributions:', error);
+      // The transaction is only kept together with its contributions
+      if (linked) await deleteTransaction(linked.id).catch(() => undefined);
+      showToast(error instanceof Error ? error.message : 'Failed to update goal', 'error');
+      throw error;
+    }
+  };
+
+  // Undoes a contribution. One recorded with a transaction is undone by
+  // deleting the transaction, which removes every contribution made with it,
+  // such as both sides of a move from the emergency fund. The income a
+  // funding rule took a share of is kept.
+  const deleteGoalContribution = async (id: string): Promise<void> => {
+    if (!user) throw new Error('User not authenticated');
+
+    try {
+      console.log('🔄 Deleting goal contribution:', id);
+      const contribution = goalContributions.find(c => c.id === id);
+      if (!contribution) throw new Error('Contribution not found');
+      const linkedTransactionId = contribution.fundingRuleId ? undefined : contribution.transactionId;
+      const startTime = Date.now();
+
+      const { error } = await withTimeout(
+        withRetry(async () => {
+          return linkedTransactionId
+            ? supabase
+                .from('transactions')
+                .delete()
+                .eq('id', linkedTransactionId)
+                .eq('user_id', user.id)
+            : supabase
+                .from('goal_contributions')
+                .delete()
+                .eq('id', id)
+                .eq('user_id', user.id);
+        }, 2, 'Delete goal contribution'),
+        10000,
+        'Delete goal contribution'
+      );
+
+      logQueryPerformance('delete-goal-contribution', startTime);
+
+      if (error) {
+        console.error('❌ Supabase error deleting goal contribution:', error);
+        throw new Error(`Failed to undo contribution: ${error.message}`);
+      }
+
+      console.log('✅ Goal contribution deleted successfully');
+
+      if (linkedTransactionId) {
+        setTransactions(prev => prev.filter(t => t.id !== linkedTransactionId));
+        setGoalContributions(prev => prev.filter(c => c.transactionId !== linkedTransactionId));
+      } else {
+        setGoalContributions(prev => prev.filter(c => c.id !== id));
+      }
+      showToast('Contribution undone', 'success');
+    } catch (error: unknown) {
+      console.error('❌ Error in deleteGoalContribution:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to undo contribution', 'error');
+      throw error;
+    }
+  };
+
+  // Runs the income funding rules over a newly recorded income. The income
+  // stays recorded when this fails; the failure is only reported.
+  const fundGoalsFromIncome = async (transactionId: string): Promise<void> => {
+    try {
+      console.log('🔄 Funding goals from income:', transactionId);
+      const startTime = Date.now();
+
+      const { data, error } = await withTimeout(
+        withRetry(async () => {
+          return supabase.rpc('fund_goals_from_income', { p_transaction_id: transactionId });
+        }, 1, 'Fund goals from income'),
+        10000,
+        'Fund goals from income'
+      );
+
+      logQueryPerformance('fund-goals-from-income', startTime);
+
+      if (error) {
+        console.error('❌ Supabase error funding goals from income:', error);
+        throw new Error(`Failed to fund goals from this income: ${error.message}`);
+      }
+
+      const contributions = (data || []).map(formatGoalContribution);
+      if (contributions.length === 0) return;
+
+      console.log(`✅ Funded ${contributions.length} goals from income`);
+      setGoalContributions(prev => [...prev, ...contributions]);
+      showToast(
+        `${contributions.length} goal${contributions.length === 1 ? '' : 's'} funded from this income`,
+        'info'
+      );
+    } catch (error: unknown) {
+      console.error('❌ Error in fundGoalsFromIncome:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to fund goals from this income', 'error');
+    }
+  };
+
+  const addGoalFundingRule = async (rule: Omit<GoalFundingRule, 'id' | 'userId' | 'createdAt'>): Promise<void> => {
+    if (!user) throw new Error('User not authenticated');
+
+    try {
+      console.log('🔄 Adding goal funding rule:', rule);
+      const startTime = Date.now();
+
+      const { data, error } = await withTimeout(
+        withRetry(async () => {
+          return supabase
+            .from('goal_funding_rules')
+            .insert([{
+              user_id: user.id,
+              goal_id: rule.goalId,
+              source: rule.source,
+              amount_type: rule.amountType,
+              amount: rule.amount,
+              category: rule.source === 'income' ? rule.category || null : null,
+              priority: rule.priority,
+              is_active: rule.isActive,
+            }])
+            .select()
+            .single();
+        }, 2, 'Add goal funding rule'),
+        10000,
+        'Add goal funding rule'
+      );
+
+      logQueryPerformance('add-goal-funding-rule', startTime);
+
+      if (error) {
+        console.error('❌ Supabase error adding goal funding rule:', error);
+        throw new Error(`Failed to add funding rule: ${error.message}`);
+      }
+
+      console.log('✅ Goal funding rule added successfully:', data);
+
+      setGoalFundingRules(prev => [...prev, formatGoalFundingRule(data)]
+        .sort((a, b) => a.priority - b.priority || a.createdAt.getTime() - b.createdAt.getTime()));
+      showToast('Funding rule added', 'success');
+    } catch (error: unknown) {
+      console.error('❌ Error in addGoalFundingRule:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to add funding rule', 'error');
+      throw error;
+    }
+  };
+
+  const updateGoalFundingRule = async (id: string, updates: Partial<GoalFundingRule>): Promise<void> => {
+    if (!user) throw new Error('User not authenticated');
+
+    try {
+      console.log('🔄 Updating goal funding rule:', id, updates);
+      const startTime = Date.now();
+
+      const updateData: Database['public']['Tables']['goal_funding_rules']['Update'] = {};
+      if (updates.goalId !== undefined) updateData.goal_id = updates.goalId;
+      if (updates.source !== undefined) updateData.source = updates.source;
+      if (updates.amountType !== undefined) updateData.amount_type = updates.amountType;
+      if (updates.amount !== undefined) updateData.amount = updates.amount;
+      if ('category' in updates) updateData.category = updates.category || null;
+      if (updates.source === 'budget_leftover') updateData.category = null;
+      if (updates.priority !== undefined) updateData.priority = updates.priority;
+      if (updates.isActive !== undefined) updateData.is_active = updates.isActive;
+
+      const { data, error } = await withTimeout(
+        withRetry(async () => {
+          return supabase
+            .from('goal_funding_rules')
+            .update(updateData)
+            .eq('id', id)
+            .eq('user_id', user.id)
+            .select()
+            .single();
+        }, 2, 'Update goal funding rule'),
+        10000,
+        'Update goal funding rule'
+      );
+
+      logQueryPerformance('update-goal-funding-rule', startTime);
+
+      if (error) {
+        console.error('❌ Supabase error updating goal funding rule:', error);
+        throw new Error(`Failed to update funding rule: ${error.message}`);
+      }
+
+      console.log('✅ Goal funding rule updated successfully:', data);
+
+      setGoalFundingRules(prev => prev.map(r => (r.id === id ? formatGoalFundingRule(data) : r))
+        .sort((a, b) => a.priority - b.priority || a.createdAt.getTime() - b.createdAt.getTime()));
+      showToast('Funding rule updated', 'success');
+    } catch (error: unknown) {
+      console.error('❌ Error in updateGoalFundingRule:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to update funding rule', 'error');
+      throw error;
+    }
+  };
+
+  // Contributions the rule made are kept; they lose only the link to it
+  const deleteGoalFundingRule = async (id: string): Promise<void> => {
+    if (!user) throw new Error('User not authenticated');
+
+    try {
+      console.log('🔄 Deleting goal funding rule:', id);
+      const startTime = Date.now();
+
+      const { error } = await withTimeout(
+        withRetry(async () => {
+          return supabase
+            .from('goal_funding_rules')
+            .delete()
+            .eq('id', id)
+            .eq('user_id', user.id);
+        }, 2, 'Delete goal funding rule'),
+        10000,
+        'Delete goal funding rule'
+      );
+
+      logQueryPerformance('delete-goal-funding-rule', startTime);
+
+      if (error) {
+        console.error('❌ Supabase error deleting goal funding rule:', error);
+        throw new Error(`Failed to delete funding rule: ${error.message}`);
+      }
+
+      console.log('✅ Goal funding rule deleted successfully');
+
+      setGoalFundingRules(prev => prev.filter(r => r.id !== id));
+      setGoalContributions(prev => prev.map(c => (c.fundingRuleId === id ? { ...c, fundingRuleId: undefined } : c)));
+      showToast('Funding rule deleted', 'success');
+    } catch (error: unknown) {
+      console.error('❌ Error in deleteGoalFundingRule:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to delete funding rule', 'error');
+      throw error;
+    }
+  };
+
+  const deleteBudget = async (id: string): Promise<void> => {
+    if (!user) throw new Error('User not authenticated');
+    
+    try {
+      console.log('🔄 Deleting budget:', id);
+      const startTime = Date.now();
+      
+      const { error } = await withTimeout(
+        withRetry(async () => {
+          return supabase
+            .from('budgets')
+            .delete()
+            .eq('id', id)
+            .eq('user_id', user.id);
+        }, 2, 'Delete budget'),
+        10000,
+        'Delete budget'
+      );
+
+      logQueryPerformance('delete-budget', startTime);
+
+      if (error) {
+        console.error('❌ Supabase error deleting budget:', error);
+        throw new Error(`Failed to delete budget: ${error.message}`);
+      }
+
+      console.log('✅ Budget deleted successfully');
+      
+      // Update local state
+      setBudgetRecords(prev => prev.filter(b => b.id !== id));
+      setBudgetPeriods(prev => prev.filter(p => p.budgetId !== id));
+      setEnvelopeTransfers(prev => prev.filter(t => t.fromBudgetId !== id && t.toBudgetId !== id));
+      setBudgetAlerts(prev => prev.filter(a => a.budgetId !== id));
+      showToast('Budget deleted successfully', 'success');
+    } catch (error: any) {
+      console.error('❌ Error in deleteBudget:', error);
+      showToast(error.message || 'Failed to delete budget', 'error');
+      throw error;
+    }
+  };
+
+  // Creates a generated or templated set of budgets in a single insert
+  const addBudgets = async (drafts: BudgetDraft[]): Promise<void> => {
+    if (!user) throw new Error('User not authenticated');
+    if (drafts.length === 0) return;
+
+    try {
+      console.log('🔄 Adding budgets:', drafts);
+      const startTime = Date.now();
+
+      const { data, error } = await withTimeout(
+        withRetry(async () => {
+          return supabase
+            .from('budgets')
+            .insert(drafts.map(draft => ({
+              user_id: user.id,
+              category: draft.category,
+              categories: draft.categories,
+              amount: roundCurrency(draft.amount),
+              period: draft.period,
+              rollover: draft.rollover ?? false,
+            })))
+            .select();
+        }, 2, 'Add budgets'),
+        10000,
+        'Add budgets'
+      );
+
+      logQueryPerformance('add-budgets', startTime);
+
+      if (error) {
+        console.error('❌ Supabase error adding budgets:', error);
+        throw new Error(`Failed to add budgets: ${error.message}`);
+      }
+
+      console.log(`✅ Added ${data?.length ?? 0} budgets`);
+
+      const newBudgets = (data || []).map(b => ({
+        ...b,
+        createdAt: new Date(b.created_at),
+        amount: Number(b.amount),
+        startDate: undefined,
+        endDate: undefined,
+        alertThresholds: b.alert_thresholds,
+        paceAlerts: b.pace_alerts,
+        userId: user.id,
+      }));
+
+      setBudgetRecords(prev => [...newBudgets, ...prev]);
+      showToast(`Created ${newBudgets.length} budget${newBudgets.length === 1 ? '' : 's'}`, 'success');
+    } catch (error: unknown) {
+      console.error('❌ Error in addBudgets:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to add budgets', 'error');
+      throw error;
+    }
+  };
+
+  const saveBudgetTemplate = async (name: string, items: BudgetDraft[]): Promise<void> => {
+    if (!user) throw new Error('User not authenticated');
+
+    try {
+      if (!name.trim()) throw new Error('Template name is required');
+      if (items.length === 0) throw new Error('Add at least one budget to the template');
+
+      console.log('🔄 Saving budget template:', name);
+      const startTime = Date.now();
+
+      const { data, error } = await withTimeout(
+        withRetry(async () => {
+          return supabase
+            .from('budget_templates')
+            .insert([{
+              user_id: user.id,
+              name: name.trim(),
+              items: items.map(item => ({
+                category: item.category,
+                categories: item.categories,
+                amount: roundCurrency(item.amount),
+                period: item.period,
+                rollover: item.rollover ?? false,
+              })),
+            }])
+            .select()
+            .single();
+        }, 2, 'Save budget template'),
+        10000,
+        'Save budget template'
+      );
+
+      logQueryPerformance('save-budget-template', startTime);
+
+      if (error) {
+        console.error('❌ Supabase error saving budget template:', error);
+        throw new Error(`Failed to save template: ${error.message}`);
+      }
+
+      console.log('✅ Budget template saved successfully:', data);
+
+      setBudgetTemplates(prev => [formatBudgetTemplate(data), ...prev]);
+      showToast('Template saved', 'success');
+    } catch (error: unknown) {
+      console.error('❌ Error in saveBudgetTemplate:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to save template', 'error');
+      throw error;
+    }
+  };
+
+  const deleteBudgetTemplate = async (id: string): Promise<void> => {
+    if (!user) throw new Error('User not authenticated');
+
+    try {
+      console.log('🔄 Deleting budget template:', id);
+      const startTime = Date.now();
+
+      const { error } = await withTimeout(
+        withRetry(async () => {
+          return supabase
+            .from('budget_templates')
+            .delete()
+            .eq('id', id)
+            .eq('user_id', user.id);
+        }, 2, 'Delete budget template'),
+        10000,
+        'Delete budget template'
+      );
+
+      logQueryPerformance('delete-budget-template', startTime);
+
+      if (error) {
+        console.error('❌ Supabase error deleting budget template:', error);
+        throw new Error(`Failed to delete template: ${error.message}`);
+      }
+
+      console.log('✅ Budget template deleted successfully');
+
+      setBudgetTemplates(prev => prev.filter(t => t.id !== id));
+      showToast('Template deleted', 'success');
+    } catch (error: unknown) {
+      console.error('❌ Error in deleteBudgetTemplate:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to delete template', 'error');
+      throw error;
+    }
+  };
+
+  // Marks the given alerts read, or every unread alert without ids
+  const markBudgetAlertsRead = async (ids?: string[]): Promise<void> => {
+    if (!user) throw new Error('User not authenticated');
+
+    const unread = budgetAlerts.filter(a => !a.readAt && (!ids || ids.includes(a.id))).map(a => a.id);
+    if (unread.length === 0) return;
+
+    try {
+      console.log('🔄 Marking budget alerts read:', unread);
+      const startTime = Date.now();
+      const readAt = new Date();
+
+      const { error } = await withTimeout(
+        withRetry(async () => {
+          return supabase
+            .from('budget_alerts')
+            .update({ read_at: readAt.toISOString() })
+            .in('id', unread)
+            .eq('user_id', user.id);
+        }, 2, 'Mark budget alerts read'),
+        10000,
+        'Mark budget alerts read'
+      );
+
+      logQueryPerformance('mark-budget-alerts-read', startTime);
+
+      if (error) {
+        console.error('❌ Supabase error marking budget alerts read:', error);
+        throw new Error(`Failed to mark alerts read: ${error.message}`);
+      }
+
+      setBudgetAlerts(prev => prev.map(a => (unread.includes(a.id) ? { ...a, readAt } : a)));
+    } catch (error: unknown) {
+      console.error('❌ Error in markBudgetAlertsRead:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to mark alerts read', 'error');
+      throw error;
+    }
+  };
+
+  // Hides an alert. It stays stored so the crossing is not raised again.
+  const dismissBudgetAlert = async (id: string): Promise<void> => {
+    if (!user) throw new Error('User not authenticated');
+
+    try {
+      console.log('🔄 Dismissing budget alert:', id);
+      const startTime = Date.now();
+      const now = new Date();
+      const alert = budgetAlerts.find(a => a.id === id);
+
+      const { error } = await withTimeout(
+        withRetry(async () => {
+          return supabase
+            .from('budget_alerts')
+            .update({
+              dismissed_at: now.toISOString(),
+              read_at: (alert?.readAt ?? now).toISOString(),
+            })
+            .eq('id', id)
+            .eq('user_id', user.id);
+        }, 2, 'Dismiss budget alert'),
+        10000,
+        'Dismiss budget alert'
+      );
+
+      logQueryPerformance('dismiss-budget-alert', startTime);
+
+      if (error) {
+        console.error('❌ Supabase error dismissing budget alert:', error);
+        throw new Error(`Failed to dismiss alert: ${error.message}`);
+      }
+
+      setBudgetAlerts(prev => prev.map(a => (a.id === id ? { ...a, readAt: a.readAt ?? now, dismissedAt: now } : a)));
+    } catch (error: unknown) {
+      console.error('❌ Error in dismissBudgetAlert:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to dismiss alert', 'error');
+      throw error;
+    }
+  };
+
+  const getEnvelopePlan = (month: Date = new Date()): EnvelopePlan =>
+    buildEnvelopePlan(month, budgets, transactions, envelopeTransfers);
+
+  // Moves money between envelopes. Without a source it is assigned from the
+  // month's income, without a destination it goes back to be assigned. Only
+  // what the source still holds can be moved.
+  const moveEnvelopeFunds = async (
+    month: Date,
+    fromBudgetId: string | undefined,
+    toBudgetId: string | undefined,
+    amount: number,
+    note?: string
+  ): Promise<void> => {
+    if (!user) throw new Error('User not authenticated');
+
+    try {
+      console.log('🔄 Moving envelope funds:', { fromBudgetId, toBudgetId, amount });
+      const startTime = Date.now();
+
+      if (!fromBudgetId && !toBudgetId) throw new Error('Choose an envelope to move money to or from');
+      if (fromBudgetId === toBudgetId) throw new Error('Choose two different envelopes');
+      if (!(amount > 0)) throw new Error('Amount must be greater than 0');
+
+      const plan = getEnvelopePlan(month);
+      const available = envelopeBalance(plan, fromBudgetId);
+      if (roundCurrency(amount) > available) {
+        throw new Error(available > 0
+          ? `Only ${available.toFixed(2)} is available to move`
+          : 'There is no money available to move');
+      }
+
+      const { data, error } = await withTimeout(
+        withRetry(async () => {
+          return supabase
+            .from('envelope_transfers')
+            .insert([{
+              user_id: user.id,
+              month: plan.month.toISOString().split('T')[0],
+              from_budget_id: fromBudgetId || null,
+              to_budget_id: toBudgetId || null,
+              amount: roundCurrency(amount),
+              note: note || null,
+            }])
+            .select()
+            .single();
+        }, 2, 'Move envelope funds'),
+        10000,
+        'Move envelope funds'
+      );
+
+      logQueryPerformance('move-envelope-funds', startTime);
+
+      if (error) {
+        console.error('❌ Supabase error moving envelope funds:', error);
+        throw new Error(`Failed to move money: ${error.message}`);
+      }
+
+      console.log('✅ Envelope funds moved successfully:', data);
+
+      setEnvelopeTransfers(prev => [...prev, formatEnvelopeTransfer(data)]);
+      showToast(toBudgetId ? 'Money assigned' : 'Money returned to be assigned', 'success');
+    } catch (error: unknown) {
+      console.error('❌ Error in moveEnvelopeFunds:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to move money', 'error');
+      throw error;
+    }
+  };
+
+  // Tops every envelope up to its budget amount while there is money to be assigned
+  const assignEnvelopeTargets = async (month: Date): Promise<void> => {
+    if (!user) throw new Error('User not authenticated');
+
+    try {
+      const plan = getEnvelopePlan(month);
+      const fills = envelopeTargetFill(plan);
+      if (fills.length === 0) {
+        showToast(plan.toBeAssigned > 0 ? 'Every envelope is already at its target' : 'There is no money left to assign', 'info');
+        return;
+      }
+
+      console.log('🔄 Assigning envelope targets:', fills);
+      const startTime = Date.now();
+
+      const { data, error } = await withTimeout(
+        withRetry(async () => {
+          return supabase
+            .from('envelope_transfers')
+            .insert(fills.map(fill => ({
+              user_id: user.id,
+              month: plan.month.toISOString().split('T')[0],
+              to_budget_id: fill.budgetId,
+              amount: fill.amount,
+            })))
+            .select();
+        }, 2, 'Assign envelope targets'),
+        10000,
+        'Assign envelope targets'
+      );
+
+      logQueryPerformance('assign-envelope-targets', startTime);
+
+      if (error) {
+        console.error('❌ Supabase error assigning envelope targets:', error);
+        throw new Error(`Failed to assign money: ${error.message}`);
+      }
+
+      console.log(`✅ Assigned money to ${fills.length} envelopes`);
+
+      setEnvelopeTransfers(prev => [...prev, ...(data || []).map(formatEnvelopeTransfer)]);
+      showToast(`Assigned money to ${fills.length} envelope${fills.length === 1 ? '' : 's'}`, 'success');
+    } catch (error: unknown) {
+      console.error('❌ Error in assignEnvelopeTargets:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to assign money', 'error');
+      throw error;
+    }
+  };
+
+  const deleteEnvelopeTransfer = async (id: string): Promise<void> => {
+    if (!user) throw new Error('User not authenticated');
+
+    try {
+      console.log('🔄 Deleting envelope transfer:', id);
+      const startTime = Date.now();
+
+      const { error } = await withTimeout(
+        withRetry(async () => {
+          return supabase
+            .from('envelope_transfers')
+            .delete()
+            .eq('id', id)
+            .eq('user_id', user.id);
+        }, 2, 'Delete envelope transfer'),
+        10000,
+        'Delete envelope transfer'
+      );
+
+      logQueryPerformance('delete-envelope-transfer', startTime);
+
+      if (error) {
+        console.error('❌ Supabase error deleting envelope transfer:', error);
+        throw new Error(`Failed to undo transfer: ${error.message}`);
+      }
+
+      console.log('✅ Envelope transfer deleted successfully');
+
+      setEnvelopeTransfers(prev => prev.filter(t => t.id !== id));
+      showToast('Transfer undone', 'success');
+    } catch (error: unknown) {
+      console.error('❌ Error in deleteEnvelopeTransfer:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to undo transfer', 'error');
+      throw error;
+    }
+  };
+
+  const deleteLiability = async (id: string): Promise<void> => {
+    if (!user) throw new Error('User not authenticated');
+    
+    try {
+      console.log('🔄 Deleting liability:', id);
+      const startTime = Date.now();
+      
+      const { error } = await withTimeout(
+        withRetry(async () => {
+          return supabase
+            .from('liabilities')
+            .delete()
+            .eq('id', id)
+            .eq('user_id', user.id);
+        }, 2, 'Delete liability'),
+        10000,
+        'Delete liability'
+      );
+
+      logQueryPerformance('delete-liability', startTime);
+
+      if (error) {
+        console.error('❌ Supabase error deleting liability:', error);
+        throw new Error(`Failed to delete liability: ${error.message}`);
+      }
+
+      console.log('✅ Liability deleted successfully');
+      
+      // Update local state
+      setLiabilities(prev => prev.filter(l => l.id !== id));
+      setLiabilityPayments(prev => prev.filter(p => p.liabilityId !== id));
+      showToast('Liability deleted successfully', 'success');
+    } catch (error: any) {
+      console.error('❌ Error in deleteLiability:', error);
+      showToast(error.message || 'Failed to delete liability', 'error');
+      throw error;
+    }
+  };
+
+  // Records a payment towards a liability, split into the interest accrued
+  // since the previous payment and the principal the database takes off the
+  // balance. A transaction given alongside, the expense that paid it, is added
+  // first and linked so that undoing the payment removes it as well.
+  const addLiabilityPayment = async (
+    payment: Pick<LiabilityPayment, 'liabilityId' | 'amount' | 'note'>,
+    transaction?: Omit<Transaction, 'id' | 'userId'>
+  ): Promise<void> => {
+    if (!user) throw new Error('User not authenticated');
+
+    let linked: Transaction | undefined;
+    try {
+      console.log('🔄 Adding liability payment:', payment);
+      const liability = liabilities.find(l => l.id === payment.liabilityId);
+      if (!liability) throw new Error('Liability not found');
+
+      const today = new Date();
+      const split = splitLiabilityPayment(liability, liabilityPayments, payment.amount, today);
+      if (split.amount <= 0) throw new Error('Payment amount must be greater than 0');
+
+      if (transaction) linked = await addTransaction({ ...transaction, amount: split.amount }, { fundGoals: false });
+      const startTime = Date.now();
+
+      const { data, error } = await withTimeout(
+        withRetry(async () => {
+          return supabase
+            .from('liability_payments')
+            .insert([{
+              user_id: user.id,
+              liability_id: liability.id,
+              date: today.toISOString().split('T')[0],
+              amount: split.amount,
+              principal: split.principal,
+              interest: split.interest,
+              balance_after: split.balanceAfter,
+              note: payment.note || null,
+              transaction_id: linked?.id ?? null,
+            }])
+            .select()
+            .single();
+        }, 2, 'Add liability payment'),
+        10000,
+        'Add liability payment'
+      );
+
+      logQueryPerformance('add-liability-payment', startTime);
+
+      if (error) {
+        console.error('❌ Supabase error adding liability payment:', error);
+        throw new Error(`Failed to record payment: ${error.message}`);
+      }
+
+      console.log('✅ Liability payment added successfully:', data);
+
+      const newPayment = formatLiabilityPayment(data);
+      setLiabilityPayments(prev => [...prev, newPayment]);
+      setLiabilities(prev => prev.map(l => l.id === liability.id ? { ...l, remainingAmount: newPayment.balanceAfter } : l));
+      showToast('Payment recorded', 'success');
+    } catch (error: unknown) {
+      console.error('❌ Error in addLiabilityPayment:', error);
+      // The transaction is only kept together with its payment
+      if (linked) await deleteTransaction(linked.id).catch(() => undefined);
+      showToast(error instanceof Error ? error.message : 'Failed to record payment', 'error');
+      throw error;
+    }
+  };
+
+  // Undoes a payment and puts its principal back on the balance. One recorded
+  // with a transaction is undone by deleting the transaction.
+  const deleteLiabilityPayment = async (id: string): Promise<void> => {
+    if (!user) throw new Error('User not authenticated');
+
+    try {
+      console.log('🔄 Deleting liability payment:', id);
+      const payment = liabilityPayments.find(p => p.id === id);
+      if (!payment) throw new Error('Payment not found');
+      const linkedTransactionId = payment.transactionId;
+      const startTime = Date.now();
+
+      const { error } = await withTimeout(
+        withRetry(async () => {
+          return linkedTransactionId
+            ? supabase
+                .from('transactions')
+                .delete()
+                .eq('id', linkedTransactionId)
+                .eq('user_id', user.id)
+            : supabase
+                .from('liability_payments')
+                .delete()
+                .eq('id', id)
+                .eq('user_id', user.id);
+        }, 2, 'Delete liability payment'),
+        10000,
+        'Delete liability payment'
+      );
+
+      logQueryPerformance('delete-liability-payment', startTime);
+
+      if (error) {
+        console.error('❌ Supabase error deleting liability payment:', error);
+        throw new Error(`Failed to undo payment: ${error.message}`);
+      }
+
+      console.log('✅ Liability payment deleted successfully');
+
+      if (linkedTransactionId) {
+        setTransactions(prev => prev.filter(t => t.id !== linkedTransactionId));
+      }
+      setLiabilityPayments(prev => prev.filter(p => p.id !== id));
+      setLiabilities(prev => prev.map(l => l.id === payment.liabilityId
+        ? { ...l, remainingAmount: roundCurrency(l.remainingAmount + payment.principal) }
+        : l));
+      showToast('Payment undone', 'success');
+    } catch (error: unknown) {
+      console.error('❌ Error in deleteLiabilityPayment:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to undo payment', 'error');
+      throw error;
+    }
+  };
+
+  const deleteRecurringTransaction = async (id: string): Promise<void> => {
+    if (!user) throw new Error('User not authenticated');
+    
+    try {
+      console.log('🔄 Deleting recurring transaction:', id);
+      const startTime = Date.now();
+      
+      const { error } = await withTimeout(
+        withRetry(async () => {
+          return supabase
+            .from('recurring_transactions')
+            .delete()
+            .eq('id', id)
+            .eq('user_id', user.id);
+        }, 2, 'Delete recurring transaction'),
+        10000,
+        'Delete recurring transaction'
+      );
+
+      logQueryPerformance('delete-recurring-transaction', startTime);
+
+      if (error) {
+        console.error('❌ Supabase error deleting recurring transaction:', error);
+        throw new Error(`Failed to delete recurring transaction: ${error.message}`);
+      }
+
+      console.log('✅ Recurring transaction deleted successfully');
+      
+      // Update local state; the exceptions are deleted with the series
+      setRecurringTransactions(prev => prev.filter(rt => rt.id !== id));
+      setRecurringExceptions(prev => prev.filter(ex => ex.recurringTransactionId !== id));
+      showToast('Recurring transaction deleted successfully', 'success');
+    } catch (error: any) {
+      console.error('❌ Error in deleteRecurringTransaction:', error);
+      showToast(error.message || 'Failed to delete recurring transaction', 'error');
+      throw error;
+    }
+  };
+
+  // Occurrences are created server-side by the process-recurring-transactions
+  // edge function, which also runs nightly; this just triggers it for the
+  // current user and reloads what it created.
+  const processRecurringTransactions = async (): Promise<void> => {
+    if (!user) throw new Error('User not authenticated');
+
+    try {
+      console.log('🔄 Processing recurring transactions...');
+      const startTime = Date.now();
+
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error('User not authenticated');
+
+      const response = await withTimeout(
+        fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/process-recurring-transactions`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${session.access_token}`,
+          },
+          body: JSON.stringify({}),
+        }),
+        30000,
+        'Process recurring transactions'
+      );
+
+      logQueryPerformance('process-recurring-transactions', startTime);
+
+      if (!response.ok) {
+        throw new Error(`Failed to process recurring transactions: ${response.status}`);
+      }
+
+      const { created } = await response.json();
+      console.log(`✅ Recurring transactions processed, ${created} occurrences created`);
+
+      await Promise.all([loadTransactions(), loadRecurringTransactions()]);
+      showToast(
+        created > 0
+          ? `Created ${created} recurring transaction${created === 1 ? '' : 's'}`
+          : 'Recurring transactions are up to date',
+        'success'
+      );
+    } catch (error: unknown) {
+      console.error('❌ Error in processRecurringTransactions:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to process recurring transactions', 'error');
+      throw error;
+    }
+  };
+
+  // Skips, moves or re-prices a single occurrence. Saving again for the same
+  // occurrence replaces the previous exception.
+  const saveRecurringException = async (
+    recurringTransactionId: string,
+    occurrenceDate: Date,
+    changes: { isSkipped: boolean; newDate?: Date; amount?: number }
+  ): Promise<void> => {
+    if (!user) throw new Error('User not authenticated');
+
+    try {
+      console.log('🔄 Saving recurring exception:', recurringTransactionId, occurrenceDate, changes);
+      const startTime = Date.now();
+
+      const { data, error } = await withTimeout(
+        withRetry(async () => {
+          return supabase
+            .from('recurring_transaction_exceptions')
+            .upsert({
+              user_id: user.id,
+              recurring_transaction_id: recurringTransactionId,
+              occurrence_date: occurrenceDate.toISOString().split('T')[0],
+              is_skipped: changes.isSkipped,
+              new_date: changes.newDate ? changes.newDate.toISOString().split('T')[0] : null,
+              amount: changes.amount ?? null,
+              processed_at: null,
+            }, { onConflict: 'recurring_transaction_id,occurrence_date' })
+            .select()
+            .single();
+        }, 2, 'Save recurring exception'),
+        10000,
+        'Save recurring exception'
+      );
+
+      logQueryPerformance('save-recurring-exception', startTime);
+
+      if (error) {
+        console.error('❌ Supabase error saving recurring exception:', error);
+        throw new Error(`Failed to save occurrence change: ${error.message}`);
+      }
+
+      console.log('✅ Recurring exception saved successfully:', data);
+
+      const saved = formatRecurringException(data);
+      setRecurringExceptions(prev => [...prev.filter(ex => ex.id !== saved.id), saved]);
+      showToast(changes.isSkipped ? 'Occurrence skipped' : 'Occurrence updated', 'success');
+    } catch (error: unknown) {
+      console.error('❌ Error in saveRecurringException:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to save occurrence change', 'error');
+      throw error;
+    }
+  };
+
+  // Restores the occurrence to its schedule
+  const deleteRecurringException = async (id: string): Promise<void> => {
+    if (!user) throw new Error('User not authenticated');
+
+    try {
+      console.log('🔄 Deleting recurring exception:', id);
+      const startTime = Date.now();
+
+      const { error } = await withTimeout(
+        withRetry(async () => {
+          return supabase
+            .from('recurring_transaction_exceptions')
+            .delete()
+            .eq('id', id)
+            .eq('user_id', user.id);
+        }, 2, 'Delete recurring exception'),
+        10000,
+        'Delete recurring exception'
+      );
+
+      logQueryPerformance('delete-recurring-exception', startTime);
+
+      if (error) {
+        console.error('❌ Supabase error deleting recurring exception:', error);
+        throw new Error(`Failed to restore occurrence: ${error.message}`);
+      }
+
+      console.log('✅ Recurring exception deleted successfully');
+
+      setRecurringExceptions(prev => prev.filter(ex => ex.id !== id));
+      showToast('Occurrence restored', 'success');
+    } catch (error: unknown) {
+      console.error('❌ Error in deleteRecurringException:', error);
+      showToast(error instanceof Error ? error.message : 'Failed to restore occurrence', 'error');
       throw error;
     }
   };
 
-  const deleteBudget = async (id: string): Promise<void> => {
+  // What the next occurrence of a series is expected to cost. Variable series
+  // average their latest confirmed occurrences; pending ones still hold an
+  // estimate and are left out.
+  const getExpectedAmount = (rt: RecurringTransaction): number => {
+    if (!rt.isVariable) return rt.amount;
+
+    const confirmed = transactions
+      .filter(t => t.recurringTransactionId === rt.id && !t.isPending)
+      .sort((a, b) => b.date.getTime() - a.date.getTime())
+      .map(t => t.amount);
+    return estimateAmount(confirmed, rt.amount, rt.estimateWindow);
+  };
+
+  // Occurrences of the active series between `from` and `to` that have not
+  // been created yet, with skips, moves and amount overrides applied.
+  // Skipped occurrences are included and flagged so they can be restored.
+  const getScheduledOccurrences = (from: Date, to: Date): ScheduledOccurrence[] => {
+    return recurringTransactions
+      .filter(rt => rt.isActive)
+      .flatMap(rt => {
+        let projected;
+        try {
+          projected = projectOccurrences(
+            rt,
+            recurringExceptions.filter(ex => ex.recurringTransactionId === rt.id),
+            from,
+            to
+          );
+        } catch (error) {
+          // An invalid RRULE only hides its own series
+          console.error('❌ Error projecting recurring transaction:', rt.id, error);
+          return [];
+        }
+
+        return projected.map(occurrence => ({
+          recurringTransactionId: rt.id,
+          scheduledDate: occurrence.occurrenceDate,
+          date: occurrence.date,
+          amount: occurrence.amount ?? getExpectedAmount(rt),
+          type: rt.type,
+          category: rt.category,
+          description: rt.description,
+          isSkipped: occurrence.isSkipped,
+          exception: occurrence.change,
+        }));
+      })
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+  };
+
+  const deleteUserCategory = async (id: string): Promise<void> => {
     if (!user) throw new Error('User not authenticated');
     
     try {
-      console.log('🔄 Deleting budget:', id);
+      console.log('🔄 Deleting user category:', id);
       const startTime = Date.now();
       
       const { error } = await withTimeout(
         withRetry(async () => {
           return supabase
-            .from('budgets')
+            .from('user_categories')
             .delete()
             .eq('id', id)
             .eq('user_id', user.id);
-        }, 2, 'Delete budget'),
+        }, 2, 'Delete user category'),
         10000,
-        'Delete budget'
+        'Delete user category'
       );
 
-      logQueryPerformance('delete-budget', startTime);
+      logQueryPerformance('delete-user-category', startTime);
 
       if (error) {
-        console.error('❌ Supabase error deleting budget:', error);
-        throw new Error(`Failed to delete budget: ${error.message}`);
+        console.error('❌ Supabase error deleting user category:', error);
+        throw new Error(`Failed to delete user category: ${error.message}`);
       }
 
-      console.log('✅ Budget deleted successfully');
+      console.log('✅ User category deleted successfully');
+      
+      // Update local state immediately
+      setUserCategories(prev => prev.filter(c => c.id !== id));
+      showToast('Category deleted successfully', 'success');
+      
+      // Force reload to ensure sync
+      setTimeout(() => {
+        loadUserCategories().catch(console.error);
+      }, 500);
       
-      // Update local state
-      setBudgets(prev => prev.filter(b => b.id !== id));
-      showToast('Budget deleted successfully', 'success');
     } catch (error: any) {
-      console.error('❌ Error in deleteBudget:', error);
-      showToast(error.message || 'Failed to delete budget', 'error');
+      console.error('❌ Error in deleteUserCategory:', error);
+      showToast(error.message || 'Failed to delete category', 'error');
       throw error;
     }
   };
 
-  const deleteLiability = async (id: string): Promise<void> => {
+  const addAccount = async (account: Omit<Account, 'id' | 'userId' | 'createdAt'>): Promise<void> => {
     if (!user) throw new Error('User not authenticated');
     
     try {
-      console.log('🔄 Deleting liability:', id);
+      console.log('🔄 Adding account:', account);
       const startTime = Date.now();
       
-      const { error } = await withTimeout(
+      const { data, error } = await withTimeout(
         withRetry(async () => {
           return supabase
-            .from('liabilities')
-            .delete()
-            .eq('id', id)
-            .eq('user_id', user.id);
-        }, 2, 'Delete liability'),
+            .from('accounts')
+            .insert([{
+              user_id: user.id,
+              name: account.name,
+              type: account.type,
+              opening_balance: account.openingBalance,
+              currency: account.currency,
+              is_archived: account.isArchived,
+            }])
+            .select()
+            .single();
+        }, 2, 'Add account'),
         10000,
-        'Delete liability'
+        'Add account'
       );
 
-      logQueryPerformance('delete-liability', startTime);
+      logQueryPerformance('add-account', startTime);
 
       if (error) {
-        console.error('❌ Supabase error deleting liability:', error);
-        throw new Error(`Failed to delete liability: ${error.message}`);
+        console.error('❌ Supabase error adding account:', error);
+        throw new Error(`Failed to add account: ${error.message}`);
       }
 
-      console.log('✅ Liability deleted successfully');
+      console.log('✅ Account added successfully:', data);
       
-      // Update local state
-      setLiabilities(prev => prev.filter(l => l.id !== id));
-      showToast('Liability deleted successfully', 'success');
+      setAccounts(prev => [...prev, formatAccount(data)]);
+      showToast('Account added successfully', 'success');
     } catch (error: any) {
-      console.error('❌ Error in deleteLiability:', error);
-      showToast(error.message || 'Failed to delete liability', 'error');
+      console.error('❌ Error in addAccount:', error);
+      showToast(error.message || 'Failed to add account', 'error');
       throw error;
     }
   };
 
-  const deleteRecurringTransaction = async (id: string): Promise<void> => {
+  const updateAccount = async (id: string, updates: Partial<Account>): Promise<void> => {
     if (!user) throw new Error('User not authenticated');
     
     try {
-      console.log('🔄 Deleting recurring transaction:', id);
+      console.log('🔄 Updating account:', id, updates);
       const startTime = Date.now();
       
-      const { error } = await withTimeout(
+      const updateData: Record<string, unknown> = {};
+      if (updates.name !== undefined) updateData.name = updates.name;
+      if (updates.type !== undefined) updateData.type = updates.type;
+      if (updates.openingBalance !== undefined) updateData.opening_balance = updates.openingBalance;
+      if (updates.currency !== undefined) updateData.currency = updates.currency;
+      if (updates.isArchived !== undefined) updateData.is_archived = updates.isArchived;
+      
+      const { data, error } = await withTimeout(
         withRetry(async () => {
           return supabase
-            .from('recurring_transactions')
-            .delete()
+            .from('accounts')
+            .update(updateData)
             .eq('id', id)
-            .eq('user_id', user.id);
-        }, 2, 'Delete recurring transaction'),
+            .eq('user_id', user.id)
+            .select()
+            .single();
+        }, 2, 'Update account'),
         10000,
-        'Delete recurring transaction'
+        'Update account'
       );
 
-      logQueryPerformance('delete-recurring-transaction', startTime);
+      logQueryPerformance('update-account', startTime);
 
       if (error) {
-        console.error('❌ Supabase error deleting recurring transaction:', error);
-        throw new Error(`Failed to delete recurring transaction: ${error.message}`);
+        console.error('❌ Supabase error updating account:', error);
+        throw new Error(`Failed to update account: ${error.message}`);
       }
 
-      console.log('✅ Recurring transaction deleted successfully');
+      console.log('✅ Account updated successfully:', data);
       
-      // Update local state
-      setRecurringTransactions(prev => prev.filter(rt => rt.id !== id));
-      showToast('Recurring transaction deleted successfully', 'success');
+      setAccounts(prev => prev.map(a => a.id === id ? formatAccount(data) : a));
+      showToast(
+        updates.isArchived === true ? 'Account archived' : 'Account updated successfully',
+        'success'
+      );
     } catch (error: any) {
-      console.error('❌ Error in deleteRecurringTransaction:', error);
-      showToast(error.message || 'Failed to delete recurring transaction', 'error');
+      console.error('❌ Error in updateAccount:', error);
+      showToast(error.message || 'Failed to update account', 'error');
       throw error;
     }
   };
 
-  const deleteUserCategory = async (id: string): Promise<void> => {
+  // Transactions survive the account; the database clears their account_id
+  const deleteAccount = async (id: string): Promise<void> => {
     if (!user) throw new Error('User not authenticated');
     
     try {
-      console.log('🔄 Deleting user category:', id);
+      console.log('🔄 Deleting account:', id);
       const startTime = Date.now();
       
       const { error } = await withTimeout(
         withRetry(async () => {
           return supabase
-            .from('user_categories')
+            .from('accounts')
             .delete()
             .eq('id', id)
             .eq('user_id', user.id);
-        }, 2, 'Delete user category'),
+        }, 2, 'Delete account'),
         10000,
-        'Delete user category'
+        'Delete account'
       );
 
-      logQueryPerformance('delete-user-category', startTime);
+      logQueryPerformance('delete-account', startTime);
 
       if (error) {
-        console.error('❌ Supabase error deleting user category:', error);
-        throw new Error(`Failed to delete user category: ${error.message}`);
+        console.error('❌ Supabase error deleting account:', error);
+        throw new Error(`Failed to delete account: ${error.message}`);
       }
 
-      console.log('✅ User category deleted successfully');
-      
-      // Update local state immediately
-      setUserCategories(prev => prev.filter(c => c.id !== id));
-      showToast('Category deleted successfully', 'success');
-      
-      // Force reload to ensure sync
-      setTimeout(() => {
-        loadUserCategories().catch(console.error);
-      }, 500);
+      console.log('✅ Account deleted successfully');
       
+      setAccounts(prev => prev.filter(a => a.id !== id));
+      setTransactions(prev => prev.map(t => t.accountId === id ? { ...t, accountId: undefined } : t));
+      showToast('Account deleted successfully', 'success');
     } catch (error: any) {
-      console.error('❌ Error in deleteUserCategory:', error);
-      showToast(error.message || 'Failed to delete category', 'error');
+      console.error('❌ Error in deleteAccount:', error);
+      showToast(error.message || 'Failed to delete account', 'error');
       throw error;
     }
   };
@@ -1302,14 +3619,50 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
     
     try {
       console.log('🔄 Updating transaction:', id, updates);
+      const existing = transactions.find(t => t.id === id);
+      const resultingType = updates.type ?? existing?.type;
+      if (resultingType === 'transfer') {
+        validateTransfer({ ...existing, ...updates });
+      }
+
+      // Entering the amount of an estimated occurrence confirms it
+      if (existing?.isPending && updates.amount !== undefined && updates.isPending === undefined) {
+        updates = { ...updates, isPending: false };
+      }
+
+      // A new amount is in the transaction's own currency; the stored rate is
+      // kept unless the currency or date changes
+      let resolvedUpdates = updates;
+      if (existing && (updates.amount !== undefined || updates.date !== undefined || updates.originalCurrency !== undefined)) {
+        const originalCurrency = updates.originalCurrency !== undefined ? updates.originalCurrency : existing.originalCurrency;
+        const date = updates.date ?? existing.date;
+        const sameRate = originalCurrency === existing.originalCurrency && date.getTime() === existing.date.getTime();
+        const resolved = await resolveTransactionCurrency({
+          amount: updates.amount ?? existing.originalAmount ?? existing.amount,
+          date,
+          originalCurrency,
+          exchangeRate: sameRate ? existing.exchangeRate : undefined,
+        });
+        resolvedUpdates = { ...updates, ...resolved };
+      }
       const startTime = Date.now();
       
       const updateData: any = {};
-      if (updates.type !== undefined) updateData.type = updates.type;
-      if (updates.amount !== undefined) updateData.amount = updates.amount;
+      if (resolvedUpdates.type !== undefined) updateData.type = resolvedUpdates.type;
+      if (resolvedUpdates.amount !== undefined) updateData.amount = resolvedUpdates.amount;
+      if ('originalCurrency' in resolvedUpdates) {
+        updateData.original_currency = resolvedUpdates.originalCurrency || null;
+        updateData.original_amount = resolvedUpdates.originalAmount ?? null;
+        updateData.exchange_rate = resolvedUpdates.exchangeRate ?? null;
+      }
       if (updates.category !== undefined) updateData.category = updates.category;
       if (updates.description !== undefined) updateData.description = updates.description;
       if (updates.date !== undefined) updateData.date = updates.date.toISOString().split('T')[0];
+      if (updates.accountId !== undefined) updateData.account_id = updates.accountId || null;
+      if (updates.transferAccountId !== undefined) updateData.transfer_account_id = updates.transferAccountId || null;
+      if (updates.isPending !== undefined) updateData.is_pending = updates.isPending;
+      // Only transfers have a destination account
+      if (updates.type !== undefined && updates.type !== 'transfer') updateData.transfer_account_id = null;
       
       const { data, error } = await withTimeout(
         withRetry(async () => {
@@ -1337,8 +3690,9 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
       // Update local state
       setTransactions(prev => prev.map(t => t.id === id ? {
         ...t,
-        ...updates,
+        ...resolvedUpdates,
         date: updates.date || t.date,
+        transferAccountId: data.transfer_account_id || undefined,
       } : t));
       
       showToast('Transaction updated successfully', 'success');
@@ -1377,8 +3731,18 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
 
       console.log('✅ Transaction deleted successfully');
       
-      // Update local state
+      // Update local state; contributions and liability payments recorded
+      // with it are deleted too, the payments' principal back on the balance
+      const payments = liabilityPayments.filter(p => p.transactionId === id);
       setTransactions(prev => prev.filter(t => t.id !== id));
+      setGoalContributions(prev => prev.filter(c => c.transactionId !== id));
+      if (payments.length > 0) {
+        setLiabilityPayments(prev => prev.filter(p => p.transactionId !== id));
+        setLiabilities(prev => prev.map(l => {
+          const principal = payments.filter(p => p.liabilityId === l.id).reduce((sum, p) => sum + p.principal, 0);
+          return principal > 0 ? { ...l, remainingAmount: roundCurrency(l.remainingAmount + principal) } : l;
+        }));
+      }
       showToast('Transaction deleted successfully', 'success');
     } catch (error: any) {
       console.error('❌ Error in deleteTransaction:', error);
@@ -1387,23 +3751,6 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
     }
   };
 
-  // Helper function to update budget spent amount
-  const updateBudgetSpent = async (category: string, amount: number): Promise<void> => {
-    try {
-      const budget = budgets.find(b => b.category === category);
-      if (!budget) {
-        console.warn(`⚠️ Budget category '${category}' not found for spending update`);
-        return;
-      }
-
-      const newSpent = budget.spent + amount;
-      await updateBudget(budget.id, { spent: newSpent });
-    } catch (error) {
-      console.error('❌ Error updating budget spent:', error);
-      // Don't throw here as this is a secondary operation
-    }
-  };
-
   // Split transaction implementation
   const addSplitTransaction = async (
     mainTransaction: Omit<Transaction, 'id' | 'userId'>, 
@@ -1413,6 +3760,10 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
     
     try {
       console.log('🔄 Adding split transaction:', mainTransaction, splits);
+      // Split parts are in the same currency as the whole and share its rate
+      const resolved = await resolveTransactionCurrency(mainTransaction);
+      const splitAmount = (amount: number) =>
+        resolved.exchangeRate !== undefined ? roundCurrency(amount * resolved.exchangeRate) : amount;
       const startTime = Date.now();
       
       // First, add the main transaction
@@ -1423,10 +3774,14 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
             .insert([{
               user_id: user.id,
               type: mainTransaction.type,
-              amount: mainTransaction.amount,
+              amount: resolved.amount,
               category: 'Split Transaction',
               description: mainTransaction.description,
               date: mainTransaction.date.toISOString().split('T')[0],
+              account_id: mainTransaction.accountId || null,
+              original_currency: resolved.originalCurrency || null,
+              original_amount: resolved.originalAmount ?? null,
+              exchange_rate: resolved.exchangeRate ?? null,
             }])
             .select()
             .single();
@@ -1446,11 +3801,15 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
       const splitInserts = splits.map(split => ({
         user_id: user.id,
         type: mainTransaction.type,
-        amount: split.amount,
+        amount: splitAmount(split.amount),
         category: split.category,
         description: split.description,
         date: mainTransaction.date.toISOString().split('T')[0],
         parent_transaction_id: mainData.id,
+        account_id: mainTransaction.accountId || null,
+        original_currency: resolved.originalCurrency || null,
+        original_amount: resolved.originalCurrency ? split.amount : null,
+        exchange_rate: resolved.exchangeRate ?? null,
       }));
 
       const { data: splitData, error: splitError } = await withTimeout(
@@ -1481,6 +3840,8 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
         date: new Date(mainData.date),
         createdAt: new Date(mainData.created_at),
         userId: user.id,
+        accountId: mainData.account_id || undefined,
+        ...transactionCurrencyFields(mainData),
       };
 
       const newSplitTransactions = (splitData || []).map(s => ({
@@ -1488,15 +3849,13 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
         date: new Date(s.date),
         createdAt: new Date(s.created_at),
         userId: user.id,
+        parentTransactionId: s.parent_transaction_id,
+        accountId: s.account_id || undefined,
+        ...transactionCurrencyFields(s),
       }));
 
       setTransactions(prev => [newMainTransaction, ...newSplitTransactions, ...prev]);
       
-      // Update budgets for each split
-      for (const split of splits) {
-        await updateBudgetSpent(split.category, split.amount);
-      }
-      
       showToast('Split transaction added successfully', 'success');
     } catch (error: any) {
       console.error('❌ Error in addSplitTransaction:', error);
@@ -1547,11 +3906,11 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
       
       const income = monthTransactions
         .filter(t => t.type === 'income')
-        .reduce((sum, t) => sum + t.amount, 0);
+        .reduce((sum, t) => sum + baseAmount(t), 0);
       
       const expenses = monthTransactions
         .filter(t => t.type === 'expense')
-        .reduce((sum, t) => sum + t.amount, 0);
+        .reduce((sum, t) => sum + baseAmount(t), 0);
       
       trends.push({
         month: date.toLocaleDateString('default', { month: 'short', year: 'numeric' }),
@@ -1573,7 +3932,7 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
     );
     
     const categoryTotals = relevantTransactions.reduce((acc, t) => {
-      acc[t.category] = (acc[t.category] || 0) + t.amount;
+      acc[t.category] = (acc[t.category] || 0) + baseAmount(t);
       return acc;
     }, {} as Record<string, number>);
 
@@ -1601,12 +3960,13 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
       
       const liquidAssets = cumulativeTransactions
         .filter(t => t.type === 'income')
-        .reduce((sum, t) => sum + t.amount, 0) - 
+        .reduce((sum, t) => sum + baseAmount(t), 0) - 
         cumulativeTransactions
         .filter(t => t.type === 'expense')
-        .reduce((sum, t) => sum + t.amount, 0);
+        .reduce((sum, t) => sum + baseAmount(t), 0);
       
-      const goalSavings = cumulativeGoals.reduce((sum, g) => sum + g.currentAmount, 0);
+      // Own amounts, as a parent's saved amount already includes its sub-goals
+      const goalSavings = cumulativeGoals.reduce((sum, g) => sum + g.ownAmount, 0);
       const totalLiabilities = cumulativeLiabilities.reduce((sum, l) => sum + l.remainingAmount, 0);
       
       trends.push({
@@ -1625,13 +3985,17 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
     return transactions.filter(t => t.parentTransactionId === parentId);
   };
 
+  // Base-currency amounts reach foreign-currency accounts at today's rate
+  const getAccountBalances = (): AccountBalance[] =>
+    calculateAccountBalances(accounts, transactions, code => getConversionRate(currency.code, code));
+
   // Spending patterns analytics derived from a set of transactions (defaults to all)
   const getSpendingPatterns = (tx?: Transaction[]) => {
     const source = (tx ?? transactions).filter(t => t.type === 'expense');
     const byCategory: Record<string, { amount: number; count: number }> = {};
     source.forEach(t => {
       if (!byCategory[t.category]) byCategory[t.category] = { amount: 0, count: 0 };
-      byCategory[t.category].amount += t.amount;
+      byCategory[t.category].amount += baseAmount(t);
       byCategory[t.category].count += 1;
     });
     const total = Object.values(byCategory).reduce((s, v) => s + v.amount, 0);
@@ -1655,7 +4019,7 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
     const bySource: Record<string, { amount: number; count: number }> = {};
     source.forEach(t => {
       if (!bySource[t.category]) bySource[t.category] = { amount: 0, count: 0 };
-      bySource[t.category].amount += t.amount;
+      bySource[t.category].amount += baseAmount(t);
       bySource[t.category].count += 1;
     });
     const total = Object.values(bySource).reduce((s, v) => s + v.amount, 0);
@@ -1672,11 +4036,34 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
       .sort((a, b) => b.amount - a.amount);
   };
 
-  // Budget performance based on budgets state
+  // Budget performance over each budget's current period. In envelope mode
+  // the budgeted amount is what was assigned to the envelope this month.
   const getBudgetPerformance = () => {
+    if (personalization.budgetingMode === 'envelope') {
+      return getEnvelopePlan().envelopes.map(e => {
+        const utilization = e.assigned > 0 || e.spent > 0 ? budgetUtilization(e.spent, e.assigned) : 0;
+        let status: 'under' | 'on_track' | 'over' | 'warning' = 'on_track';
+        if (e.available < 0) status = 'over';
+        else if (utilization >= 80) status = 'warning';
+        else status = 'under';
+        const trend: 'improving' | 'stable' | 'concerning' = 'stable';
+        return {
+          category: e.budget.category,
+          categories: e.budget.categories,
+          budgeted: e.assigned,
+          spent: e.spent,
+          remaining: e.available,
+          utilization,
+          status,
+          trend,
+        };
+      });
+    }
+
     return budgets.map(b => {
-      const remaining = b.amount - b.spent;
-      const utilization = b.amount > 0 ? (b.spent / b.amount) * 100 : 0;
+      const available = budgetAvailable(b);
+      const remaining = available - b.spent;
+      const utilization = budgetUtilization(b.spent, available);
       let status: 'under' | 'on_track' | 'over' | 'warning' = 'on_track';
       if (utilization >= 100) status = 'over';
       else if (utilization >= 80) status = 'warning';
@@ -1684,7 +4071,8 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
       const trend: 'improving' | 'stable' | 'concerning' = 'stable';
       return {
         category: b.category,
-        budgeted: b.amount,
+        categories: b.categories,
+        budgeted: available,
         spent: b.spent,
         remaining,
         utilization,
@@ -1757,6 +4145,10 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
         ...t,
         date: new Date(t.date),
         createdAt: new Date(t.created_at),
+        externalId: t.external_id || undefined,
+        accountId: t.account_id || undefined,
+        transferAccountId: t.transfer_account_id || undefined,
+        ...transactionCurrencyFields(t),
         userId: user.id,
       }));
 
@@ -1769,16 +4161,19 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
     }
   };
 
-  // Calculate dashboard stats
+  // Calculate dashboard stats. Transfers only move money between accounts,
+  // so they are left out of the income and expense totals here and in the
+  // trend, category and spending analytics above. All totals are in the base
+  // currency, converting foreign transactions at their stored historical rate.
   const stats: DashboardStats = {
-    totalIncome: transactions.filter(t => t.type === 'income').reduce((sum, t) => sum + t.amount, 0),
-    totalExpenses: transactions.filter(t => t.type === 'expense').reduce((sum, t) => sum + t.amount, 0),
-    totalSavings: goals.reduce((sum, g) => sum + g.currentAmount, 0),
+    totalIncome: transactions.filter(t => t.type === 'income').reduce((sum, t) => sum + baseAmount(t), 0),
+    totalExpenses: transactions.filter(t => t.type === 'expense').reduce((sum, t) => sum + baseAmount(t), 0),
+    totalSavings: goals.reduce((sum, g) => sum + g.ownAmount, 0),
     totalLiabilities: liabilities.reduce((sum, l) => sum + l.remainingAmount, 0),
     monthlyIncome: getMonthlyTrends(1)[0]?.income || 0,
     monthlyExpenses: getMonthlyTrends(1)[0]?.expenses || 0,
     budgetUtilization: budgets.length > 0 
-      ? budgets.reduce((sum, b) => sum + (b.spent / b.amount * 100), 0) / budgets.length 
+      ? budgets.reduce((sum, b) => sum + budgetUtilization(b.spent, budgetAvailable(b)), 0) / budgets.length 
       : 0,
   };
 
@@ -1886,6 +4281,7 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
       budgets,
       recurringTransactions,
       userCategories,
+      accounts,
       exportDate: new Date().toISOString(),
       version: '1.0'
     };
@@ -1894,7 +4290,6 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
       return JSON.stringify(exportData, null, 2);
     } else {
       // CSV export for transactions only
-      const headers = ['Date', 'Type', 'Amount', 'Category', 'Description'];
       const rows = transactions.map(t => [
         t.date.toISOString().split('T')[0],
         t.type,
@@ -1903,18 +4298,397 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
         t.description
       ]);
       
-      return [headers, ...rows].map(row => row.join(',')).join('\n');
+      return [EXPORT_CSV_HEADERS, ...rows].map(row => row.map(toCsvField).join(',')).join('\n');
+    }
+  };
+
+  // Insert imported rows with client-generated ids so references between
+  // entities can be remapped. A failing batch is retried row by row so a
+  // single bad record doesn't sink the rest of the import.
+  const insertImportedRows = async (
+    table: string,
+    rows: Array<{ sourceId: string; payload: Record<string, unknown> }>,
+    summary: ImportEntitySummary,
+    idMap: Map<string, string>
+  ): Promise<void> => {
+    if (!user || rows.length === 0) return;
+
+    const prepared = rows.map(row => ({ ...row, newId: crypto.randomUUID() }));
+    const toInsert = (row: typeof prepared[number]) => ({ id: row.newId, user_id: user.id, ...row.payload });
+
+    for (let i = 0; i < prepared.length; i += IMPORT_BATCH_SIZE) {
+      const batch = prepared.slice(i, i + IMPORT_BATCH_SIZE);
+
+      const { error } = await withTimeout(
+        withRetry(async () => {
+          return supabase
+            .from(table)
+            .insert(batch.map(toInsert));
+        }, 1, `Import ${table}`),
+        20000,
+        `Import ${table}`
+      );
+
+      if (!error) {
+        batch.forEach(row => idMap.set(row.sourceId, row.newId));
+        summary.created += batch.length;
+        continue;
+      }
+
+      console.warn(`⚠️ Batch import into ${table} failed, retrying row by row:`, error);
+
+      for (const row of batch) {
+        const { error: rowError } = await supabase.from(table).insert([toInsert(row)]);
+        if (rowError) {
+          summary.failed += 1;
+          summary.errors.push(`${row.sourceId}: ${rowError.message}`);
+        } else {
+          idMap.set(row.sourceId, row.newId);
+          summary.created += 1;
+        }
+      }
+    }
+  };
+
+  const planImportBundle = (bundle: ImportBundle) =>
+    planImport(bundle, { transactions, goals, liabilities, budgets, recurringTransactions, userCategories, accounts });
+
+  // Writes a parsed bundle in dependency order, remapping ids as it goes
+  const commitImportBundle = async (bundle: ImportBundle): Promise<ImportSummary> => {
+    if (!user) throw new Error('User not authenticated');
+
+    const plan = planImportBundle(bundle);
+    const summary = createEmptySummary();
+    const recurringIds = new Map<string, string>();
+    const accountIds = new Map<string, string>();
+    const transactionIds = new Map<string, string>();
+    const unusedIds = new Map<string, string>();
+
+    // Record skipped rows and return the ones that still need writing
+    const pending = <T,>(entity: ImportEntity, planned: PlannedRecord<T>[], idMap: Map<string, string>) => {
+      planned.forEach(p => {
+        if (p.status === 'duplicate') {
+          summary[entity].skipped += 1;
+          if (p.existingId) idMap.set(p.record.id, p.existingId);
+        } else if (p.status === 'invalid') {
+          summary[entity].failed += 1;
+          summary[entity].errors.push(`${p.record.id}: ${p.reason}`);
+        }
+      });
+      return planned.filter(p => p.status === 'new').map(p => p.record);
+    };
+
+    await insertImportedRows('user_categories',
+      pending('userCategories', plan.userCategories, unusedIds).map(c => ({
+        sourceId: c.id,
+        payload: { name: c.name, type: c.type, icon: c.icon || null, color: c.color || null },
+      })),
+      summary.userCategories, unusedIds);
+
+    await insertImportedRows('accounts',
+      pending('accounts', plan.accounts, accountIds).map(a => ({
+        sourceId: a.id,
+        payload: {
+          name: a.name,
+          type: a.type,
+          opening_balance: a.openingBalance,
+          currency: a.currency,
+          is_archived: a.isArchived,
+        },
+      })),
+      summary.accounts, accountIds);
+    // Statement imports point rows at one of the user's existing accounts
+    accounts.forEach(a => {
+      if (!accountIds.has(a.id)) accountIds.set(a.id, a.id);
+    });
+
+    await insertImportedRows('recurring_transactions',
+      pending('recurringTransactions', plan.recurringTransactions, recurringIds).map(rt => ({
+        sourceId: rt.id,
+        payload: {
+          type: rt.type,
+          amount: rt.amount,
+          category: rt.category,
+          description: rt.description,
+          frequency: rt.frequency,
+          start_date: dateKey(rt.startDate),
+          end_date: rt.endDate ? dateKey(rt.endDate) : null,
+          next_occurrence_date: dateKey(rt.nextOccurrenceDate),
+          last_processed_date: rt.lastProcessedDate ? dateKey(rt.lastProcessedDate) : null,
+          is_active: rt.isActive,
+          day_of_week: rt.dayOfWeek ?? null,
+          day_of_month: rt.dayOfMonth ?? null,
+          month_of_year: rt.monthOfYear ?? null,
+          max_occurrences: rt.maxOccurrences ?? null,
+          current_occurrences: rt.currentOccurrences || 0,
+          rrule: rt.rrule ?? null,
+          is_variable: rt.isVariable ?? false,
+          estimate_window: rt.estimateWindow ?? DEFAULT_ESTIMATE_WINDOW,
+        },
+      })),
+      summary.recurringTransactions, recurringIds);
+
+    // Split parents must exist before their children reference them
+    const newTransactions = pending('transactions', plan.transactions, transactionIds);
+    const toTransactionRow = (t: typeof newTransactions[number]) => ({
+      sourceId: t.id,
+      payload: {
+        type: t.type,
+        amount: t.amount,
+        category: t.category,
+        description: t.description,
+        date: dateKey(t.date),
+        recurring_transaction_id: t.recurringTransactionId ? recurringIds.get(t.recurringTransactionId) ?? null : null,
+        parent_transaction_id: t.parentTransactionId ? transactionIds.get(t.parentTransactionId) ?? null : null,
+        external_id: t.externalId || null,
+        account_id: t.accountId ? accountIds.get(t.accountId) ?? null : null,
+        transfer_account_id: t.transferAccountId ? accountIds.get(t.transferAccountId) ?? null : null,
+        original_currency: t.originalCurrency || null,
+        original_amount: t.originalAmount ?? null,
+        exchange_rate: t.exchangeRate ?? null,
+        is_pending: t.isPending ?? false,
+      },
+    });
+    await insertImportedRows('transactions',
+      newTransactions.filter(t => !t.parentTransactionId).map(toTransactionRow),
+      summary.transactions, transactionIds);
+    await insertImportedRows('transactions',
+      newTransactions.filter(t => t.parentTransactionId).map(toTransactionRow),
+      summary.transactions, transactionIds);
+
+    await insertImportedRows('goals',
+      pending('goals', plan.goals, unusedIds).map(g => ({
+        sourceId: g.id,
+        payload: {
+          title: g.title,
+          description: g.description,
+          target_amount: g.targetAmount,
+          current_amount: g.ownAmount || 0,
+          target_date: dateKey(g.targetDate),
+          category: g.category,
+        },
+      })),
+      summary.goals, unusedIds);
+
+    await insertImportedRows('budgets',
+      pending('budgets', plan.budgets, unusedIds).map(b => ({
+        sourceId: b.id,
+        payload: {
+          category: b.category,
+          categories: b.categories,
+          amount: b.amount,
+          period: b.period,
+          start_date: b.period === 'custom' && b.startDate ? dateKey(b.startDate) : null,
+          end_date: b.period === 'custom' && b.endDate ? dateKey(b.endDate) : null,
+          rollover: b.rollover ?? false,
+          alert_thresholds: b.alertThresholds ?? DEFAULT_ALERT_THRESHOLDS,
+          pace_alerts: b.paceAlerts ?? true,
+        },
+      })),
+      summary.budgets, unusedIds);
+
+    await insertImportedRows('liabilities',
+      pending('liabilities', plan.liabilities, unusedIds).map(l => ({
+        sourceId: l.id,
+        payload: {
+          name: l.name,
+          type: l.type,
+          total_amount: l.totalAmount,
+          remaining_amount: l.remainingAmount,
+          interest_rate: l.interestRate,
+          monthly_payment: l.monthlyPayment,
+          due_date: dateKey(l.due_date),
+          start_date: dateKey(l.start_date),
+          linked_purchase_id: l.linkedPurchaseId ? transactionIds.get(l.linkedPurchaseId) ?? null : null,
+        },
+      })),
+      summary.liabilities, unusedIds);
+
+    return summary;
+  };
+
+  const previewImportBundle = (bundle: ImportBundle, format: ImportFormat): ImportPreview =>
+    describePlan(planImportBundle(bundle), bundle, format);
+
+  const previewImport = async (data: string, format: 'json' | 'csv'): Promise<ImportPreview> =>
+    previewImportBundle(parseImportFile(data, format), format);
+
+  const importBundle = async (bundle: ImportBundle): Promise<ImportSummary> => {
+    if (!user) throw new Error('User not authenticated');
+
+    try {
+      console.log('🔄 Importing data bundle');
+      const startTime = Date.now();
+
+      const summary = await commitImportBundle(bundle);
+
+      logQueryPerformance('import-data', startTime);
+      console.log('✅ Import finished:', summary);
+
+      announceDuplicates.current = true;
+      await loadAllData();
+
+      const created = IMPORT_ENTITIES.reduce((sum, entity) => sum + summary[entity].created, 0);
+      const failed = IMPORT_ENTITIES.reduce((sum, entity) => sum + summary[entity].failed, 0);
+      showToast(
+        failed > 0 ? `Imported ${created} records, ${failed} failed` : `Imported ${created} records`,
+        failed > 0 ? 'info' : 'success'
+      );
+
+      return summary;
+    } catch (error: any) {
+      console.error('❌ Error in importBundle:', error);
+      showToast(error.message || 'Failed to import data', 'error');
+      throw error;
+    }
+  };
+
+  const importData = async (data: string, format: 'json' | 'csv'): Promise<ImportSummary> => {
+    try {
+      return await importBundle(parseImportFile(data, format));
+    } catch (error: any) {
+      console.error('❌ Error in importData:', error);
+      throw error;
+    }
+  };
+
+  // Keep one transaction of a duplicate pair and delete the other, in one
+  // database transaction. Split parts and linked liabilities move to the
+  // survivor before the delete, which would otherwise cascade to or unlink them.
+  const mergeDuplicateTransactions = async (keepId: string, removeId: string): Promise<void> => {
+    if (!user) throw new Error('User not authenticated');
+
+    try {
+      console.log('🔄 Merging duplicate transactions:', keepId, removeId);
+      const startTime = Date.now();
+
+      const kept = transactions.find(t => t.id === keepId);
+      const removed = transactions.find(t => t.id === removeId);
+      if (!kept || !removed) {
+        throw new Error('Transaction not found');
+      }
+
+      const updates = mergedTransactionFields(kept, removed);
+
+      const updateData: Record<string, string> = {};
+      if (updates.externalId !== undefined) updateData.external_id = updates.externalId;
+      if (updates.recurringTransactionId !== undefined) updateData.recurring_transaction_id = updates.recurringTransactionId;
+      if (updates.category !== undefined) updateData.category = updates.category;
+      if (updates.description !== undefined) updateData.description = updates.description;
+
+      const { error } = await withTimeout(
+        withRetry(async () => {
+          return supabase.rpc('merge_duplicate_transactions', {
+            p_keep_id: keepId,
+            p_remove_id: removeId,
+            p_updates: updateData,
+          });
+        }, 2, 'Merge duplicate transactions'),
+        10000,
+        'Merge duplicate transactions'
+      );
+
+      if (error) {
+        console.error('❌ Supabase error merging transactions:', error);
+        throw new Error(`Failed to merge transactions: ${error.message}`);
+      }
+
+      logQueryPerformance('merge-transactions', startTime);
+      console.log('✅ Transactions merged successfully');
+
+      // Update local state
+      setTransactions(prev => prev
+        .filter(t => t.id !== removeId)
+        .map(t => {
+          if (t.id === keepId) return { ...t, ...updates };
+          if (t.parentTransactionId === removeId) return { ...t, parentTransactionId: keepId };
+          return t;
+        }));
+      setGoalContributions(prev => prev.map(c => c.transactionId === removeId ? { ...c, transactionId: keepId } : c));
+      setLiabilityPayments(prev => prev.map(p => p.transactionId === removeId ? { ...p, transactionId: keepId } : p));
+
+      showToast('Transactions merged successfully', 'success');
+    } catch (error: any) {
+      console.error('❌ Error in mergeDuplicateTransactions:', error);
+      showToast(error.message || 'Failed to merge transactions', 'error');
+      throw error;
+    }
+  };
+
+  const dismissDuplicatePair = (pairKey: string) => {
+    if (!user) return;
+
+    const next = dismissedDuplicates.includes(pairKey) ? dismissedDuplicates : [...dismissedDuplicates, pairKey];
+    setDismissedDuplicates(next);
+    localStorage.setItem(`finspire_dismissed_duplicates_${user.id}`, JSON.stringify(next));
+  };
+
+  // Turns a detected subscription into a recurring transaction that continues
+  // from its last charge, and links the charges found so far to it
+  const acceptSubscriptionCandidate = async (candidate: SubscriptionCandidate): Promise<void> => {
+    if (!user) throw new Error('User not authenticated');
+
+    const lastChargeDate = new Date(candidate.lastCharge.date.toISOString().split('T')[0]);
+    const created = await addRecurringTransaction({
+      type: candidate.type,
+      amount: candidate.amount,
+      category: candidate.category,
+      description: candidate.description,
+      ...subscriptionSchedule(candidate),
+      startDate: lastChargeDate,
+      nextOccurrenceDate: candidate.nextExpectedDate,
+      lastProcessedDate: lastChargeDate,
+      isActive: true,
+      currentOccurrences: 0,
+    });
+
+    try {
+      console.log('🔄 Linking subscription charges:', created.id);
+      const startTime = Date.now();
+      const ids = candidate.occurrences.map(t => t.id);
+
+      const { error } = await withTimeout(
+        withRetry(async () => {
+          return supabase
+            .from('transactions')
+            .update({ recurring_transaction_id: created.id })
+            .in('id', ids)
+            .eq('user_id', user.id);
+        }, 2, 'Link subscription charges'),
+        10000,
+        'Link subscription charges'
+      );
+
+      logQueryPerformance('link-subscription-charges', startTime);
+
+      if (error) {
+        console.error('❌ Supabase error linking subscription charges:', error);
+        throw new Error(`Failed to link subscription charges: ${error.message}`);
+      }
+
+      console.log(`✅ Linked ${ids.length} subscription charges`);
+      setTransactions(prev => prev.map(t => ids.includes(t.id) ? { ...t, recurringTransactionId: created.id } : t));
+    } catch (error: unknown) {
+      // The recurring transaction exists either way; unlinked charges only
+      // mean its history is incomplete
+      console.error('❌ Error in acceptSubscriptionCandidate:', error);
     }
   };
 
-  const importData = async (data: string, format: 'json' | 'csv'): Promise<void> => {
-    // Implementation would depend on specific import requirements
-    throw new Error('Import functionality not yet implemented');
+  const dismissSubscriptionCandidate = (key: string) => {
+    if (!user) return;
+
+    const next = dismissedSubscriptions.includes(key) ? dismissedSubscriptions : [...dismissedSubscriptions, key];
+    setDismissedSubscriptions(next);
+    localStorage.setItem(`finspire_dismissed_subscriptions_${user.id}`, JSON.stringify(next));
   };
 
   const getFinancialForecast = async (): Promise<any> => {
     try {
       console.log('🔄 Generating financial forecast...');
+
+      const upcoming = getScheduledOccurrences(new Date(), new Date(Date.now() + 30 * 24 * 60 * 60 * 1000))
+        .filter(occurrence => !occurrence.isSkipped);
       
       const financialData = {
         netWorth: stats.totalIncome - stats.totalExpenses - stats.totalLiabilities,
@@ -1927,7 +4701,15 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
         budgetUtilization: stats.budgetUtilization,
         goals,
         liabilities,
-        monthlyTrends: getMonthlyTrends(6)
+        monthlyTrends: getMonthlyTrends(6),
+        // Scheduled recurring transactions over the next 30 days, with
+        // skipped, moved and re-priced occurrences applied
+        upcomingRecurring: upcoming.map(occurrence => ({
+          date: occurrence.date.toISOString().split('T')[0],
+          type: occurrence.type,
+          amount: occurrence.amount,
+          category: occurrence.category,
+        }))
       };
 
       const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/financial-forecaster`, {
@@ -1996,10 +4778,19 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
     // Data
     transactions,
     goals,
+    goalContributions,
+    goalFundingRules,
     liabilities,
+    liabilityPayments,
     budgets,
+    budgetPeriods,
+    envelopeTransfers,
+    budgetTemplates,
+    budgetAlerts,
     recurringTransactions,
+    recurringExceptions,
     userCategories,
+    accounts,
     incomeSources,
     stats,
     loading,
@@ -2014,23 +4805,49 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
     addGoal,
     updateGoal,
     deleteGoal,
+    addGoalContributions,
+    deleteGoalContribution,
+    addGoalFundingRule,
+    updateGoalFundingRule,
+    deleteGoalFundingRule,
     
     addLiability,
     updateLiability,
     deleteLiability,
+    addLiabilityPayment,
+    deleteLiabilityPayment,
     
     addBudget,
     updateBudget,
     deleteBudget,
+    addBudgets,
+    saveBudgetTemplate,
+    deleteBudgetTemplate,
+    markBudgetAlertsRead,
+    dismissBudgetAlert,
+    markGoalMilestonesRead,
+    getEnvelopePlan,
+    moveEnvelopeFunds,
+    assignEnvelopeTargets,
+    deleteEnvelopeTransfer,
     
     addRecurringTransaction,
     updateRecurringTransaction,
     deleteRecurringTransaction,
+    processRecurringTransactions,
+    saveRecurringException,
+    deleteRecurringException,
+    getScheduledOccurrences,
+    getExpectedAmount,
     
     addUserCategory,
     updateUserCategory,
     deleteUserCategory,
     
+    addAccount,
+    updateAccount,
+    deleteAccount,
+    
     // Utility functions
     searchTransactions,
     getMonthlyTrends,
@@ -2040,10 +4857,20 @@ export const FinanceProvider: React.FC<FinanceProviderProps> = ({ children }) =>
     getIncomeAnalysis,
     getBudgetPerformance,
     getSplitTransactions,
+    getAccountBalances,
     getTransactionsPaginated,
     calculateDebtRepaymentStrategy,
     exportData,
+    previewImport,
     importData,
+    previewImportBundle,
+    importBundle,
+    duplicateSuspects,
+    mergeDuplicateTransactions,
+    dismissDuplicatePair,
+    subscriptionCandidates,
+    acceptSubscriptionCandidate,
+    dismissSubscriptionCandidate,
     getFinancialForecast,
     refreshInsights,
 
@@ -6,6 +6,8 @@ interface PersonalizationSettings {
   priorityFeatures: string[];
   hiddenFeatures: string[];
   budgetingFrequency: 'weekly' | 'monthly' | 'yearly';
+  // Independent limits per category, or envelopes the month's income is assigned to
+  budgetingMode: 'limits' | 'envelope';
   alertSettings: Record<string, boolean>;
   assistantPersonality: 'conservative' | 'balanced' | 'aggressive';
   userTypes: string[];
@@ -46,6 +48,7 @@ export const PersonalizationProvider: React.FC<PersonalizationProviderProps> = (
     priorityFeatures: [],
     hiddenFeatures: [],
     budgetingFrequency: 'monthly',
+    budgetingMode: 'limits',
     alertSettings: {
       budgetAlerts: true,
       goalReminders: true,
@@ -0,0 +1,54 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { CsvColumnMapping, CsvMappingProfile } from '../utils/bankCsv';
+
+// Saved bank CSV column mappings, kept per user alongside other local preferences
+export const useCsvMappingProfiles = () => {
+  const { user } = useAuth();
+  const storageKey = `finspire_csv_profiles_${user?.id}`;
+  const [profiles, setProfiles] = useState<CsvMappingProfile[]>([]);
+
+  useEffect(() => {
+    if (!user) {
+      setProfiles([]);
+      return;
+    }
+
+    try {
+      const saved = localStorage.getItem(storageKey);
+      setProfiles(saved ? JSON.parse(saved) : []);
+    } catch (error) {
+      console.error('❌ Error loading CSV mapping profiles:', error);
+      setProfiles([]);
+    }
+  }, [user, storageKey]);
+
+  const persist = (next: CsvMappingProfile[]) => {
+    setProfiles(next);
+    if (user) {
+      localStorage.setItem(storageKey, JSON.stringify(next));
+    }
+  };
+
+  // Saving under an existing name replaces that bank's mapping
+  const saveProfile = (name: string, mapping: CsvColumnMapping): CsvMappingProfile => {
+    const trimmed = name.trim();
+    const existing = profiles.find(p => p.name.toLowerCase() === trimmed.toLowerCase());
+    const profile: CsvMappingProfile = {
+      id: existing?.id ?? crypto.randomUUID(),
+      name: trimmed,
+      mapping,
+      createdAt: existing?.createdAt ?? new Date().toISOString(),
+    };
+
+    persist([...profiles.filter(p => p.id !== profile.id), profile]
+      .sort((a, b) => a.name.localeCompare(b.name)));
+    return profile;
+  };
+
+  const deleteProfile = (id: string) => {
+    persist(profiles.filter(p => p.id !== id));
+  };
+
+  return { profiles, saveProfile, deleteProfile };
+};
@@ -0,0 +1,209 @@
+// Exchange-rate providers. Each provider returns rates against USD; the
+// context asks them in order and falls back to the bundled offline table,
+// which always answers.
+
+export interface ExchangeRates {
+  [currencyCode: string]: number;
+}
+
+export interface ExchangeRateProvider {
+  id: string;
+  name: string;
+  // Units of each currency per 1 USD
+  getLatestRates: () => Promise<ExchangeRates>;
+  // Units of `toCurrency` per 1 `fromCurrency` on `date`; omitted when the
+  // provider has no history
+  getHistoricalRate?: (fromCurrency: string, toCurrency: string, date: Date) => Promise<number>;
+}
+
+// Where a rate came from, shown next to the rate
+export interface RateSource {
+  provider: string;
+  fetchedAt: Date | null;
+}
+
+export interface LatestRatesResult {
+  rates: ExchangeRates;
+  sources: Record<string, RateSource>;
+}
+
+export interface HistoricalRateResult {
+  rate: number;
+  provider: string;
+}
+
+export const OFFLINE_PROVIDER_NAME = 'Offline table';
+
+// Approximate rates bundled with the app for offline use
+export const OFFLINE_RATES: ExchangeRates = {
+  'USD': 1.0,
+  'EUR': 0.85,
+  'GBP': 0.73,
+  'JPY': 110.0,
+  'CNY': 6.45,
+  'INR': 74.5,
+  'AUD': 1.35,
+  'CAD': 1.25,
+  'SGD': 1.35,
+  'HKD': 7.8,
+  'KRW': 1180.0,
+  'THB': 33.0,
+  'MYR': 4.15,
+  'IDR': 14250.0,
+  'PHP': 50.5,
+  'VND': 23000.0,
+  'CHF': 0.92,
+  'SEK': 8.6,
+  'NOK': 8.5,
+  'DKK': 6.35,
+  'PLN': 3.9,
+  'CZK': 21.5,
+  'HUF': 295.0,
+  'RUB': 73.0,
+  'BRL': 5.2,
+  'MXN': 20.1,
+  'ARS': 98.0,
+  'CLP': 710.0,
+  'COP': 3650.0,
+  'PEN': 3.6,
+  'AED': 3.67,
+  'SAR': 3.75,
+  'QAR': 3.64,
+  'ILS': 3.2,
+  'TRY': 8.5,
+  'ZAR': 14.8,
+  'EGP': 15.7,
+  'NGN': 411.0,
+  'KES': 108.0,
+  'BTC': 0.000023,
+  'ETH': 0.00035
+};
+
+// Rate between two currencies from a USD-based table
+export const crossRate = (rates: ExchangeRates, fromCurrency: string, toCurrency: string): number | undefined => {
+  if (fromCurrency === toCurrency) return 1.0;
+  const fromRate = rates[fromCurrency];
+  const toRate = rates[toCurrency];
+  return fromRate && toRate ? toRate / fromRate : undefined;
+};
+
+const fetchJson = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Request failed with status ${response.status}`);
+  }
+  return response.json();
+};
+
+const dayKey = (date: Date) => date.toISOString().split('T')[0];
+
+export const exchangeRateApiProvider: ExchangeRateProvider = {
+  id: 'exchangerate-api',
+  name: 'ExchangeRate-API',
+  getLatestRates: async () => {
+    const data = await fetchJson('https://api.exchangerate-api.com/v4/latest/USD');
+    return data.rates;
+  },
+};
+
+// European Central Bank reference rates, with history back to 1999
+export const frankfurterProvider: ExchangeRateProvider = {
+  id: 'frankfurter',
+  name: 'Frankfurter (ECB)',
+  getLatestRates: async () => {
+    const data = await fetchJson('https://api.frankfurter.app/latest?from=USD');
+    return { ...data.rates, USD: 1.0 };
+  },
+  getHistoricalRate: async (fromCurrency, toCurrency, date) => {
+    const data = await fetchJson(`https://api.frankfurter.app/${dayKey(date)}?from=${fromCurrency}&to=${toCurrency}`);
+    const rate = Number(data.rates?.[toCurrency]);
+    if (!(rate > 0)) throw new Error(`No ${fromCurrency}/${toCurrency} rate for ${dayKey(date)}`);
+    return rate;
+  },
+};
+
+export const createCurrencyApiProvider = (apiKey: string): ExchangeRateProvider => ({
+  id: 'currencyapi',
+  name: 'CurrencyAPI',
+  getLatestRates: async () => {
+    const data = await fetchJson(`https://api.currencyapi.com/v3/latest?apikey=${apiKey}&base_currency=USD`);
+    return Object.fromEntries(
+      Object.entries(data.data as Record<string, { value: number }>).map(([code, value]) => [code, value.value])
+    );
+  },
+  getHistoricalRate: async (fromCurrency, toCurrency, date) => {
+    const data = await fetchJson(
+      `https://api.currencyapi.com/v3/historical?apikey=${apiKey}&base_currency=${fromCurrency}&currencies=${toCurrency}&date=${dayKey(date)}`
+    );
+    const rate = Number(data.data?.[toCurrency]?.value);
+    if (!(rate > 0)) throw new Error(`No ${fromCurrency}/${toCurrency} rate for ${dayKey(date)}`);
+    return rate;
+  },
+});
+
+// Has no history: a dated lookup that no online provider answers falls back
+// to the current rate, which is closer than this table
+export const offlineProvider: ExchangeRateProvider = {
+  id: 'offline',
+  name: OFFLINE_PROVIDER_NAME,
+  getLatestRates: async () => OFFLINE_RATES,
+};
+
+// Providers in the order they are tried. CurrencyAPI needs a key and is only
+// included when VITE_CURRENCYAPI_KEY is set.
+export const getDefaultProviders = (): ExchangeRateProvider[] => {
+  const currencyApiKey = import.meta.env.VITE_CURRENCYAPI_KEY as string | undefined;
+  return [
+    exchangeRateApiProvider,
+    frankfurterProvider,
+    ...(currencyApiKey ? [createCurrencyApiProvider(currencyApiKey)] : []),
+    offlineProvider,
+  ];
+};
+
+// First provider that answers wins. Currencies it does not cover are filled
+// in from the offline table so every supported currency has a rate.
+export const fetchLatestRates = async (providers: ExchangeRateProvider[]): Promise<LatestRatesResult> => {
+  for (const provider of providers) {
+    try {
+      const fetched = await provider.getLatestRates();
+      const fetchedAt = provider.id === offlineProvider.id ? null : new Date();
+      const rates: ExchangeRates = { ...fetched, USD: 1.0 };
+      const sources: Record<string, RateSource> = {};
+      Object.keys(rates).forEach(code => {
+        sources[code] = { provider: provider.name, fetchedAt };
+      });
+      Object.entries(OFFLINE_RATES).forEach(([code, rate]) => {
+        if (!rates[code]) {
+          rates[code] = rate;
+          sources[code] = { provider: OFFLINE_PROVIDER_NAME, fetchedAt: null };
+        }
+      });
+      return { rates, sources };
+    } catch (error) {
+      console.log(`${provider.name} rates unavailable, trying next provider:`, error);
+    }
+  }
+
+  throw new Error('No exchange rate provider is available');
+};
+
+// Rate on a past date from the first provider with history for the pair
+export const fetchHistoricalRate = async (
+  providers: ExchangeRateProvider[],
+  fromCurrency: string,
+  toCurrency: string,
+  date: Date
+): Promise<HistoricalRateResult> => {
+  for (const provider of providers) {
+    if (!provider.getHistoricalRate) continue;
+    try {
+      const rate = await provider.getHistoricalRate(fromCurrency, toCurrency, date);
+      return { rate, provider: provider.name };
+    } catch (error) {
+      console.log(`${provider.name} has no historical rate, trying next provider:`, error);
+    }
+  }
+
+  throw new Error(`No historical rate available for ${fromCurrency}/${toCurrency}`);
+};
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { ArrowLeft, Plus, Minus, FileText, Tag, Calendar, Target, CreditCard, CheckCircle, AlertCircle, Scissors } from 'lucide-react';
+import { ArrowLeft, Plus, Minus, FileText, Tag, Calendar, Target, CreditCard, CheckCircle, AlertCircle, Scissors, Wallet } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useForm } from 'react-hook-form';
 import { Input } from '../components/common/Input';
@@ -17,6 +17,8 @@ interface TransactionFormData {
   description: string;
   date: string;
   category: string;
+  accountId: string;
+  originalCurrency: string;
 }
 
 interface SplitFormData {
@@ -27,8 +29,8 @@ interface SplitFormData {
 
 export const AddTransaction: React.FC = () => {
   const navigate = useNavigate();
-  const { currency } = useInternationalization();
-  const { addTransaction, addSplitTransaction, userCategories } = useFinance();
+  const { currency, supportedCurrencies } = useInternationalization();
+  const { addTransaction, addSplitTransaction, userCategories, accounts } = useFinance();
   const [transactionType, setTransactionType] = useState<'income' | 'expense'>('expense');
   const [isSplitTransaction, setIsSplitTransaction] = useState(false);
   const [splits, setSplits] = useState<SplitFormData[]>([{ category: '', amount: 0, description: '' }]);
@@ -40,12 +42,17 @@ export const AddTransaction: React.FC = () => {
       type: 'expense',
       date: new Date().toISOString().split('T')[0],
       category: '',
+      accountId: accounts.find(a => !a.isArchived)?.id || '',
+      originalCurrency: accounts.find(a => !a.isArchived)?.currency || currency.code,
     },
   });
 
+  const activeAccounts = accounts.filter(a => !a.isArchived);
+
   const type = watch('type');
   const amount = watch('amount');
   const category = watch('category');
+  const entryCurrency = watch('originalCurrency') || currency.code;
   
   // Get categories based on type (with fallback to default categories)
   const defaultCategories = {
@@ -100,6 +107,8 @@ export const AddTransaction: React.FC = () => {
           {
             ...validatedData,
             date: new Date(data.date),
+            accountId: data.accountId || undefined,
+            originalCurrency: data.originalCurrency,
           },
           formattedSplits
         );
@@ -118,6 +127,8 @@ export const AddTransaction: React.FC = () => {
             (userCategories.find(c => c.type === 'income')?.name || 'Other') : 
             (userCategories.find(c => c.type === 'expense')?.name || 'Other')),
           date: new Date(data.date),
+          accountId: data.accountId || undefined,
+          originalCurrency: data.originalCurrency,
         });
       }
 
@@ -354,7 +365,7 @@ export const AddTransaction: React.FC = () => {
                   onClick={() => handleQuickAmount(amount)}
                   className="text-sm backdrop-blur-sm border-white/20 hover:border-white/40 hover:bg-white/10"
                 >
-                  <CurrencyIcon currencyCode={currency.code} size={12} className="inline mr-1" />
+                  <CurrencyIcon currencyCode={entryCurrency} size={12} className="inline mr-1" />
                   {amount.toLocaleString()}
                 </Button>
               ))}
@@ -367,7 +378,7 @@ export const AddTransaction: React.FC = () => {
               label="Amount"
               type="number"
               step="0.01"
-              icon={<CurrencyIcon currencyCode={currency.code} />}
+              icon={<CurrencyIcon currencyCode={entryCurrency} />}
               {...register('amount', {
                 required: 'Amount is required',
                 min: { value: 0.01, message: 'Amount must be greater than 0' },
@@ -375,6 +386,21 @@ export const AddTransaction: React.FC = () => {
               error={errors.amount?.message}
               className="bg-black/20 border-white/20 text-white text-lg"
             />
+            <select
+              {...register('originalCurrency')}
+              className="mt-3 block w-full rounded-xl border-white/20 bg-black/40 text-white shadow-sm focus:border-primary-500 focus:ring-primary-500 py-2 px-4 text-sm"
+            >
+              {supportedCurrencies.map(c => (
+                <option key={c.code} value={c.code} className="bg-black/90">
+                  {c.code} - {c.name}
+                </option>
+              ))}
+            </select>
+            {entryCurrency !== currency.code && (
+              <p className="text-xs text-gray-400 mt-2">
+                Converted to {currency.code} at the exchange rate on the transaction date.
+              </p>
+            )}
           </div>
 
           {/* Category Selection */}
@@ -424,6 +450,33 @@ export const AddTransaction: React.FC = () => {
             />
           </div>
 
+          {/* Account */}
+          {activeAccounts.length > 0 && (
+            <div className="bg-black/20 backdrop-blur-md rounded-2xl p-6 border border-white/10">
+              <label className="block text-sm font-medium text-gray-300 mb-3 flex items-center">
+                <Wallet size={16} className="mr-2 text-blue-400" />
+                Account
+              </label>
+              <select
+                {...register('accountId', {
+                  // Entries default to the currency the account is held in
+                  onChange: (e) => {
+                    const account = accounts.find(a => a.id === e.target.value);
+                    if (account) setValue('originalCurrency', account.currency);
+                  },
+                })}
+                className="block w-full rounded-xl border-white/20 bg-black/40 text-white shadow-sm focus:border-primary-500 focus:ring-primary-500 py-3 px-4"
+              >
+                <option value="" className="bg-black/90">No account</option>
+                {activeAccounts.map(account => (
+                  <option key={account.id} value={account.id} className="bg-black/90">
+                    {account.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
           {/* Split Transaction Form */}
           {isSplitTransaction && amount > 0 && (
             <div className="bg-black/20 backdrop-blur-md rounded-2xl p-6 border border-white/10">
@@ -485,7 +538,7 @@ export const AddTransaction: React.FC = () => {
                           Amount
                         </label>
                         <div className="relative">
-                          <CurrencyIcon currencyCode={currency.code} size={16} className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
+                          <CurrencyIcon currencyCode={entryCurrency} size={16} className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
                           <input
                             type="number"
                             step="0.01"
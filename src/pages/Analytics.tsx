@@ -43,6 +43,7 @@ export const Analytics: React.FC = () => {
   const { 
     transactions, 
     goals, 
+    goalContributions,
     budgets, 
     liabilities,
     getMonthlyTrends, 
@@ -382,6 +383,7 @@ export const Analytics: React.FC = () => {
           <div className="space-y-6">
             <GoalProgressAnalytics 
               goals={goals}
+              contributions={goalContributions}
               timeRange={timelineRange}
             />
           </div>
@@ -1,18 +1,27 @@
 import React, { useState } from 'react';
-import { PieChart, Calculator, TrendingUp, AlertTriangle, Plus, Edit3, Trash2 } from 'lucide-react';
+import { PieChart, Calculator, TrendingUp, AlertTriangle, Plus, Edit3, Trash2, Repeat, Wand2 } from 'lucide-react';
+import { format, startOfToday } from 'date-fns';
 import { TopNavigation } from '../components/layout/TopNavigation';
 import { Modal } from '../components/common/Modal';
 import { BudgetForm } from '../components/forms/BudgetForm';
+import { BudgetHistoryChart } from '../components/budgets/BudgetHistoryChart';
+import { EnvelopeBudget } from '../components/budgets/EnvelopeBudget';
+import { BudgetGenerator } from '../components/budgets/BudgetGenerator';
 import { Button } from '../components/common/Button';
 import { useFinance } from '../contexts/FinanceContext';
 import { useInternationalization } from '../contexts/InternationalizationContext';
+import { usePersonalization } from '../contexts/PersonalizationContext';
 import { CurrencyIcon } from '../components/common/CurrencyIcon';
 import { Budget } from '../types';
+import { budgetAvailable, budgetUtilization } from '../utils/budgets';
 
 export const Budgets: React.FC = () => {
-  const { budgets, addBudget, updateBudget, deleteBudget, transactions } = useFinance();
+  const { budgets, budgetPeriods, addBudget, updateBudget, deleteBudget, transactions } = useFinance();
   const { currency } = useInternationalization();
+  const { settings, updateSettings } = usePersonalization();
+  const isEnvelopeMode = settings.budgetingMode === 'envelope';
   const [showModal, setShowModal] = useState(false);
+  const [showGenerator, setShowGenerator] = useState(false);
   const [editingBudget, setEditingBudget] = useState<string | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [budgetToDelete, setBudgetToDelete] = useState<string | null>(null);
@@ -73,8 +82,8 @@ export const Budgets: React.FC = () => {
     }
   };
 
-  const getBudgetStatus = (budget: any) => {
-    const utilization = (budget.spent / budget.amount) * 100;
+  const getBudgetStatus = (budget: Budget) => {
+    const utilization = budgetUtilization(budget.spent, budgetAvailable(budget));
     if (utilization >= 100) return { status: 'over', color: 'red' };
     if (utilization >= 80) return { status: 'warning', color: 'yellow' };
     return { status: 'good', color: 'green' };
@@ -93,7 +102,7 @@ export const Budgets: React.FC = () => {
     return icons[category as keyof typeof icons] || '📊';
   };
 
-  const totalBudgeted = budgets.reduce((sum, b) => sum + b.amount, 0);
+  const totalBudgeted = budgets.reduce((sum, b) => sum + budgetAvailable(b), 0);
   const totalSpent = budgets.reduce((sum, b) => sum + b.spent, 0);
   const overallUtilization = totalBudgeted > 0 ? (totalSpent / totalBudgeted) * 100 : 0;
 
@@ -108,7 +117,35 @@ export const Budgets: React.FC = () => {
       />
       
       <div className="px-4 py-4 sm:py-6">
-        <p className="text-gray-400 mb-4 sm:mb-6 text-sm sm:text-base">Set spending limits and track your progress</p>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4 sm:mb-6">
+          <p className="text-gray-400 text-sm sm:text-base">
+            {isEnvelopeMode
+              ? "Give every part of this month's income a job"
+              : 'Set spending limits and track your progress'}
+          </p>
+          <div className="flex items-center gap-2 self-start">
+            <button
+              onClick={() => setShowGenerator(true)}
+              className="inline-flex items-center px-3 py-1.5 rounded-lg border border-white/10 bg-black/30 text-xs sm:text-sm text-gray-300 hover:text-white transition-colors"
+            >
+              <Wand2 size={14} className="mr-1" />
+              Suggest
+            </button>
+            <div className="inline-flex bg-black/30 rounded-lg p-1 border border-white/10">
+              {([['limits', 'Limits'], ['envelope', 'Envelopes']] as const).map(([mode, label]) => (
+                <button
+                  key={mode}
+                  onClick={() => updateSettings({ budgetingMode: mode })}
+                  className={`px-3 py-1 rounded-md text-xs sm:text-sm transition-colors ${
+                    settings.budgetingMode === mode ? 'bg-primary-500 text-white' : 'text-gray-400 hover:text-white'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
 
         {/* Error Message */}
         {error && (
@@ -127,11 +164,29 @@ export const Budgets: React.FC = () => {
             </div>
             <h3 className="text-lg sm:text-xl font-semibold text-white mb-2">No budgets set</h3>
             <p className="text-gray-400 mb-4 sm:mb-6 text-sm sm:text-base">Create your first budget to start tracking spending</p>
-            <Button onClick={() => setShowModal(true)}>
-              <Plus size={18} className="mr-2 sm:w-5 sm:h-5" />
-              Create Budget
-            </Button>
+            <div className="flex flex-col sm:flex-row justify-center gap-3">
+              <Button onClick={() => setShowGenerator(true)}>
+                <Wand2 size={18} className="mr-2 sm:w-5 sm:h-5" />
+                Suggest Budgets
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => setShowModal(true)}
+                className="border-white/20 text-white hover:bg-white/10"
+              >
+                <Plus size={18} className="mr-2 sm:w-5 sm:h-5" />
+                Create Budget
+              </Button>
+            </div>
           </div>
+        ) : isEnvelopeMode ? (
+          <EnvelopeBudget
+            onEditBudget={(budgetId) => {
+              setEditingBudget(budgetId);
+              setShowModal(true);
+            }}
+            onDeleteBudget={handleDeleteBudget}
+          />
         ) : (
           <>
             {/* Overview Cards */}
@@ -169,12 +224,15 @@ export const Budgets: React.FC = () => {
               </div>
             </div>
 
+            <BudgetHistoryChart budgets={budgets} periods={budgetPeriods} />
+
             {/* Budget List */}
             <div className="space-y-4">
               {budgets.map((budget) => {
-                const utilization = (budget.spent / budget.amount) * 100;
+                const available = budgetAvailable(budget);
+                const utilization = budgetUtilization(budget.spent, available);
                 const { status, color } = getBudgetStatus(budget);
-                const remaining = budget.amount - budget.spent;
+                const remaining = available - budget.spent;
                 
                 return (
                   <div key={budget.id} className="bg-black/20 backdrop-blur-md rounded-2xl p-4 sm:p-6 border border-white/10">
@@ -182,11 +240,31 @@ export const Budgets: React.FC = () => {
                     <div className="flex items-start justify-between mb-4">
                       <div className="flex items-center space-x-3">
                         <div className="text-xl sm:text-2xl">
-                          {getBudgetIcon(budget.category)}
+                          {getBudgetIcon(budget.categories.length === 1 ? budget.categories[0] : budget.category)}
                         </div>
                         <div>
                           <h3 className="font-semibold text-white text-sm sm:text-base">{budget.category}</h3>
-                          <p className="text-xs sm:text-sm text-gray-400 capitalize">{budget.period} budget</p>
+                          <p className="text-xs sm:text-sm text-gray-400">
+                            <span className="capitalize">{budget.period === 'custom' ? 'One-off budget' : `${budget.period} budget`}</span>
+                            {budget.period === 'custom' && budget.periodEnd && budget.periodEnd < startOfToday() && (
+                              <span className="text-gray-500"> (ended)</span>
+                            )}
+                            {budget.rollover && (
+                              <Repeat size={12} className="inline ml-1 text-primary-400" aria-label="Rolls over" />
+                            )}
+                            {budget.periodStart && budget.periodEnd && (
+                              <> • {format(budget.periodStart, 'MMM d')} – {format(budget.periodEnd, 'MMM d, yyyy')}</>
+                            )}
+                          </p>
+                          {(budget.categories.length > 1 || budget.categories[0] !== budget.category) && (
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {budget.categories.map(category => (
+                                <span key={category} className="px-2 py-0.5 rounded-full bg-white/10 text-xs text-gray-300">
+                                  {category}
+                                </span>
+                              ))}
+                            </div>
+                          )}
                         </div>
                       </div>
                       
@@ -220,9 +298,15 @@ export const Budgets: React.FC = () => {
                         <span className="text-xs sm:text-sm text-gray-400">Spent</span>
                         <span className="text-sm sm:text-lg font-semibold text-white">
                           <CurrencyIcon currencyCode={currency.code} size={16} className="inline mr-1" />
-                          {budget.spent.toLocaleString()} / <CurrencyIcon currencyCode={currency.code} size={16} className="inline mr-1" />{budget.amount.toLocaleString()}
+                          {budget.spent.toLocaleString()} / <CurrencyIcon currencyCode={currency.code} size={16} className="inline mr-1" />{available.toLocaleString()}
                         </span>
                       </div>
+
+                      {budget.rollover && budget.carriedOver !== 0 && (
+                        <p className="text-xs text-gray-400 mb-2">
+                          <CurrencyIcon currencyCode={currency.code} size={12} className="inline mr-1" />{budget.amount.toLocaleString()} budget {(budget.carriedOver ?? 0) > 0 ? '+' : '−'} <CurrencyIcon currencyCode={currency.code} size={12} className="inline mr-1" />{Math.abs(budget.carriedOver ?? 0).toLocaleString()} carried over from last period
+                        </p>
+                      )}
                       
                       {/* Progress Bar */}
                       <div className="w-full bg-white/10 rounded-full h-3 mb-2">
@@ -294,6 +378,15 @@ export const Budgets: React.FC = () => {
         />
       </Modal>
 
+      {/* Budget Generator Modal */}
+      <Modal
+        isOpen={showGenerator}
+        onClose={() => setShowGenerator(false)}
+        title="Suggest Budgets"
+      >
+        {showGenerator && <BudgetGenerator onDone={() => setShowGenerator(false)} />}
+      </Modal>
+
       {/* Delete Confirmation Modal */}
       <Modal
         isOpen={showDeleteConfirm}
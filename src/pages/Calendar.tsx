@@ -1,16 +1,27 @@
 import React, { useState, useMemo } from 'react';
-import { ArrowLeft, Edit3, Trash2, Search, Filter, Calendar as CalendarIcon, TrendingUp, TrendingDown, Plus, Minus, Eye, EyeOff, CheckSquare, Square } from 'lucide-react';
+import { ArrowLeft, Edit3, Trash2, Search, Filter, Calendar as CalendarIcon, TrendingUp, TrendingDown, Plus, Minus, Eye, EyeOff, CheckSquare, Square, ArrowLeftRight, Repeat, SkipForward, RotateCcw } from 'lucide-react';
 import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameDay, isToday, addMonths, subMonths, getDay } from 'date-fns';
 import { PageNavigation } from '../components/layout/PageNavigation';
 import { useFinance } from '../contexts/FinanceContext';
 import { useInternationalization } from '../contexts/InternationalizationContext';
 import { CurrencyIcon } from '../components/common/CurrencyIcon';
+import { Modal } from '../components/common/Modal';
+import { OccurrenceExceptionForm, OccurrenceExceptionSubmitData } from '../components/forms/OccurrenceExceptionForm';
+import { ScheduledOccurrence } from '../types';
 
 export const Calendar: React.FC = () => {
-  const { transactions } = useFinance();
+  const {
+    transactions,
+    recurringTransactions,
+    getScheduledOccurrences,
+    saveRecurringException,
+    deleteRecurringException,
+  } = useFinance();
   const { formatCurrency, currency } = useInternationalization();
   const [currentDate, setCurrentDate] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
+  const [editingOccurrence, setEditingOccurrence] = useState<ScheduledOccurrence | null>(null);
+  const [updatingOccurrence, setUpdatingOccurrence] = useState<string | null>(null);
 
   const monthStart = startOfMonth(currentDate);
   const monthEnd = endOfMonth(currentDate);
@@ -37,10 +48,24 @@ export const Calendar: React.FC = () => {
     return grouped;
   }, [monthTransactions]);
 
+  // Recurring occurrences still to be created this month, by the day they land on
+  const scheduledByDate = useMemo(() => {
+    const grouped: Record<string, ScheduledOccurrence[]> = {};
+    getScheduledOccurrences(monthStart, monthEnd).forEach(occurrence => {
+      const dateKey = format(occurrence.date, 'yyyy-MM-dd');
+      if (!grouped[dateKey]) {
+        grouped[dateKey] = [];
+      }
+      grouped[dateKey].push(occurrence);
+    });
+    return grouped;
+  }, [getScheduledOccurrences, monthStart, monthEnd]);
+
   // Calculate daily totals
   const getDayData = (date: Date) => {
     const dateKey = format(date, 'yyyy-MM-dd');
     const dayTransactions = transactionsByDate[dateKey] || [];
+    const scheduled = scheduledByDate[dateKey] || [];
     
     const income = dayTransactions
       .filter(t => t.type === 'income')
@@ -57,10 +82,58 @@ export const Calendar: React.FC = () => {
       income,
       expenses,
       net,
-      hasTransactions: dayTransactions.length > 0
+      hasTransactions: dayTransactions.length > 0,
+      scheduled,
+      hasScheduled: scheduled.some(o => !o.isSkipped)
     };
   };
 
+  const occurrenceKey = (occurrence: ScheduledOccurrence) =>
+    `${occurrence.recurringTransactionId}-${occurrence.scheduledDate.toISOString()}`;
+
+  const handleSkipOccurrence = async (occurrence: ScheduledOccurrence) => {
+    try {
+      setUpdatingOccurrence(occurrenceKey(occurrence));
+      await saveRecurringException(occurrence.recurringTransactionId, occurrence.scheduledDate, { isSkipped: true });
+    } catch (error) {
+      console.error('Error skipping occurrence:', error);
+    } finally {
+      setUpdatingOccurrence(null);
+    }
+  };
+
+  const handleRestoreOccurrence = async (occurrence: ScheduledOccurrence) => {
+    if (!occurrence.exception) return;
+    try {
+      setUpdatingOccurrence(occurrenceKey(occurrence));
+      await deleteRecurringException(occurrence.exception.id);
+    } catch (error) {
+      console.error('Error restoring occurrence:', error);
+    } finally {
+      setUpdatingOccurrence(null);
+    }
+  };
+
+  // Only what differs from the series is stored; an occurrence edited back
+  // to its schedule loses its exception
+  const handleEditOccurrence = async (data: OccurrenceExceptionSubmitData) => {
+    if (!editingOccurrence) return;
+    const series = recurringTransactions.find(rt => rt.id === editingOccurrence.recurringTransactionId);
+    const newDate = isSameDay(data.date, editingOccurrence.scheduledDate) ? undefined : data.date;
+    const amount = series && data.amount === series.amount ? undefined : data.amount;
+
+    if (newDate || amount !== undefined) {
+      await saveRecurringException(editingOccurrence.recurringTransactionId, editingOccurrence.scheduledDate, {
+        isSkipped: false,
+        newDate,
+        amount,
+      });
+    } else if (editingOccurrence.exception) {
+      await deleteRecurringException(editingOccurrence.exception.id);
+    }
+    setEditingOccurrence(null);
+  };
+
   const selectedDateTransactions = selectedDate ? getDayData(selectedDate) : null;
 
   // Calculate month totals
@@ -191,7 +264,7 @@ export const Calendar: React.FC = () => {
                     {format(date, 'd')}
                   </span>
                   
-                  {isCurrentMonth && dayData.hasTransactions && (
+                  {isCurrentMonth && (dayData.hasTransactions || dayData.hasScheduled) && (
                     <div className="flex space-x-1 mt-1">
                       {dayData.income > 0 && (
                         <div className="w-1.5 h-1.5 bg-success-400 rounded-full"></div>
@@ -199,6 +272,9 @@ export const Calendar: React.FC = () => {
                       {dayData.expenses > 0 && (
                         <div className="w-1.5 h-1.5 bg-error-400 rounded-full"></div>
                       )}
+                      {dayData.hasScheduled && (
+                        <div className="w-1.5 h-1.5 border border-primary-400 rounded-full"></div>
+                      )}
                     </div>
                   )}
                   
@@ -247,11 +323,15 @@ export const Calendar: React.FC = () => {
                   >
                     <div className="flex items-center space-x-3">
                       <div className={`p-2 rounded-lg ${
-                        transaction.type === 'income' 
+                        transaction.type === 'transfer'
+                          ? 'bg-blue-500/20'
+                          : transaction.type === 'income' 
                           ? 'bg-success-500/20' 
                           : 'bg-error-500/20'
                       }`}>
-                        {transaction.type === 'income' ? (
+                        {transaction.type === 'transfer' ? (
+                          <ArrowLeftRight size={16} className="text-blue-400" />
+                        ) : transaction.type === 'income' ? (
                           <TrendingUp size={16} className="text-success-400" />
                         ) : (
                           <TrendingDown size={16} className="text-error-400" />
@@ -269,11 +349,13 @@ export const Calendar: React.FC = () => {
                     
                     <div className="text-right">
                       <p className={`font-semibold ${
-                        transaction.type === 'income' 
+                        transaction.type === 'transfer'
+                          ? 'text-blue-400'
+                          : transaction.type === 'income' 
                           ? 'text-success-400' 
                           : 'text-error-400'
                       }`}>
-                        {transaction.type === 'income' ? '+' : '-'}
+                        {transaction.type === 'transfer' ? '' : transaction.type === 'income' ? '+' : '-'}
                         {formatCurrency(transaction.amount)}
                       </p>
                       <p className="text-xs text-gray-500">
@@ -283,15 +365,117 @@ export const Calendar: React.FC = () => {
                   </div>
                 ))}
               </div>
-            ) : (
+            ) : selectedDateTransactions.scheduled.length === 0 && (
               <div className="text-center py-8">
                 <CalendarIcon size={48} className="mx-auto text-gray-600 mb-4" />
                 <p className="text-gray-400">No transactions on this date</p>
               </div>
             )}
+
+            {/* Scheduled recurring occurrences */}
+            {selectedDateTransactions.scheduled.length > 0 && (
+              <div className={selectedDateTransactions.hasTransactions ? 'mt-6' : ''}>
+                <h4 className="text-sm font-medium text-gray-400 mb-3">Scheduled</h4>
+                <div className="space-y-3">
+                  {selectedDateTransactions.scheduled.map((occurrence) => {
+                    const key = occurrenceKey(occurrence);
+                    const isMoved = !isSameDay(occurrence.date, occurrence.scheduledDate);
+                    const isUpdating = updatingOccurrence === key;
+
+                    return (
+                      <div
+                        key={key}
+                        className={`flex items-center justify-between p-4 bg-black/10 backdrop-blur-md rounded-xl border border-dashed border-white/20 ${
+                          occurrence.isSkipped ? 'opacity-60' : ''
+                        }`}
+                      >
+                        <div className="flex items-center space-x-3">
+                          <div className="p-2 rounded-lg bg-primary-500/20">
+                            <Repeat size={16} className="text-primary-400" />
+                          </div>
+                          <div>
+                            <p className={`font-medium text-white ${occurrence.isSkipped ? 'line-through' : ''}`}>
+                              {occurrence.description}
+                            </p>
+                            <p className="text-sm text-gray-400">
+                              {occurrence.category}
+                              {occurrence.isSkipped && ' • skipped'}
+                              {isMoved && ` • moved from ${format(occurrence.scheduledDate, 'MMM d')}`}
+                            </p>
+                          </div>
+                        </div>
+
+                        <div className="flex items-center space-x-3">
+                          <p className={`font-semibold ${
+                            occurrence.type === 'income' ? 'text-success-400' : 'text-error-400'
+                          }`}>
+                            {occurrence.type === 'income' ? '+' : '-'}
+                            {formatCurrency(occurrence.amount)}
+                          </p>
+                          {occurrence.isSkipped ? (
+                            <button
+                              onClick={() => handleRestoreOccurrence(occurrence)}
+                              disabled={isUpdating}
+                              className="p-2 rounded-lg hover:bg-white/10 transition-colors disabled:opacity-50"
+                              title="Restore occurrence"
+                            >
+                              <RotateCcw size={16} className="text-gray-300" />
+                            </button>
+                          ) : (
+                            <>
+                              <button
+                                onClick={() => setEditingOccurrence(occurrence)}
+                                disabled={isUpdating}
+                                className="p-2 rounded-lg hover:bg-white/10 transition-colors disabled:opacity-50"
+                                title="Move or change amount"
+                              >
+                                <Edit3 size={16} className="text-gray-300" />
+                              </button>
+                              <button
+                                onClick={() => handleSkipOccurrence(occurrence)}
+                                disabled={isUpdating}
+                                className="p-2 rounded-lg hover:bg-white/10 transition-colors disabled:opacity-50"
+                                title="Skip occurrence"
+                              >
+                                <SkipForward size={16} className="text-gray-300" />
+                              </button>
+                              {occurrence.exception && (
+                                <button
+                                  onClick={() => handleRestoreOccurrence(occurrence)}
+                                  disabled={isUpdating}
+                                  className="p-2 rounded-lg hover:bg-white/10 transition-colors disabled:opacity-50"
+                                  title="Restore to schedule"
+                                >
+                                  <RotateCcw size={16} className="text-gray-300" />
+                                </button>
+                              )}
+                            </>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
           </div>
         )}
       </div>
+
+      {/* Move / Change Amount Modal */}
+      <Modal
+        isOpen={!!editingOccurrence}
+        onClose={() => setEditingOccurrence(null)}
+        title="Edit Occurrence"
+      >
+        {editingOccurrence && (
+          <OccurrenceExceptionForm
+            occurrence={editingOccurrence}
+            onSubmit={handleEditOccurrence}
+            onCancel={() => setEditingOccurrence(null)}
+          />
+        )}
+      </Modal>
     </div>
   );
 };
\ No newline at end of file
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { DollarSign, TrendingUp, Wallet, CreditCard, Plus, Minus, Target, Receipt, Search, Bell, Calendar, BarChart3, Users, Zap, History, Repeat, RefreshCw, User } from 'lucide-react';
+import { DollarSign, TrendingUp, Wallet, CreditCard, Plus, Minus, Target, Receipt, Search, Bell, Calendar, BarChart3, Users, Zap, History, Repeat, RefreshCw, User, ArrowLeftRight } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { Modal } from '../components/common/Modal';
@@ -14,6 +14,7 @@ import { LiveExchangeRateWidget } from '../components/common/LiveExchangeRateWid
 import { NotificationsPanel } from '../components/common/NotificationsPanel';
 import { ProfileMenu } from '../components/common/ProfileMenu';
 import { MultipleIncomeManager } from '../components/dashboard/MultipleIncomeManager';
+import { AccountBalances } from '../components/dashboard/AccountBalances';
 import { useFinance } from '../contexts/FinanceContext';
 import { useAuth } from '../contexts/AuthContext';
 import { usePersonalization } from '../contexts/PersonalizationContext';
@@ -25,7 +26,7 @@ export const Dashboard: React.FC = () => {
   const navigate = useNavigate();
   const { user } = useAuth();
   const { settings, getDashboardComponents, shouldShowTutorial } = usePersonalization();
-  const { stats, transactions, addGoal, addLiability, addTransaction, addRecurringTransaction, loading, getMonthlyTrends } = useFinance();
+  const { stats, transactions, budgetAlerts, addGoal, addLiability, addTransaction, addRecurringTransaction, loading, getMonthlyTrends } = useFinance();
   const { formatCurrency } = useInternationalization();
   const { t } = useTranslation();
   const [showGoalModal, setShowGoalModal] = useState(false);
@@ -78,6 +79,7 @@ export const Dashboard: React.FC = () => {
 
   // Show welcome message for new users
   const isNewUser = transactions.length === 0;
+  const unreadAlerts = budgetAlerts.filter(a => !a.readAt && !a.dismissedAt).length;
   const dashboardComponents = getDashboardComponents();
   const showTutorial = shouldShowTutorial('dashboard');
 
@@ -143,7 +145,11 @@ export const Dashboard: React.FC = () => {
                 className="p-2 rounded-xl hover:bg-white/10 transition-colors relative"
               >
                 <Bell size={18} className="text-gray-300 sm:w-5 sm:h-5" />
-                {isNewUser && (
+                {unreadAlerts > 0 ? (
+                  <span className="absolute -top-1 -right-1 min-w-[1rem] h-4 px-1 bg-error-500 rounded-full text-[10px] leading-4 font-medium text-white">
+                    {unreadAlerts}
+                  </span>
+                ) : isNewUser && (
                   <span className="absolute -top-1 -right-1 h-2 w-2 sm:h-3 sm:w-3 bg-primary-500 rounded-full"></span>
                 )}
               </button>
@@ -294,6 +300,9 @@ export const Dashboard: React.FC = () => {
         {/* AI Financial Forecast */}
         {showForecast && <FinancialForecast />}
 
+        {/* Account Balances */}
+        <AccountBalances />
+
         {/* Multiple Income Sources */}
         <MultipleIncomeManager />
 
@@ -389,11 +398,15 @@ export const Dashboard: React.FC = () => {
                 >
                   <div className="flex items-center space-x-3">
                     <div className={`p-2 rounded-lg ${
-                      transaction.type === 'income' 
+                      transaction.type === 'transfer'
+                        ? 'bg-blue-500/20'
+                        : transaction.type === 'income' 
                         ? 'bg-success-500/20' 
                         : 'bg-error-500/20'
                     }`}>
-                      {transaction.type === 'income' ? (
+                      {transaction.type === 'transfer' ? (
+                        <ArrowLeftRight size={14} className="text-blue-400 sm:w-4 sm:h-4" />
+                      ) : transaction.type === 'income' ? (
                         <TrendingUp size={14} className="text-success-400 sm:w-4 sm:h-4" />
                       ) : (
                         <Receipt size={14} className="text-error-400 sm:w-4 sm:h-4" />
@@ -411,11 +424,13 @@ export const Dashboard: React.FC = () => {
                   
                   <div className="text-right">
                     <p className={`font-semibold text-sm sm:text-base ${
-                      transaction.type === 'income' 
+                      transaction.type === 'transfer'
+                        ? 'text-blue-400'
+                        : transaction.type === 'income' 
                         ? 'text-success-400' 
                         : 'text-error-400'
                     }`}>
-                      {transaction.type === 'income' ? '+' : '-'}
+                      {transaction.type === 'transfer' ? '' : transaction.type === 'income' ? '+' : '-'}
                       {formatCurrency(transaction.amount)}
                     </p>
                   </div>
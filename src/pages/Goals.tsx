@@ -1,21 +1,25 @@
 import React, { useState } from 'react';
-import { Target, Calendar, Plus, ArrowUpDown, TrendingUp, Edit3, Trash2, AlertCircle, CheckCircle } from 'lucide-react';
-import { format, differenceInMonths } from 'date-fns';
+import { Target, Calendar, Plus, ArrowUpDown, TrendingUp, Edit3, Trash2, AlertCircle, CheckCircle, History, Zap } from 'lucide-react';
+import { format } from 'date-fns';
 import { useQueryClient } from '@tanstack/react-query';
 import { toNumber, calculatePercentage, sanitizeFinancialData } from '../utils/validation';
 import { TopNavigation } from '../components/layout/TopNavigation';
 import { Modal } from '../components/common/Modal';
 import { GoalForm } from '../components/forms/GoalForm';
 import { GoalTransactionForm } from '../components/forms/GoalTransactionForm';
+import { GoalContributionTimeline } from '../components/goals/GoalContributionTimeline';
+import { GoalFundingRules } from '../components/goals/GoalFundingRules';
+import { GoalMilestones } from '../components/goals/GoalMilestones';
 import { Button } from '../components/common/Button';
 import { useFinance } from '../contexts/FinanceContext';
 import { useInternationalization } from '../contexts/InternationalizationContext';
 import { CurrencyIcon } from '../components/common/CurrencyIcon';
-import { Goal } from '../types';
+import { Goal, GoalInput } from '../types';
+import { GoalProjection, projectGoal } from '../utils/goals';
 
 export const Goals: React.FC = () => {
   const queryClient = useQueryClient();
-  const { goals, addGoal, updateGoal, deleteGoal, addTransaction } = useFinance();
+  const { goals, goalContributions, goalFundingRules, addGoal, updateGoal, deleteGoal, addGoalContributions } = useFinance();
   const { currency, formatCurrency } = useInternationalization();
   const [showModal, setShowModal] = useState(false);
   const [showTransactionModal, setShowTransactionModal] = useState(false);
@@ -24,12 +28,19 @@ export const Goals: React.FC = () => {
   const [editingGoal, setEditingGoal] = useState<Goal | null>(null);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [goalToDelete, setGoalToDelete] = useState<string | null>(null);
+  const [historyGoalId, setHistoryGoalId] = useState<string | null>(null);
+  const [showFundingRules, setShowFundingRules] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   // Find emergency fund goal
   const emergencyFund = goals.find(g => g.category.toLowerCase() === 'emergency');
-  const emergencyFundBalance = emergencyFund ? (Number(emergencyFund.currentAmount) || 0) : 0;
+  const emergencyFundBalance = emergencyFund ? (Number(emergencyFund.ownAmount) || 0) : 0;
+
+  // Each goal followed by its sub-goals
+  const orderedGoals = goals
+    .filter(g => !g.parentGoalId)
+    .flatMap(g => [g, ...goals.filter(sub => sub.parentGoalId === g.id)]);
 
   const handleAddGoal = async (goal: any) => {
     try {
@@ -52,7 +63,7 @@ export const Goals: React.FC = () => {
     }
   };
 
-  const handleEditGoal = async (goal: Omit<Goal, 'id' | 'userId' | 'createdAt'>) => {
+  const handleEditGoal = async (goal: GoalInput) => {
     try {
       setIsSubmitting(true);
       setError(null);
@@ -111,26 +122,15 @@ export const Goals: React.FC = () => {
 
       const { amount, type, source, description, deductFromBalance } = data;
       const numericAmount = Number(amount) || 0;
+      const fromEmergencyFund = source === 'emergency_fund' && emergencyFund;
 
       if (type === 'add') {
-        // Add money to goal
-        const currentAmount = Number(goal.currentAmount) || 0;
-        const targetAmount = Number(goal.targetAmount) || 0;
-        const newAmount = Math.min(currentAmount + numericAmount, targetAmount);
-        
-        await updateGoal(selectedGoalId!, {
-          currentAmount: newAmount
-        });
-
-        if (source === 'emergency_fund' && emergencyFund) {
-          // Deduct from emergency fund
-          const emergencyCurrentAmount = Number(emergencyFund.currentAmount) || 0;
-          await updateGoal(emergencyFund.id, {
-            currentAmount: Math.max(0, emergencyCurrentAmount - numericAmount)
-          });
-          
-          // Record as internal transfer
-          await addTransaction({
+        if (fromEmergencyFund) {
+          // Move money out of the emergency fund, recorded as an internal transfer
+          await addGoalContributions([
+            { goalId: goal.id, amount: numericAmount, note: description },
+            { goalId: emergencyFund.id, amount: -numericAmount, note: `${description} (to ${goal.title})` },
+          ], {
             type: 'expense',
             amount: numericAmount,
             category: 'Internal Transfer',
@@ -139,50 +139,38 @@ export const Goals: React.FC = () => {
           });
         } else if (deductFromBalance) {
           // Record as savings/investment expense (money leaves account)
-          await addTransaction({
+          await addGoalContributions([{ goalId: goal.id, amount: numericAmount, note: description }], {
             type: 'expense',
             amount: numericAmount,
             category: 'Savings',
             description: description,
             date: new Date(),
           });
+        } else {
+          // No transaction for gifts, bonuses or manual transfers
+          await addGoalContributions([{ goalId: goal.id, amount: numericAmount, note: description }]);
         }
-        // If deductFromBalance is false, we don't record any transaction
-        // This is useful for tracking gifts, bonuses, or manual transfers
+      } else if (fromEmergencyFund) {
+        // Move money back into the emergency fund
+        await addGoalContributions([
+          { goalId: goal.id, amount: -numericAmount, note: description },
+          { goalId: emergencyFund.id, amount: numericAmount, note: `${description} (from ${goal.title})` },
+        ], {
+          type: 'income',
+          amount: numericAmount,
+          category: 'Internal Transfer',
+          description: `${description} (to Emergency Fund)`,
+          date: new Date(),
+        });
       } else {
-        // Withdraw money from goal
-        const currentAmount = Number(goal.currentAmount) || 0;
-        const newAmount = Math.max(0, currentAmount - numericAmount);
-        
-        await updateGoal(selectedGoalId!, {
-          currentAmount: newAmount
+        // Record as income (money withdrawn to external account)
+        await addGoalContributions([{ goalId: goal.id, amount: -numericAmount, note: description }], {
+          type: 'income',
+          amount: numericAmount,
+          category: 'Goal Withdrawal',
+          description: description,
+          date: new Date(),
         });
-
-        if (source === 'emergency_fund' && emergencyFund) {
-          // Add to emergency fund
-          const emergencyCurrentAmount = Number(emergencyFund.currentAmount) || 0;
-          await updateGoal(emergencyFund.id, {
-            currentAmount: emergencyCurrentAmount + numericAmount
-          });
-          
-          // Record as internal transfer
-          await addTransaction({
-            type: 'income',
-            amount: numericAmount,
-            category: 'Internal Transfer',
-            description: `${description} (to Emergency Fund)`,
-            date: new Date(),
-          });
-        } else {
-          // Record as income (money withdrawn to external account)
-          await addTransaction({
-            type: 'income',
-            amount: numericAmount,
-            category: 'Goal Withdrawal',
-            description: description,
-            date: new Date(),
-          });
-        }
       }
 
       setShowTransactionModal(false);
@@ -209,19 +197,10 @@ export const Goals: React.FC = () => {
     return colors[category.toLowerCase() as keyof typeof colors] || 'bg-gray-500';
   };
 
-  const getEstimatedCompletion = (goal: any) => {
-    const remaining = (Number(goal.targetAmount) || 0) - (Number(goal.currentAmount) || 0);
-    if (remaining <= 0) return 'Completed';
-    
-    const monthsToTarget = differenceInMonths(goal.targetDate, new Date());
-    const monthlyNeeded = remaining / Math.max(monthsToTarget, 1);
-    
-    if (monthlyNeeded <= 500) {
-      return `${monthsToTarget} months`;
-    } else {
-      const realisticMonths = Math.ceil(remaining / 500);
-      return `${realisticMonths} months`;
-    }
+  const getEstimatedCompletion = (projection: GoalProjection) => {
+    if (projection.status === 'completed') return 'Completed';
+    if (projection.projectedCompletion) return format(projection.projectedCompletion, 'MMM yyyy');
+    return projection.status === 'not_started' ? 'Not started' : 'Never at this pace';
   };
 
   // Get goal status
@@ -264,7 +243,21 @@ export const Goals: React.FC = () => {
       />
       
       <div className="px-4 py-4 sm:py-6">
-        <p className="text-gray-400 mb-4 sm:mb-6 text-sm sm:text-base">Track and achieve your financial goals</p>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4 sm:mb-6">
+          <p className="text-gray-400 text-sm sm:text-base">Track and achieve your financial goals</p>
+          {goals.length > 0 && (
+            <button
+              onClick={() => setShowFundingRules(true)}
+              className="inline-flex items-center self-start px-3 py-1.5 rounded-lg border border-white/10 bg-black/30 text-xs sm:text-sm text-gray-300 hover:text-white transition-colors"
+            >
+              <Zap size={14} className="mr-1" />
+              Funding Rules
+              {goalFundingRules.some(r => r.isActive) && (
+                <span className="ml-1 text-primary-400">({goalFundingRules.filter(r => r.isActive).length})</span>
+              )}
+            </button>
+          )}
+        </div>
         
         {/* Error Message */}
         {error && (
@@ -290,17 +283,25 @@ export const Goals: React.FC = () => {
           </div>
         ) : (
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6">
-            {goals.map((goal) => {
+            {orderedGoals.map((goal) => {
               const currentAmount = toNumber(goal.currentAmount);
               const targetAmount = toNumber(goal.targetAmount);
               const progress = calculatePercentage(currentAmount, targetAmount);
               const isCompleted = progress >= 100;
               const isEmergencyFund = goal.category.toLowerCase() === 'emergency';
               const goalStatus = getGoalStatus(goal);
-              const estimatedCompletion = getEstimatedCompletion(goal);
+              const projection = projectGoal(goal, goalContributions);
+              const estimatedCompletion = getEstimatedCompletion(projection);
+              const parentGoal = goals.find(g => g.id === goal.parentGoalId);
+              const subGoals = goals.filter(g => goal.subGoalIds.includes(g.id));
               
               return (
-                <div key={goal.id} className="bg-black/20 backdrop-blur-md rounded-2xl p-4 sm:p-6 border border-white/10">
+                <div
+                  key={goal.id}
+                  className={`bg-black/20 backdrop-blur-md rounded-2xl p-4 sm:p-6 border border-white/10 ${
+                    parentGoal ? 'border-l-4 border-l-primary-500/50' : ''
+                  }`}
+                >
                   {/* Header */}
                   <div className="flex items-start justify-between mb-4 sm:mb-6">
                     <div className="flex items-center space-x-3">
@@ -309,7 +310,10 @@ export const Goals: React.FC = () => {
                       </div>
                       <div>
                         <h3 className="font-semibold text-white text-sm sm:text-base">{goal.title}</h3>
-                        <p className="text-xs sm:text-sm text-gray-400">{goal.category}</p>
+                        <p className="text-xs sm:text-sm text-gray-400">
+                          {goal.category}
+                          {parentGoal && ` • Part of ${parentGoal.title}`}
+                        </p>
                       </div>
                     </div>
                     
@@ -331,6 +335,13 @@ export const Goals: React.FC = () => {
                       >
                         <Trash2 size={16} className="text-error-400" />
                       </button>
+                      <button
+                        onClick={() => setHistoryGoalId(historyGoalId === goal.id ? null : goal.id)}
+                        className={`p-2 rounded-lg transition-colors ${historyGoalId === goal.id ? 'bg-white/10' : 'hover:bg-white/10'}`}
+                        title="Contribution History"
+                      >
+                        <History size={16} className="text-gray-400" />
+                      </button>
                       <button
                         onClick={() => {
                           setSelectedGoalId(goal.id);
@@ -353,8 +364,8 @@ export const Goals: React.FC = () => {
                       </span>
                     </div>
                     
-                    {/* Progress Bar */}
-                    <div className="w-full bg-white/10 rounded-full h-2 mb-3">
+                    {/* Progress Bar, with a tick for each milestone */}
+                    <div className="relative w-full bg-white/10 rounded-full h-2 mb-3">
                       <div
                         className={`h-2 rounded-full transition-all duration-500 ${
                           isCompleted ? 'bg-green-500' : 
@@ -362,6 +373,16 @@ export const Goals: React.FC = () => {
                         }`}
                         style={{ width: `${Math.min(progress, 100)}%` }}
                       />
+                      {goal.milestones
+                        .filter(m => m.amount < targetAmount)
+                        .map(m => (
+                          <div
+                            key={m.id}
+                            className={`absolute -top-0.5 w-0.5 h-3 rounded ${m.reachedAt ? 'bg-success-300' : 'bg-white/60'}`}
+                            style={{ left: `${calculatePercentage(m.amount, targetAmount)}%` }}
+                            title={m.title || formatCurrency(m.amount)}
+                          />
+                        ))}
                     </div>
                     
                     <div className="flex justify-between items-center text-xs sm:text-sm">
@@ -378,6 +399,45 @@ export const Goals: React.FC = () => {
                     </div>
                   </div>
 
+                  {/* Sub-goals */}
+                  {subGoals.length > 0 && (
+                    <div className="bg-black/30 rounded-xl p-3 sm:p-4 border border-white/10 mb-4 sm:mb-6">
+                      <div className="flex justify-between items-center mb-3">
+                        <h4 className="text-xs sm:text-sm font-medium text-white">Sub-goals</h4>
+                        <span className="text-xs text-gray-400">{formatCurrency(goal.ownAmount)} saved directly</span>
+                      </div>
+                      <div className="space-y-3">
+                        {subGoals.map(sub => {
+                          const subProgress = calculatePercentage(sub.currentAmount, sub.targetAmount);
+                          return (
+                            <div key={sub.id}>
+                              <div className="flex justify-between text-xs mb-1">
+                                <span className="text-gray-300 truncate">{sub.title}</span>
+                                <span className="text-gray-400 shrink-0 ml-2">
+                                  {formatCurrency(sub.currentAmount)} / {formatCurrency(sub.targetAmount)}
+                                </span>
+                              </div>
+                              <div className="w-full bg-white/10 rounded-full h-1.5">
+                                <div
+                                  className={`h-1.5 rounded-full ${subProgress >= 100 ? 'bg-green-500' : 'bg-primary-500'}`}
+                                  style={{ width: `${Math.min(subProgress, 100)}%` }}
+                                />
+                              </div>
+                            </div>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Milestones */}
+                  {goal.milestones.length > 0 && (
+                    <div className="bg-black/30 rounded-xl p-3 sm:p-4 border border-white/10 mb-4 sm:mb-6">
+                      <h4 className="text-xs sm:text-sm font-medium text-white mb-3">Milestones</h4>
+                      <GoalMilestones goal={goal} />
+                    </div>
+                  )}
+
                   {/* Details Grid */}
                   <div className="grid grid-cols-2 gap-4 mb-4 sm:mb-6">
                     <div className="flex items-center space-x-2">
@@ -391,12 +451,45 @@ export const Goals: React.FC = () => {
                     <div className="flex items-center space-x-2">
                       <TrendingUp size={14} className="text-gray-400 sm:w-4 sm:h-4" />
                       <div>
-                        <p className="text-xs text-gray-400">Estimated Completion</p>
+                        <p className="text-xs text-gray-400">Projected Completion</p>
                         <p className="text-xs sm:text-sm font-medium text-white">{estimatedCompletion}</p>
                       </div>
                     </div>
                   </div>
 
+                  {/* Projection */}
+                  {!isCompleted && projection.status !== 'not_started' && (
+                    <div className={`flex items-start space-x-2 rounded-xl p-3 mb-4 sm:mb-6 border text-xs sm:text-sm ${
+                      projection.status === 'on_track' ? 'bg-success-500/10 border-success-500/30 text-success-300' :
+                      projection.status === 'behind' ? 'bg-warning-500/10 border-warning-500/30 text-warning-300' :
+                      'bg-error-500/10 border-error-500/30 text-error-300'
+                    }`}>
+                      {projection.status === 'on_track' ? (
+                        <CheckCircle size={16} className="shrink-0 mt-0.5" />
+                      ) : (
+                        <AlertCircle size={16} className="shrink-0 mt-0.5" />
+                      )}
+                      <p>
+                        {projection.status === 'on_track' && `On track, saving ${formatCurrency(projection.monthlyPace ?? 0)} a month.`}
+                        {projection.status === 'behind' &&
+                          `Behind: ${formatCurrency(projection.requiredMonthly)} a month is needed, ${formatCurrency(projection.monthlyPace ?? 0)} is being saved.`}
+                        {projection.status === 'unreachable' &&
+                          `Out of reach: nothing has been saved recently. ${formatCurrency(projection.requiredMonthly)} a month is needed to finish on time.`}
+                        {projection.status === 'overdue' && `The target date has passed with ${formatCurrency(projection.remaining)} still to go.`}
+                      </p>
+                    </div>
+                  )}
+
+                  {/* Contribution History */}
+                  {historyGoalId === goal.id && (
+                    <div className="bg-black/30 rounded-xl p-3 sm:p-4 border border-white/10 mb-4 sm:mb-6">
+                      <h4 className="text-xs sm:text-sm font-medium text-white mb-3">Contribution History</h4>
+                      <GoalContributionTimeline
+                        contributions={goalContributions.filter(c => c.goalId === goal.id)}
+                      />
+                    </div>
+                  )}
+
                   {/* Status/Action Section */}
                   {/* Status Badge */}
                   <div className={`text-center py-2 sm:py-3 rounded-xl border ${
@@ -481,6 +574,15 @@ export const Goals: React.FC = () => {
         />
       </Modal>
 
+      {/* Funding Rules Modal */}
+      <Modal
+        isOpen={showFundingRules}
+        onClose={() => setShowFundingRules(false)}
+        title="Goal Funding Rules"
+      >
+        {showFundingRules && <GoalFundingRules onDone={() => setShowFundingRules(false)} />}
+      </Modal>
+
       {/* Edit Goal Modal */}
       <Modal
         isOpen={showEditModal}
@@ -497,10 +599,18 @@ export const Goals: React.FC = () => {
               title: editingGoal.title,
               description: editingGoal.description,
               targetAmount: editingGoal.targetAmount,
-              currentAmount: editingGoal.currentAmount,
+              currentAmount: editingGoal.ownAmount,
               targetDate: editingGoal.targetDate.toISOString().split('T')[0],
-              category: editingGoal.category
+              category: editingGoal.category,
+              parentGoalId: editingGoal.parentGoalId,
+              milestones: editingGoal.milestones.map(m => ({
+                id: m.id,
+                title: m.title || '',
+                amount: m.amount,
+                targetDate: m.targetDate ? m.targetDate.toISOString().split('T')[0] : '',
+              }))
             }}
+            goalId={editingGoal.id}
             onSubmit={handleEditGoal}
             onCancel={() => {
               setShowEditModal(false);
@@ -548,6 +658,9 @@ export const Goals: React.FC = () => {
         <div className="space-y-4">
           <p className="text-gray-300">
             Are you sure you want to delete this goal? This action cannot be undone.
+            {goals.find(g => g.id === goalToDelete)?.subGoalIds.length
+              ? ' Its sub-goals will be kept as goals of their own.'
+              : ''}
           </p>
           <div className="flex space-x-3">
             <Button
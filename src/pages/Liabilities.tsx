@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { CreditCard, Calendar, Percent, TrendingDown, Plus, Edit3, Trash2, BarChart3, Calculator, Info, AlertTriangle, ShoppingCart, CheckCircle } from 'lucide-react';
+import { CreditCard, Calendar, Percent, TrendingDown, Plus, Edit3, Trash2, BarChart3, Calculator, Info, AlertTriangle, ShoppingCart, CheckCircle, TableProperties } from 'lucide-react';
 import { format, differenceInDays } from 'date-fns';
 import { toNumber, calculatePercentage, formatCurrencySafe, validatePaymentAmount } from '../utils/validation';
 import { TopNavigation } from '../components/layout/TopNavigation';
@@ -12,9 +12,19 @@ import { useInternationalization } from '../contexts/InternationalizationContext
 import { CurrencyIcon } from '../components/common/CurrencyIcon';
 import { Liability } from '../types';
 import { DebtStrategyTool } from '../components/liabilities/DebtStrategyTool';
+import { AmortizationSchedule } from '../components/liabilities/AmortizationSchedule';
+import { amortizationSchedule, liabilityPayoffAmount } from '../utils/liabilities';
 
 export const Liabilities: React.FC = () => {
-  const { liabilities, addLiability, updateLiability, deleteLiability, addTransaction, transactions } = useFinance();
+  const {
+    liabilities,
+    liabilityPayments,
+    addLiability,
+    updateLiability,
+    deleteLiability,
+    addLiabilityPayment,
+    addTransaction,
+  } = useFinance();
   const { currency, formatCurrency } = useInternationalization();
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -26,6 +36,7 @@ export const Liabilities: React.FC = () => {
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [liabilityToDelete, setLiabilityToDelete] = useState<string | null>(null);
   const [showStrategyTool, setShowStrategyTool] = useState(false);
+  const [scheduleLiabilityId, setScheduleLiabilityId] = useState<string | null>(null);
 
   const handleAddLiability = async (liability: any, addAsIncome: boolean) => {
     try {
@@ -177,38 +188,31 @@ export const Liabilities: React.FC = () => {
       setError(null);
       
       const paymentAmount = Number(paymentData.amount) || 0;
-      const currentRemaining = Number(liability.remainingAmount) || 0;
+      const payoffAmount = liabilityPayoffAmount(liability, liabilityPayments);
       
       // Handle overpayment
-      const actualPayment = Math.min(paymentAmount, currentRemaining);
-      if (paymentAmount > currentRemaining) {
-        const confirmed = window.confirm(`Payment of ${formatCurrency(paymentAmount)} exceeds remaining balance of ${formatCurrency(currentRemaining)}. Adjust to full payoff amount?`);
+      const actualPayment = Math.min(paymentAmount, payoffAmount);
+      if (paymentAmount > payoffAmount) {
+        const confirmed = window.confirm(`Payment of ${formatCurrency(paymentAmount)} exceeds the payoff amount of ${formatCurrency(payoffAmount)}. Adjust to full payoff amount?`);
         if (!confirmed) {
           setIsSubmitting(false);
           return;
         }
       }
       
-      // Add payment as expense transaction if createTransaction is true
-      if (paymentData.createTransaction) {
-        await addTransaction({
-          type: 'expense',
-          amount: actualPayment,
-          category: 'Debt Payment',
-          description: paymentData.description || `Payment for ${liability.name}`,
-          date: new Date(),
-        });
-      }
-
-      // Update liability remaining amount
-      await updateLiability(selectedLiability!, {
-        remainingAmount: Math.max(0, currentRemaining - actualPayment)
-      });
-
-      // Show success message
-      setTimeout(() => {
-        alert(`Payment of ${formatCurrency(actualPayment)} processed successfully!`);
-      }, 100);
+      // Record the payment, with an expense transaction if createTransaction is true
+      await addLiabilityPayment(
+        { liabilityId: liability.id, amount: actualPayment, note: paymentData.description || undefined },
+        paymentData.createTransaction
+          ? {
+              type: 'expense',
+              amount: actualPayment,
+              category: 'Debt Payment',
+              description: paymentData.description || `Payment for ${liability.name}`,
+              date: new Date(),
+            }
+          : undefined
+      );
       
       setShowPaymentModal(false);
       setSelectedLiability(null);
@@ -221,6 +225,8 @@ export const Liabilities: React.FC = () => {
     }
   };
 
+  const scheduleLiability = liabilities.find(l => l.id === scheduleLiabilityId);
+
   const totalDebt = liabilities.reduce((sum, l) => sum + toNumber(l.remainingAmount), 0);
   const totalMonthlyPayments = liabilities.reduce((sum, l) => sum + toNumber(l.monthlyPayment), 0);
 
@@ -259,15 +265,19 @@ export const Liabilities: React.FC = () => {
     }
   };
 
-  const getEstimatedPayoff = (liability: any) => {
+  // Months of payments left on the amortization schedule, interest included
+  const getEstimatedPayoff = (liability: Liability) => {
     const remainingAmount = toNumber(liability.remainingAmount);
     const monthlyPayment = toNumber(liability.monthlyPayment);
     
     if (remainingAmount <= 0) return 'Paid Off';
     if (!monthlyPayment || monthlyPayment <= 0) return 'No Payment Set';
     
-    const monthsRemaining = Math.ceil(remainingAmount / monthlyPayment);
-    return `${monthsRemaining} month${monthsRemaining !== 1 ? 's' : ''}`;
+    const schedule = amortizationSchedule(liability, liabilityPayments);
+    if (!schedule.payoffDate) return 'Never at this payment';
+    
+    const monthsRemaining = schedule.rows.filter(row => row.projected).length;
+    return `${monthsRemaining} month${monthsRemaining !== 1 ? 's' : ''} (${format(schedule.payoffDate, 'MMM yyyy')})`;
   };
 
   const getAPRBadgeColor = (rate: number) => {
@@ -544,19 +554,30 @@ export const Liabilities: React.FC = () => {
                     </span>
                   </div>
 
-                  {/* Action Button - Only show if not paid off */}
-                  {remainingAmount > 0 && (
+                  {/* Action Buttons - Payment only if not paid off */}
+                  <div className="flex space-x-2 mt-3">
                     <Button
-                      onClick={() => {
-                        setSelectedLiability(liability.id);
-                        setShowPaymentModal(true);
-                      }}
-                      className="w-full text-sm mt-3"
+                      variant="outline"
+                      onClick={() => setScheduleLiabilityId(liability.id)}
+                      className="flex-1 text-sm border-white/20 text-white hover:bg-white/10"
                       size="sm"
                     >
-                      Make Payment
+                      <TableProperties size={14} className="mr-1" />
+                      Schedule
                     </Button>
-                  )}
+                    {remainingAmount > 0 && (
+                      <Button
+                        onClick={() => {
+                          setSelectedLiability(liability.id);
+                          setShowPaymentModal(true);
+                        }}
+                        className="flex-1 text-sm"
+                        size="sm"
+                      >
+                        Make Payment
+                      </Button>
+                    )}
+                  </div>
                 </div>
               );
             })}
@@ -642,6 +663,7 @@ export const Liabilities: React.FC = () => {
       >
         <PaymentForm
           liability={liabilities.find(l => l.id === selectedLiability)}
+          payments={liabilityPayments}
           onSubmit={handleMakePayment}
           onCancel={() => {
             setShowPaymentModal(false);
@@ -650,6 +672,20 @@ export const Liabilities: React.FC = () => {
         />
       </Modal>
 
+      {/* Amortization Schedule Modal */}
+      <Modal
+        isOpen={scheduleLiabilityId !== null}
+        onClose={() => setScheduleLiabilityId(null)}
+        title="Amortization Schedule"
+      >
+        {scheduleLiability && (
+          <AmortizationSchedule
+            liability={scheduleLiability}
+            onClose={() => setScheduleLiabilityId(null)}
+          />
+        )}
+      </Modal>
+
       {/* Delete Confirmation Modal */}
       <Modal
         isOpen={showDeleteConfirm}
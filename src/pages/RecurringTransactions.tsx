@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { Repeat, Calendar, Plus, Edit3, Trash2, Play, Pause, AlertCircle, CheckCircle, Clock, TrendingUp, TrendingDown } from 'lucide-react';
+import { Repeat, Calendar, Plus, Edit3, Trash2, Play, Pause, AlertCircle, CheckCircle, Clock, TrendingUp, TrendingDown, Sparkles, Check, X } from 'lucide-react';
 import { format, addDays, addWeeks, addMonths, addYears } from 'date-fns';
 import { TopNavigation } from '../components/layout/TopNavigation';
 import { Modal } from '../components/common/Modal';
@@ -9,6 +9,8 @@ import { useFinance } from '../contexts/FinanceContext';
 import { useInternationalization } from '../contexts/InternationalizationContext';
 import { CurrencyIcon } from '../components/common/CurrencyIcon';
 import { RecurringTransaction } from '../types';
+import { DEFAULT_ESTIMATE_WINDOW, describeRRule, occurrencesPerYear } from '../utils/recurrence';
+import { SUBSCRIPTION_CADENCE_LABELS, SubscriptionCandidate } from '../utils/subscriptionDetection';
 
 export const RecurringTransactions: React.FC = () => {
   const { 
@@ -16,7 +18,13 @@ export const RecurringTransactions: React.FC = () => {
     addRecurringTransaction, 
     updateRecurringTransaction, 
     deleteRecurringTransaction,
-    processRecurringTransactions 
+    processRecurringTransactions,
+    subscriptionCandidates,
+    acceptSubscriptionCandidate,
+    dismissSubscriptionCandidate,
+    transactions,
+    updateTransaction,
+    getExpectedAmount
   } = useFinance();
   const { currency, formatCurrency } = useInternationalization();
   const [showModal, setShowModal] = useState(false);
@@ -25,6 +33,14 @@ export const RecurringTransactions: React.FC = () => {
   const [transactionToDelete, setTransactionToDelete] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [acceptingCandidate, setAcceptingCandidate] = useState<string | null>(null);
+  const [confirmAmounts, setConfirmAmounts] = useState<Record<string, string>>({});
+  const [confirmingId, setConfirmingId] = useState<string | null>(null);
+
+  // Occurrences of variable bills created with an estimate, oldest first
+  const pendingOccurrences = transactions
+    .filter(t => t.isPending)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
 
   const handleAddTransaction = async (data: any) => {
     try {
@@ -115,6 +131,49 @@ export const RecurringTransactions: React.FC = () => {
     }
   };
 
+  const handleAcceptCandidate = async (candidate: SubscriptionCandidate) => {
+    try {
+      setAcceptingCandidate(candidate.key);
+      setError(null);
+      await acceptSubscriptionCandidate(candidate);
+    } catch (error: unknown) {
+      console.error('❌ Error accepting detected subscription:', error);
+      setError(error instanceof Error ? error.message : 'Failed to add detected subscription');
+    } finally {
+      setAcceptingCandidate(null);
+    }
+  };
+
+  const handleConfirmOccurrence = async (id: string, estimate: number) => {
+    const amount = Number(confirmAmounts[id] ?? estimate);
+    if (!(amount > 0)) {
+      setError('Enter the actual amount to confirm this bill');
+      return;
+    }
+
+    try {
+      setConfirmingId(id);
+      setError(null);
+      await updateTransaction(id, { amount, isPending: false });
+      setConfirmAmounts(prev => {
+        const next = { ...prev };
+        delete next[id];
+        return next;
+      });
+    } catch (error: unknown) {
+      console.error('❌ Error confirming bill amount:', error);
+      setError(error instanceof Error ? error.message : 'Failed to confirm bill amount');
+    } finally {
+      setConfirmingId(null);
+    }
+  };
+
+  const getConfidenceColor = (confidence: number) => {
+    if (confidence >= 0.85) return 'text-success-400';
+    if (confidence >= 0.7) return 'text-warning-400';
+    return 'text-gray-400';
+  };
+
   const getFrequencyIcon = (frequency: string) => {
     const icons = {
       daily: '📅',
@@ -125,6 +184,23 @@ export const RecurringTransactions: React.FC = () => {
     return icons[frequency as keyof typeof icons] || '🔄';
   };
 
+  const getScheduleText = (rrule: string) => {
+    try {
+      return describeRRule(rrule);
+    } catch {
+      return rrule;
+    }
+  };
+
+  // Stored rules are validated by the form, but a bad one shouldn't break the page
+  const getYearlyOccurrences = (transaction: RecurringTransaction) => {
+    try {
+      return occurrencesPerYear(transaction);
+    } catch {
+      return 0;
+    }
+  };
+
   const getNextOccurrenceText = (transaction: RecurringTransaction) => {
     const nextDate = new Date(transaction.nextOccurrenceDate);
     const now = new Date();
@@ -154,19 +230,24 @@ export const RecurringTransactions: React.FC = () => {
   const totalMonthlyImpact = recurringTransactions.reduce((sum, transaction) => {
     if (!transaction.isActive) return sum;
     
-    let monthlyAmount = transaction.amount;
+    const amount = getExpectedAmount(transaction);
+    let monthlyAmount = amount;
+    if (transaction.rrule) {
+      monthlyAmount = (amount * getYearlyOccurrences(transaction)) / 12;
+      return transaction.type === 'income' ? sum + monthlyAmount : sum - monthlyAmount;
+    }
     switch (transaction.frequency) {
       case 'daily':
-        monthlyAmount = transaction.amount * 30;
+        monthlyAmount = amount * 30;
         break;
       case 'weekly':
-        monthlyAmount = transaction.amount * 4.33;
+        monthlyAmount = amount * 4.33;
         break;
       case 'yearly':
-        monthlyAmount = transaction.amount / 12;
+        monthlyAmount = amount / 12;
         break;
       default:
-        monthlyAmount = transaction.amount;
+        monthlyAmount = amount;
     }
     
     return transaction.type === 'income' ? sum + monthlyAmount : sum - monthlyAmount;
@@ -228,6 +309,130 @@ export const RecurringTransactions: React.FC = () => {
           </div>
         )}
 
+        {/* Bills Awaiting Actual Amounts */}
+        {pendingOccurrences.length > 0 && (
+          <div className="bg-warning-500/10 backdrop-blur-md rounded-xl p-4 mb-6 border border-warning-500/30">
+            <div className="flex items-center space-x-2 mb-1">
+              <Clock size={16} className="text-warning-400" />
+              <h3 className="text-sm font-medium text-white">
+                {pendingOccurrences.length} bill{pendingOccurrences.length === 1 ? '' : 's'} pending confirmation
+              </h3>
+            </div>
+            <p className="text-xs text-gray-400 mb-4">
+              Recorded with an estimate; enter the actual amount once you know it
+            </p>
+
+            <div className="space-y-3">
+              {pendingOccurrences.map(occurrence => (
+                <div key={occurrence.id} className="flex items-center justify-between bg-black/20 rounded-xl p-3 border border-white/10">
+                  <div className="min-w-0 mr-3">
+                    <p className="font-medium text-white truncate">{occurrence.description}</p>
+                    <p className="text-xs text-gray-400">
+                      {format(occurrence.date, 'MMM dd, yyyy')} • estimated {formatCurrency(occurrence.amount)}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="number"
+                      step="0.01"
+                      min="0.01"
+                      value={confirmAmounts[occurrence.id] ?? String(occurrence.amount)}
+                      onChange={(e) => setConfirmAmounts(prev => ({ ...prev, [occurrence.id]: e.target.value }))}
+                      className="w-28 rounded-lg border-white/20 bg-black/40 text-white text-sm py-2 px-3 focus:border-primary-500 focus:ring-primary-500"
+                      aria-label={`Actual amount for ${occurrence.description}`}
+                    />
+                    <Button
+                      onClick={() => handleConfirmOccurrence(occurrence.id, occurrence.amount)}
+                      size="sm"
+                      loading={confirmingId === occurrence.id}
+                      disabled={confirmingId !== null}
+                    >
+                      <Check size={14} className="mr-1" />
+                      Confirm
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Detected Subscriptions */}
+        {subscriptionCandidates.length > 0 && (
+          <div className="bg-primary-500/10 backdrop-blur-md rounded-xl p-4 mb-6 border border-primary-500/30">
+            <div className="flex items-center space-x-2 mb-1">
+              <Sparkles size={16} className="text-primary-400" />
+              <h3 className="text-sm font-medium text-white">
+                {subscriptionCandidates.length} detected subscription{subscriptionCandidates.length === 1 ? '' : 's'} and bill{subscriptionCandidates.length === 1 ? '' : 's'}
+              </h3>
+            </div>
+            <p className="text-xs text-gray-400 mb-4">
+              Regular charges in your history that aren't set up as recurring yet
+            </p>
+
+            <div className="space-y-3">
+              {subscriptionCandidates.map(candidate => (
+                <div key={candidate.key} className="bg-black/20 rounded-xl p-3 border border-white/10">
+                  <div className="flex items-start justify-between">
+                    <div className="min-w-0">
+                      <p className="font-medium text-white truncate">{candidate.description}</p>
+                      <p className="text-xs text-gray-400">
+                        {candidate.category} • {SUBSCRIPTION_CADENCE_LABELS[candidate.cadence]} •{' '}
+                        <span className={getConfidenceColor(candidate.confidence)}>
+                          {Math.round(candidate.confidence * 100)}% confidence
+                        </span>
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-2 ml-3">
+                      <Button
+                        onClick={() => handleAcceptCandidate(candidate)}
+                        size="sm"
+                        loading={acceptingCandidate === candidate.key}
+                        disabled={acceptingCandidate !== null}
+                      >
+                        <Check size={14} className="mr-1" />
+                        Add
+                      </Button>
+                      <button
+                        onClick={() => dismissSubscriptionCandidate(candidate.key)}
+                        className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-white/10 transition-colors"
+                        title="Not a subscription"
+                      >
+                        <X size={14} />
+                      </button>
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-3 mt-3 text-sm">
+                    <div>
+                      <p className="text-xs text-gray-400">Last charge</p>
+                      <p className="text-white">
+                        {formatCurrency(candidate.lastCharge.amount)} on {format(candidate.lastCharge.date, 'MMM dd, yyyy')}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-gray-400">Estimated per year</p>
+                      <p className={candidate.type === 'income' ? 'text-success-400' : 'text-error-400'}>
+                        {formatCurrency(candidate.annualCost)}
+                      </p>
+                    </div>
+                  </div>
+
+                  {candidate.priceIncrease && (
+                    <div className="flex items-center space-x-2 mt-3 text-xs text-warning-400">
+                      <TrendingUp size={14} />
+                      <span>
+                        Price went up from {formatCurrency(candidate.priceIncrease.previousAmount)} to{' '}
+                        {formatCurrency(candidate.priceIncrease.newAmount)} on {format(candidate.priceIncrease.changedOn, 'MMM dd, yyyy')}
+                      </span>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {recurringTransactions.length === 0 ? (
           <div className="text-center py-12 sm:py-16">
             <div className="w-12 h-12 sm:w-16 sm:h-16 bg-primary-500/20 rounded-full flex items-center justify-center mx-auto mb-4">
@@ -263,7 +468,7 @@ export const RecurringTransactions: React.FC = () => {
                         {transaction.description}
                       </h3>
                       <p className="text-xs sm:text-sm text-gray-400">
-                        {transaction.category} • {getFrequencyIcon(transaction.frequency)} {transaction.frequency}
+                        {transaction.category} • {getFrequencyIcon(transaction.frequency)} {transaction.rrule ? getScheduleText(transaction.rrule) : transaction.frequency}
                       </p>
                     </div>
                   </div>
@@ -303,14 +508,22 @@ export const RecurringTransactions: React.FC = () => {
                 {/* Amount and Status */}
                 <div className="grid grid-cols-2 gap-4 mb-4">
                   <div>
-                    <p className="text-xs text-gray-400 mb-1">Amount</p>
+                    <p className="text-xs text-gray-400 mb-1">
+                      {transaction.isVariable ? 'Estimated Amount' : 'Amount'}
+                    </p>
                     <p className={`text-lg font-bold ${
                       transaction.type === 'income' ? 'text-success-400' : 'text-error-400'
                     }`}>
                       {transaction.type === 'income' ? '+' : '-'}
+                      {transaction.isVariable && '≈ '}
                       <CurrencyIcon currencyCode={currency.code} size={16} className="inline mr-1" />
-                      {transaction.amount.toLocaleString()}
+                      {getExpectedAmount(transaction).toLocaleString()}
                     </p>
+                    {transaction.isVariable && (
+                      <p className="text-xs text-gray-500">
+                        Average of the last {transaction.estimateWindow ?? DEFAULT_ESTIMATE_WINDOW} confirmed
+                      </p>
+                    )}
                   </div>
                   
                   <div>
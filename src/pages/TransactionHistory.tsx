@@ -1,19 +1,32 @@
 import React, { useState, useMemo } from 'react';
-import { ArrowLeft, Edit3, Trash2, Search, Filter, Calendar, TrendingUp, TrendingDown, Plus, Minus, Eye, EyeOff, CheckSquare, Square } from 'lucide-react';
+import { ArrowLeft, Edit3, Trash2, Search, Filter, Calendar, TrendingUp, TrendingDown, Plus, Minus, Eye, EyeOff, CheckSquare, Square, Copy, X, ArrowLeftRight } from 'lucide-react';
 import { format, startOfMonth, endOfMonth, isWithinInterval } from 'date-fns';
 import { PageNavigation } from '../components/layout/PageNavigation';
 import { SearchAndFilter } from '../components/common/SearchAndFilter';
 import { Modal } from '../components/common/Modal';
 import { TransactionForm } from '../components/forms/TransactionForm';
+import { TransferForm } from '../components/forms/TransferForm';
 import { Button } from '../components/common/Button';
 import { useFinance } from '../contexts/FinanceContext';
 import { useInternationalization } from '../contexts/InternationalizationContext';
+import { useCurrencyConversion } from '../contexts/CurrencyConversionContext';
 import { CurrencyIcon } from '../common/CurrencyIcon';
 import { Transaction } from '../types';
+import { calculateRunningBalances, runningBalanceKey } from '../utils/accountBalances';
+import { isForeignCurrency } from '../utils/currency';
 
 export const TransactionHistory: React.FC = () => {
-  const { transactions, updateTransaction, deleteTransaction } = useFinance();
+  const {
+    transactions,
+    accounts,
+    updateTransaction,
+    deleteTransaction,
+    duplicateSuspects,
+    mergeDuplicateTransactions,
+    dismissDuplicatePair,
+  } = useFinance();
   const { formatCurrency, currency } = useInternationalization();
+  const { getConversionRate } = useCurrencyConversion();
   const [searchResults, setSearchResults] = useState(transactions);
   const [showSearch, setShowSearch] = useState(false);
   const [selectedTransactions, setSelectedTransactions] = useState<string[]>([]);
@@ -24,9 +37,12 @@ export const TransactionHistory: React.FC = () => {
   const [transactionToDelete, setTransactionToDelete] = useState<string | null>(null);
   const [currentPage, setCurrentPage] = useState(0);
   const [pageSize] = useState(20);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [mergingPair, setMergingPair] = useState<string | null>(null);
   const [sortBy, setSortBy] = useState<'date' | 'amount' | 'category'>('date');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
-  const [filterType, setFilterType] = useState<'all' | 'income' | 'expense'>('all');
+  const [filterType, setFilterType] = useState<'all' | 'income' | 'expense' | 'transfer'>('all');
+  const [filterAccount, setFilterAccount] = useState<string>('all');
   const [dateRange, setDateRange] = useState({
     start: startOfMonth(new Date()),
     end: endOfMonth(new Date())
@@ -41,6 +57,15 @@ export const TransactionHistory: React.FC = () => {
       filtered = filtered.filter(t => t.type === filterType);
     }
 
+    // Apply account filter
+    if (filterAccount !== 'all') {
+      filtered = filtered.filter(t =>
+        filterAccount === 'none'
+          ? !t.accountId
+          : t.accountId === filterAccount || t.transferAccountId === filterAccount
+      );
+    }
+
     // Apply date range filter
     filtered = filtered.filter(t => 
       isWithinInterval(t.date, { start: dateRange.start, end: dateRange.end })
@@ -66,7 +91,7 @@ export const TransactionHistory: React.FC = () => {
     });
 
     return filtered;
-  }, [transactions, searchResults, showSearch, filterType, dateRange, sortBy, sortOrder]);
+  }, [transactions, searchResults, showSearch, filterType, filterAccount, dateRange, sortBy, sortOrder]);
 
   // Pagination
   const totalCount = filteredAndSortedTransactions.length;
@@ -76,7 +101,43 @@ export const TransactionHistory: React.FC = () => {
     (currentPage + 1) * pageSize
   );
 
-  const hasActiveFilters = filterType !== 'all' || showSearch;
+  const hasActiveFilters = filterType !== 'all' || filterAccount !== 'all' || showSearch;
+
+  // Account balance after each transaction, independent of the filters above
+  const runningBalances = useMemo(
+    () => calculateRunningBalances(accounts, transactions, code => getConversionRate(currency.code, code)),
+    [accounts, transactions, currency.code, getConversionRate]
+  );
+  const accountsById = useMemo(() => new Map(accounts.map(a => [a.id, a])), [accounts]);
+
+  // A transfer has a balance on both sides; show the filtered account's side
+  // when filtering by account, otherwise the source account's
+  const runningBalanceFor = (transaction: Transaction) => {
+    const accountId = transaction.transferAccountId === filterAccount ? filterAccount : transaction.accountId;
+    return accountId ? runningBalances.get(runningBalanceKey(transaction.id, accountId)) : undefined;
+  };
+
+  const accountName = (id?: string) => (id && accountsById.get(id)?.name) || 'Unknown account';
+
+  const suspectedDuplicateIds = useMemo(() => {
+    const ids = new Set<string>();
+    duplicateSuspects.forEach(pair => {
+      ids.add(pair.first.id);
+      ids.add(pair.second.id);
+    });
+    return ids;
+  }, [duplicateSuspects]);
+
+  const handleMergeDuplicate = async (pairKey: string, keepId: string, removeId: string) => {
+    try {
+      setMergingPair(pairKey);
+      await mergeDuplicateTransactions(keepId, removeId);
+    } catch (error) {
+      console.error('Error merging transactions:', error);
+    } finally {
+      setMergingPair(null);
+    }
+  };
 
   const handleEditTransaction = async (data: any) => {
     try {
@@ -193,14 +254,31 @@ export const TransactionHistory: React.FC = () => {
         <div className="flex flex-wrap items-center gap-3 mb-6">
           <select
             value={filterType}
-            onChange={(e) => setFilterType(e.target.value as 'all' | 'income' | 'expense')}
+            onChange={(e) => setFilterType(e.target.value as 'all' | 'income' | 'expense' | 'transfer')}
             className="bg-black/20 border border-white/20 rounded-lg px-3 py-2 text-white text-sm"
           >
             <option value="all">All Types</option>
             <option value="income">Income Only</option>
             <option value="expense">Expenses Only</option>
+            <option value="transfer">Transfers Only</option>
           </select>
 
+          {accounts.length > 0 && (
+            <select
+              value={filterAccount}
+              onChange={(e) => setFilterAccount(e.target.value)}
+              className="bg-black/20 border border-white/20 rounded-lg px-3 py-2 text-white text-sm"
+            >
+              <option value="all">All Accounts</option>
+              {accounts.map(account => (
+                <option key={account.id} value={account.id}>
+                  {account.name}{account.isArchived ? ' (archived)' : ''}
+                </option>
+              ))}
+              <option value="none">No Account</option>
+            </select>
+          )}
+
           <select
             value={sortBy}
             onChange={(e) => setSortBy(e.target.value as 'date' | 'amount' | 'category')}
@@ -245,6 +323,75 @@ export const TransactionHistory: React.FC = () => {
           </div>
         </div>
 
+        {/* Possible Duplicates */}
+        {duplicateSuspects.length > 0 && (
+          <div className="bg-warning-500/10 backdrop-blur-md rounded-xl p-4 mb-6 border border-warning-500/30">
+            <button
+              onClick={() => setShowDuplicates(!showDuplicates)}
+              className="flex items-center justify-between w-full"
+            >
+              <div className="flex items-center space-x-2">
+                <Copy size={16} className="text-warning-400" />
+                <span className="text-sm font-medium text-white">
+                  {duplicateSuspects.length} possible duplicate{duplicateSuspects.length === 1 ? '' : 's'}
+                </span>
+              </div>
+              <span className="text-xs text-warning-400">{showDuplicates ? 'Hide' : 'Review'}</span>
+            </button>
+
+            {showDuplicates && (
+              <div className="mt-4 space-y-4">
+                {duplicateSuspects.map(pair => (
+                  <div key={pair.key} className="bg-black/20 rounded-xl p-3 border border-white/10">
+                    <div className="flex items-center justify-between mb-3">
+                      <p className="text-xs text-gray-400">
+                        Same amount, {pair.daysApart === 0 ? 'same day' : `${pair.daysApart} day${pair.daysApart === 1 ? '' : 's'} apart`}
+                      </p>
+                      <button
+                        onClick={() => dismissDuplicatePair(pair.key)}
+                        className="flex items-center space-x-1 text-xs text-gray-400 hover:text-white"
+                      >
+                        <X size={12} />
+                        <span>Not a duplicate</span>
+                      </button>
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      {[pair.first, pair.second].map(transaction => {
+                        const other = transaction.id === pair.first.id ? pair.second : pair.first;
+                        return (
+                          <div key={transaction.id} className="p-3 bg-black/20 rounded-lg border border-white/10">
+                            <p className="font-medium text-white truncate">{transaction.description}</p>
+                            <p className="text-sm text-gray-400">
+                              {transaction.category} • {format(transaction.date, 'MMM dd, yyyy')}
+                            </p>
+                            <p className={`text-sm font-semibold mb-3 ${
+                              transaction.type === 'transfer' ? 'text-blue-400'
+                                : transaction.type === 'income' ? 'text-success-400' : 'text-error-400'
+                            }`}>
+                              {transaction.type === 'transfer' ? '' : transaction.type === 'income' ? '+' : '-'}
+                              {formatCurrency(transaction.amount)}
+                            </p>
+                            <Button
+                              onClick={() => handleMergeDuplicate(pair.key, transaction.id, other.id)}
+                              size="sm"
+                              variant="outline"
+                              className="w-full"
+                              loading={mergingPair === pair.key}
+                              disabled={mergingPair !== null}
+                            >
+                              Keep this one
+                            </Button>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Bulk Actions */}
         {showBulkActions && (
           <div className="bg-black/20 backdrop-blur-md rounded-xl p-4 mb-6 border border-white/10">
@@ -312,11 +459,15 @@ export const TransactionHistory: React.FC = () => {
                 
                 <div className="flex items-center space-x-3 flex-1">
                   <div className={`p-2 rounded-lg ${
-                    transaction.type === 'income' 
+                    transaction.type === 'transfer'
+                      ? 'bg-blue-500/20'
+                      : transaction.type === 'income' 
                       ? 'bg-success-500/20' 
                       : 'bg-error-500/20'
                   }`}>
-                    {transaction.type === 'income' ? (
+                    {transaction.type === 'transfer' ? (
+                      <ArrowLeftRight size={16} className="text-blue-400" />
+                    ) : transaction.type === 'income' ? (
                       <TrendingUp size={16} className="text-success-400" />
                     ) : (
                       <TrendingDown size={16} className="text-error-400" />
@@ -325,9 +476,24 @@ export const TransactionHistory: React.FC = () => {
                   <div className="flex-1">
                     <p className="font-medium text-white">
                       {transaction.description}
+                      {suspectedDuplicateIds.has(transaction.id) && (
+                        <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-warning-500/20 text-warning-400">
+                          Possible duplicate
+                        </span>
+                      )}
+                      {transaction.isPending && (
+                        <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-blue-500/20 text-blue-400">
+                          Estimated
+                        </span>
+                      )}
                     </p>
                     <p className="text-sm text-gray-400">
                       {transaction.category} • {format(transaction.date, 'MMM dd, yyyy')}
+                      {transaction.type === 'transfer' ? (
+                        <> • {accountName(transaction.accountId)} → {accountName(transaction.transferAccountId)}</>
+                      ) : transaction.accountId && accountsById.has(transaction.accountId) && (
+                        <> • {accountsById.get(transaction.accountId)!.name}</>
+                      )}
                     </p>
                   </div>
                 </div>
@@ -335,16 +501,32 @@ export const TransactionHistory: React.FC = () => {
                 <div className="flex items-center space-x-3">
                   <div className="text-right">
                     <p className={`font-semibold ${
-                      transaction.type === 'income' 
+                      transaction.type === 'transfer'
+                        ? 'text-blue-400'
+                        : transaction.type === 'income' 
                         ? 'text-success-400' 
                         : 'text-error-400'
                     }`}>
-                      {transaction.type === 'income' ? '+' : '-'}
+                      {transaction.type === 'transfer' ? '' : transaction.type === 'income' ? '+' : '-'}
                       {formatCurrency(transaction.amount)}
                     </p>
-                    <p className="text-xs text-gray-500">
-                      {format(transaction.date, 'h:mm a')}
-                    </p>
+                    {isForeignCurrency(transaction) && (
+                      <p
+                        className="text-xs text-gray-400"
+                        title={`Rate on ${format(transaction.date, 'MMM dd, yyyy')}: ${transaction.exchangeRate}`}
+                      >
+                        {transaction.originalAmount!.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} {transaction.originalCurrency}
+                      </p>
+                    )}
+                    {runningBalanceFor(transaction) !== undefined ? (
+                      <p className="text-xs text-gray-500" title="Account balance after this transaction">
+                        Bal. {formatCurrency(runningBalanceFor(transaction)!)}
+                      </p>
+                    ) : (
+                      <p className="text-xs text-gray-500">
+                        {format(transaction.date, 'h:mm a')}
+                      </p>
+                    )}
                   </div>
                   
                   {!showBulkActions && (
@@ -411,9 +593,22 @@ export const TransactionHistory: React.FC = () => {
           setShowEditModal(false);
           setEditingTransaction(null);
         }}
-        title="Edit Transaction"
+        title={editingTransaction?.type === 'transfer' ? 'Edit Transfer' : 'Edit Transaction'}
       >
-        {editingTransaction && (
+        {editingTransaction?.type === 'transfer' ? (
+          <TransferForm
+            initialData={editingTransaction}
+            onSubmit={async (data) => {
+              await updateTransaction(editingTransaction.id, data);
+              setShowEditModal(false);
+              setEditingTransaction(null);
+            }}
+            onCancel={() => {
+              setShowEditModal(false);
+              setEditingTransaction(null);
+            }}
+          />
+        ) : editingTransaction && (
           <TransactionForm
             initialData={editingTransaction}
             onSubmit={handleEditTransaction}
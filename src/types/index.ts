@@ -8,7 +8,7 @@ export interface User {
 
 export interface Transaction {
   id: string;
-  type: 'income' | 'expense';
+  type: 'income' | 'expense' | 'transfer';
   amount: number;
   category: string;
   description: string;
@@ -16,6 +16,24 @@ export interface Transaction {
   userId: string;
   recurringTransactionId?: string; // Link to parent recurring transaction
   parentTransactionId?: string; // Link to parent transaction (for split transactions)
+  externalId?: string; // Identifier from an imported bank statement (OFX FITID or QIF hash)
+  accountId?: string; // Account the money moved in or out of (the source for transfers)
+  transferAccountId?: string; // Destination account when type is 'transfer'
+  originalCurrency?: string; // Currency the transaction was made in, when not the base currency
+  originalAmount?: number; // Amount in originalCurrency; `amount` holds the base-currency value
+  exchangeRate?: number; // originalCurrency → base currency rate on the transaction date
+  isPending?: boolean; // Generated from a variable recurring bill with an estimated amount; awaiting the actual amount
+}
+
+export interface Account {
+  id: string;
+  name: string;
+  type: 'checking' | 'savings' | 'cash' | 'credit_card' | 'investment';
+  openingBalance: number; // Balance before the first tracked transaction; negative for card debt
+  currency: string;
+  isArchived: boolean;
+  userId: string;
+  createdAt: Date;
 }
 
 export interface RecurringTransaction {
@@ -38,6 +56,35 @@ export interface RecurringTransaction {
   monthOfYear?: number; // For yearly (1-12)
   maxOccurrences?: number; // Optional limit on total occurrences
   currentOccurrences: number; // Track how many times it has occurred
+  rrule?: string; // RFC 5545 rule; when set it defines the schedule and frequency is its FREQ
+  isVariable?: boolean; // Amount changes each time; `amount` is only the fallback estimate
+  estimateWindow?: number; // Confirmed occurrences averaged for the estimate of a variable amount
+}
+
+// Change to a single occurrence of a recurring transaction, keyed by the date
+// it was scheduled for
+export interface RecurringException {
+  id: string;
+  recurringTransactionId: string;
+  occurrenceDate: Date;
+  isSkipped: boolean;
+  newDate?: Date; // Create the occurrence on this date instead
+  amount?: number; // Create the occurrence with this amount instead
+  processedAt?: Date; // Set once processing has acted on it
+  userId: string;
+}
+
+// An occurrence that has not been created yet, with its exception applied
+export interface ScheduledOccurrence {
+  recurringTransactionId: string;
+  scheduledDate: Date;
+  date: Date;
+  amount: number;
+  type: 'income' | 'expense';
+  category: string;
+  description: string;
+  isSkipped: boolean;
+  exception?: RecurringException;
 }
 
 export interface Goal {
@@ -45,9 +92,70 @@ export interface Goal {
   title: string;
   description: string;
   targetAmount: number;
-  currentAmount: number;
+  currentAmount: number; // Sum of the goal's contributions and those of its sub-goals
+  ownAmount: number; // Sum of the goal's own contributions
   targetDate: Date;
   category: string;
+  parentGoalId?: string; // Set on a sub-goal, whose savings count towards the parent
+  subGoalIds: string[];
+  milestones: GoalMilestone[]; // Smallest amount first
+  userId: string;
+  createdAt: Date;
+}
+
+// A goal as entered, with the amount already saved towards the goal itself
+export type GoalInput = Omit<Goal, 'id' | 'userId' | 'createdAt' | 'ownAmount' | 'subGoalIds' | 'milestones'> & {
+  milestones?: GoalMilestoneDraft[];
+};
+
+// A checkpoint on the way to a goal, reached once the goal's saved amount,
+// sub-goals included, first gets there
+export interface GoalMilestone {
+  id: string;
+  goalId: string;
+  title?: string;
+  amount: number;
+  targetDate?: Date;
+  reachedAt?: Date;
+  readAt?: Date;
+  userId: string;
+  createdAt: Date;
+}
+
+// A milestone as edited in the goal form; one without an id is new
+export interface GoalMilestoneDraft {
+  id?: string;
+  title?: string;
+  amount: number;
+  targetDate?: Date;
+}
+
+// Money added to (positive) or withdrawn from (negative) a goal
+export interface GoalContribution {
+  id: string;
+  goalId: string;
+  amount: number;
+  date: Date;
+  note?: string;
+  transactionId?: string; // Transaction recorded alongside, or the income a rule funded it from
+  fundingRuleId?: string; // Set when a funding rule made the contribution
+  budgetPeriodId?: string; // Budget period whose leftover funded it
+  userId: string;
+  createdAt: Date;
+}
+
+// Moves money into a goal automatically: a share of every income transaction,
+// or of what is left of a budget when its period ends. Rules run in priority
+// order, lowest first, each taking no more than is left and its goal needs.
+export interface GoalFundingRule {
+  id: string;
+  goalId: string;
+  source: 'income' | 'budget_leftover';
+  amountType: 'percent' | 'fixed';
+  amount: number;
+  category?: string; // Income rules only: fund from income in this category
+  priority: number;
+  isActive: boolean;
   userId: string;
   createdAt: Date;
 }
@@ -67,12 +175,97 @@ export interface Liability {
   linkedPurchaseId?: string;
 }
 
+// A payment towards a liability, split into interest accrued since the
+// previous payment and the principal that reduced the balance
+export interface LiabilityPayment {
+  id: string;
+  liabilityId: string;
+  date: Date;
+  amount: number; // principal + interest
+  principal: number;
+  interest: number;
+  balanceAfter: number;
+  note?: string;
+  transactionId?: string; // The expense recorded with the payment
+  userId: string;
+  createdAt: Date;
+}
+
 export interface Budget {
   id: string;
-  category: string;
+  category: string; // The budget's name; the category itself for single-category budgets
+  categories: string[]; // Expense categories the budget covers
   amount: number;
+  spent: number; // Expenses in the categories during the current period, derived from transactions
+  period: 'weekly' | 'monthly' | 'yearly' | 'custom';
+  startDate?: Date; // Custom period only
+  endDate?: Date; // Custom period only
+  userId: string;
+  createdAt: Date;
+  periodStart?: Date;
+  periodEnd?: Date;
+  rollover?: boolean; // Carry each period's remaining (or overspent) amount into the next
+  carriedOver?: number; // Carried into the current period, derived from the last recorded one
+  alertThresholds?: number[]; // Utilization percentages that raise an alert
+  paceAlerts?: boolean; // Warn when spending is on pace to exceed the budget
+}
+
+// The recorded outcome of a budget period that has ended
+export interface BudgetPeriod {
+  id: string;
+  budgetId: string;
+  periodStart: Date;
+  periodEnd: Date;
+  budgeted: number;
   spent: number;
-  period: 'weekly' | 'monthly' | 'yearly';
+  carriedIn: number;
+  remaining: number; // budgeted + carriedIn - spent
+  userId: string;
+}
+
+// Raised once per budget period when a threshold is crossed, or when spending
+// so far is on pace to exceed the budget by the end of the period
+export interface BudgetAlert {
+  id: string;
+  budgetId: string;
+  periodStart: Date;
+  kind: 'threshold' | 'pace';
+  threshold: number; // 100 for pace alerts
+  utilization: number;
+  projectedUtilization?: number; // Pace alerts only
+  readAt?: Date;
+  dismissedAt?: Date; // Hidden from notifications, kept so it is not raised again
+  userId: string;
+  createdAt: Date;
+}
+
+// A budget still to be created, as suggested by a generator or kept in a template
+export interface BudgetDraft {
+  category: string; // The budget's name
+  categories: string[];
+  amount: number;
+  period: Exclude<Budget['period'], 'custom'>;
+  rollover?: boolean;
+}
+
+// A saved set of budgets that can be created again in one go
+export interface BudgetTemplate {
+  id: string;
+  name: string;
+  items: BudgetDraft[];
+  userId: string;
+  createdAt: Date;
+}
+
+// Money assigned to, moved between or taken back from envelopes in a month.
+// A missing budget id stands for the month's income still to be assigned.
+export interface EnvelopeTransfer {
+  id: string;
+  month: Date; // First day of the month
+  fromBudgetId?: string;
+  toBudgetId?: string;
+  amount: number;
+  note?: string;
   userId: string;
   createdAt: Date;
 }
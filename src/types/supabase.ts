@@ -15,6 +15,7 @@ export interface Database {
           email: string
           name: string
           avatar_url: string | null
+          base_currency: string | null
           created_at: string
           updated_at: string
         }
@@ -23,6 +24,7 @@ export interface Database {
           email: string
           name: string
           avatar_url?: string | null
+          base_currency?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -31,6 +33,7 @@ export interface Database {
           email?: string
           name?: string
           avatar_url?: string | null
+          base_currency?: string | null
           updated_at?: string
         }
       }
@@ -38,7 +41,7 @@ export interface Database {
         Row: {
           id: string
           user_id: string
-          type: 'income' | 'expense'
+          type: 'income' | 'expense' | 'transfer'
           amount: number
           category: string
           description: string
@@ -46,11 +49,19 @@ export interface Database {
           created_at: string
           updated_at: string
           recurring_transaction_id: string | null
+          external_id: string | null
+          account_id: string | null
+          transfer_account_id: string | null
+          original_currency: string | null
+          original_amount: number | null
+          exchange_rate: number | null
+          occurrence_date: string | null
+          is_pending: boolean
         }
         Insert: {
           id?: string
           user_id: string
-          type: 'income' | 'expense'
+          type: 'income' | 'expense' | 'transfer'
           amount: number
           category: string
           description: string
@@ -58,17 +69,67 @@ export interface Database {
           created_at?: string
           updated_at?: string
           recurring_transaction_id?: string | null
+          external_id?: string | null
+          account_id?: string | null
+          transfer_account_id?: string | null
+          original_currency?: string | null
+          original_amount?: number | null
+          exchange_rate?: number | null
+          occurrence_date?: string | null
+          is_pending?: boolean
         }
         Update: {
           id?: string
           user_id?: string
-          type?: 'income' | 'expense'
+          type?: 'income' | 'expense' | 'transfer'
           amount?: number
           category?: string
           description?: string
           date?: string
           updated_at?: string
           recurring_transaction_id?: string | null
+          external_id?: string | null
+          account_id?: string | null
+          transfer_account_id?: string | null
+          original_currency?: string | null
+          original_amount?: number | null
+          exchange_rate?: number | null
+          occurrence_date?: string | null
+          is_pending?: boolean
+        }
+      }
+      accounts: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          type: 'checking' | 'savings' | 'cash' | 'credit_card' | 'investment'
+          opening_balance: number
+          currency: string
+          is_archived: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          type: 'checking' | 'savings' | 'cash' | 'credit_card' | 'investment'
+          opening_balance?: number
+          currency?: string
+          is_archived?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          type?: 'checking' | 'savings' | 'cash' | 'credit_card' | 'investment'
+          opening_balance?: number
+          currency?: string
+          is_archived?: boolean
+          updated_at?: string
         }
       }
       goals: {
@@ -81,6 +142,7 @@ export interface Database {
           current_amount: number
           target_date: string
           category: string
+          parent_goal_id: string | null
           created_at: string
           updated_at: string
         }
@@ -93,6 +155,7 @@ export interface Database {
           current_amount?: number
           target_date: string
           category: string
+          parent_goal_id?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -105,6 +168,121 @@ export interface Database {
           current_amount?: number
           target_date?: string
           category?: string
+          parent_goal_id?: string | null
+          updated_at?: string
+        }
+      }
+      goal_contributions: {
+        Row: {
+          id: string
+          user_id: string
+          goal_id: string
+          amount: number
+          date: string
+          note: string | null
+          transaction_id: string | null
+          funding_rule_id: string | null
+          budget_period_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          goal_id: string
+          amount: number
+          date?: string
+          note?: string | null
+          transaction_id?: string | null
+          funding_rule_id?: string | null
+          budget_period_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          goal_id?: string
+          amount?: number
+          date?: string
+          note?: string | null
+          transaction_id?: string | null
+          funding_rule_id?: string | null
+          budget_period_id?: string | null
+        }
+      }
+      goal_funding_rules: {
+        Row: {
+          id: string
+          user_id: string
+          goal_id: string
+          source: 'income' | 'budget_leftover'
+          amount_type: 'percent' | 'fixed'
+          amount: number
+          category: string | null
+          priority: number
+          is_active: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          goal_id: string
+          source: 'income' | 'budget_leftover'
+          amount_type: 'percent' | 'fixed'
+          amount: number
+          category?: string | null
+          priority?: number
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          goal_id?: string
+          source?: 'income' | 'budget_leftover'
+          amount_type?: 'percent' | 'fixed'
+          amount?: number
+          category?: string | null
+          priority?: number
+          is_active?: boolean
+          updated_at?: string
+        }
+      }
+      goal_milestones: {
+        Row: {
+          id: string
+          user_id: string
+          goal_id: string
+          title: string | null
+          amount: number
+          target_date: string | null
+          reached_at: string | null
+          read_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          goal_id: string
+          title?: string | null
+          amount: number
+          target_date?: string | null
+          reached_at?: string | null
+          read_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          goal_id?: string
+          title?: string | null
+          amount?: number
+          target_date?: string | null
+          reached_at?: string | null
+          read_at?: string | null
           updated_at?: string
         }
       }
@@ -148,14 +326,59 @@ export interface Database {
           updated_at?: string
         }
       }
+      liability_payments: {
+        Row: {
+          id: string
+          user_id: string
+          liability_id: string
+          date: string
+          amount: number
+          principal: number
+          interest: number
+          balance_after: number
+          note: string | null
+          transaction_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          liability_id: string
+          date?: string
+          amount: number
+          principal: number
+          interest: number
+          balance_after: number
+          note?: string | null
+          transaction_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          liability_id?: string
+          date?: string
+          amount?: number
+          principal?: number
+          interest?: number
+          balance_after?: number
+          note?: string | null
+          transaction_id?: string | null
+        }
+      }
       budgets: {
         Row: {
           id: string
           user_id: string
           category: string
+          categories: string[]
           amount: number
-          spent: number
-          period: 'weekly' | 'monthly' | 'yearly'
+          period: 'weekly' | 'monthly' | 'yearly' | 'custom'
+          start_date: string | null
+          end_date: string | null
+          rollover: boolean
+          alert_thresholds: number[]
+          pace_alerts: boolean
           created_at: string
           updated_at: string
         }
@@ -163,9 +386,14 @@ export interface Database {
           id?: string
           user_id: string
           category: string
+          categories: string[]
           amount: number
-          spent?: number
-          period: 'weekly' | 'monthly' | 'yearly'
+          period: 'weekly' | 'monthly' | 'yearly' | 'custom'
+          start_date?: string | null
+          end_date?: string | null
+          rollover?: boolean
+          alert_thresholds?: number[]
+          pace_alerts?: boolean
           created_at?: string
           updated_at?: string
         }
@@ -173,9 +401,14 @@ export interface Database {
           id?: string
           user_id?: string
           category?: string
+          categories?: string[]
           amount?: number
-          spent?: number
-          period?: 'weekly' | 'monthly' | 'yearly'
+          period?: 'weekly' | 'monthly' | 'yearly' | 'custom'
+          start_date?: string | null
+          end_date?: string | null
+          rollover?: boolean
+          alert_thresholds?: number[]
+          pace_alerts?: boolean
           updated_at?: string
         }
       }
@@ -198,6 +431,9 @@ export interface Database {
           month_of_year: number | null
           max_occurrences: number | null
           current_occurrences: number
+          rrule: string | null
+          is_variable: boolean
+          estimate_window: number
           created_at: string
           updated_at: string
         }
@@ -219,6 +455,9 @@ export interface Database {
           month_of_year?: number | null
           max_occurrences?: number | null
           current_occurrences?: number
+          rrule?: string | null
+          is_variable?: boolean
+          estimate_window?: number
           created_at?: string
           updated_at?: string
         }
@@ -240,12 +479,282 @@ export interface Database {
           month_of_year?: number | null
           max_occurrences?: number | null
           current_occurrences?: number
+          rrule?: string | null
+          is_variable?: boolean
+          estimate_window?: number
+          updated_at?: string
+        }
+      }
+      currency_conversions: {
+        Row: {
+          id: string
+          user_id: string
+          from_currency: string
+          to_currency: string
+          rate: number
+          row_counts: Json
+          snapshot: Json
+          converted: Json | null
+          undone_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          from_currency: string
+          to_currency: string
+          rate: number
+          row_counts?: Json
+          snapshot?: Json
+          converted?: Json | null
+          undone_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          from_currency?: string
+          to_currency?: string
+          rate?: number
+          row_counts?: Json
+          snapshot?: Json
+          converted?: Json | null
+          undone_at?: string | null
+          created_at?: string
+        }
+      }
+      recurring_transaction_exceptions: {
+        Row: {
+          id: string
+          user_id: string
+          recurring_transaction_id: string
+          occurrence_date: string
+          is_skipped: boolean
+          new_date: string | null
+          amount: number | null
+          processed_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          recurring_transaction_id: string
+          occurrence_date: string
+          is_skipped?: boolean
+          new_date?: string | null
+          amount?: number | null
+          processed_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          recurring_transaction_id?: string
+          occurrence_date?: string
+          is_skipped?: boolean
+          new_date?: string | null
+          amount?: number | null
+          processed_at?: string | null
+          updated_at?: string
+        }
+      }
+      budget_periods: {
+        Row: {
+          id: string
+          user_id: string
+          budget_id: string
+          period_start: string
+          period_end: string
+          budgeted: number
+          spent: number
+          carried_in: number
+          remaining: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          budget_id: string
+          period_start: string
+          period_end: string
+          budgeted: number
+          spent?: number
+          carried_in?: number
+          remaining: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          budget_id?: string
+          period_start?: string
+          period_end?: string
+          budgeted?: number
+          spent?: number
+          carried_in?: number
+          remaining?: number
+          updated_at?: string
+        }
+      }
+      envelope_transfers: {
+        Row: {
+          id: string
+          user_id: string
+          month: string
+          from_budget_id: string | null
+          to_budget_id: string | null
+          amount: number
+          note: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          month: string
+          from_budget_id?: string | null
+          to_budget_id?: string | null
+          amount: number
+          note?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          month?: string
+          from_budget_id?: string | null
+          to_budget_id?: string | null
+          amount?: number
+          note?: string | null
+        }
+      }
+      budget_alerts: {
+        Row: {
+          id: string
+          user_id: string
+          budget_id: string
+          period_start: string
+          kind: 'threshold' | 'pace'
+          threshold: number
+          utilization: number
+          projected_utilization: number | null
+          read_at: string | null
+          dismissed_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          budget_id: string
+          period_start: string
+          kind: 'threshold' | 'pace'
+          threshold: number
+          utilization: number
+          projected_utilization?: number | null
+          read_at?: string | null
+          dismissed_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          budget_id?: string
+          period_start?: string
+          kind?: 'threshold' | 'pace'
+          threshold?: number
+          utilization?: number
+          projected_utilization?: number | null
+          read_at?: string | null
+          dismissed_at?: string | null
+        }
+      }
+      budget_templates: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          items: Json
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          items?: Json
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          items?: Json
           updated_at?: string
         }
       }
     }
     Functions: {
-      [_ in never]: never
+      convert_base_currency: {
+        Args: {
+          p_from_currency: string
+          p_to_currency: string
+          p_rate: number
+          p_dry_run?: boolean
+        }
+        Returns: Json
+      }
+      fund_goals_from_income: {
+        Args: {
+          p_transaction_id: string
+        }
+        Returns: {
+          id: string
+          user_id: string
+          goal_id: string
+          amount: number
+          date: string
+          note: string | null
+          transaction_id: string | null
+          funding_rule_id: string | null
+          budget_period_id: string | null
+          created_at: string
+        }[]
+      }
+      get_budget_spending: {
+        Args: {
+          p_as_of?: string
+        }
+        Returns: {
+          budget_id: string
+          period_start: string
+          period_end: string
+          spent: number
+        }[]
+      }
+      merge_duplicate_transactions: {
+        Args: {
+          p_keep_id: string
+          p_remove_id: string
+          p_updates?: Json
+        }
+        Returns: undefined
+      }
+      record_budget_periods: {
+        Args: {
+          p_as_of?: string
+        }
+        Returns: number
+      }
+      undo_currency_conversion: {
+        Args: {
+          p_conversion_id: string
+        }
+        Returns: Json
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,98 @@
+import { Account, Transaction } from '../types';
+import { amountInCurrency } from './currency';
+
+export const ACCOUNT_TYPE_LABELS: Record<Account['type'], string> = {
+  checking: 'Checking',
+  savings: 'Savings',
+  cash: 'Cash',
+  credit_card: 'Credit Card',
+  investment: 'Investment',
+};
+
+export interface AccountBalance {
+  account: Account;
+  balance: number;
+  transactionCount: number;
+}
+
+// Rate from the user's base currency to another currency
+export type RateFromBase = (currencyCode: string) => number;
+
+// How a transaction changes one account's balance, in the account's currency.
+// A transfer leaves its source account (accountId) and arrives in its
+// destination (transferAccountId).
+const signedAmountFor = (t: Transaction, account: Pick<Account, 'id' | 'currency'>, rateFromBase: RateFromBase) => {
+  const amount = amountInCurrency(t, account.currency, rateFromBase(account.currency));
+  if (t.type === 'transfer') {
+    if (t.transferAccountId === account.id) return amount;
+    return t.accountId === account.id ? -amount : 0;
+  }
+  if (t.accountId !== account.id) return 0;
+  return t.type === 'income' ? amount : -amount;
+};
+
+// Accounts whose balance a transaction moves
+const touchedAccounts = (t: Transaction): string[] =>
+  [t.accountId, t.type === 'transfer' ? t.transferAccountId : undefined]
+    .filter((id): id is string => !!id);
+
+// Split parts repeat their parent's money; only the parent moves the balance
+const affectsBalance = (t: Transaction) => touchedAccounts(t).length > 0 && !t.parentTransactionId;
+
+// Running balances are kept per account because a transfer has one on each side
+export const runningBalanceKey = (transactionId: string, accountId: string) => `${transactionId}:${accountId}`;
+
+// Oldest first. Transactions arrive newest first (by date, then creation),
+// so equal dates keep their reversed list order.
+const chronological = (transactions: Transaction[]) =>
+  transactions
+    .map((t, index) => ({ t, index }))
+    .sort((a, b) => a.t.date.getTime() - b.t.date.getTime() || b.index - a.index)
+    .map(({ t }) => t);
+
+export const calculateAccountBalances = (
+  accounts: Account[],
+  transactions: Transaction[],
+  rateFromBase: RateFromBase
+): AccountBalance[] =>
+  accounts.map(account => {
+    const own = transactions.filter(t => affectsBalance(t) && touchedAccounts(t).includes(account.id));
+    return {
+      account,
+      balance: own.reduce((sum, t) => sum + signedAmountFor(t, account, rateFromBase), Number(account.openingBalance) || 0),
+      transactionCount: own.length,
+    };
+  });
+
+// Balance of each account a transaction touches right after that
+// transaction, keyed by runningBalanceKey. Split parts show their parent's balance.
+export const calculateRunningBalances = (
+  accounts: Account[],
+  transactions: Transaction[],
+  rateFromBase: RateFromBase
+): Map<string, number> => {
+  const balances = new Map<string, number>();
+  const accountsById = new Map(accounts.map(a => [a.id, a]));
+  const current = new Map(accounts.map(a => [a.id, Number(a.openingBalance) || 0]));
+
+  chronological(transactions).forEach(t => {
+    if (!affectsBalance(t)) return;
+    touchedAccounts(t).forEach(accountId => {
+      const account = accountsById.get(accountId);
+      if (!account) return;
+      const balance = current.get(accountId)! + signedAmountFor(t, account, rateFromBase);
+      current.set(accountId, balance);
+      balances.set(runningBalanceKey(t.id, accountId), balance);
+    });
+  });
+
+  transactions.forEach(t => {
+    if (!t.parentTransactionId || !t.accountId) return;
+    const parentKey = runningBalanceKey(t.parentTransactionId, t.accountId);
+    if (balances.has(parentKey)) {
+      balances.set(runningBalanceKey(t.id, t.accountId), balances.get(parentKey)!);
+    }
+  });
+
+  return balances;
+};
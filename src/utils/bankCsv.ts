@@ -0,0 +1,198 @@
+import {
+  CsvRow,
+  StatementParseResult,
+  StatementRowError,
+  collectStatementRows,
+  parseCsvRows,
+  validateStatementRow,
+} from './dataImport';
+import { Transaction } from '../types';
+
+export const DATE_FORMATS = ['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY', 'DD.MM.YYYY', 'YYYY/MM/DD', 'DD-MM-YYYY'] as const;
+export type DateFormat = typeof DATE_FORMATS[number];
+
+export type DecimalSeparator = '.' | ',';
+export type CsvDelimiter = ',' | ';' | '\t';
+
+export interface CsvColumnMapping {
+  delimiter: CsvDelimiter;
+  hasHeader: boolean;
+  dateColumn: number;
+  descriptionColumn: number;
+  // 'single': one signed amount column (optionally with a type column);
+  // 'split': separate debit and credit columns
+  amountMode: 'single' | 'split';
+  amountColumn?: number;
+  typeColumn?: number;
+  debitColumn?: number;
+  creditColumn?: number;
+  categoryColumn?: number;
+  negativeIsExpense: boolean;
+  dateFormat: DateFormat;
+  decimalSeparator: DecimalSeparator;
+  defaultIncomeCategory: string;
+  defaultExpenseCategory: string;
+}
+
+export interface CsvMappingProfile {
+  id: string;
+  name: string;
+  mapping: CsvColumnMapping;
+  createdAt: string;
+}
+
+export type CsvRowError = StatementRowError;
+
+export const DEFAULT_CSV_MAPPING: CsvColumnMapping = {
+  delimiter: ',',
+  hasHeader: true,
+  dateColumn: 0,
+  descriptionColumn: 1,
+  amountMode: 'single',
+  amountColumn: 2,
+  negativeIsExpense: true,
+  dateFormat: 'YYYY-MM-DD',
+  decimalSeparator: '.',
+  defaultIncomeCategory: 'Other',
+  defaultExpenseCategory: 'Other',
+};
+
+// Pick the delimiter that splits the first line into the most columns
+export const detectDelimiter = (text: string): CsvDelimiter => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const candidates: CsvDelimiter[] = [',', ';', '\t'];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  , ',' as CsvDelimiter);
+};
+
+export const readCsvRows = (text: string, delimiter: CsvDelimiter): CsvRow[] =>
+  parseCsvRows(text, delimiter);
+
+// Best-effort column assignment from common bank header names
+export const guessMapping = (text: string): CsvColumnMapping => {
+  const delimiter = detectDelimiter(text);
+  const [header] = readCsvRows(text, delimiter);
+  const headers = (header?.cells ?? []).map(h => h.trim().toLowerCase());
+  const find = (pattern: RegExp) => {
+    const index = headers.findIndex(h => pattern.test(h));
+    return index >= 0 ? index : undefined;
+  };
+
+  const debitColumn = find(/debit|withdraw|paid out|money out/);
+  const creditColumn = find(/credit|deposit|paid in|money in/);
+  const amountColumn = find(/amount|value|sum/);
+  const split = amountColumn === undefined && debitColumn !== undefined && creditColumn !== undefined;
+
+  return {
+    ...DEFAULT_CSV_MAPPING,
+    delimiter,
+    dateColumn: find(/date|posted|booking/) ?? DEFAULT_CSV_MAPPING.dateColumn,
+    descriptionColumn: find(/desc|memo|narrative|details|payee|reference|text/) ?? DEFAULT_CSV_MAPPING.descriptionColumn,
+    amountMode: split ? 'split' : 'single',
+    amountColumn: split ? undefined : amountColumn ?? DEFAULT_CSV_MAPPING.amountColumn,
+    typeColumn: split ? undefined : find(/^type$|dr\/cr|cr\/dr|direction/),
+    debitColumn: split ? debitColumn : undefined,
+    creditColumn: split ? creditColumn : undefined,
+    categoryColumn: find(/category/),
+    decimalSeparator: delimiter === ';' ? ',' : '.',
+  };
+};
+
+// Dates are built in UTC so they serialise to the same calendar day the bank printed
+export const parseDateWithFormat = (value: string, format: DateFormat): Date | undefined => {
+  const parts = value.trim().match(/\d+/g);
+  if (!parts || parts.length < 3) return undefined;
+
+  const order = format.split(/[^A-Z]+/);
+  const get = (token: string) => Number(parts[order.indexOf(token)]);
+  let year = get('YYYY');
+  const month = get('MM');
+  const day = get('DD');
+  if (year < 100) year += 2000;
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return undefined;
+  }
+  return date;
+};
+
+// Handles currency symbols, thousands separators, trailing minus and (parentheses)
+export const parseAmount = (value: string, decimalSeparator: DecimalSeparator): number | undefined => {
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+
+  const negative = /^\(.*\)$/.test(trimmed) || /^-|-$/.test(trimmed.replace(/[^\d.,()-]/g, ''));
+  const thousands = decimalSeparator === ',' ? /[.\s']/g : /[,\s']/g;
+  const cleaned = trimmed
+    .replace(/[^\d.,\s']/g, '')
+    .replace(thousands, '')
+    .replace(decimalSeparator, '.');
+
+  if (!/^\d+(\.\d+)?$/.test(cleaned)) return undefined;
+  const amount = Number(cleaned);
+  return negative ? -amount : amount;
+};
+
+const INCOME_TYPE_PATTERN = /^(cr|credit|income|deposit|in)\b/i;
+const EXPENSE_TYPE_PATTERN = /^(dr|debit|expense|withdrawal|payment|out)\b/i;
+
+// Map a bank statement CSV to transactions. Every row is validated with
+// transactionSchema; rows that fail are reported and left out of the bundle.
+export const mapBankCsv = (text: string, mapping: CsvColumnMapping): StatementParseResult => {
+  const rows = readCsvRows(text, mapping.delimiter);
+  const dataRows = mapping.hasHeader ? rows.slice(1) : rows;
+
+  const cell = (row: CsvRow, column?: number) =>
+    column === undefined ? '' : (row.cells[column] ?? '').trim();
+
+  return collectStatementRows(dataRows.map(row => {
+    const messages: string[] = [];
+
+    const date = parseDateWithFormat(cell(row, mapping.dateColumn), mapping.dateFormat);
+    if (!date) messages.push(`Date "${cell(row, mapping.dateColumn)}" does not match ${mapping.dateFormat}`);
+
+    let type: Transaction['type'] | undefined;
+    let amount: number | undefined;
+
+    if (mapping.amountMode === 'split') {
+      const debit = parseAmount(cell(row, mapping.debitColumn), mapping.decimalSeparator);
+      const credit = parseAmount(cell(row, mapping.creditColumn), mapping.decimalSeparator);
+      if (debit) {
+        type = 'expense';
+        amount = Math.abs(debit);
+      } else if (credit) {
+        type = 'income';
+        amount = Math.abs(credit);
+      } else {
+        messages.push('No debit or credit amount');
+      }
+    } else {
+      const raw = cell(row, mapping.amountColumn);
+      const parsed = parseAmount(raw, mapping.decimalSeparator);
+      if (parsed === undefined) {
+        messages.push(`Amount "${raw}" is not a number`);
+      } else if (mapping.typeColumn !== undefined) {
+        const typeValue = cell(row, mapping.typeColumn);
+        if (INCOME_TYPE_PATTERN.test(typeValue)) type = 'income';
+        else if (EXPENSE_TYPE_PATTERN.test(typeValue)) type = 'expense';
+        else messages.push(`Unrecognised type "${typeValue}"`);
+        amount = Math.abs(parsed);
+      } else {
+        const isNegative = parsed < 0;
+        type = isNegative === mapping.negativeIsExpense ? 'expense' : 'income';
+        amount = Math.abs(parsed);
+      }
+    }
+
+    return validateStatementRow(row.line, {
+      type,
+      amount,
+      category: cell(row, mapping.categoryColumn)
+        || (type === 'income' ? mapping.defaultIncomeCategory : mapping.defaultExpenseCategory),
+      description: cell(row, mapping.descriptionColumn),
+      date,
+    }, messages);
+  }));
+};
@@ -0,0 +1,141 @@
+import { Budget, BudgetAlert, BudgetDraft } from '../types';
+import { roundCurrency } from './currency';
+
+// What can be spent in the current period: the budget amount plus whatever a
+// rollover budget carried over (negative after an overspent period)
+export const budgetAvailable = (budget: Pick<Budget, 'amount' | 'carriedOver'>) =>
+  budget.amount + (budget.carriedOver ?? 0);
+
+// Percentage of the available amount spent. A period that starts with nothing
+// available because of carried over overspending counts as used up.
+export const budgetUtilization = (spent: number, available: number) =>
+  available > 0 ? (spent / available) * 100 : 100;
+
+export const DEFAULT_ALERT_THRESHOLDS = [80, 100];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A pace warning this early in a period would mostly be noise
+const MIN_PACE_ELAPSED = 0.25;
+
+export type BudgetAlertDraft = Pick<
+  BudgetAlert,
+  'budgetId' | 'periodStart' | 'kind' | 'threshold' | 'utilization' | 'projectedUtilization'
+>;
+
+// Alerts the current period of each budget has earned and not raised yet.
+// Only the highest newly crossed threshold is raised; the ones below it count
+// as covered by it. A pace alert is raised when spending continued at the rate
+// so far would take the budget past its limit by the end of the period.
+export const evaluateBudgetAlerts = (
+  budgets: Budget[],
+  alerts: BudgetAlert[],
+  today: Date = new Date()
+): BudgetAlertDraft[] => {
+  const drafts: BudgetAlertDraft[] = [];
+
+  budgets.forEach(budget => {
+    const { periodStart, periodEnd } = budget;
+    if (!periodStart || !periodEnd || budget.spent <= 0) return;
+
+    const periodDays = Math.round((periodEnd.getTime() - periodStart.getTime()) / DAY_MS) + 1;
+    const elapsedDays = Math.floor((today.getTime() - periodStart.getTime()) / DAY_MS) + 1;
+    if (elapsedDays < 1 || elapsedDays > periodDays) return;
+
+    const utilization = roundCurrency(budgetUtilization(budget.spent, budgetAvailable(budget)));
+    const raised = alerts.filter(a =>
+      a.budgetId === budget.id && a.periodStart.getTime() === periodStart.getTime()
+    );
+
+    const crossed = (budget.alertThresholds ?? DEFAULT_ALERT_THRESHOLDS).filter(t => utilization >= t);
+    const highest = crossed.length > 0 ? Math.max(...crossed) : undefined;
+    if (highest !== undefined && !raised.some(a => a.kind === 'threshold' && a.threshold >= highest)) {
+      drafts.push({ budgetId: budget.id, periodStart, kind: 'threshold', threshold: highest, utilization });
+    }
+
+    const elapsed = elapsedDays / periodDays;
+    const projectedUtilization = roundCurrency(utilization / elapsed);
+    if (
+      budget.paceAlerts !== false &&
+      utilization < 100 &&
+      elapsed >= MIN_PACE_ELAPSED &&
+      elapsed < 1 &&
+      projectedUtilization >= 100 &&
+      !raised.some(a => a.kind === 'pace')
+    ) {
+      drafts.push({ budgetId: budget.id, periodStart, kind: 'pace', threshold: 100, utilization, projectedUtilization });
+    }
+  });
+
+  return drafts;
+};
+
+export const budgetAlertTitle = (alert: Pick<BudgetAlert, 'kind' | 'threshold'>) =>
+  alert.kind === 'pace' ? 'Spending Pace' : alert.threshold >= 100 ? 'Budget Exceeded' : 'Budget Alert';
+
+export const budgetAlertMessage = (
+  alert: Pick<BudgetAlert, 'kind' | 'threshold' | 'utilization' | 'projectedUtilization'>,
+  budgetName: string
+) => {
+  if (alert.kind === 'pace') {
+    return `At the current pace your ${budgetName} budget will end the period at ${(alert.projectedUtilization ?? 0).toFixed(0)}% of its limit.`;
+  }
+  return alert.threshold >= 100
+    ? `Your ${budgetName} budget is over its limit at ${alert.utilization.toFixed(0)}%.`
+    : `Your ${budgetName} budget has passed ${alert.threshold}% and is at ${alert.utilization.toFixed(0)}%.`;
+};
+
+export interface CategorySpending {
+  category: string;
+  amount: number;
+}
+
+// Monthly budgets at each category's average monthly spending, rounded up to a
+// whole amount, largest first
+export const suggestBudgetsFromSpending = (spending: CategorySpending[], months: number): BudgetDraft[] =>
+  spending
+    .map(s => ({
+      category: s.category,
+      categories: [s.category],
+      amount: Math.ceil(s.amount / Math.max(months, 1)),
+      period: 'monthly' as const,
+    }))
+    .filter(draft => draft.amount > 0)
+    .sort((a, b) => b.amount - a.amount);
+
+// Categories the 50/30/20 rule counts as needs; everything else is a want
+const NEEDS_KEYWORDS = [
+  'bill', 'rent', 'mortgage', 'housing', 'utilit', 'grocer', 'food', 'health', 'medical',
+  'insurance', 'transport', 'fuel', 'childcare', 'education', 'loan', 'debt',
+];
+
+export const isNeedsCategory = (category: string) => {
+  const name = category.toLowerCase();
+  return NEEDS_KEYWORDS.some(keyword => name.includes(keyword));
+};
+
+export interface FiftyThirtyTwentySplit {
+  needs: number;
+  wants: number;
+  savings: number; // Not budgeted: left for savings goals and paying down debt
+  drafts: BudgetDraft[];
+}
+
+// Half of the monthly income for needs and 30% for wants, each as one budget
+// covering its categories. The remaining 20% is for savings.
+export const fiftyThirtyTwenty = (monthlyIncome: number, categories: string[]): FiftyThirtyTwentySplit => {
+  const needs = roundCurrency(monthlyIncome * 0.5);
+  const wants = roundCurrency(monthlyIncome * 0.3);
+  const needsCategories = categories.filter(isNeedsCategory);
+  const wantsCategories = categories.filter(category => !isNeedsCategory(category));
+
+  const drafts: BudgetDraft[] = [];
+  if (needs > 0 && needsCategories.length > 0) {
+    drafts.push({ category: 'Needs', categories: needsCategories, amount: needs, period: 'monthly' });
+  }
+  if (wants > 0 && wantsCategories.length > 0) {
+    drafts.push({ category: 'Wants', categories: wantsCategories, amount: wants, period: 'monthly' });
+  }
+
+  return { needs, wants, savings: roundCurrency(monthlyIncome - needs - wants), drafts };
+};
@@ -0,0 +1,21 @@
+import { Transaction } from '../types';
+
+export const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+// True when the transaction was entered in a currency other than the base
+export const isForeignCurrency = (t: Pick<Transaction, 'originalCurrency' | 'originalAmount' | 'exchangeRate'>) =>
+  !!t.originalCurrency && t.originalAmount !== undefined && t.exchangeRate !== undefined;
+
+// Amount in the user's base currency. Foreign-currency transactions are
+// converted with the rate stored for their date, never today's rate.
+export const baseAmount = (t: Transaction): number =>
+  isForeignCurrency(t) ? roundCurrency(t.originalAmount! * t.exchangeRate!) : t.amount;
+
+// Amount in a given currency, for accounts held in something other than the
+// base currency. A transaction made in that currency keeps its original
+// amount; any other is converted from its base amount at `rateFromBase`
+// (base currency → currencyCode, 1 when currencyCode is the base).
+export const amountInCurrency = (t: Transaction, currencyCode: string, rateFromBase: number): number =>
+  isForeignCurrency(t) && t.originalCurrency === currencyCode
+    ? t.originalAmount!
+    : roundCurrency(baseAmount(t) * rateFromBase);
@@ -0,0 +1,600 @@
+import { Transaction, Goal, Liability, Budget, RecurringTransaction, UserCategory, Account } from '../types';
+import { transactionSchema } from './validation';
+
+// Entities restored by an import, in the order they must be written so that
+// foreign keys (accounts/recurring -> transactions -> liabilities) can be remapped.
+export const IMPORT_ENTITIES = [
+  'userCategories',
+  'accounts',
+  'recurringTransactions',
+  'transactions',
+  'goals',
+  'budgets',
+  'liabilities',
+] as const;
+
+export type ImportEntity = typeof IMPORT_ENTITIES[number];
+
+export const IMPORT_ENTITY_LABELS: Record<ImportEntity, string> = {
+  userCategories: 'Categories',
+  accounts: 'Accounts',
+  recurringTransactions: 'Recurring',
+  transactions: 'Transactions',
+  goals: 'Goals',
+  budgets: 'Budgets',
+  liabilities: 'Liabilities',
+};
+
+// Records keep the id they had in the exported file so references between
+// them can be rewritten to the newly created ids.
+export type ImportRecord<T> = Omit<T, 'userId'> & { id: string };
+
+export interface ImportBundle {
+  version: string;
+  exportDate?: Date;
+  transactions: ImportRecord<Transaction>[];
+  goals: ImportRecord<Goal>[];
+  liabilities: ImportRecord<Liability>[];
+  budgets: ImportRecord<Budget>[];
+  recurringTransactions: ImportRecord<RecurringTransaction>[];
+  userCategories: ImportRecord<UserCategory>[];
+  accounts: ImportRecord<Account>[];
+}
+
+export interface ImportEntityPreview {
+  total: number;
+  new: number;
+  duplicates: number;
+  invalid: number;
+}
+
+export type ImportFormat = 'json' | 'csv' | 'ofx' | 'qif';
+
+export interface ImportPreview {
+  format: ImportFormat;
+  version: string;
+  exportDate?: Date;
+  entities: Record<ImportEntity, ImportEntityPreview>;
+  warnings: string[];
+}
+
+export interface ImportEntitySummary {
+  created: number;
+  skipped: number;
+  failed: number;
+  errors: string[];
+}
+
+export type ImportSummary = Record<ImportEntity, ImportEntitySummary>;
+
+export const SUPPORTED_EXPORT_VERSIONS = ['1.0'];
+
+export const createEmptyBundle = (): ImportBundle => ({
+  version: '1.0',
+  transactions: [],
+  goals: [],
+  liabilities: [],
+  budgets: [],
+  recurringTransactions: [],
+  userCategories: [],
+  accounts: [],
+});
+
+export const createEmptySummary = (): ImportSummary =>
+  IMPORT_ENTITIES.reduce((acc, entity) => {
+    acc[entity] = { created: 0, skipped: 0, failed: 0, errors: [] };
+    return acc;
+  }, {} as ImportSummary);
+
+// Exported state objects are Supabase rows spread with a few camelCase
+// conveniences, so each field may appear under either naming convention.
+const pick = (raw: Record<string, unknown>, camel: string, snake?: string): unknown => {
+  if (raw[camel] !== undefined && raw[camel] !== null) return raw[camel];
+  if (snake && raw[snake] !== undefined && raw[snake] !== null) return raw[snake];
+  return undefined;
+};
+
+const toDate = (val: unknown): Date | undefined => {
+  if (val === undefined || val === null || val === '') return undefined;
+  const date = new Date(val as string);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+const toAmount = (val: unknown): number => {
+  const num = Number(val);
+  return isNaN(num) ? 0 : num;
+};
+
+const asArray = (val: unknown): Record<string, unknown>[] =>
+  Array.isArray(val) ? val.filter(v => v && typeof v === 'object') : [];
+
+const toOptionalString = (val: unknown): string | undefined =>
+  val === undefined || val === null || val === '' ? undefined : String(val);
+
+const toOptionalNumber = (val: unknown): number | undefined => {
+  if (val === undefined || val === null || val === '') return undefined;
+  const num = Number(val);
+  return isNaN(num) ? undefined : num;
+};
+
+// Whole percentages such as budget alert thresholds; anything else is dropped
+const toPercentages = (val: unknown): number[] | undefined =>
+  Array.isArray(val)
+    ? val.map(Number).filter(num => Number.isInteger(num) && num >= 1 && num <= 1000)
+    : undefined;
+
+const oneOf = <T extends string>(val: unknown, allowed: readonly T[], fallback: T): T =>
+  allowed.includes(val as T) ? (val as T) : fallback;
+
+const fallbackId = (prefix: string, index: number) => `${prefix}-${index}`;
+
+export const dateKey = (date: Date): string => date.toISOString().split('T')[0];
+
+// Original currency, amount and rate are kept only when all three are present
+const normaliseCurrencyFields = (raw: Record<string, unknown>): Pick<Transaction, 'originalCurrency' | 'originalAmount' | 'exchangeRate'> => {
+  const originalCurrency = toOptionalString(pick(raw, 'originalCurrency', 'original_currency'));
+  const originalAmount = toOptionalNumber(pick(raw, 'originalAmount', 'original_amount'));
+  const exchangeRate = toOptionalNumber(pick(raw, 'exchangeRate', 'exchange_rate'));
+  if (!originalCurrency || originalAmount === undefined || !exchangeRate || exchangeRate <= 0) return {};
+  return { originalCurrency, originalAmount, exchangeRate };
+};
+
+const normaliseTransaction = (raw: Record<string, unknown>, index: number): ImportRecord<Transaction> => ({
+  id: String(raw.id ?? fallbackId('transaction', index)),
+  type: oneOf(raw.type, ['income', 'expense', 'transfer'] as const, 'expense'),
+  amount: toAmount(raw.amount),
+  category: String(raw.category ?? 'Other'),
+  description: String(raw.description ?? ''),
+  date: toDate(raw.date) ?? new Date(NaN),
+  recurringTransactionId: toOptionalString(pick(raw, 'recurringTransactionId', 'recurring_transaction_id')),
+  parentTransactionId: toOptionalString(pick(raw, 'parentTransactionId', 'parent_transaction_id')),
+  externalId: toOptionalString(pick(raw, 'externalId', 'external_id')),
+  accountId: toOptionalString(pick(raw, 'accountId', 'account_id')),
+  transferAccountId: toOptionalString(pick(raw, 'transferAccountId', 'transfer_account_id')),
+  ...normaliseCurrencyFields(raw),
+  isPending: pick(raw, 'isPending', 'is_pending') === true,
+});
+
+const normaliseGoal = (raw: Record<string, unknown>, index: number): ImportRecord<Goal> => ({
+  id: String(raw.id ?? fallbackId('goal', index)),
+  title: String(raw.title ?? ''),
+  description: String(raw.description ?? ''),
+  targetAmount: toAmount(pick(raw, 'targetAmount', 'target_amount')),
+  currentAmount: toAmount(pick(raw, 'currentAmount', 'current_amount')),
+  // Exports before sub-goals only have the goal's own saved amount
+  ownAmount: toAmount(pick(raw, 'ownAmount', 'current_amount') ?? raw.currentAmount),
+  targetDate: toDate(pick(raw, 'targetDate', 'target_date')) ?? new Date(NaN),
+  category: String(raw.category ?? 'Other'),
+  // Sub-goals and milestones are not imported
+  subGoalIds: [],
+  milestones: [],
+  createdAt: toDate(pick(raw, 'createdAt', 'created_at')) ?? new Date(),
+});
+
+const normaliseLiability = (raw: Record<string, unknown>, index: number): ImportRecord<Liability> => ({
+  id: String(raw.id ?? fallbackId('liability', index)),
+  name: String(raw.name ?? ''),
+  type: oneOf(raw.type, ['loan', 'credit_card', 'mortgage', 'purchase', 'other'] as const, 'other'),
+  totalAmount: toAmount(pick(raw, 'totalAmount', 'total_amount')),
+  remainingAmount: toAmount(pick(raw, 'remainingAmount', 'remaining_amount')),
+  interestRate: toAmount(pick(raw, 'interestRate', 'interest_rate')),
+  monthlyPayment: toAmount(pick(raw, 'monthlyPayment', 'monthly_payment')),
+  due_date: toDate(pick(raw, 'due_date', 'dueDate')) ?? new Date(NaN),
+  start_date: toDate(pick(raw, 'start_date', 'startDate')) ?? new Date(),
+  createdAt: toDate(pick(raw, 'createdAt', 'created_at')) ?? new Date(),
+  linkedPurchaseId: toOptionalString(pick(raw, 'linkedPurchaseId', 'linked_purchase_id')),
+});
+
+const normaliseBudget = (raw: Record<string, unknown>, index: number): ImportRecord<Budget> => ({
+  id: String(raw.id ?? fallbackId('budget', index)),
+  category: String(raw.category ?? ''),
+  categories: Array.isArray(raw.categories) && raw.categories.length > 0
+    ? raw.categories.map(String)
+    : [String(raw.category ?? '')],
+  amount: toAmount(raw.amount),
+  spent: toAmount(raw.spent),
+  period: oneOf(raw.period, ['weekly', 'monthly', 'yearly', 'custom'] as const, 'monthly'),
+  startDate: toDate(pick(raw, 'startDate', 'start_date')),
+  endDate: toDate(pick(raw, 'endDate', 'end_date')),
+  rollover: raw.rollover === true,
+  alertThresholds: toPercentages(pick(raw, 'alertThresholds', 'alert_thresholds')),
+  paceAlerts: pick(raw, 'paceAlerts', 'pace_alerts') !== false,
+  createdAt: toDate(pick(raw, 'createdAt', 'created_at')) ?? new Date(),
+});
+
+const normaliseRecurring = (raw: Record<string, unknown>, index: number): ImportRecord<RecurringTransaction> => ({
+  id: String(raw.id ?? fallbackId('recurring', index)),
+  type: raw.type === 'income' ? 'income' : 'expense',
+  amount: toAmount(raw.amount),
+  category: String(raw.category ?? 'Other'),
+  description: String(raw.description ?? ''),
+  frequency: oneOf(raw.frequency, ['daily', 'weekly', 'monthly', 'yearly'] as const, 'monthly'),
+  startDate: toDate(pick(raw, 'startDate', 'start_date')) ?? new Date(NaN),
+  endDate: toDate(pick(raw, 'endDate', 'end_date')),
+  nextOccurrenceDate: toDate(pick(raw, 'nextOccurrenceDate', 'next_occurrence_date')) ?? new Date(NaN),
+  lastProcessedDate: toDate(pick(raw, 'lastProcessedDate', 'last_processed_date')),
+  isActive: pick(raw, 'isActive', 'is_active') !== false,
+  createdAt: toDate(pick(raw, 'createdAt', 'created_at')) ?? new Date(),
+  dayOfWeek: toOptionalNumber(pick(raw, 'dayOfWeek', 'day_of_week')),
+  dayOfMonth: toOptionalNumber(pick(raw, 'dayOfMonth', 'day_of_month')),
+  monthOfYear: toOptionalNumber(pick(raw, 'monthOfYear', 'month_of_year')),
+  maxOccurrences: toOptionalNumber(pick(raw, 'maxOccurrences', 'max_occurrences')),
+  currentOccurrences: toAmount(pick(raw, 'currentOccurrences', 'current_occurrences')),
+  rrule: pick(raw, 'rrule') ? String(pick(raw, 'rrule')) : undefined,
+  isVariable: pick(raw, 'isVariable', 'is_variable') === true,
+  estimateWindow: toOptionalNumber(pick(raw, 'estimateWindow', 'estimate_window')),
+});
+
+const normaliseCategory = (raw: Record<string, unknown>, index: number): ImportRecord<UserCategory> => ({
+  id: String(raw.id ?? fallbackId('category', index)),
+  name: String(raw.name ?? ''),
+  type: raw.type === 'income' ? 'income' : 'expense',
+  icon: toOptionalString(raw.icon),
+  color: toOptionalString(raw.color),
+  createdAt: toDate(pick(raw, 'createdAt', 'created_at')) ?? new Date(),
+  updatedAt: toDate(pick(raw, 'updatedAt', 'updated_at')) ?? new Date(),
+});
+
+const normaliseAccount = (raw: Record<string, unknown>, index: number): ImportRecord<Account> => ({
+  id: String(raw.id ?? fallbackId('account', index)),
+  name: String(raw.name ?? ''),
+  type: oneOf(raw.type, ['checking', 'savings', 'cash', 'credit_card', 'investment'] as const, 'checking'),
+  openingBalance: toAmount(pick(raw, 'openingBalance', 'opening_balance')),
+  currency: String(raw.currency ?? 'USD'),
+  isArchived: pick(raw, 'isArchived', 'is_archived') === true,
+  createdAt: toDate(pick(raw, 'createdAt', 'created_at')) ?? new Date(),
+});
+
+// Parse the JSON document produced by FinanceContext.exportData('json')
+export const parseExportJson = (text: string): ImportBundle => {
+  let raw: Record<string, unknown>;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('The file does not look like a Finspire export');
+  }
+
+  const version = String(raw.version ?? '');
+  if (!SUPPORTED_EXPORT_VERSIONS.includes(version)) {
+    throw new Error(`Unsupported export version "${version || 'unknown'}"`);
+  }
+
+  return {
+    version,
+    exportDate: toDate(raw.exportDate),
+    transactions: asArray(raw.transactions).map(normaliseTransaction),
+    goals: asArray(raw.goals).map(normaliseGoal),
+    liabilities: asArray(raw.liabilities).map(normaliseLiability),
+    budgets: asArray(raw.budgets).map(normaliseBudget),
+    recurringTransactions: asArray(raw.recurringTransactions).map(normaliseRecurring),
+    userCategories: asArray(raw.userCategories).map(normaliseCategory),
+    accounts: asArray(raw.accounts).map(normaliseAccount),
+  };
+};
+
+export interface CsvRow {
+  line: number;
+  cells: string[];
+}
+
+// RFC 4180 style CSV parsing: quoted fields, escaped quotes and embedded
+// newlines. Each row keeps the file line it started on for error reporting.
+export const parseCsvRows = (text: string, delimiter: string = ','): CsvRow[] => {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowStart = 1;
+
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push({ line: rowStart, cells: row });
+      row = [];
+      field = '';
+      line++;
+      rowStart = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push({ line: rowStart, cells: row });
+  }
+
+  return rows.filter(r => r.cells.some(cell => cell.trim() !== ''));
+};
+
+export const parseCsv = (text: string, delimiter: string = ','): string[][] =>
+  parseCsvRows(text, delimiter).map(r => r.cells);
+
+export const toCsvField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const EXPORT_CSV_HEADERS = ['Date', 'Type', 'Amount', 'Category', 'Description'];
+
+// Parse the transactions-only CSV produced by FinanceContext.exportData('csv')
+export const parseExportCsv = (text: string): ImportBundle => {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header) {
+    throw new Error('The CSV file is empty');
+  }
+
+  const columns = header.cells.map(h => h.trim().toLowerCase());
+  const missing = EXPORT_CSV_HEADERS.filter(h => !columns.includes(h.toLowerCase()));
+  if (missing.length > 0) {
+    throw new Error(`Missing CSV column(s): ${missing.join(', ')}`);
+  }
+
+  const col = (row: CsvRow, name: string) => (row.cells[columns.indexOf(name)] ?? '').trim();
+
+  return {
+    ...createEmptyBundle(),
+    transactions: rows.map((row, index) => normaliseTransaction({
+      id: fallbackId('line', row.line),
+      date: col(row, 'date'),
+      type: col(row, 'type').toLowerCase(),
+      amount: col(row, 'amount'),
+      category: col(row, 'category'),
+      description: col(row, 'description'),
+    }, index)),
+  };
+};
+
+// True when the CSV header row is the one written by exportData('csv')
+export const isExportCsv = (text: string): boolean => {
+  const [header] = parseCsvRows(text.split(/\r?\n/, 1)[0] ?? '');
+  if (!header) return false;
+  const columns = header.cells.map(h => h.trim().toLowerCase());
+  return EXPORT_CSV_HEADERS.every(h => columns.includes(h.toLowerCase()));
+};
+
+export const parseImportFile = (text: string, format: 'json' | 'csv'): ImportBundle =>
+  format === 'json' ? parseExportJson(text) : parseExportCsv(text);
+
+export interface StatementRowError {
+  line: number;
+  messages: string[];
+}
+
+// Transactions read from a bank statement (CSV, OFX/QFX or QIF)
+export interface StatementParseResult {
+  bundle: ImportBundle;
+  errors: StatementRowError[];
+  rowCount: number;
+}
+
+export interface StatementRowCandidate {
+  type?: Transaction['type'];
+  amount?: number;
+  category: string;
+  description: string;
+  date?: Date;
+  externalId?: string;
+}
+
+// Validate one statement row with transactionSchema. `messages` carries
+// problems the format parser already found (bad date, unreadable amount).
+export const validateStatementRow = (
+  line: number,
+  candidate: StatementRowCandidate,
+  messages: string[] = []
+): ImportRecord<Transaction> | StatementRowError => {
+  const result = transactionSchema.safeParse(candidate);
+  if (!result.success) {
+    result.error.errors.forEach(issue => {
+      // Missing type/amount were already explained by the parser
+      if (issue.code === 'invalid_type' && issue.received === 'undefined') return;
+      messages.push(`${issue.path.join('.') || 'row'}: ${issue.message}`);
+    });
+  }
+
+  if (!result.success || !candidate.date || messages.length > 0) {
+    return { line, messages: messages.length > 0 ? messages : ['Row could not be read'] };
+  }
+
+  return {
+    id: fallbackId('line', line),
+    ...result.data,
+    date: candidate.date,
+    externalId: candidate.externalId,
+  };
+};
+
+export const collectStatementRows = (
+  rows: Array<ImportRecord<Transaction> | StatementRowError>
+): StatementParseResult => {
+  const transactions: ImportRecord<Transaction>[] = [];
+  const errors: StatementRowError[] = [];
+  rows.forEach(row => {
+    if ('messages' in row) errors.push(row);
+    else transactions.push(row);
+  });
+  return { bundle: { ...createEmptyBundle(), transactions }, errors, rowCount: rows.length };
+};
+
+// Natural keys used to recognise records that already exist for the user
+export const transactionKey = (t: Pick<Transaction, 'type' | 'amount' | 'category' | 'description' | 'date'>) =>
+  [dateKey(t.date), t.type, Number(t.amount).toFixed(2), t.category.toLowerCase(), t.description.trim().toLowerCase()].join('|');
+
+export const goalKey = (g: Pick<Goal, 'title' | 'targetAmount'>) =>
+  [g.title.trim().toLowerCase(), Number(g.targetAmount).toFixed(2)].join('|');
+
+export const liabilityKey = (l: Pick<Liability, 'name' | 'type' | 'totalAmount'>) =>
+  [l.name.trim().toLowerCase(), l.type, Number(l.totalAmount).toFixed(2)].join('|');
+
+export const budgetKey = (b: Pick<Budget, 'category' | 'period' | 'startDate'>) =>
+  [b.category.toLowerCase(), b.period, ...(b.period === 'custom' && b.startDate ? [dateKey(b.startDate)] : [])].join('|');
+
+export const recurringKey = (r: Pick<RecurringTransaction, 'type' | 'amount' | 'description' | 'frequency' | 'startDate'>) =>
+  [r.type, Number(r.amount).toFixed(2), r.description.trim().toLowerCase(), r.frequency, dateKey(r.startDate)].join('|');
+
+export const categoryKey = (c: Pick<UserCategory, 'name' | 'type'>) =>
+  [c.name.trim().toLowerCase(), c.type].join('|');
+
+export const accountKey = (a: Pick<Account, 'name' | 'type'>) =>
+  [a.name.trim().toLowerCase(), a.type].join('|');
+
+export const isValidDate = (date: Date | undefined): date is Date =>
+  date instanceof Date && !isNaN(date.getTime());
+
+export interface PlannedRecord<T> {
+  record: ImportRecord<T>;
+  status: 'new' | 'duplicate' | 'invalid';
+  existingId?: string;
+  reason?: string;
+}
+
+export interface ImportPlan {
+  userCategories: PlannedRecord<UserCategory>[];
+  accounts: PlannedRecord<Account>[];
+  recurringTransactions: PlannedRecord<RecurringTransaction>[];
+  transactions: PlannedRecord<Transaction>[];
+  goals: PlannedRecord<Goal>[];
+  budgets: PlannedRecord<Budget>[];
+  liabilities: PlannedRecord<Liability>[];
+}
+
+export interface ExistingFinanceData {
+  transactions: Transaction[];
+  goals: Goal[];
+  liabilities: Liability[];
+  budgets: Budget[];
+  recurringTransactions: RecurringTransaction[];
+  userCategories: UserCategory[];
+  accounts: Account[];
+}
+
+// Count-based matching: two identical coffees on the same day in the file
+// are both kept unless the user already has two of them.
+const planEntity = <T extends { id: string }>(
+  records: ImportRecord<T>[],
+  existing: T[],
+  keyOf: (item: T | ImportRecord<T>) => string,
+  validate: (record: ImportRecord<T>) => string | undefined
+): PlannedRecord<T>[] => {
+  const available = new Map<string, string[]>();
+  existing.forEach(item => {
+    const key = keyOf(item);
+    available.set(key, [...(available.get(key) || []), item.id]);
+  });
+
+  return records.map(record => {
+    const reason = validate(record);
+    if (reason) return { record, status: 'invalid' as const, reason };
+
+    const matches = available.get(keyOf(record));
+    if (matches && matches.length > 0) {
+      return { record, status: 'duplicate' as const, existingId: matches.shift() };
+    }
+    return { record, status: 'new' as const };
+  });
+};
+
+const requireAmount = (amount: number, label: string) =>
+  amount > 0 ? undefined : `${label} must be greater than 0`;
+
+// Statement rows carry a stable external id, which is the only thing that
+// identifies them: re-importing an overlapping statement skips every row
+// already seen, while rows without one fall back to content matching.
+const planTransactions = (
+  records: ImportRecord<Transaction>[],
+  existing: Transaction[]
+): PlannedRecord<Transaction>[] => {
+  const validate = (t: ImportRecord<Transaction>) =>
+    requireAmount(t.amount, 'Amount') ??
+    (isValidDate(t.date) ? undefined : 'Invalid date') ??
+    (t.type !== 'transfer' || (t.accountId && t.transferAccountId && t.accountId !== t.transferAccountId)
+      ? undefined
+      : 'Transfer needs two different accounts');
+
+  const knownExternalIds = new Map<string, string | undefined>();
+  existing.forEach(t => {
+    if (t.externalId) knownExternalIds.set(t.externalId, t.id);
+  });
+
+  const byContent = planEntity(records.filter(t => !t.externalId), existing, transactionKey, validate);
+
+  return records.map(record => {
+    if (!record.externalId) return byContent.shift()!;
+
+    const reason = validate(record);
+    if (reason) return { record, status: 'invalid' as const, reason };
+
+    if (knownExternalIds.has(record.externalId)) {
+      return { record, status: 'duplicate' as const, existingId: knownExternalIds.get(record.externalId) };
+    }
+    knownExternalIds.set(record.externalId, undefined);
+    return { record, status: 'new' as const };
+  });
+};
+
+export const planImport = (bundle: ImportBundle, existing: ExistingFinanceData): ImportPlan => ({
+  userCategories: planEntity(bundle.userCategories, existing.userCategories, categoryKey,
+    c => (c.name.trim() ? undefined : 'Category name is missing')),
+  accounts: planEntity(bundle.accounts, existing.accounts, accountKey,
+    a => (a.name.trim() ? undefined : 'Account name is missing')),
+  recurringTransactions: planEntity(bundle.recurringTransactions, existing.recurringTransactions, recurringKey,
+    r => requireAmount(r.amount, 'Amount')
+      ?? (isValidDate(r.startDate) && isValidDate(r.nextOccurrenceDate) ? undefined : 'Invalid start or next occurrence date')),
+  transactions: planTransactions(bundle.transactions, existing.transactions),
+  goals: planEntity(bundle.goals, existing.goals, goalKey,
+    g => requireAmount(g.targetAmount, 'Target amount') ?? (isValidDate(g.targetDate) ? undefined : 'Invalid target date')),
+  budgets: planEntity(bundle.budgets, existing.budgets, budgetKey,
+    b => requireAmount(b.amount, 'Budget amount') ?? (b.category ? undefined : 'Category is missing')
+      ?? (b.period !== 'custom' || (b.startDate && b.endDate) ? undefined : 'Custom period needs a start and end date')),
+  liabilities: planEntity(bundle.liabilities, existing.liabilities, liabilityKey,
+    l => requireAmount(l.totalAmount, 'Total amount') ?? (isValidDate(l.due_date) ? undefined : 'Invalid due date')),
+});
+
+export const describePlan = (plan: ImportPlan, bundle: ImportBundle, format: ImportFormat): ImportPreview => {
+  const warnings: string[] = [];
+  const entities = IMPORT_ENTITIES.reduce((acc, entity) => {
+    const planned: PlannedRecord<unknown>[] = plan[entity];
+    acc[entity] = {
+      total: planned.length,
+      new: planned.filter(p => p.status === 'new').length,
+      duplicates: planned.filter(p => p.status === 'duplicate').length,
+      invalid: planned.filter(p => p.status === 'invalid').length,
+    };
+    planned
+      .filter(p => p.status === 'invalid')
+      .slice(0, 5)
+      .forEach(p => warnings.push(`${IMPORT_ENTITY_LABELS[entity]} ${p.record.id}: ${p.reason}`));
+    return acc;
+  }, {} as Record<ImportEntity, ImportEntityPreview>);
+
+  return { format, version: bundle.version, exportDate: bundle.exportDate, entities, warnings };
+};
@@ -0,0 +1,156 @@
+import { Transaction } from '../types';
+
+export interface DuplicateDetectionOptions {
+  maxDaysApart: number;
+  minSimilarity: number;
+}
+
+export const DEFAULT_DUPLICATE_OPTIONS: DuplicateDetectionOptions = {
+  maxDaysApart: 3,
+  minSimilarity: 0.6,
+};
+
+// A pair of transactions that look like the same real-world payment.
+// `first` is the older entry (or the one added first on the same day).
+export interface DuplicatePair {
+  key: string;
+  first: Transaction;
+  second: Transaction;
+  daysApart: number;
+  similarity: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Order-independent id for a pair, used to remember dismissals
+export const duplicatePairKey = (idA: string, idB: string): string =>
+  [idA, idB].sort().join(':');
+
+// Bank descriptions carry card numbers, references and store ids that a
+// manually entered description never has, so compare letters only
+export const normalizeDescription = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const bigrams = (value: string) => {
+  const compact = value.replace(/\s/g, '');
+  const result: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) {
+    result.push(compact.slice(i, i + 2));
+  }
+  return result;
+};
+
+// Similarity between 0 and 1. A description contained in the other
+// ("Starbucks" in "POS STARBUCKS #4411 SEATTLE") counts as a full match;
+// otherwise the best of shared-word ratio and bigram Dice coefficient.
+export const descriptionSimilarity = (a: string, b: string): number => {
+  const left = normalizeDescription(a);
+  const right = normalizeDescription(b);
+  if (!left || !right) return left === right ? 1 : 0;
+  if (left === right || left.includes(right) || right.includes(left)) return 1;
+
+  const leftWords = new Set(left.split(' ').filter(w => w.length > 2));
+  const rightWords = new Set(right.split(' ').filter(w => w.length > 2));
+  const sharedWords = Array.from(leftWords).filter(w => rightWords.has(w)).length;
+  const smallerWordCount = Math.min(leftWords.size, rightWords.size);
+  const wordScore = smallerWordCount > 0 ? sharedWords / smallerWordCount : 0;
+
+  const leftBigrams = bigrams(left);
+  const rightBigrams = bigrams(right);
+  const remaining = [...rightBigrams];
+  let sharedBigrams = 0;
+  leftBigrams.forEach(gram => {
+    const index = remaining.indexOf(gram);
+    if (index !== -1) {
+      sharedBigrams++;
+      remaining.splice(index, 1);
+    }
+  });
+  const total = leftBigrams.length + rightBigrams.length;
+  const diceScore = total > 0 ? (2 * sharedBigrams) / total : 0;
+
+  return Math.max(wordScore, diceScore);
+};
+
+// Pairs that can never be the same payment even when they look alike
+const isExpectedRepeat = (a: Transaction, b: Transaction) =>
+  // Two lines of the same bank statement are distinct by definition
+  (!!a.externalId && !!b.externalId) ||
+  // A split part and the transaction it was split from
+  a.parentTransactionId === b.id ||
+  b.parentTransactionId === a.id ||
+  // Parts of the same split
+  (!!a.parentTransactionId && a.parentTransactionId === b.parentTransactionId) ||
+  // Occurrences generated from the same recurring transaction
+  (!!a.recurringTransactionId && a.recurringTransactionId === b.recurringTransactionId);
+
+// Find likely duplicates: same type and amount, dates within a few days and
+// similar descriptions. Dismissed pairs are left out. Newest pairs first.
+export const findDuplicateTransactions = (
+  transactions: Transaction[],
+  dismissedKeys: Iterable<string> = [],
+  options: DuplicateDetectionOptions = DEFAULT_DUPLICATE_OPTIONS
+): DuplicatePair[] => {
+  const dismissed = new Set(dismissedKeys);
+  const groups = new Map<string, Transaction[]>();
+
+  transactions.forEach(t => {
+    const groupKey = `${t.type}|${Math.round(Number(t.amount) * 100)}`;
+    const group = groups.get(groupKey);
+    if (group) {
+      group.push(t);
+    } else {
+      groups.set(groupKey, [t]);
+    }
+  });
+
+  const pairs: DuplicatePair[] = [];
+  const maxGapMs = options.maxDaysApart * DAY_MS;
+
+  groups.forEach(group => {
+    if (group.length < 2) return;
+    const sorted = [...group].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    for (let i = 0; i < sorted.length; i++) {
+      for (let j = i + 1; j < sorted.length; j++) {
+        const first = sorted[i];
+        const second = sorted[j];
+        const gapMs = second.date.getTime() - first.date.getTime();
+        if (gapMs > maxGapMs) break;
+        if (isExpectedRepeat(first, second)) continue;
+
+        const key = duplicatePairKey(first.id, second.id);
+        if (dismissed.has(key)) continue;
+
+        const similarity = descriptionSimilarity(first.description, second.description);
+        if (similarity < options.minSimilarity) continue;
+
+        pairs.push({ key, first, second, daysApart: Math.round(gapMs / DAY_MS), similarity });
+      }
+    }
+  });
+
+  return pairs.sort((a, b) => b.second.date.getTime() - a.second.date.getTime());
+};
+
+// Field values the surviving transaction takes over from the one merged
+// into it, so a manual entry keeps the statement link and vice versa
+export const mergedTransactionFields = (
+  kept: Transaction,
+  removed: Transaction
+): Partial<Pick<Transaction, 'externalId' | 'recurringTransactionId' | 'category' | 'description'>> => {
+  const updates: Partial<Pick<Transaction, 'externalId' | 'recurringTransactionId' | 'category' | 'description'>> = {};
+  if (!kept.externalId && removed.externalId) updates.externalId = removed.externalId;
+  if (!kept.recurringTransactionId && removed.recurringTransactionId) {
+    updates.recurringTransactionId = removed.recurringTransactionId;
+  }
+  if (kept.category === 'Other' && removed.category && removed.category !== 'Other') {
+    updates.category = removed.category;
+  }
+  if (!kept.description.trim() && removed.description.trim()) updates.description = removed.description;
+  return updates;
+};
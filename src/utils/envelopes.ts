@@ -0,0 +1,96 @@
+import { Budget, EnvelopeTransfer, Transaction } from '../types';
+import { baseAmount, roundCurrency } from './currency';
+
+export interface Envelope {
+  budget: Budget;
+  assigned: number; // Net amount assigned to the envelope this month
+  spent: number;
+  available: number; // assigned - spent, negative when overspent
+}
+
+// A month of envelope budgeting: the month's income is assigned to envelopes
+// until nothing is left to be assigned
+export interface EnvelopePlan {
+  month: Date;
+  income: number;
+  assigned: number;
+  toBeAssigned: number;
+  envelopes: Envelope[];
+  overspent: number; // Overspending not covered from another envelope yet
+}
+
+// First day of the month containing the date
+export const envelopeMonth = (date: Date) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+
+const inMonth = (date: Date, month: Date) =>
+  date.getUTCFullYear() === month.getUTCFullYear() && date.getUTCMonth() === month.getUTCMonth();
+
+export const buildEnvelopePlan = (
+  month: Date,
+  budgets: Budget[],
+  transactions: Transaction[],
+  transfers: EnvelopeTransfer[]
+): EnvelopePlan => {
+  const start = envelopeMonth(month);
+  const monthTransactions = transactions.filter(t => inMonth(t.date, start));
+
+  const assignedByBudget = new Map<string, number>();
+  transfers
+    .filter(transfer => inMonth(transfer.month, start))
+    .forEach(transfer => {
+      if (transfer.fromBudgetId) {
+        assignedByBudget.set(transfer.fromBudgetId, (assignedByBudget.get(transfer.fromBudgetId) ?? 0) - transfer.amount);
+      }
+      if (transfer.toBudgetId) {
+        assignedByBudget.set(transfer.toBudgetId, (assignedByBudget.get(transfer.toBudgetId) ?? 0) + transfer.amount);
+      }
+    });
+
+  // A custom-date budget spans its own range rather than a month, so it has
+  // no envelope
+  const envelopes = budgets.filter(budget => budget.period !== 'custom').map(budget => {
+    const assigned = roundCurrency(assignedByBudget.get(budget.id) ?? 0);
+    const spent = roundCurrency(monthTransactions
+      .filter(t => t.type === 'expense' && budget.categories.includes(t.category))
+      .reduce((sum, t) => sum + baseAmount(t), 0));
+    return { budget, assigned, spent, available: roundCurrency(assigned - spent) };
+  });
+
+  const income = roundCurrency(monthTransactions
+    .filter(t => t.type === 'income')
+    .reduce((sum, t) => sum + baseAmount(t), 0));
+  const assigned = roundCurrency(envelopes.reduce((sum, e) => sum + e.assigned, 0));
+
+  return {
+    month: start,
+    income,
+    assigned,
+    toBeAssigned: roundCurrency(income - assigned),
+    envelopes,
+    overspent: roundCurrency(envelopes.reduce((sum, e) => sum + Math.max(0, -e.available), 0)),
+  };
+};
+
+// What can be moved out of an envelope, or out of the money still to be
+// assigned when no budget is given
+export const envelopeBalance = (plan: EnvelopePlan, budgetId?: string) =>
+  budgetId
+    ? plan.envelopes.find(e => e.budget.id === budgetId)?.available ?? 0
+    : plan.toBeAssigned;
+
+// Assignments that bring each envelope up to its budget amount, in order,
+// for as long as there is money to be assigned
+export const envelopeTargetFill = (plan: EnvelopePlan): Array<{ budgetId: string; amount: number }> => {
+  let left = plan.toBeAssigned;
+  const fills: Array<{ budgetId: string; amount: number }> = [];
+
+  plan.envelopes.forEach(e => {
+    const amount = roundCurrency(Math.min(left, e.budget.amount - e.assigned));
+    if (amount <= 0) return;
+    fills.push({ budgetId: e.budget.id, amount });
+    left = roundCurrency(left - amount);
+  });
+
+  return fills;
+};
@@ -0,0 +1,145 @@
+import { Goal, GoalContribution, GoalMilestone } from '../types';
+import { roundCurrency } from './currency';
+
+// Months of contribution history the saving pace is averaged over
+export const GOAL_PACE_MONTHS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_MONTH = 365.25 / 12;
+
+// The furthest a projection chart looks ahead
+const MAX_PROJECTION_MONTHS = 60;
+
+export type GoalProjectionStatus = 'completed' | 'on_track' | 'behind' | 'unreachable' | 'overdue' | 'not_started';
+
+export interface GoalProjection {
+  remaining: number;
+  monthsRemaining: number; // Until the target date; 0 once it has passed
+  requiredMonthly: number; // Saving per month that reaches the target by the target date
+  monthlyPace?: number; // Net saved per month recently, unknown before anything was saved
+  projectedCompletion?: Date; // At the current pace, unknown when the pace never gets there
+  status: GoalProjectionStatus;
+}
+
+const utcDay = (date: Date) => Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+
+const monthStart = (date: Date, offset = 0) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + offset, 1));
+
+// Contributions to a goal or one of its sub-goals, which count towards it
+const ownContributions = (goal: Goal, contributions: GoalContribution[]) =>
+  contributions.filter(c => c.goalId === goal.id || goal.subGoalIds.includes(c.goalId));
+
+// Contributions after the day a goal was created. What it started with says
+// nothing about how fast it is being saved for.
+const savingContributions = (goal: Goal, contributions: GoalContribution[]) =>
+  ownContributions(goal, contributions).filter(c => c.date.getTime() > utcDay(goal.createdAt));
+
+// The saving needed to reach a goal on time and where the recent pace of
+// contributions will take it. A goal that is no longer being saved for, or is
+// being withdrawn from, will never be reached at its current pace.
+export const projectGoal = (
+  goal: Goal,
+  contributions: GoalContribution[],
+  today: Date = new Date()
+): GoalProjection => {
+  const todayDay = utcDay(today);
+  const remaining = roundCurrency(Math.max(goal.targetAmount - goal.currentAmount, 0));
+  const monthsRemaining = Math.max((utcDay(goal.targetDate) - todayDay) / DAY_MS / DAYS_PER_MONTH, 0);
+  const requiredMonthly = roundCurrency(remaining / Math.max(monthsRemaining, 1));
+
+  const saving = savingContributions(goal, contributions);
+  const windowStart = Math.max(
+    Date.UTC(today.getUTCFullYear(), today.getUTCMonth() - GOAL_PACE_MONTHS, today.getUTCDate()),
+    utcDay(goal.createdAt)
+  );
+  const windowMonths = Math.max((todayDay - windowStart) / DAY_MS / DAYS_PER_MONTH, 1);
+  const monthlyPace = saving.length > 0
+    ? roundCurrency(saving.filter(c => c.date.getTime() > windowStart).reduce((sum, c) => sum + c.amount, 0) / windowMonths)
+    : undefined;
+
+  const projectedCompletion = monthlyPace !== undefined && monthlyPace > 0
+    ? new Date(todayDay + Math.ceil((remaining / monthlyPace) * DAYS_PER_MONTH) * DAY_MS)
+    : undefined;
+
+  let status: GoalProjectionStatus;
+  if (remaining <= 0) {
+    status = 'completed';
+  } else if (utcDay(goal.targetDate) < todayDay) {
+    status = 'overdue';
+  } else if (monthlyPace === undefined) {
+    status = 'not_started';
+  } else if (!projectedCompletion) {
+    status = 'unreachable';
+  } else {
+    status = projectedCompletion.getTime() <= utcDay(goal.targetDate) ? 'on_track' : 'behind';
+  }
+
+  return { remaining, monthsRemaining, requiredMonthly, monthlyPace, projectedCompletion, status };
+};
+
+export interface GoalProjectionPoint {
+  month: Date; // First day of the month
+  saved?: number; // Saved by the end of the month, for months so far
+  projected?: number; // At the current pace, from this month on
+  required?: number; // On the way to the target by the target date
+}
+
+// Month by month: what was saved so far, then where the current pace and the
+// required saving take the goal, up to the later of its target date and its
+// projected completion
+export const goalProjectionSeries = (
+  goal: Goal,
+  contributions: GoalContribution[],
+  projection: GoalProjection,
+  today: Date = new Date(),
+  historyMonths = 12
+): GoalProjectionPoint[] => {
+  const own = ownContributions(goal, contributions);
+  const current = monthStart(today);
+  const firstContribution = own.reduce<Date | undefined>((first, c) => (!first || c.date < first ? c.date : first), undefined);
+  const first = monthStart(firstContribution && firstContribution < current ? firstContribution : current);
+  const historyOffset = -Math.min(
+    (current.getUTCFullYear() - first.getUTCFullYear()) * 12 + current.getUTCMonth() - first.getUTCMonth(),
+    historyMonths
+  );
+
+  const end = projection.projectedCompletion && projection.projectedCompletion > goal.targetDate
+    ? projection.projectedCompletion
+    : goal.targetDate;
+  const futureMonths = Math.min(
+    Math.max((end.getUTCFullYear() - current.getUTCFullYear()) * 12 + end.getUTCMonth() - current.getUTCMonth(), 0),
+    MAX_PROJECTION_MONTHS
+  );
+  const targetOffset = (goal.targetDate.getUTCFullYear() - current.getUTCFullYear()) * 12
+    + goal.targetDate.getUTCMonth() - current.getUTCMonth();
+
+  const points: GoalProjectionPoint[] = [];
+  for (let offset = historyOffset; offset <= futureMonths; offset++) {
+    const month = monthStart(today, offset);
+    const point: GoalProjectionPoint = { month };
+
+    if (offset <= 0) {
+      const next = monthStart(today, offset + 1).getTime();
+      point.saved = roundCurrency(own.filter(c => c.date.getTime() < next).reduce((sum, c) => sum + c.amount, 0));
+    }
+    if (offset >= 0 && projection.monthlyPace !== undefined) {
+      point.projected = roundCurrency(Math.min(Math.max(goal.currentAmount + projection.monthlyPace * offset, 0), goal.targetAmount));
+    }
+    if (offset >= 0 && offset <= Math.max(targetOffset, 0)) {
+      point.required = targetOffset > 0
+        ? roundCurrency(goal.currentAmount + (projection.remaining * offset) / targetOffset)
+        : goal.currentAmount;
+    }
+
+    points.push(point);
+  }
+
+  return points;
+};
+
+// How a reached milestone is announced
+export const goalMilestoneMessage = (milestone: Pick<GoalMilestone, 'title' | 'amount'>, goalTitle: string) =>
+  milestone.title
+    ? `${goalTitle} reached its "${milestone.title}" milestone of ${milestone.amount.toLocaleString()}.`
+    : `${goalTitle} reached its milestone of ${milestone.amount.toLocaleString()}.`;
@@ -0,0 +1,132 @@
+import { Liability, LiabilityPayment } from '../types';
+import { roundCurrency } from './currency';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// The longest a projected schedule runs before it is taken to never pay off
+const MAX_SCHEDULE_MONTHS = 600;
+
+export type LiabilityPaymentSplit = Pick<LiabilityPayment, 'amount' | 'principal' | 'interest' | 'balanceAfter'>;
+
+export interface AmortizationRow {
+  date: Date;
+  payment: number;
+  principal: number;
+  interest: number;
+  balance: number; // Left after the payment
+  projected: boolean; // A payment still to come at the monthly payment
+}
+
+export interface AmortizationSchedule {
+  rows: AmortizationRow[]; // Payments made, oldest first, then the projected ones
+  interestPaid: number; // In the payments recorded
+  principalPaid: number; // Of the total borrowed, including before payments were recorded
+  interestRemaining?: number; // Projected until paid off, unknown when it never is
+  payoffDate?: Date; // Unknown when the monthly payment never pays it off
+}
+
+const utcDay = (date: Date) => Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+
+const daysInMonth = (year: number, monthIndex: number) => new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+
+// The same day of the month, a number of months later, on the last day of
+// months that are too short
+const addMonths = (date: Date, months: number) => {
+  const year = date.getUTCFullYear();
+  const monthIndex = date.getUTCMonth() + months;
+  return new Date(Date.UTC(year, monthIndex, Math.min(date.getUTCDate(), daysInMonth(year, monthIndex))));
+};
+
+const liabilityPayments = (liability: Liability, payments: LiabilityPayment[]) =>
+  payments
+    .filter(p => p.liabilityId === liability.id)
+    .sort((a, b) => a.date.getTime() - b.date.getTime() || a.createdAt.getTime() - b.createdAt.getTime());
+
+// Interest accrues daily at the liability's annual rate on the remaining
+// balance, since the previous payment or, for the first payment recorded, over
+// the month before it. A payment goes to interest first and the rest pays off
+// the balance, never more than what is left.
+export const splitLiabilityPayment = (
+  liability: Liability,
+  payments: LiabilityPayment[],
+  amount: number,
+  date: Date = new Date()
+): LiabilityPaymentSplit => {
+  const balance = roundCurrency(Math.max(liability.remainingAmount, 0));
+  const day = utcDay(date);
+  const previous = liabilityPayments(liability, payments).filter(p => p.date.getTime() <= day).pop();
+  const from = previous
+    ? previous.date.getTime()
+    : Date.UTC(date.getUTCFullYear(), date.getUTCMonth() - 1, date.getUTCDate());
+  const days = Math.max((day - from) / DAY_MS, 0);
+
+  const interest = roundCurrency(Math.min(balance * (liability.interestRate / 100) * (days / 365), amount));
+  const principal = roundCurrency(Math.min(amount - interest, balance));
+
+  return {
+    amount: roundCurrency(principal + interest),
+    principal,
+    interest,
+    balanceAfter: roundCurrency(balance - principal),
+  };
+};
+
+// What it takes to pay a liability off in full: the balance and the interest
+// accrued on it so far
+export const liabilityPayoffAmount = (liability: Liability, payments: LiabilityPayment[], date: Date = new Date()) =>
+  splitLiabilityPayment(liability, payments, Number.POSITIVE_INFINITY, date).amount;
+
+// Every payment towards a liability: the ones recorded, then the monthly
+// payments still to come from its next due date on, each paying a month of
+// interest on the balance first, until it is paid off
+export const amortizationSchedule = (
+  liability: Liability,
+  payments: LiabilityPayment[],
+  today: Date = new Date()
+): AmortizationSchedule => {
+  const rows: AmortizationRow[] = liabilityPayments(liability, payments).map(p => ({
+    date: p.date,
+    payment: p.amount,
+    principal: p.principal,
+    interest: p.interest,
+    balance: p.balanceAfter,
+    projected: false,
+  }));
+  const interestPaid = roundCurrency(rows.reduce((sum, row) => sum + row.interest, 0));
+  const principalPaid = roundCurrency(Math.max(liability.totalAmount - liability.remainingAmount, 0));
+
+  let balance = roundCurrency(Math.max(liability.remainingAmount, 0));
+  if (balance <= 0) {
+    return { rows, interestPaid, principalPaid, interestRemaining: 0, payoffDate: rows[rows.length - 1]?.date };
+  }
+
+  const monthlyRate = liability.interestRate / 100 / 12;
+  const dueDate = new Date(liability.due_date);
+  let firstMonth = Math.max(
+    (today.getUTCFullYear() - dueDate.getUTCFullYear()) * 12 + today.getUTCMonth() - dueDate.getUTCMonth(),
+    0
+  );
+  if (addMonths(dueDate, firstMonth).getTime() < utcDay(today)) firstMonth++;
+  // A payment already made since the previous due date covers the next one
+  const lastPaid = rows[rows.length - 1]?.date;
+  if (lastPaid && firstMonth > 0 && lastPaid.getTime() > addMonths(dueDate, firstMonth - 1).getTime()) firstMonth++;
+
+  let interestRemaining = 0;
+  for (let month = 0; month < MAX_SCHEDULE_MONTHS; month++) {
+    const interest = roundCurrency(balance * monthlyRate);
+    const payment = roundCurrency(Math.min(liability.monthlyPayment, balance + interest));
+    if (payment <= interest) break;
+
+    const principal = roundCurrency(payment - interest);
+    balance = roundCurrency(balance - principal);
+    interestRemaining += interest;
+
+    const date = addMonths(dueDate, firstMonth + month);
+    rows.push({ date, payment, principal, interest, balance, projected: true });
+    if (balance <= 0) {
+      return { rows, interestPaid, principalPaid, interestRemaining: roundCurrency(interestRemaining), payoffDate: date };
+    }
+  }
+
+  return { rows, interestPaid, principalPaid };
+};
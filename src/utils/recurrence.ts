@@ -0,0 +1,3 @@
+// The recurrence engine is shared with the edge functions and lives in their
+// tree so deploys bundle it
+export * from '../../supabase/functions/_shared/recurrence';
@@ -0,0 +1,161 @@
+import {
+  StatementParseResult,
+  collectStatementRows,
+  dateKey,
+  validateStatementRow,
+} from './dataImport';
+import { DateFormat, parseAmount, parseDateWithFormat } from './bankCsv';
+import { Transaction } from '../types';
+
+export const DEFAULT_STATEMENT_CATEGORY = 'Other';
+
+// 53-bit string hash (cyrb53); stable across runs, good enough to tell
+// apart the entries of one person's statements
+export const hashString = (value: string, seed: number = 0): string => {
+  let h1 = 0xdeadbeef ^ seed;
+  let h2 = 0x41c6ce57 ^ seed;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+};
+
+const decodeEntities = (value: string) =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+// OFX 1.x is SGML where leaf elements are not closed; OFX 2.x is XML.
+// Reading a tag's text up to the next '<' or line break handles both.
+const readOfxTag = (block: string, tag: string): string | undefined => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  const value = match?.[1].trim();
+  return value ? decodeEntities(value) : undefined;
+};
+
+// DTPOSTED looks like YYYYMMDD[HHMMSS[.XXX]][[+|-]TZ[:name]]; only the
+// calendar day matters for a transaction
+const parseOfxDate = (value?: string): Date | undefined => {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return undefined;
+  return parseDateWithFormat(`${match[1]}-${match[2]}-${match[3]}`, 'YYYY-MM-DD');
+};
+
+const lineOf = (text: string, index: number) => text.slice(0, index).split('\n').length;
+
+// Parse an OFX or QFX statement. Each STMTTRN's FITID, scoped by account,
+// becomes the transaction's external id.
+export const parseOfx = (text: string): StatementParseResult => {
+  if (!/<OFX>/i.test(text)) {
+    throw new Error('The file does not look like an OFX/QFX statement');
+  }
+
+  const account = readOfxTag(text, 'ACCTID') ?? 'default';
+  const blocks = Array.from(text.matchAll(/<STMTTRN>([\s\S]*?)(?:<\/STMTTRN>|(?=<STMTTRN>)|(?=<\/BANKTRANLIST>))/gi));
+
+  return collectStatementRows(blocks.map(match => {
+    const block = match[1];
+    const line = lineOf(text, match.index ?? 0);
+    const messages: string[] = [];
+
+    const date = parseOfxDate(readOfxTag(block, 'DTPOSTED'));
+    if (!date) messages.push('Missing or invalid DTPOSTED');
+
+    const rawAmount = readOfxTag(block, 'TRNAMT') ?? '';
+    // Some banks write a decimal comma in TRNAMT
+    const amount = parseAmount(rawAmount, /,\d{1,2}$/.test(rawAmount) ? ',' : '.');
+    if (amount === undefined) messages.push(`Amount "${rawAmount}" is not a number`);
+
+    const fitId = readOfxTag(block, 'FITID');
+    if (!fitId) messages.push('Missing FITID');
+
+    const name = readOfxTag(block, 'NAME') ?? readOfxTag(block, 'PAYEE');
+    const memo = readOfxTag(block, 'MEMO');
+
+    return validateStatementRow(line, {
+      type: amount === undefined ? undefined : amount < 0 ? 'expense' : 'income',
+      amount: amount === undefined ? undefined : Math.abs(amount),
+      category: DEFAULT_STATEMENT_CATEGORY,
+      description: name ?? memo ?? readOfxTag(block, 'TRNTYPE') ?? '',
+      date,
+      externalId: fitId ? `ofx:${account}:${fitId}` : undefined,
+    }, messages);
+  }));
+};
+
+// Parse a QIF file. QIF has no transaction ids, so the external id is a hash
+// of the entry's content plus how many identical entries preceded it in the
+// file, which keeps two same-day coffees distinct but stable across exports.
+export const parseQif = (text: string, dateFormat: DateFormat = 'MM/DD/YYYY'): StatementParseResult => {
+  const lines = text.split(/\r?\n/);
+  const typeHeader = lines.find(l => l.startsWith('!Type:'));
+  if (!typeHeader) {
+    throw new Error('The file does not look like a QIF statement');
+  }
+  if (/^!Type:(Invst|Cat|Class|Memorized)/i.test(typeHeader)) {
+    throw new Error(`QIF section "${typeHeader}" is not supported; export a bank or card account`);
+  }
+
+  const entries: Array<{ line: number; fields: Record<string, string> }> = [];
+  let current: Record<string, string> = {};
+  let startLine = 0;
+
+  lines.forEach((raw, index) => {
+    const lineText = raw.trim();
+    if (!lineText || lineText.startsWith('!')) return;
+    if (lineText === '^') {
+      if (Object.keys(current).length > 0) entries.push({ line: startLine, fields: current });
+      current = {};
+      return;
+    }
+    if (Object.keys(current).length === 0) startLine = index + 1;
+    const code = lineText[0];
+    // Split lines (S/E/$) repeat; keep the first value of each code
+    if (current[code] === undefined) current[code] = lineText.slice(1).trim();
+  });
+  if (Object.keys(current).length > 0) entries.push({ line: startLine, fields: current });
+
+  const seen = new Map<string, number>();
+
+  return collectStatementRows(entries.map(({ line, fields }) => {
+    const messages: string[] = [];
+
+    const date = parseDateWithFormat(fields.D ?? '', dateFormat);
+    if (!date) messages.push(`Date "${fields.D ?? ''}" does not match ${dateFormat}`);
+
+    const rawAmount = fields.T ?? fields.U ?? '';
+    const amount = parseAmount(rawAmount, '.');
+    if (amount === undefined) messages.push(`Amount "${rawAmount}" is not a number`);
+
+    // Bracketed categories are transfers to another QIF account
+    const category = fields.L && !fields.L.startsWith('[') ? fields.L.split(':')[0] : DEFAULT_STATEMENT_CATEGORY;
+    const type: Transaction['type'] | undefined = amount === undefined ? undefined : amount < 0 ? 'expense' : 'income';
+
+    // Hash normalised values so reformatted dates or amounts hash the same
+    const content = [
+      date ? dateKey(date) : fields.D,
+      amount === undefined ? rawAmount : amount.toFixed(2),
+      fields.P,
+      fields.M,
+      fields.N,
+    ].join('|');
+    const occurrence = seen.get(content) ?? 0;
+    seen.set(content, occurrence + 1);
+
+    return validateStatementRow(line, {
+      type,
+      amount: amount === undefined ? undefined : Math.abs(amount),
+      category,
+      description: fields.P || fields.M || '',
+      date,
+      externalId: `qif:${hashString(`${content}|${occurrence}`)}`,
+    }, messages);
+  }));
+};
@@ -0,0 +1,210 @@
+import { RecurringTransaction, Transaction } from '../types';
+import { descriptionSimilarity, normalizeDescription } from './duplicateDetection';
+import { RecurrenceRule, calculateNextOccurrence, toDay } from './recurrence';
+
+export type SubscriptionCadence = 'weekly' | 'biweekly' | 'monthly' | 'quarterly' | 'yearly';
+
+export interface SubscriptionDetectionOptions {
+  minOccurrences: number;
+  minConfidence: number;
+  // Relative difference between two charges that still counts as one price
+  priceTolerance: number;
+  // Similarity above which an existing recurring transaction already covers the payee
+  coveredSimilarity: number;
+}
+
+export const DEFAULT_SUBSCRIPTION_OPTIONS: SubscriptionDetectionOptions = {
+  minOccurrences: 3,
+  minConfidence: 0.6,
+  priceTolerance: 0.01,
+  coveredSimilarity: 0.8,
+};
+
+export interface PriceIncrease {
+  previousAmount: number;
+  newAmount: number;
+  changedOn: Date;
+}
+
+// A payee charged (or paying) on a regular cadence that has no recurring
+// transaction yet. `occurrences` are oldest first.
+export interface SubscriptionCandidate {
+  key: string;
+  type: 'income' | 'expense';
+  description: string;
+  category: string;
+  cadence: SubscriptionCadence;
+  amount: number; // The latest charge
+  confidence: number; // 0-1, from cadence regularity, price stability and history length
+  occurrences: Transaction[];
+  lastCharge: Transaction;
+  nextExpectedDate: Date;
+  annualCost: number;
+  priceIncrease?: PriceIncrease;
+}
+
+interface CadenceSpec {
+  days: number;
+  toleranceDays: number;
+  perYear: number;
+}
+
+const CADENCES: Record<SubscriptionCadence, CadenceSpec> = {
+  weekly: { days: 7, toleranceDays: 1, perYear: 52 },
+  biweekly: { days: 14, toleranceDays: 2, perYear: 26 },
+  monthly: { days: 30.44, toleranceDays: 4, perYear: 12 },
+  quarterly: { days: 91.31, toleranceDays: 8, perYear: 4 },
+  yearly: { days: 365.25, toleranceDays: 10, perYear: 1 },
+};
+
+export const SUBSCRIPTION_CADENCE_LABELS: Record<SubscriptionCadence, string> = {
+  weekly: 'Weekly',
+  biweekly: 'Every 2 weeks',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  yearly: 'Yearly',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const samePrice = (a: number, b: number, tolerance: number) =>
+  Math.abs(a - b) <= Math.max(a, b) * tolerance;
+
+const matchCadence = (gapDays: number): SubscriptionCadence | undefined =>
+  (Object.keys(CADENCES) as SubscriptionCadence[]).find(cadence =>
+    Math.abs(gapDays - CADENCES[cadence].days) <= CADENCES[cadence].toleranceDays
+  );
+
+// The most recent price change, when it went up from a price that had held
+// for at least two charges. Bills that vary every time are never flagged.
+const findPriceIncrease = (charges: Transaction[], tolerance: number): PriceIncrease | undefined => {
+  for (let i = charges.length - 1; i > 0; i--) {
+    const previous = charges[i - 1].amount;
+    const current = charges[i].amount;
+    if (samePrice(previous, current, tolerance)) continue;
+
+    const previousHeld = i >= 2 && samePrice(charges[i - 2].amount, previous, tolerance);
+    return current > previous && previousHeld
+      ? { previousAmount: previous, newAmount: current, changedOn: charges[i].date }
+      : undefined;
+  }
+  return undefined;
+};
+
+// Schedule for a recurring transaction that continues the candidate from
+// its last charge
+export const subscriptionSchedule = (
+  candidate: Pick<SubscriptionCandidate, 'cadence' | 'lastCharge'>
+): Pick<RecurrenceRule, 'frequency' | 'dayOfWeek' | 'dayOfMonth' | 'monthOfYear' | 'rrule'> => {
+  const last = toDay(candidate.lastCharge.date);
+  const weekday = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'][last.getUTCDay()];
+  const day = last.getUTCDate();
+
+  switch (candidate.cadence) {
+    case 'weekly':
+      return { frequency: 'weekly', dayOfWeek: last.getUTCDay() };
+    case 'biweekly':
+      return { frequency: 'weekly', rrule: `FREQ=WEEKLY;INTERVAL=2;BYDAY=${weekday}` };
+    case 'monthly':
+      return { frequency: 'monthly', dayOfMonth: day };
+    case 'quarterly':
+      // Charges late in the month land on its last day in shorter months
+      return { frequency: 'monthly', rrule: `FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=${day > 28 ? -1 : day}` };
+    case 'yearly':
+      return { frequency: 'yearly', dayOfMonth: day, monthOfYear: last.getUTCMonth() + 1 };
+  }
+};
+
+// Find payees with a regular cadence among transactions that are not linked
+// to a recurring transaction yet. Payees an existing recurring transaction
+// already covers, dismissed keys and payees whose charges have stopped are
+// left out. Most confident first.
+export const findSubscriptionCandidates = (
+  transactions: Transaction[],
+  recurringTransactions: RecurringTransaction[],
+  dismissedKeys: Iterable<string> = [],
+  asOf: Date = new Date(),
+  options: SubscriptionDetectionOptions = DEFAULT_SUBSCRIPTION_OPTIONS
+): SubscriptionCandidate[] => {
+  const dismissed = new Set(dismissedKeys);
+  const groups = new Map<string, Transaction[]>();
+
+  transactions.forEach(t => {
+    if (t.type === 'transfer' || t.recurringTransactionId || t.parentTransactionId) return;
+    const payee = normalizeDescription(t.description);
+    if (!payee) return;
+
+    const groupKey = `${t.type}|${payee}`;
+    const group = groups.get(groupKey);
+    if (group) {
+      group.push(t);
+    } else {
+      groups.set(groupKey, [t]);
+    }
+  });
+
+  const today = toDay(asOf);
+  const candidates: SubscriptionCandidate[] = [];
+
+  groups.forEach((group, key) => {
+    if (group.length < options.minOccurrences || dismissed.has(key)) return;
+
+    const charges = [...group].sort((a, b) => a.date.getTime() - b.date.getTime());
+    const lastCharge = charges[charges.length - 1];
+    const type = lastCharge.type as 'income' | 'expense';
+
+    const covered = recurringTransactions.some(rt =>
+      rt.type === type && descriptionSimilarity(rt.description, lastCharge.description) >= options.coveredSimilarity
+    );
+    if (covered) return;
+
+    const gaps = charges.slice(1).map((t, i) =>
+      (toDay(t.date).getTime() - toDay(charges[i].date).getTime()) / DAY_MS
+    );
+    const cadence = matchCadence(median(gaps));
+    if (!cadence) return;
+
+    const spec = CADENCES[cadence];
+    const sinceLast = (today.getTime() - toDay(lastCharge.date).getTime()) / DAY_MS;
+    if (sinceLast > spec.days * 1.5 + spec.toleranceDays) return;
+
+    const cadenceScore = gaps.filter(gap => Math.abs(gap - spec.days) <= spec.toleranceDays).length / gaps.length;
+    const priceScore = gaps.length > 0
+      ? charges.slice(1).filter((t, i) => samePrice(t.amount, charges[i].amount, options.priceTolerance)).length / gaps.length
+      : 0;
+    const historyScore = Math.min(1, gaps.length / 6);
+    const confidence = cadenceScore * 0.5 + priceScore * 0.3 + historyScore * 0.2;
+    if (confidence < options.minConfidence) return;
+
+    const schedule = subscriptionSchedule({ cadence, lastCharge });
+    const start = toDay(lastCharge.date);
+    let nextExpectedDate = calculateNextOccurrence(start, { ...schedule, startDate: start }) ?? start;
+    // A charge overdue by a few days is still expected, just not in the past
+    while (nextExpectedDate < today) {
+      nextExpectedDate = calculateNextOccurrence(nextExpectedDate, { ...schedule, startDate: start }) ?? today;
+    }
+
+    candidates.push({
+      key,
+      type,
+      description: lastCharge.description,
+      category: lastCharge.category,
+      cadence,
+      amount: lastCharge.amount,
+      confidence,
+      occurrences: charges,
+      lastCharge,
+      nextExpectedDate,
+      annualCost: lastCharge.amount * spec.perYear,
+      priceIncrease: findPriceIncrease(charges, options.priceTolerance),
+    });
+  });
+
+  return candidates.sort((a, b) => b.confidence - a.confidence || b.annualCost - a.annualCost);
+};
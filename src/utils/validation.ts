@@ -50,9 +50,18 @@ export const liabilitySchema = z.object({
 });
 
 export const budgetSchema = z.object({
-  category: z.string().min(1, 'Category is required'),
+  category: z.string().min(1, 'Budget name is required').max(100, 'Name too long'),
+  categories: z.array(z.string().min(1)).min(1, 'Choose at least one category'),
   amount: z.number().positive('Budget amount must be greater than 0').max(1000000, 'Amount too large'),
-  period: z.enum(['weekly', 'monthly', 'yearly']),
+  period: z.enum(['weekly', 'monthly', 'yearly', 'custom']),
+  startDate: z.date().optional(),
+  endDate: z.date().optional(),
+  rollover: z.boolean().optional(),
+  alertThresholds: z.array(z.number().int().min(1, 'Alert thresholds start at 1%').max(1000, 'Alert threshold too high')).optional(),
+  paceAlerts: z.boolean().optional(),
+}).refine((data) => data.period !== 'custom' || (data.startDate && data.endDate && data.endDate >= data.startDate), {
+  message: "Custom budgets need an end date on or after the start date",
+  path: ["endDate"],
 });
 
 export const transactionSchema = z.object({
@@ -0,0 +1,611 @@
+// Recurrence calculation shared by the recurring transaction form and the
+// process-recurring-transactions edge function. It lives with the functions
+// so it is bundled when they are deployed, and has no imports so both Deno
+// and the app can load it.
+//
+// A series either uses the simple frequency/day options or an RFC 5545
+// RRULE. The RRULE support covers FREQ, INTERVAL, COUNT, UNTIL, BYDAY,
+// BYMONTHDAY, BYMONTH, BYSETPOS and WKST, which is enough for schedules like
+// "every other Friday", "last business day of the month" or "1st and 15th".
+//
+// Dates are whole days held as UTC midnight, matching how `date` columns are
+// parsed (`new Date('2025-07-01')`) and written back (`toISOString()`).
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  startDate: Date;
+  endDate?: Date;
+  dayOfWeek?: number; // 0-6, Sunday=0
+  dayOfMonth?: number; // 1-31, clamped to the length of short months
+  monthOfYear?: number; // 1-12
+  maxOccurrences?: number;
+  rrule?: string; // Takes precedence over frequency and the day options
+}
+
+export interface RecurrenceState extends RecurrenceRule {
+  nextOccurrenceDate: Date;
+  currentOccurrences: number;
+}
+
+export interface DueOccurrences {
+  dates: Date[];
+  // Unchanged when the rule has no dates left
+  nextOccurrenceDate: Date;
+  currentOccurrences: number;
+  // No occurrences remain because of endDate or maxOccurrences
+  isComplete: boolean;
+}
+
+interface WeekdayRule {
+  weekday: number; // 0-6, Sunday=0
+  ordinal?: number; // 1 = first, -1 = last within the month or year
+}
+
+export interface ParsedRRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  count?: number;
+  until?: Date;
+  byDay?: WeekdayRule[];
+  byMonthDay?: number[];
+  byMonth?: number[]; // 1-12
+  bySetPos?: number[];
+  weekStart: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Periods searched for the next date before a rule is considered exhausted,
+// e.g. BYMONTH=2;BYMONTHDAY=30 never matches
+const MAX_EMPTY_PERIODS = 1000;
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES: Record<string, RecurrenceFrequency> = {
+  DAILY: 'daily',
+  WEEKLY: 'weekly',
+  MONTHLY: 'monthly',
+  YEARLY: 'yearly',
+};
+
+export const toDay = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+export const formatDay = (date: Date): string => date.toISOString().split('T')[0];
+
+const daysInMonth = (year: number, monthIndex: number) => new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+
+const clampedDate = (year: number, monthIndex: number, day: number) =>
+  new Date(Date.UTC(year, monthIndex, Math.min(day, daysInMonth(year, monthIndex))));
+
+// Monthly and yearly rules without an explicit day keep the start date's day,
+// so a series starting on the 31st returns to the 31st after February
+const anchorDay = (rule: RecurrenceRule) => rule.dayOfMonth ?? rule.startDate.getUTCDate();
+
+const anchorMonth = (rule: RecurrenceRule) =>
+  rule.monthOfYear !== undefined ? rule.monthOfYear - 1 : rule.startDate.getUTCMonth();
+
+const parseList = (name: string, value: string, min: number, max: number): number[] =>
+  value.split(',').map(part => {
+    const n = Number(part);
+    if (!Number.isInteger(n) || n === 0 || Math.abs(n) < min || Math.abs(n) > max) {
+      throw new Error(`Invalid ${name} value "${part}"`);
+    }
+    return n;
+  });
+
+const parseUntil = (value: string): Date => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) throw new Error(`Invalid UNTIL value "${value}"`);
+  return new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+};
+
+// Parses an RRULE such as "FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1".
+// Throws with a readable message when the rule is invalid or uses parts
+// that are not supported.
+export const parseRRule = (rrule: string): ParsedRRule => {
+  const body = rrule.trim().toUpperCase().replace(/^RRULE:/, '');
+  if (!body) throw new Error('Recurrence rule is empty');
+
+  const parts = new Map<string, string>();
+  body.split(';').filter(Boolean).forEach(part => {
+    const [key, value] = part.split('=');
+    if (!key || value === undefined || value === '') throw new Error(`Invalid rule part "${part}"`);
+    if (parts.has(key)) throw new Error(`${key} is given more than once`);
+    parts.set(key, value);
+  });
+
+  const freq = FREQUENCIES[parts.get('FREQ') ?? ''];
+  if (!freq) throw new Error('FREQ must be DAILY, WEEKLY, MONTHLY or YEARLY');
+
+  const parsed: ParsedRRule = { freq, interval: 1, weekStart: 1 };
+
+  parts.forEach((value, key) => {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        parsed.interval = parseList(key, value, 1, 1000)[0];
+        if (parsed.interval < 1) throw new Error('INTERVAL must be positive');
+        break;
+      case 'COUNT':
+        parsed.count = parseList(key, value, 1, 100000)[0];
+        if (parsed.count < 1) throw new Error('COUNT must be positive');
+        break;
+      case 'UNTIL':
+        parsed.until = parseUntil(value);
+        break;
+      case 'BYDAY':
+        parsed.byDay = value.split(',').map(part => {
+          const match = part.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+          if (!match) throw new Error(`Invalid BYDAY value "${part}"`);
+          const ordinal = match[1] ? Number(match[1]) : undefined;
+          if (ordinal !== undefined && (ordinal === 0 || Math.abs(ordinal) > 53)) {
+            throw new Error(`Invalid BYDAY value "${part}"`);
+          }
+          return { weekday: WEEKDAY_CODES.indexOf(match[2]), ordinal };
+        });
+        break;
+      case 'BYMONTHDAY':
+        parsed.byMonthDay = parseList(key, value, 1, 31);
+        break;
+      case 'BYMONTH':
+        parsed.byMonth = parseList(key, value, 1, 12);
+        if (parsed.byMonth.some(month => month < 0)) throw new Error('BYMONTH values must be 1-12');
+        break;
+      case 'BYSETPOS':
+        parsed.bySetPos = parseList(key, value, 1, 366);
+        break;
+      case 'WKST':
+        if (!WEEKDAY_CODES.includes(value)) throw new Error(`Invalid WKST value "${value}"`);
+        parsed.weekStart = WEEKDAY_CODES.indexOf(value);
+        break;
+      default:
+        throw new Error(`${key} is not supported`);
+    }
+  });
+
+  if (parsed.count !== undefined && parsed.until) {
+    throw new Error('COUNT and UNTIL cannot be used together');
+  }
+  if (parsed.byDay?.some(day => day.ordinal !== undefined) && (freq === 'daily' || freq === 'weekly')) {
+    throw new Error('Numbered BYDAY values need FREQ=MONTHLY or FREQ=YEARLY');
+  }
+
+  return parsed;
+};
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS);
+
+const monthDays = (year: number, monthIndex: number): Date[] =>
+  Array.from({ length: daysInMonth(year, monthIndex) }, (_, i) => new Date(Date.UTC(year, monthIndex, i + 1)));
+
+// Days matching BYDAY within a month or year; numbered entries pick the nth
+// (or nth from last) matching weekday
+const expandByDay = (days: Date[], byDay: WeekdayRule[]): Date[] =>
+  byDay.flatMap(rule => {
+    const matches = days.filter(day => day.getUTCDay() === rule.weekday);
+    if (rule.ordinal === undefined) return matches;
+    const match = rule.ordinal > 0 ? matches[rule.ordinal - 1] : matches[matches.length + rule.ordinal];
+    return match ? [match] : [];
+  });
+
+const expandByMonthDay = (year: number, monthIndex: number, byMonthDay: number[]): Date[] => {
+  const length = daysInMonth(year, monthIndex);
+  return byMonthDay
+    .map(day => (day > 0 ? day : length + day + 1))
+    .filter(day => day >= 1 && day <= length)
+    .map(day => new Date(Date.UTC(year, monthIndex, day)));
+};
+
+const uniqueSorted = (dates: Date[]): Date[] =>
+  Array.from(new Set(dates.map(date => date.getTime()))).sort((a, b) => a - b).map(time => new Date(time));
+
+// Start of the period with the given index, counting from the period that
+// contains the start date
+const periodStart = (rule: ParsedRRule, start: Date, index: number): Date => {
+  switch (rule.freq) {
+    case 'daily':
+      return addDays(start, index);
+    case 'weekly': {
+      const offset = (start.getUTCDay() - rule.weekStart + 7) % 7;
+      return addDays(start, index * 7 - offset);
+    }
+    case 'monthly':
+      return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + index, 1));
+    case 'yearly':
+      return new Date(Date.UTC(start.getUTCFullYear() + index, 0, 1));
+  }
+};
+
+// Index of the period containing `date`
+const periodIndex = (rule: ParsedRRule, start: Date, date: Date): number => {
+  switch (rule.freq) {
+    case 'daily':
+      return Math.floor((date.getTime() - start.getTime()) / DAY_MS);
+    case 'weekly':
+      return Math.floor((date.getTime() - periodStart(rule, start, 0).getTime()) / (7 * DAY_MS));
+    case 'monthly':
+      return (date.getUTCFullYear() - start.getUTCFullYear()) * 12 + date.getUTCMonth() - start.getUTCMonth();
+    case 'yearly':
+      return date.getUTCFullYear() - start.getUTCFullYear();
+  }
+};
+
+// Every date the rule produces within one period, before the start-date cut
+const expandPeriod = (rule: ParsedRRule, start: Date, from: Date): Date[] => {
+  const year = from.getUTCFullYear();
+  let dates: Date[];
+
+  switch (rule.freq) {
+    case 'daily':
+      dates = [from];
+      if (rule.byDay) dates = dates.filter(day => rule.byDay!.some(d => d.weekday === day.getUTCDay()));
+      if (rule.byMonthDay) {
+        dates = dates.filter(day =>
+          expandByMonthDay(day.getUTCFullYear(), day.getUTCMonth(), rule.byMonthDay!).some(d => d.getTime() === day.getTime())
+        );
+      }
+      break;
+    case 'weekly': {
+      const week = Array.from({ length: 7 }, (_, i) => addDays(from, i));
+      const weekdays = rule.byDay ? rule.byDay.map(d => d.weekday) : [start.getUTCDay()];
+      dates = week.filter(day => weekdays.includes(day.getUTCDay()));
+      break;
+    }
+    case 'monthly': {
+      const month = from.getUTCMonth();
+      if (rule.byMonthDay) {
+        dates = expandByMonthDay(year, month, rule.byMonthDay);
+        if (rule.byDay) dates = dates.filter(day => rule.byDay!.some(d => d.weekday === day.getUTCDay()));
+      } else if (rule.byDay) {
+        dates = expandByDay(monthDays(year, month), rule.byDay);
+      } else {
+        // RFC 5545: months without the start day are skipped
+        dates = expandByMonthDay(year, month, [start.getUTCDate()]);
+      }
+      break;
+    }
+    case 'yearly': {
+      const monthIndexes = (rule.byMonth ?? [start.getUTCMonth() + 1]).map(m => m - 1);
+      if (rule.byMonthDay) {
+        dates = monthIndexes.flatMap(month => expandByMonthDay(year, month, rule.byMonthDay!));
+        if (rule.byDay) dates = dates.filter(day => rule.byDay!.some(d => d.weekday === day.getUTCDay()));
+      } else if (rule.byDay && rule.byMonth) {
+        dates = monthIndexes.flatMap(month => expandByDay(monthDays(year, month), rule.byDay!));
+      } else if (rule.byDay) {
+        dates = expandByDay(Array.from({ length: 12 }, (_, m) => monthDays(year, m)).flat(), rule.byDay);
+      } else {
+        dates = monthIndexes.flatMap(month => expandByMonthDay(year, month, [start.getUTCDate()]));
+      }
+      break;
+    }
+  }
+
+  if (rule.byMonth && rule.freq !== 'yearly') {
+    dates = dates.filter(day => rule.byMonth!.includes(day.getUTCMonth() + 1));
+  }
+
+  dates = uniqueSorted(dates);
+
+  if (rule.bySetPos) {
+    const set = dates;
+    dates = uniqueSorted(rule.bySetPos
+      .map(pos => (pos > 0 ? set[pos - 1] : set[set.length + pos]))
+      .filter((day): day is Date => day !== undefined));
+  }
+
+  return dates;
+};
+
+// First RRULE date strictly after `after`, or on/after the start date when
+// `after` is null
+const nextRRuleOccurrence = (rule: ParsedRRule, startDate: Date, after: Date | null): Date | null => {
+  const start = toDay(startDate);
+  const from = after && after >= start ? toDay(after) : null;
+  const firstIndex = from ? periodIndex(rule, start, from) : 0;
+  let index = Math.floor(firstIndex / rule.interval) * rule.interval;
+
+  for (let searched = 0; searched < MAX_EMPTY_PERIODS; searched++, index += rule.interval) {
+    const match = expandPeriod(rule, start, periodStart(rule, start, index))
+      .find(day => day >= start && (!from || day > from));
+    if (match) return match;
+  }
+
+  return null;
+};
+
+// First occurrence on or after the start date; null when the rule never
+// produces a date
+export const getFirstOccurrence = (rule: RecurrenceRule): Date | null => {
+  if (rule.rrule) return nextRRuleOccurrence(parseRRule(rule.rrule), rule.startDate, null);
+
+  const start = toDay(rule.startDate);
+  const year = start.getUTCFullYear();
+
+  switch (rule.frequency) {
+    case 'daily':
+      return start;
+    case 'weekly': {
+      if (rule.dayOfWeek === undefined) return start;
+      const daysUntilTarget = (rule.dayOfWeek - start.getUTCDay() + 7) % 7;
+      return addDays(start, daysUntilTarget);
+    }
+    case 'monthly': {
+      const candidate = clampedDate(year, start.getUTCMonth(), anchorDay(rule));
+      return candidate >= start ? candidate : clampedDate(year, start.getUTCMonth() + 1, anchorDay(rule));
+    }
+    case 'yearly': {
+      const candidate = clampedDate(year, anchorMonth(rule), anchorDay(rule));
+      return candidate >= start ? candidate : clampedDate(year + 1, anchorMonth(rule), anchorDay(rule));
+    }
+  }
+};
+
+// Occurrence following `date`, which is assumed to be an occurrence itself;
+// null when the rule has no further dates
+export const calculateNextOccurrence = (date: Date, rule: RecurrenceRule): Date | null => {
+  if (rule.rrule) return nextRRuleOccurrence(parseRRule(rule.rrule), rule.startDate, date);
+
+  const current = toDay(date);
+
+  switch (rule.frequency) {
+    case 'daily':
+      return addDays(current, 1);
+    case 'weekly':
+      return addDays(current, 7);
+    case 'monthly':
+      return clampedDate(current.getUTCFullYear(), current.getUTCMonth() + 1, anchorDay(rule));
+    case 'yearly':
+      return clampedDate(current.getUTCFullYear() + 1, anchorMonth(rule), anchorDay(rule));
+  }
+};
+
+// endDate/maxOccurrences combined with the rule's own UNTIL/COUNT; the
+// tighter limit wins
+const effectiveLimits = (rule: RecurrenceRule) => {
+  const parsed = rule.rrule ? parseRRule(rule.rrule) : null;
+  const ends = [rule.endDate, parsed?.until].filter((d): d is Date => d !== undefined).map(toDay);
+  const maxima = [rule.maxOccurrences, parsed?.count].filter((n): n is number => n !== undefined);
+  return {
+    endDate: ends.length > 0 ? new Date(Math.min(...ends.map(d => d.getTime()))) : undefined,
+    maxOccurrences: maxima.length > 0 ? Math.min(...maxima) : undefined,
+  };
+};
+
+const isExhausted = (limits: ReturnType<typeof effectiveLimits>, nextDate: Date | null, count: number) =>
+  nextDate === null ||
+  (limits.endDate !== undefined && nextDate > limits.endDate) ||
+  (limits.maxOccurrences !== undefined && count >= limits.maxOccurrences);
+
+// Every occurrence from `nextOccurrenceDate` up to and including `asOf` that
+// is still within endDate and maxOccurrences, plus the state to store after
+// creating them
+export const getDueOccurrences = (state: RecurrenceState, asOf: Date): DueOccurrences => {
+  const today = toDay(asOf);
+  const limits = effectiveLimits(state);
+  const dates: Date[] = [];
+  let next: Date | null = toDay(state.nextOccurrenceDate);
+  let count = state.currentOccurrences;
+
+  while (next !== null && next <= today && !isExhausted(limits, next, count)) {
+    dates.push(next);
+    count += 1;
+    next = calculateNextOccurrence(next, state);
+  }
+
+  return {
+    dates,
+    nextOccurrenceDate: next ?? toDay(state.nextOccurrenceDate),
+    currentOccurrences: count,
+    isComplete: isExhausted(limits, next, count),
+  };
+};
+
+// The next `limit` dates on or after `from`, counting occurrences from the
+// start of the series so COUNT and maxOccurrences are respected
+export const getUpcomingOccurrences = (rule: RecurrenceRule, from: Date, limit: number): Date[] => {
+  const limits = effectiveLimits(rule);
+  const fromDay = toDay(from);
+  const dates: Date[] = [];
+  let next = getFirstOccurrence(rule);
+  let count = 0;
+
+  while (dates.length < limit && !isExhausted(limits, next, count)) {
+    if (next! >= fromDay) dates.push(next!);
+    count += 1;
+    next = calculateNextOccurrence(next!, rule);
+  }
+
+  return dates;
+};
+
+// Occurrences in the first year from `from` (or from the start date, if
+// later), for monthly and annual totals
+export const occurrencesPerYear = (rule: RecurrenceRule, from: Date = new Date()): number => {
+  const yearStart = from > rule.startDate ? from : rule.startDate;
+  const yearEnd = addDays(toDay(yearStart), 365);
+  return getUpcomingOccurrences(rule, yearStart, 400).filter(date => date < yearEnd).length;
+};
+
+const ordinal = (n: number): string => {
+  if (n === -1) return 'last';
+  if (n < 0) return `${ordinal(-n)} to last`;
+  const suffix = n % 100 > 10 && n % 100 < 14 ? 'th' : ({ 1: 'st', 2: 'nd', 3: 'rd' } as Record<number, string>)[n % 10] ?? 'th';
+  return `${n}${suffix}`;
+};
+
+const joinWords = (words: string[]): string =>
+  words.length <= 1 ? words.join('') : `${words.slice(0, -1).join(', ')} and ${words[words.length - 1]}`;
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+const UNIT_NAMES: Record<RecurrenceFrequency, string> = { daily: 'day', weekly: 'week', monthly: 'month', yearly: 'year' };
+
+const isWeekdaySet = (byDay: WeekdayRule[]) =>
+  byDay.length === 5 && byDay.every(d => d.ordinal === undefined && d.weekday >= 1 && d.weekday <= 5);
+
+// Human-readable summary of an RRULE, e.g. "Every 2 weeks on Friday" or
+// "Every month on the last weekday"
+export const describeRRule = (rrule: string): string => {
+  const rule = parseRRule(rrule);
+  const unit = UNIT_NAMES[rule.freq];
+  const parts = [rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`];
+
+  if (rule.freq === 'monthly' && rule.interval === 3 && !rule.byDay && !rule.byMonthDay && !rule.bySetPos) {
+    parts[0] = 'Every quarter';
+  }
+
+  const dayNames = rule.byDay?.map(d =>
+    d.ordinal === undefined ? WEEKDAY_NAMES[d.weekday] : `the ${ordinal(d.ordinal)} ${WEEKDAY_NAMES[d.weekday]}`
+  );
+
+  if (rule.bySetPos) {
+    const what = rule.byDay && isWeekdaySet(rule.byDay)
+      ? 'weekday'
+      : rule.byDay ? `of ${joinWords(dayNames!)}` : 'day';
+    parts.push(`on the ${joinWords(rule.bySetPos.map(ordinal))} ${what}`);
+  } else if (rule.byDay) {
+    parts.push(isWeekdaySet(rule.byDay) ? 'on weekdays' : `on ${joinWords(dayNames!)}`);
+  }
+
+  if (rule.byMonthDay) {
+    const days = rule.byMonthDay.map(day => (day === -1 ? 'last day' : ordinal(day)));
+    parts.push(`on the ${joinWords(days)}`);
+  }
+
+  if (rule.byMonth) {
+    parts.push(`in ${joinWords(rule.byMonth.map(m => MONTH_NAMES[m - 1]))}`);
+  }
+
+  const summary = parts.join(' ');
+  if (rule.count !== undefined) return `${summary}, ${rule.count} time${rule.count === 1 ? '' : 's'}`;
+  if (rule.until) return `${summary}, until ${formatDay(rule.until)}`;
+  return summary;
+};
+
+// A per-occurrence change: skip it, move it to another date and/or change
+// its amount. Keyed by the date the occurrence was scheduled for.
+export interface OccurrenceChange {
+  occurrenceDate: Date;
+  isSkipped: boolean;
+  newDate?: Date;
+  amount?: number;
+  processedAt?: Date;
+}
+
+export interface PlannedOccurrence {
+  occurrenceDate: Date; // The scheduled date, which identifies the occurrence
+  date: Date; // Where it lands after any move
+  amount?: number; // Overridden amount, if any
+}
+
+export interface ProjectedOccurrence<T extends OccurrenceChange> extends PlannedOccurrence {
+  isSkipped: boolean;
+  change?: T;
+}
+
+const changesByDay = <T extends OccurrenceChange>(changes: T[]) =>
+  new Map(changes.map(change => [formatDay(change.occurrenceDate), change]));
+
+// What processing should create for the occurrences that just became due,
+// plus occurrences moved to a date that has now arrived. `pending` holds the
+// series' unprocessed changes; `acted` lists the ones processing used up and
+// should mark as processed.
+export const planOccurrences = <T extends OccurrenceChange>(
+  due: DueOccurrences,
+  pending: T[],
+  asOf: Date
+): { create: PlannedOccurrence[]; acted: T[] } => {
+  const today = toDay(asOf);
+  const byDay = changesByDay(pending);
+  const create: PlannedOccurrence[] = [];
+  const acted: T[] = [];
+
+  due.dates.forEach(date => {
+    const change = byDay.get(formatDay(date));
+    byDay.delete(formatDay(date));
+
+    if (change?.isSkipped) {
+      acted.push(change);
+    } else if (change?.newDate && toDay(change.newDate) > today) {
+      // Deferred: created once its new date arrives
+    } else {
+      create.push({ occurrenceDate: date, date: change?.newDate ? toDay(change.newDate) : date, amount: change?.amount });
+      if (change) acted.push(change);
+    }
+  });
+
+  // Deferred occurrences from earlier runs, and later ones pulled forward
+  byDay.forEach(change => {
+    if (!change.isSkipped && change.newDate && toDay(change.newDate) <= today) {
+      create.push({ occurrenceDate: toDay(change.occurrenceDate), date: toDay(change.newDate), amount: change.amount });
+      acted.push(change);
+    }
+  });
+
+  return { create, acted };
+};
+
+// Occurrences not created yet that land between `from` and `to`, with
+// changes applied. Skipped ones are included and flagged so they can be
+// shown and restored.
+export const projectOccurrences = <T extends OccurrenceChange>(
+  state: RecurrenceState,
+  changes: T[],
+  from: Date,
+  to: Date
+): ProjectedOccurrence<T>[] => {
+  const start = toDay(from);
+  const end = toDay(to);
+  const inRange = (date: Date) => date >= start && date <= end;
+  const byDay = changesByDay(changes);
+  const scheduled = getDueOccurrences(state, end).dates;
+  const scheduledDays = new Set(scheduled.map(formatDay));
+  const projected: ProjectedOccurrence<T>[] = [];
+
+  scheduled.forEach(date => {
+    const change = byDay.get(formatDay(date));
+    // Already created when it was moved earlier
+    if (change?.processedAt) return;
+
+    const lands = change?.newDate ? toDay(change.newDate) : date;
+    if (inRange(lands)) {
+      projected.push({ occurrenceDate: date, date: lands, amount: change?.amount, isSkipped: !!change?.isSkipped, change });
+    }
+  });
+
+  // Deferred occurrences whose scheduled date has passed, and later ones
+  // pulled into the range. A change for a date the schedule should have
+  // produced but didn't is stale and ignored.
+  const next = toDay(state.nextOccurrenceDate);
+  changes.forEach(change => {
+    if (change.processedAt || !change.newDate || scheduledDays.has(formatDay(change.occurrenceDate))) return;
+    const occurrence = toDay(change.occurrenceDate);
+    if (occurrence >= next && occurrence <= end) return;
+    const lands = toDay(change.newDate);
+    if (inRange(lands)) {
+      projected.push({ occurrenceDate: toDay(change.occurrenceDate), date: lands, amount: change.amount, isSkipped: change.isSkipped, change });
+    }
+  });
+
+  return projected.sort((a, b) => a.date.getTime() - b.date.getTime());
+};
+
+export const DEFAULT_ESTIMATE_WINDOW = 3;
+
+// Expected amount of a variable series: the average of its latest confirmed
+// occurrences, newest first, or the series amount until it has any
+export const estimateAmount = (
+  confirmedAmounts: number[],
+  fallback: number,
+  window: number = DEFAULT_ESTIMATE_WINDOW
+): number => {
+  const recent = confirmedAmounts.slice(0, Math.max(1, window));
+  if (recent.length === 0) return fallback;
+  return Math.round((recent.reduce((sum, amount) => sum + amount, 0) / recent.length) * 100) / 100;
+};
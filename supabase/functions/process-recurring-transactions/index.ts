@@ -0,0 +1,209 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.39.0";
+import {
+  DueOccurrences,
+  OccurrenceChange,
+  estimateAmount,
+  formatDay,
+  getDueOccurrences,
+  planOccurrences,
+} from "../_shared/recurrence.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization",
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json",
+    },
+  });
+
+// Creates every missed occurrence of the active recurring transactions up to
+// today and advances their schedule. Per-occurrence exceptions are applied:
+// skipped occurrences are not created, moved ones are created on their new
+// date (waiting for it if it is later) and overridden amounts are used.
+// Variable series are created with an amount estimated from their latest
+// confirmed occurrences and marked pending until the actual amount is known.
+//
+// Called with a user's access token it processes that user's series only;
+// called with the service role key (the nightly cron job) it processes
+// everyone's. Runs are idempotent: occurrences are inserted with
+// ON CONFLICT DO NOTHING against the (recurring_transaction_id,
+// occurrence_date) unique index, and a series is only advanced if nobody
+// else advanced it meanwhile.
+serve(async (req: Request) => {
+  // Handle CORS preflight requests
+  if (req.method === "OPTIONS") {
+    return new Response(null, {
+      status: 200,
+      headers: corsHeaders,
+    });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey);
+
+    const token = (req.headers.get("Authorization") || "").replace("Bearer ", "");
+    let userId: string | null = null;
+
+    if (token !== serviceRoleKey) {
+      const { data: { user }, error } = await supabase.auth.getUser(token);
+      if (error || !user) {
+        return jsonResponse({ error: "Not authenticated" }, 401);
+      }
+      userId = user.id;
+    }
+
+    const today = new Date();
+    // Series whose next date is still ahead can have a deferred occurrence
+    // due, so every active series is considered
+    let query = supabase
+      .from("recurring_transactions")
+      .select("*")
+      .eq("is_active", true);
+    if (userId) query = query.eq("user_id", userId);
+
+    const { data: series, error: loadError } = await query;
+    if (loadError) throw loadError;
+
+    let exceptionQuery = supabase
+      .from("recurring_transaction_exceptions")
+      .select("*")
+      .is("processed_at", null);
+    if (userId) exceptionQuery = exceptionQuery.eq("user_id", userId);
+
+    const { data: exceptionRows, error: exceptionError } = await exceptionQuery;
+    if (exceptionError) throw exceptionError;
+
+    const pendingBySeries = new Map<string, Array<OccurrenceChange & { id: string; userId: string }>>();
+    (exceptionRows || []).forEach(row => {
+      const list = pendingBySeries.get(row.recurring_transaction_id) || [];
+      list.push({
+        id: row.id,
+        userId: row.user_id,
+        occurrenceDate: new Date(row.occurrence_date),
+        isSkipped: row.is_skipped,
+        newDate: row.new_date ? new Date(row.new_date) : undefined,
+        amount: row.amount != null ? Number(row.amount) : undefined,
+      });
+      pendingBySeries.set(row.recurring_transaction_id, list);
+    });
+
+    let processed = 0;
+    let created = 0;
+
+    for (const rt of series || []) {
+      let due: DueOccurrences;
+      try {
+        due = getDueOccurrences({
+          frequency: rt.frequency,
+          startDate: new Date(rt.start_date),
+          endDate: rt.end_date ? new Date(rt.end_date) : undefined,
+          dayOfWeek: rt.day_of_week ?? undefined,
+          dayOfMonth: rt.day_of_month ?? undefined,
+          monthOfYear: rt.month_of_year ?? undefined,
+          maxOccurrences: rt.max_occurrences ?? undefined,
+          rrule: rt.rrule ?? undefined,
+          nextOccurrenceDate: new Date(rt.next_occurrence_date),
+          currentOccurrences: rt.current_occurrences,
+        }, today);
+      } catch (error) {
+        // An invalid RRULE only holds back its own series
+        console.error(`Failed to calculate occurrences for ${rt.id}:`, error);
+        continue;
+      }
+
+      // Only the series owner's exceptions apply, whoever else names the series
+      const pending = (pendingBySeries.get(rt.id) || []).filter(change => change.userId === rt.user_id);
+      const plan = planOccurrences(due, pending, today);
+
+      let expectedAmount = Number(rt.amount);
+      if (rt.is_variable && plan.create.some(occurrence => occurrence.amount === undefined)) {
+        const { data: confirmed, error: estimateError } = await supabase
+          .from("transactions")
+          .select("amount")
+          .eq("recurring_transaction_id", rt.id)
+          .eq("is_pending", false)
+          .order("date", { ascending: false })
+          .limit(rt.estimate_window);
+
+        if (estimateError) {
+          console.error(`Failed to estimate the amount of ${rt.id}:`, estimateError);
+          continue;
+        }
+        expectedAmount = estimateAmount(
+          (confirmed || []).map(row => Number(row.amount)),
+          expectedAmount,
+          rt.estimate_window,
+        );
+      }
+
+      if (plan.create.length > 0) {
+        const { data: inserted, error: insertError } = await supabase
+          .from("transactions")
+          .upsert(plan.create.map(occurrence => ({
+            user_id: rt.user_id,
+            type: rt.type,
+            // An amount set on the occurrence itself is already the actual one
+            amount: occurrence.amount ?? expectedAmount,
+            is_pending: rt.is_variable && occurrence.amount === undefined,
+            category: rt.category,
+            description: rt.description,
+            date: formatDay(occurrence.date),
+            occurrence_date: formatDay(occurrence.occurrenceDate),
+            recurring_transaction_id: rt.id,
+          })), { onConflict: "recurring_transaction_id,occurrence_date", ignoreDuplicates: true })
+          .select("id");
+
+        if (insertError) {
+          console.error(`Failed to create occurrences for ${rt.id}:`, insertError);
+          continue;
+        }
+        created += inserted?.length ?? 0;
+      }
+
+      if (plan.acted.length > 0) {
+        const { error: markError } = await supabase
+          .from("recurring_transaction_exceptions")
+          .update({ processed_at: new Date().toISOString() })
+          .in("id", plan.acted.map(exception => exception.id));
+        if (markError) console.error(`Failed to mark exceptions of ${rt.id} processed:`, markError);
+      }
+
+      if (due.dates.length === 0 && !due.isComplete) continue;
+
+      const { data: advanced, error: updateError } = await supabase
+        .from("recurring_transactions")
+        .update({
+          next_occurrence_date: formatDay(due.nextOccurrenceDate),
+          current_occurrences: due.currentOccurrences,
+          last_processed_date: due.dates.length > 0
+            ? formatDay(due.dates[due.dates.length - 1])
+            : rt.last_processed_date,
+          is_active: !due.isComplete,
+        })
+        .eq("id", rt.id)
+        .eq("next_occurrence_date", rt.next_occurrence_date)
+        .select("id");
+
+      if (updateError) {
+        console.error(`Failed to advance ${rt.id}:`, updateError);
+        continue;
+      }
+      if (advanced && advanced.length > 0) processed += 1;
+    }
+
+    console.log(`Processed ${processed} recurring transactions, created ${created} occurrences`);
+    return jsonResponse({ processed, created });
+  } catch (error) {
+    console.error("Error processing request:", error);
+    return jsonResponse({ error: "Failed to process recurring transactions" }, 500);
+  }
+});
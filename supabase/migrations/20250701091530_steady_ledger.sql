@@ -0,0 +1,29 @@
+/*
+  # Add External IDs to Transactions
+
+  1. Changes
+    - Add `external_id` column to `transactions` to store the identifier a
+      transaction had in an imported bank statement (OFX/QFX FITID, or a
+      content hash for QIF files)
+    - Add a partial unique index on (user_id, external_id) so re-importing an
+      overlapping statement can never create duplicate rows
+
+  2. Security
+    - Maintain existing RLS policies
+*/
+
+-- Add external_id column
+DO $$ 
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns 
+    WHERE table_name = 'transactions' AND column_name = 'external_id'
+  ) THEN
+    ALTER TABLE transactions ADD COLUMN external_id text;
+  END IF;
+END $$;
+
+-- One row per imported statement entry
+CREATE UNIQUE INDEX IF NOT EXISTS transactions_user_id_external_id_idx
+  ON transactions(user_id, external_id)
+  WHERE external_id IS NOT NULL;
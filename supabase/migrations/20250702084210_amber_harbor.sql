@@ -0,0 +1,85 @@
+/*
+  # Add Accounts Table
+
+  1. New Tables
+    - `accounts`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `name` (text)
+      - `type` (text, 'checking', 'savings', 'cash', 'credit_card' or 'investment')
+      - `opening_balance` (numeric, balance before the first tracked transaction)
+      - `currency` (text, ISO 4217 code)
+      - `is_archived` (boolean)
+      - `created_at` (timestamp)
+      - `updated_at` (timestamp)
+
+  2. Security
+    - Enable RLS on the new table
+    - Add policies for authenticated users to manage their own accounts
+
+  3. Changes
+    - Add `account_id` column to transactions so each transaction records the
+      account it belongs to. Deleting an account keeps its transactions and
+      clears the link.
+*/
+
+-- Create accounts table
+CREATE TABLE IF NOT EXISTS accounts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  name text NOT NULL,
+  type text NOT NULL CHECK (type IN ('checking', 'savings', 'cash', 'credit_card', 'investment')),
+  opening_balance numeric NOT NULL DEFAULT 0,
+  currency text NOT NULL DEFAULT 'USD',
+  is_archived boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Add account_id column to transactions table
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'transactions' AND column_name = 'account_id'
+  ) THEN
+    ALTER TABLE transactions ADD COLUMN account_id uuid REFERENCES accounts(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+-- Create index for better performance
+CREATE INDEX IF NOT EXISTS accounts_user_id_idx ON accounts(user_id);
+CREATE INDEX IF NOT EXISTS transactions_account_id_idx ON transactions(account_id);
+
+-- Enable Row Level Security
+ALTER TABLE accounts ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for accounts
+CREATE POLICY "Users can read own accounts"
+  ON accounts
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own accounts"
+  ON accounts
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own accounts"
+  ON accounts
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own accounts"
+  ON accounts
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_accounts_updated_at
+BEFORE UPDATE ON accounts
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
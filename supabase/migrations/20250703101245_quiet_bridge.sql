@@ -0,0 +1,37 @@
+/*
+  # Add Transfers Between Accounts
+
+  1. Changes
+    - Allow 'transfer' as a transaction type
+    - Add `transfer_account_id` column to transactions. For a transfer,
+      `account_id` is the account the money leaves and `transfer_account_id`
+      the account it arrives in. Deleting an account clears the link.
+    - A transfer cannot have the same source and destination account
+
+  2. Security
+    - No policy changes; transfers are ordinary rows in transactions
+*/
+
+-- Allow the transfer type
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_type_check;
+ALTER TABLE transactions ADD CONSTRAINT transactions_type_check
+  CHECK (type IN ('income', 'expense', 'transfer'));
+
+-- Add transfer_account_id column to transactions table
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'transactions' AND column_name = 'transfer_account_id'
+  ) THEN
+    ALTER TABLE transactions ADD COLUMN transfer_account_id uuid REFERENCES accounts(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+-- Source and destination must differ
+ALTER TABLE transactions DROP CONSTRAINT IF EXISTS transactions_transfer_accounts_check;
+ALTER TABLE transactions ADD CONSTRAINT transactions_transfer_accounts_check
+  CHECK (account_id IS NULL OR transfer_account_id IS NULL OR account_id <> transfer_account_id);
+
+-- Create index for better performance
+CREATE INDEX IF NOT EXISTS transactions_transfer_account_id_idx ON transactions(transfer_account_id);
@@ -0,0 +1,49 @@
+/*
+  # Add Per-Transaction Currency
+
+  1. Changes
+    - Add `original_currency` column to transactions (ISO 4217 code the
+      transaction was made in, null when it is the base currency)
+    - Add `original_amount` column to transactions (amount in that currency)
+    - Add `exchange_rate` column to transactions (rate from the original
+      currency to the base currency on the transaction date)
+    - `amount` keeps holding the base-currency value so existing queries and
+      totals stay correct
+
+  2. Security
+    - No policy changes; the new columns are covered by the existing
+      transactions policies
+*/
+
+-- Add original_currency column to transactions table
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'transactions' AND column_name = 'original_currency'
+  ) THEN
+    ALTER TABLE transactions ADD COLUMN original_currency text;
+  END IF;
+END $$;
+
+-- Add original_amount column to transactions table
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'transactions' AND column_name = 'original_amount'
+  ) THEN
+    ALTER TABLE transactions ADD COLUMN original_amount numeric;
+  END IF;
+END $$;
+
+-- Add exchange_rate column to transactions table
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'transactions' AND column_name = 'exchange_rate'
+  ) THEN
+    ALTER TABLE transactions ADD COLUMN exchange_rate numeric CHECK (exchange_rate > 0);
+  END IF;
+END $$;
@@ -0,0 +1,316 @@
+/*
+  # Server-Side Base Currency Conversion
+
+  1. New Tables
+    - `currency_conversions`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `from_currency` (text, previous base currency)
+      - `to_currency` (text, new base currency)
+      - `rate` (numeric, from_currency → to_currency rate used)
+      - `row_counts` (jsonb, rows converted per table)
+      - `snapshot` (jsonb, amounts before conversion, used to undo)
+      - `undone_at` (timestamp, set once the conversion has been undone)
+      - `created_at` (timestamp)
+
+  2. New Functions
+    - `convert_base_currency(p_from_currency, p_to_currency, p_rate, p_dry_run)`
+      converts goals, liabilities, budgets, recurring transactions and
+      transactions of the calling user in a single transaction. With
+      `p_dry_run` it only returns per-table counts and before/after totals.
+      Transactions keep their original amount: rows in the old base currency
+      become foreign-currency rows at `p_rate`, rows already in a foreign
+      currency chain their stored rate with `p_rate`.
+    - `undo_currency_conversion(p_conversion_id)` restores the snapshot of the
+      user's most recent conversion that has not been undone yet
+
+  3. Security
+    - Enable RLS on the new table
+    - Add policies for authenticated users to manage their own conversions
+    - Both functions run as the caller, so table policies still apply
+*/
+
+-- Create currency_conversions table
+CREATE TABLE IF NOT EXISTS currency_conversions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  from_currency text NOT NULL,
+  to_currency text NOT NULL,
+  rate numeric NOT NULL CHECK (rate > 0),
+  row_counts jsonb NOT NULL DEFAULT '{}'::jsonb,
+  snapshot jsonb NOT NULL DEFAULT '{}'::jsonb,
+  undone_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create index for better performance
+CREATE INDEX IF NOT EXISTS currency_conversions_user_id_idx ON currency_conversions(user_id, created_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE currency_conversions ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for currency_conversions
+CREATE POLICY "Users can read own currency conversions"
+  ON currency_conversions
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own currency conversions"
+  ON currency_conversions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own currency conversions"
+  ON currency_conversions
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own currency conversions"
+  ON currency_conversions
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Convert every stored amount of the calling user to a new base currency
+CREATE OR REPLACE FUNCTION convert_base_currency(
+  p_from_currency text,
+  p_to_currency text,
+  p_rate numeric,
+  p_dry_run boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_snapshot jsonb;
+  v_counts jsonb;
+  v_entities jsonb;
+  v_conversion_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+  IF p_rate IS NULL OR p_rate <= 0 THEN
+    RAISE EXCEPTION 'Exchange rate must be greater than 0';
+  END IF;
+  IF p_from_currency = p_to_currency THEN
+    RAISE EXCEPTION 'Base currency is already %', p_to_currency;
+  END IF;
+
+  -- Amounts before conversion, kept for undo
+  v_snapshot := jsonb_build_object(
+    'goals', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'target_amount', target_amount, 'current_amount', current_amount))
+      FROM goals WHERE user_id = v_user_id
+    ), '[]'::jsonb),
+    'liabilities', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'total_amount', total_amount,
+        'remaining_amount', remaining_amount, 'monthly_payment', monthly_payment))
+      FROM liabilities WHERE user_id = v_user_id
+    ), '[]'::jsonb),
+    'budgets', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'amount', amount, 'spent', spent))
+      FROM budgets WHERE user_id = v_user_id
+    ), '[]'::jsonb),
+    'recurring_transactions', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'amount', amount))
+      FROM recurring_transactions WHERE user_id = v_user_id
+    ), '[]'::jsonb),
+    'transactions', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'amount', amount, 'original_currency', original_currency,
+        'original_amount', original_amount, 'exchange_rate', exchange_rate))
+      FROM transactions WHERE user_id = v_user_id
+    ), '[]'::jsonb)
+  );
+
+  v_counts := jsonb_build_object(
+    'goals', jsonb_array_length(v_snapshot->'goals'),
+    'liabilities', jsonb_array_length(v_snapshot->'liabilities'),
+    'budgets', jsonb_array_length(v_snapshot->'budgets'),
+    'recurring_transactions', jsonb_array_length(v_snapshot->'recurring_transactions'),
+    'transactions', jsonb_array_length(v_snapshot->'transactions')
+  );
+
+  -- Per-table count and headline total before and after conversion
+  v_entities := jsonb_build_object(
+    'goals', (
+      SELECT jsonb_build_object('count', count(*), 'before', COALESCE(sum(target_amount), 0),
+        'after', COALESCE(sum(GREATEST(round(target_amount * p_rate, 2), 0.01)), 0))
+      FROM goals WHERE user_id = v_user_id
+    ),
+    'liabilities', (
+      SELECT jsonb_build_object('count', count(*), 'before', COALESCE(sum(remaining_amount), 0),
+        'after', COALESCE(sum(round(remaining_amount * p_rate, 2)), 0))
+      FROM liabilities WHERE user_id = v_user_id
+    ),
+    'budgets', (
+      SELECT jsonb_build_object('count', count(*), 'before', COALESCE(sum(amount), 0),
+        'after', COALESCE(sum(GREATEST(round(amount * p_rate, 2), 0.01)), 0))
+      FROM budgets WHERE user_id = v_user_id
+    ),
+    'recurring_transactions', (
+      SELECT jsonb_build_object('count', count(*), 'before', COALESCE(sum(amount), 0),
+        'after', COALESCE(sum(GREATEST(round(amount * p_rate, 2), 0.01)), 0))
+      FROM recurring_transactions WHERE user_id = v_user_id
+    ),
+    'transactions', (
+      SELECT jsonb_build_object('count', count(*), 'before', COALESCE(sum(amount), 0),
+        'after', COALESCE(sum(GREATEST(CASE
+          WHEN original_currency = p_to_currency THEN original_amount
+          WHEN original_currency IS NOT NULL THEN round(original_amount * exchange_rate * p_rate, 2)
+          ELSE round(amount * p_rate, 2)
+        END, 0.01)), 0))
+      FROM transactions WHERE user_id = v_user_id
+    )
+  );
+
+  IF p_dry_run THEN
+    RETURN jsonb_build_object(
+      'dry_run', true,
+      'from_currency', p_from_currency,
+      'to_currency', p_to_currency,
+      'rate', p_rate,
+      'entities', v_entities
+    );
+  END IF;
+
+  UPDATE goals
+  SET target_amount = GREATEST(round(target_amount * p_rate, 2), 0.01),
+      current_amount = round(current_amount * p_rate, 2)
+  WHERE user_id = v_user_id;
+
+  UPDATE liabilities
+  SET total_amount = GREATEST(round(total_amount * p_rate, 2), 0.01),
+      remaining_amount = round(remaining_amount * p_rate, 2),
+      monthly_payment = GREATEST(round(monthly_payment * p_rate, 2), 0.01)
+  WHERE user_id = v_user_id;
+
+  UPDATE budgets
+  SET amount = GREATEST(round(amount * p_rate, 2), 0.01),
+      spent = round(spent * p_rate, 2)
+  WHERE user_id = v_user_id;
+
+  UPDATE recurring_transactions
+  SET amount = GREATEST(round(amount * p_rate, 2), 0.01)
+  WHERE user_id = v_user_id;
+
+  -- Right-hand sides all see the row's values from before the update
+  UPDATE transactions
+  SET amount = GREATEST(CASE
+        WHEN original_currency = p_to_currency THEN original_amount
+        WHEN original_currency IS NOT NULL THEN round(original_amount * exchange_rate * p_rate, 2)
+        ELSE round(amount * p_rate, 2)
+      END, 0.01),
+      original_currency = CASE
+        WHEN original_currency = p_to_currency THEN NULL
+        WHEN original_currency IS NOT NULL THEN original_currency
+        ELSE p_from_currency
+      END,
+      original_amount = CASE
+        WHEN original_currency = p_to_currency THEN NULL
+        WHEN original_currency IS NOT NULL THEN original_amount
+        ELSE amount
+      END,
+      exchange_rate = CASE
+        WHEN original_currency = p_to_currency THEN NULL
+        WHEN original_currency IS NOT NULL THEN exchange_rate * p_rate
+        ELSE p_rate
+      END
+  WHERE user_id = v_user_id;
+
+  INSERT INTO currency_conversions (user_id, from_currency, to_currency, rate, row_counts, snapshot)
+  VALUES (v_user_id, p_from_currency, p_to_currency, p_rate, v_counts, v_snapshot)
+  RETURNING id INTO v_conversion_id;
+
+  RETURN jsonb_build_object(
+    'dry_run', false,
+    'conversion_id', v_conversion_id,
+    'from_currency', p_from_currency,
+    'to_currency', p_to_currency,
+    'rate', p_rate,
+    'entities', v_entities
+  );
+END;
+$$;
+
+-- Restore the amounts saved by a conversion. Only the latest conversion that
+-- has not been undone can be reverted, so snapshots are applied in order.
+CREATE OR REPLACE FUNCTION undo_currency_conversion(p_conversion_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_conversion currency_conversions%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  SELECT * INTO v_conversion
+  FROM currency_conversions
+  WHERE id = p_conversion_id AND user_id = v_user_id AND undone_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Currency conversion not found or already undone';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM currency_conversions
+    WHERE user_id = v_user_id AND undone_at IS NULL AND created_at > v_conversion.created_at
+  ) THEN
+    RAISE EXCEPTION 'Undo the more recent currency conversion first';
+  END IF;
+
+  UPDATE goals g
+  SET target_amount = (s->>'target_amount')::numeric,
+      current_amount = (s->>'current_amount')::numeric
+  FROM jsonb_array_elements(v_conversion.snapshot->'goals') s
+  WHERE g.id = (s->>'id')::uuid AND g.user_id = v_user_id;
+
+  UPDATE liabilities l
+  SET total_amount = (s->>'total_amount')::numeric,
+      remaining_amount = (s->>'remaining_amount')::numeric,
+      monthly_payment = (s->>'monthly_payment')::numeric
+  FROM jsonb_array_elements(v_conversion.snapshot->'liabilities') s
+  WHERE l.id = (s->>'id')::uuid AND l.user_id = v_user_id;
+
+  UPDATE budgets b
+  SET amount = (s->>'amount')::numeric,
+      spent = (s->>'spent')::numeric
+  FROM jsonb_array_elements(v_conversion.snapshot->'budgets') s
+  WHERE b.id = (s->>'id')::uuid AND b.user_id = v_user_id;
+
+  UPDATE recurring_transactions r
+  SET amount = (s->>'amount')::numeric
+  FROM jsonb_array_elements(v_conversion.snapshot->'recurring_transactions') s
+  WHERE r.id = (s->>'id')::uuid AND r.user_id = v_user_id;
+
+  UPDATE transactions t
+  SET amount = (s->>'amount')::numeric,
+      original_currency = s->>'original_currency',
+      original_amount = (s->>'original_amount')::numeric,
+      exchange_rate = (s->>'exchange_rate')::numeric
+  FROM jsonb_array_elements(v_conversion.snapshot->'transactions') s
+  WHERE t.id = (s->>'id')::uuid AND t.user_id = v_user_id;
+
+  UPDATE currency_conversions SET undone_at = now() WHERE id = p_conversion_id;
+
+  RETURN jsonb_build_object(
+    'conversion_id', p_conversion_id,
+    'from_currency', v_conversion.from_currency,
+    'to_currency', v_conversion.to_currency
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION convert_base_currency(text, text, numeric, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION undo_currency_conversion(uuid) TO authenticated;
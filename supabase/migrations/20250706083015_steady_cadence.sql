@@ -0,0 +1,63 @@
+/*
+  # Recurring Transaction Processing
+
+  1. Changes
+    - Unlink all but the earliest transaction when several share the same
+      recurring transaction and date, so the unique index below can be built
+    - Add a unique index on transactions (recurring_transaction_id, date); the
+      process-recurring-transactions edge function inserts occurrences with
+      ON CONFLICT DO NOTHING against it, which makes processing idempotent
+    - Schedule the edge function nightly with pg_cron when pg_cron, pg_net
+      and the `project_url` / `service_role_key` vault secrets are available
+
+  2. Security
+    - No policy changes; the scheduled job authenticates with the service
+      role key read from the vault
+*/
+
+-- Unlink duplicate occurrences
+UPDATE transactions t
+SET recurring_transaction_id = NULL
+WHERE t.recurring_transaction_id IS NOT NULL
+  AND EXISTS (
+    SELECT 1 FROM transactions earlier
+    WHERE earlier.recurring_transaction_id = t.recurring_transaction_id
+      AND earlier.date = t.date
+      AND (earlier.created_at, earlier.id) < (t.created_at, t.id)
+  );
+
+-- One occurrence per recurring transaction and day; NULLs stay distinct so
+-- ordinary transactions are unaffected
+CREATE UNIQUE INDEX IF NOT EXISTS transactions_recurring_occurrence_idx
+  ON transactions(recurring_transaction_id, date);
+
+-- Nightly processing, so occurrences are created without the app open
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+    OR NOT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net')
+    OR to_regclass('vault.decrypted_secrets') IS NULL
+  THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM vault.decrypted_secrets WHERE name = 'project_url')
+    AND EXISTS (SELECT 1 FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+  THEN
+    PERFORM cron.schedule(
+      'process-recurring-transactions',
+      '15 0 * * *',
+      $cron$
+      SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+          || '/functions/v1/process-recurring-transactions',
+        headers := jsonb_build_object(
+          'Content-Type', 'application/json',
+          'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{}'::jsonb
+      );
+      $cron$
+    );
+  END IF;
+END $$;
@@ -0,0 +1,23 @@
+/*
+  # Add RRULE Recurrence
+
+  1. Changes
+    - Add `rrule` column to recurring_transactions (RFC 5545 recurrence rule,
+      null for series that use the simple frequency options). When set it
+      defines the schedule and `frequency` holds its FREQ.
+
+  2. Security
+    - No policy changes; the new column is covered by the existing
+      recurring_transactions policies
+*/
+
+-- Add rrule column to recurring_transactions table
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'recurring_transactions' AND column_name = 'rrule'
+  ) THEN
+    ALTER TABLE recurring_transactions ADD COLUMN rrule text;
+  END IF;
+END $$;
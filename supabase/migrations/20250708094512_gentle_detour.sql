@@ -0,0 +1,95 @@
+/*
+  # Recurring Occurrence Exceptions
+
+  1. New Tables
+    - `recurring_transaction_exceptions`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, foreign key to profiles)
+      - `recurring_transaction_id` (uuid, foreign key to recurring_transactions)
+      - `occurrence_date` (date, the date the occurrence was scheduled for)
+      - `is_skipped` (boolean, the occurrence is not created at all)
+      - `new_date` (date, nullable, create the occurrence on this date instead)
+      - `amount` (numeric, nullable, create the occurrence with this amount)
+      - `processed_at` (timestamptz, nullable, set once processing has acted
+        on the exception so a moved occurrence is only created once)
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Changes
+    - Add `occurrence_date` column to transactions: the scheduled date a
+      generated transaction belongs to, which differs from `date` when the
+      occurrence was moved
+    - Backfill it for existing generated transactions
+    - Replace the (recurring_transaction_id, date) unique index with one on
+      (recurring_transaction_id, occurrence_date), so a moved occurrence can
+      land on the same day as another one
+
+  3. Security
+    - Enable RLS on `recurring_transaction_exceptions`
+    - Add policies for users to manage their own exceptions
+*/
+
+CREATE TABLE IF NOT EXISTS recurring_transaction_exceptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  recurring_transaction_id uuid REFERENCES recurring_transactions(id) ON DELETE CASCADE NOT NULL,
+  occurrence_date date NOT NULL,
+  is_skipped boolean NOT NULL DEFAULT false,
+  new_date date,
+  amount numeric CHECK (amount > 0),
+  processed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (recurring_transaction_id, occurrence_date)
+);
+
+ALTER TABLE recurring_transaction_exceptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own recurring exceptions"
+  ON recurring_transaction_exceptions
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own recurring exceptions"
+  ON recurring_transaction_exceptions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own recurring exceptions"
+  ON recurring_transaction_exceptions
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own recurring exceptions"
+  ON recurring_transaction_exceptions
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS recurring_transaction_exceptions_user_id_idx ON recurring_transaction_exceptions(user_id);
+
+CREATE TRIGGER update_recurring_transaction_exceptions_updated_at
+  BEFORE UPDATE ON recurring_transaction_exceptions
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Add occurrence_date column to transactions table
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'transactions' AND column_name = 'occurrence_date'
+  ) THEN
+    ALTER TABLE transactions ADD COLUMN occurrence_date date;
+  END IF;
+END $$;
+
+UPDATE transactions
+SET occurrence_date = date
+WHERE recurring_transaction_id IS NOT NULL AND occurrence_date IS NULL;
+
+DROP INDEX IF EXISTS transactions_recurring_occurrence_idx;
+
+CREATE UNIQUE INDEX IF NOT EXISTS transactions_recurring_occurrence_date_idx
+  ON transactions(recurring_transaction_id, occurrence_date);
@@ -0,0 +1,53 @@
+/*
+  # Variable-Amount Recurring Transactions
+
+  1. Changes
+    - Add `is_variable` column to recurring_transactions: the amount changes
+      each time (utilities), so occurrences are created with an estimate
+    - Add `estimate_window` column to recurring_transactions: how many of the
+      latest confirmed occurrences the estimate averages
+    - Add `is_pending` column to transactions: an occurrence created with an
+      estimated amount that is waiting for the actual amount
+
+  2. Security
+    - No policy changes; the new columns are covered by the existing
+      policies on both tables
+*/
+
+-- Add is_variable column to recurring_transactions table
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'recurring_transactions' AND column_name = 'is_variable'
+  ) THEN
+    ALTER TABLE recurring_transactions ADD COLUMN is_variable boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
+
+-- Add estimate_window column to recurring_transactions table
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'recurring_transactions' AND column_name = 'estimate_window'
+  ) THEN
+    ALTER TABLE recurring_transactions ADD COLUMN estimate_window integer NOT NULL DEFAULT 3 CHECK (estimate_window BETWEEN 1 AND 24);
+  END IF;
+END $$;
+
+-- Add is_pending column to transactions table
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'transactions' AND column_name = 'is_pending'
+  ) THEN
+    ALTER TABLE transactions ADD COLUMN is_pending boolean NOT NULL DEFAULT false;
+  END IF;
+END $$;
+
+-- Estimates read the latest confirmed occurrences of a series
+CREATE INDEX IF NOT EXISTS transactions_recurring_confirmed_idx
+  ON transactions(recurring_transaction_id, date DESC)
+  WHERE recurring_transaction_id IS NOT NULL AND is_pending = false;
@@ -0,0 +1,193 @@
+/*
+  # Multi-Category and Custom Date Budgets
+
+  1. Changes
+    - Add `categories` column to budgets: the expense categories the budget
+      covers. Existing budgets are backfilled with their own category, which
+      from now on is the budget's name (e.g. "Going out" for Restaurants,
+      Bars and Entertainment)
+    - Allow a `custom` period with `start_date` and `end_date` columns, for
+      one-off budgets such as a trip or a project
+    - Redefine `get_budget_spending` to sum every covered category and to use
+      the custom date range as the window of custom budgets
+    - Redefine `record_budget_periods` the same way. A custom budget records
+      its single period once it has ended.
+*/
+
+-- Add categories column to budgets table
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'budgets' AND column_name = 'categories'
+  ) THEN
+    ALTER TABLE budgets ADD COLUMN categories text[] NOT NULL DEFAULT '{}';
+  END IF;
+END $$;
+
+UPDATE budgets
+SET categories = ARRAY[category]
+WHERE categories = '{}';
+
+ALTER TABLE budgets DROP CONSTRAINT IF EXISTS budgets_categories_check;
+ALTER TABLE budgets ADD CONSTRAINT budgets_categories_check CHECK (cardinality(categories) > 0);
+
+-- Add start_date and end_date columns to budgets table
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'budgets' AND column_name = 'start_date'
+  ) THEN
+    ALTER TABLE budgets ADD COLUMN start_date date;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'budgets' AND column_name = 'end_date'
+  ) THEN
+    ALTER TABLE budgets ADD COLUMN end_date date;
+  END IF;
+END $$;
+
+ALTER TABLE budgets DROP CONSTRAINT IF EXISTS budgets_period_check;
+ALTER TABLE budgets ADD CONSTRAINT budgets_period_check
+  CHECK (period IN ('weekly', 'monthly', 'yearly', 'custom'));
+
+ALTER TABLE budgets DROP CONSTRAINT IF EXISTS budgets_custom_range_check;
+ALTER TABLE budgets ADD CONSTRAINT budgets_custom_range_check
+  CHECK (period <> 'custom' OR (start_date IS NOT NULL AND end_date IS NOT NULL AND end_date >= start_date));
+
+-- Spending of every budget of the calling user in its current period
+CREATE OR REPLACE FUNCTION get_budget_spending(p_as_of date DEFAULT CURRENT_DATE)
+RETURNS TABLE (
+  budget_id uuid,
+  period_start date,
+  period_end date,
+  spent numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    b.id,
+    w.period_start,
+    w.period_end,
+    COALESCE(sum(t.amount), 0)
+  FROM budgets b
+  CROSS JOIN LATERAL (
+    SELECT
+      CASE b.period WHEN 'weekly' THEN 'week' WHEN 'yearly' THEN 'year' ELSE 'month' END AS unit,
+      CASE b.period WHEN 'weekly' THEN interval '1 week' WHEN 'yearly' THEN interval '1 year' ELSE interval '1 month' END AS length
+  ) p
+  CROSS JOIN LATERAL (
+    SELECT
+      CASE WHEN b.period = 'custom' THEN b.start_date
+        ELSE date_trunc(p.unit, p_as_of::timestamp)::date END AS period_start,
+      CASE WHEN b.period = 'custom' THEN b.end_date
+        ELSE (date_trunc(p.unit, p_as_of::timestamp) + p.length)::date - 1 END AS period_end
+  ) w
+  LEFT JOIN transactions t
+    ON t.user_id = b.user_id
+    AND t.type = 'expense'
+    AND t.category = ANY (b.categories)
+    AND t.date BETWEEN w.period_start AND w.period_end
+  WHERE b.user_id = auth.uid()
+  GROUP BY b.id, w.period_start, w.period_end;
+$$;
+
+-- Record the outcome of every ended, unrecorded period of the calling user's budgets
+CREATE OR REPLACE FUNCTION record_budget_periods(p_as_of date DEFAULT CURRENT_DATE)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_budget budgets%ROWTYPE;
+  v_unit text;
+  v_length interval;
+  v_last_end date;
+  v_last_remaining numeric;
+  v_start date;
+  v_end date;
+  v_current date;
+  v_carry numeric;
+  v_carried_in numeric;
+  v_spent numeric;
+  v_recorded integer := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  FOR v_budget IN SELECT * FROM budgets WHERE user_id = v_user_id LOOP
+    -- A custom budget has a single period, recorded once it has ended
+    IF v_budget.period = 'custom' THEN
+      IF v_budget.end_date < p_as_of THEN
+        SELECT COALESCE(sum(amount), 0) INTO v_spent
+        FROM transactions
+        WHERE user_id = v_user_id
+          AND type = 'expense'
+          AND category = ANY (v_budget.categories)
+          AND date BETWEEN v_budget.start_date AND v_budget.end_date;
+
+        INSERT INTO budget_periods (user_id, budget_id, period_start, period_end, budgeted, spent, carried_in, remaining)
+        VALUES (v_user_id, v_budget.id, v_budget.start_date, v_budget.end_date, v_budget.amount, v_spent, 0, v_budget.amount - v_spent)
+        ON CONFLICT (budget_id, period_start) DO NOTHING;
+
+        IF FOUND THEN
+          v_recorded := v_recorded + 1;
+        END IF;
+      END IF;
+      CONTINUE;
+    END IF;
+
+    v_unit := CASE v_budget.period WHEN 'weekly' THEN 'week' WHEN 'yearly' THEN 'year' ELSE 'month' END;
+    v_length := CASE v_budget.period WHEN 'weekly' THEN interval '1 week' WHEN 'yearly' THEN interval '1 year' ELSE interval '1 month' END;
+
+    SELECT period_end, remaining INTO v_last_end, v_last_remaining
+    FROM budget_periods
+    WHERE budget_id = v_budget.id
+    ORDER BY period_start DESC
+    LIMIT 1;
+
+    -- Continue after the last recorded period. When the budget's period was
+    -- changed since, the period straddling that date is skipped.
+    v_start := date_trunc(v_unit, COALESCE(v_last_end + 1, v_budget.created_at::date)::timestamp)::date;
+    IF v_last_end IS NOT NULL AND v_start <= v_last_end THEN
+      v_start := (v_start + v_length)::date;
+    END IF;
+    v_carry := COALESCE(v_last_remaining, 0);
+    v_current := date_trunc(v_unit, p_as_of::timestamp)::date;
+
+    WHILE v_start < v_current LOOP
+      v_end := (v_start + v_length)::date - 1;
+
+      SELECT COALESCE(sum(amount), 0) INTO v_spent
+      FROM transactions
+      WHERE user_id = v_user_id
+        AND type = 'expense'
+        AND category = ANY (v_budget.categories)
+        AND date BETWEEN v_start AND v_end;
+
+      v_carried_in := CASE WHEN v_budget.rollover THEN v_carry ELSE 0 END;
+      v_carry := v_budget.amount + v_carried_in - v_spent;
+
+      INSERT INTO budget_periods (user_id, budget_id, period_start, period_end, budgeted, spent, carried_in, remaining)
+      VALUES (v_user_id, v_budget.id, v_start, v_end, v_budget.amount, v_spent, v_carried_in, v_carry)
+      ON CONFLICT (budget_id, period_start) DO NOTHING;
+
+      IF FOUND THEN
+        v_recorded := v_recorded + 1;
+      END IF;
+      v_start := (v_start + v_length)::date;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_recorded;
+END;
+$$;
@@ -0,0 +1,95 @@
+/*
+  # Budget Alerts
+
+  1. Changes
+    - Add `alert_thresholds` to `budgets`: the utilization percentages that
+      raise an alert, 80% and 100% by default
+    - Add `pace_alerts` to `budgets`: whether to warn when spending so far is
+      on pace to exceed the budget by the end of the period
+
+  2. New Tables
+    - `budget_alerts`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `budget_id` (uuid, references budgets)
+      - `period_start` (date, start of the budget period the alert is for)
+      - `kind` (text, `threshold` or `pace`)
+      - `threshold` (integer, the crossed percentage; 100 for pace alerts)
+      - `utilization` (numeric, percentage used when the alert was raised)
+      - `projected_utilization` (numeric, nullable, pace alerts only: the
+        percentage the period is on pace to end at)
+      - `read_at` (timestamp, nullable)
+      - `dismissed_at` (timestamp, nullable; dismissed alerts are kept so
+        they are not raised again)
+      - `created_at` (timestamp)
+    - An alert is raised once per budget, period, kind and threshold
+
+  3. Security
+    - Enable RLS on `budget_alerts`
+    - Add policies for users to manage their own budget alerts
+*/
+
+-- Add alert_thresholds and pace_alerts columns to budgets table
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'budgets' AND column_name = 'alert_thresholds'
+  ) THEN
+    ALTER TABLE budgets ADD COLUMN alert_thresholds integer[] NOT NULL DEFAULT '{80,100}';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'budgets' AND column_name = 'pace_alerts'
+  ) THEN
+    ALTER TABLE budgets ADD COLUMN pace_alerts boolean NOT NULL DEFAULT true;
+  END IF;
+END $$;
+
+ALTER TABLE budgets DROP CONSTRAINT IF EXISTS budgets_alert_thresholds_check;
+ALTER TABLE budgets ADD CONSTRAINT budgets_alert_thresholds_check
+  CHECK (1 <= ALL(alert_thresholds) AND 1000 >= ALL(alert_thresholds));
+
+CREATE TABLE IF NOT EXISTS budget_alerts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  budget_id uuid REFERENCES budgets(id) ON DELETE CASCADE NOT NULL,
+  period_start date NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('threshold', 'pace')),
+  threshold integer NOT NULL CHECK (threshold > 0),
+  utilization numeric NOT NULL,
+  projected_utilization numeric,
+  read_at timestamptz,
+  dismissed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (budget_id, period_start, kind, threshold)
+);
+
+ALTER TABLE budget_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own budget alerts"
+  ON budget_alerts
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own budget alerts"
+  ON budget_alerts
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own budget alerts"
+  ON budget_alerts
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own budget alerts"
+  ON budget_alerts
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS budget_alerts_user_id_created_at_idx ON budget_alerts(user_id, created_at DESC);
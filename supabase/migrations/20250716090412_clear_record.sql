@@ -0,0 +1,449 @@
+/*
+  # Goal Contributions
+
+  1. New Tables
+    - `goal_contributions`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `goal_id` (uuid, references goals)
+      - `amount` (numeric, positive for money added to the goal, negative
+        for money withdrawn from it)
+      - `date` (date, when the contribution was made)
+      - `note` (text, nullable)
+      - `transaction_id` (uuid, nullable, references transactions: the
+        transaction recorded alongside the contribution, if any)
+      - `created_at` (timestamp)
+
+  2. Changes
+    - `goals.current_amount` becomes the sum of the goal's contributions and
+      is kept up to date by a trigger
+    - Writing `current_amount` directly records the difference as a
+      contribution, so imports and older clients keep the ledger whole
+    - Existing saved amounts become a "Starting balance" contribution
+    - Deleting a transaction removes the contributions recorded with it
+    - Currency conversion converts contributions instead of saved amounts
+
+  3. Security
+    - Enable RLS on `goal_contributions`
+    - Add policies for users to manage their own goal contributions
+*/
+
+CREATE TABLE IF NOT EXISTS goal_contributions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  goal_id uuid REFERENCES goals(id) ON DELETE CASCADE NOT NULL,
+  amount numeric NOT NULL CHECK (amount <> 0),
+  date date NOT NULL DEFAULT CURRENT_DATE,
+  note text,
+  transaction_id uuid REFERENCES transactions(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE goal_contributions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own goal contributions"
+  ON goal_contributions
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own goal contributions"
+  ON goal_contributions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own goal contributions"
+  ON goal_contributions
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own goal contributions"
+  ON goal_contributions
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS goal_contributions_goal_id_date_idx ON goal_contributions(goal_id, date);
+CREATE INDEX IF NOT EXISTS goal_contributions_user_id_idx ON goal_contributions(user_id);
+CREATE INDEX IF NOT EXISTS goal_contributions_transaction_id_idx ON goal_contributions(transaction_id);
+
+-- What was saved before the ledger existed becomes its first entry
+INSERT INTO goal_contributions (user_id, goal_id, amount, date, note)
+SELECT g.user_id, g.id, g.current_amount, g.created_at::date, 'Starting balance'
+FROM goals g
+WHERE g.current_amount <> 0
+  AND NOT EXISTS (SELECT 1 FROM goal_contributions c WHERE c.goal_id = g.id);
+
+CREATE OR REPLACE FUNCTION goal_contribution_total(p_goal_id uuid)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(sum(amount), 0) FROM goal_contributions WHERE goal_id = p_goal_id;
+$$;
+
+-- Keep each goal's current_amount equal to the sum of its contributions
+CREATE OR REPLACE FUNCTION sync_goal_current_amount()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    UPDATE goals SET current_amount = goal_contribution_total(OLD.goal_id)
+    WHERE id = OLD.goal_id AND current_amount <> goal_contribution_total(OLD.goal_id);
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    UPDATE goals SET current_amount = goal_contribution_total(NEW.goal_id)
+    WHERE id = NEW.goal_id AND current_amount <> goal_contribution_total(NEW.goal_id);
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_goal_current_amount
+AFTER INSERT OR UPDATE OR DELETE ON goal_contributions
+FOR EACH ROW EXECUTE FUNCTION sync_goal_current_amount();
+
+-- A current_amount written directly, when a goal is created with money
+-- already saved, imported or edited, is recorded as a contribution of the
+-- difference. The contribution then syncs current_amount back to the total.
+CREATE OR REPLACE FUNCTION record_goal_amount_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_difference numeric := NEW.current_amount - goal_contribution_total(NEW.id);
+BEGIN
+  IF v_difference <> 0 THEN
+    INSERT INTO goal_contributions (user_id, goal_id, amount, note)
+    VALUES (
+      NEW.user_id,
+      NEW.id,
+      v_difference,
+      CASE WHEN TG_OP = 'INSERT' THEN 'Starting balance' ELSE 'Balance adjusted' END
+    );
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER record_goal_amount_change
+AFTER INSERT OR UPDATE OF current_amount ON goals
+FOR EACH ROW EXECUTE FUNCTION record_goal_amount_change();
+
+-- Convert every stored amount of the calling user to a new base currency
+CREATE OR REPLACE FUNCTION convert_base_currency(
+  p_from_currency text,
+  p_to_currency text,
+  p_rate numeric,
+  p_dry_run boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_snapshot jsonb;
+  v_counts jsonb;
+  v_entities jsonb;
+  v_conversion_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+  IF p_rate IS NULL OR p_rate <= 0 THEN
+    RAISE EXCEPTION 'Exchange rate must be greater than 0';
+  END IF;
+  IF p_from_currency = p_to_currency THEN
+    RAISE EXCEPTION 'Base currency is already %', p_to_currency;
+  END IF;
+
+  -- Amounts before conversion, kept for undo
+  v_snapshot := jsonb_build_object(
+    'goals', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'target_amount', target_amount, 'current_amount', current_amount))
+      FROM goals WHERE user_id = v_user_id
+    ), '[]'::jsonb),
+    'goal_contributions', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'amount', amount))
+      FROM goal_contributions WHERE user_id = v_user_id
+    ), '[]'::jsonb),
+    'liabilities', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'total_amount', total_amount,
+        'remaining_amount', remaining_amount, 'monthly_payment', monthly_payment))
+      FROM liabilities WHERE user_id = v_user_id
+    ), '[]'::jsonb),
+    'budgets', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'amount', amount))
+      FROM budgets WHERE user_id = v_user_id
+    ), '[]'::jsonb),
+    'budget_periods', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'budgeted', budgeted, 'spent', spent,
+        'carried_in', carried_in, 'remaining', remaining))
+      FROM budget_periods WHERE user_id = v_user_id
+    ), '[]'::jsonb),
+    'envelope_transfers', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'amount', amount))
+      FROM envelope_transfers WHERE user_id = v_user_id
+    ), '[]'::jsonb),
+    'budget_templates', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'items', items))
+      FROM budget_templates WHERE user_id = v_user_id
+    ), '[]'::jsonb),
+    'recurring_transactions', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'amount', amount))
+      FROM recurring_transactions WHERE user_id = v_user_id
+    ), '[]'::jsonb),
+    'transactions', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'amount', amount, 'original_currency', original_currency,
+        'original_amount', original_amount, 'exchange_rate', exchange_rate))
+      FROM transactions WHERE user_id = v_user_id
+    ), '[]'::jsonb)
+  );
+
+  v_counts := jsonb_build_object(
+    'goals', jsonb_array_length(v_snapshot->'goals'),
+    'goal_contributions', jsonb_array_length(v_snapshot->'goal_contributions'),
+    'liabilities', jsonb_array_length(v_snapshot->'liabilities'),
+    'budgets', jsonb_array_length(v_snapshot->'budgets'),
+    'budget_periods', jsonb_array_length(v_snapshot->'budget_periods'),
+    'envelope_transfers', jsonb_array_length(v_snapshot->'envelope_transfers'),
+    'budget_templates', jsonb_array_length(v_snapshot->'budget_templates'),
+    'recurring_transactions', jsonb_array_length(v_snapshot->'recurring_transactions'),
+    'transactions', jsonb_array_length(v_snapshot->'transactions')
+  );
+
+  -- Per-table count and headline total before and after conversion
+  v_entities := jsonb_build_object(
+    'goals', (
+      SELECT jsonb_build_object('count', count(*), 'before', COALESCE(sum(target_amount), 0),
+        'after', COALESCE(sum(GREATEST(round(target_amount * p_rate, 2), 0.01)), 0))
+      FROM goals WHERE user_id = v_user_id
+    ),
+    'liabilities', (
+      SELECT jsonb_build_object('count', count(*), 'before', COALESCE(sum(remaining_amount), 0),
+        'after', COALESCE(sum(round(remaining_amount * p_rate, 2)), 0))
+      FROM liabilities WHERE user_id = v_user_id
+    ),
+    'budgets', (
+      SELECT jsonb_build_object('count', count(*), 'before', COALESCE(sum(amount), 0),
+        'after', COALESCE(sum(GREATEST(round(amount * p_rate, 2), 0.01)), 0))
+      FROM budgets WHERE user_id = v_user_id
+    ),
+    'recurring_transactions', (
+      SELECT jsonb_build_object('count', count(*), 'before', COALESCE(sum(amount), 0),
+        'after', COALESCE(sum(GREATEST(round(amount * p_rate, 2), 0.01)), 0))
+      FROM recurring_transactions WHERE user_id = v_user_id
+    ),
+    'transactions', (
+      SELECT jsonb_build_object('count', count(*), 'before', COALESCE(sum(amount), 0),
+        'after', COALESCE(sum(GREATEST(CASE
+          WHEN original_currency = p_to_currency THEN original_amount
+          WHEN original_currency IS NOT NULL THEN round(original_amount * exchange_rate * p_rate, 2)
+          ELSE round(amount * p_rate, 2)
+        END, 0.01)), 0))
+      FROM transactions WHERE user_id = v_user_id
+    )
+  );
+
+  IF p_dry_run THEN
+    RETURN jsonb_build_object(
+      'dry_run', true,
+      'from_currency', p_from_currency,
+      'to_currency', p_to_currency,
+      'rate', p_rate,
+      'entities', v_entities
+    );
+  END IF;
+
+  -- current_amount follows the converted contributions
+  UPDATE goal_contributions
+  SET amount = sign(amount) * GREATEST(round(abs(amount) * p_rate, 2), 0.01)
+  WHERE user_id = v_user_id;
+
+  UPDATE goals
+  SET target_amount = GREATEST(round(target_amount * p_rate, 2), 0.01)
+  WHERE user_id = v_user_id;
+
+  UPDATE liabilities
+  SET total_amount = GREATEST(round(total_amount * p_rate, 2), 0.01),
+      remaining_amount = round(remaining_amount * p_rate, 2),
+      monthly_payment = GREATEST(round(monthly_payment * p_rate, 2), 0.01)
+  WHERE user_id = v_user_id;
+
+  UPDATE budgets
+  SET amount = GREATEST(round(amount * p_rate, 2), 0.01)
+  WHERE user_id = v_user_id;
+
+  UPDATE budget_periods
+  SET budgeted = round(budgeted * p_rate, 2),
+      spent = round(spent * p_rate, 2),
+      carried_in = round(carried_in * p_rate, 2),
+      remaining = round(remaining * p_rate, 2)
+  WHERE user_id = v_user_id;
+
+  UPDATE envelope_transfers
+  SET amount = GREATEST(round(amount * p_rate, 2), 0.01)
+  WHERE user_id = v_user_id;
+
+  UPDATE budget_templates
+  SET items = COALESCE((
+    SELECT jsonb_agg(item || jsonb_build_object('amount', GREATEST(round((item->>'amount')::numeric * p_rate, 2), 0.01)))
+    FROM jsonb_array_elements(items) item
+  ), '[]'::jsonb)
+  WHERE user_id = v_user_id;
+
+  UPDATE recurring_transactions
+  SET amount = GREATEST(round(amount * p_rate, 2), 0.01)
+  WHERE user_id = v_user_id;
+
+  -- Right-hand sides all see the row's values from before the update
+  UPDATE transactions
+  SET amount = GREATEST(CASE
+        WHEN original_currency = p_to_currency THEN original_amount
+        WHEN original_currency IS NOT NULL THEN round(original_amount * exchange_rate * p_rate, 2)
+        ELSE round(amount * p_rate, 2)
+      END, 0.01),
+      original_currency = CASE
+        WHEN original_currency = p_to_currency THEN NULL
+        WHEN original_currency IS NOT NULL THEN original_currency
+        ELSE p_from_currency
+      END,
+      original_amount = CASE
+        WHEN original_currency = p_to_currency THEN NULL
+        WHEN original_currency IS NOT NULL THEN original_amount
+        ELSE amount
+      END,
+      exchange_rate = CASE
+        WHEN original_currency = p_to_currency THEN NULL
+        WHEN original_currency IS NOT NULL THEN exchange_rate * p_rate
+        ELSE p_rate
+      END
+  WHERE user_id = v_user_id;
+
+  INSERT INTO currency_conversions (user_id, from_currency, to_currency, rate, row_counts, snapshot)
+  VALUES (v_user_id, p_from_currency, p_to_currency, p_rate, v_counts, v_snapshot)
+  RETURNING id INTO v_conversion_id;
+
+  RETURN jsonb_build_object(
+    'dry_run', false,
+    'conversion_id', v_conversion_id,
+    'from_currency', p_from_currency,
+    'to_currency', p_to_currency,
+    'rate', p_rate,
+    'entities', v_entities
+  );
+END;
+$$;
+
+-- Restore the amounts saved by a conversion. Only the latest conversion that
+-- has not been undone can be reverted, so snapshots are applied in order.
+CREATE OR REPLACE FUNCTION undo_currency_conversion(p_conversion_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_conversion currency_conversions%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  SELECT * INTO v_conversion
+  FROM currency_conversions
+  WHERE id = p_conversion_id AND user_id = v_user_id AND undone_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Currency conversion not found or already undone';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM currency_conversions
+    WHERE user_id = v_user_id AND undone_at IS NULL AND created_at > v_conversion.created_at
+  ) THEN
+    RAISE EXCEPTION 'Undo the more recent currency conversion first';
+  END IF;
+
+  -- current_amount follows the restored contributions. Snapshots taken
+  -- before goal contributions existed have none, so their saved amount is
+  -- restored instead and recorded as an adjustment.
+  UPDATE goal_contributions gc
+  SET amount = (s->>'amount')::numeric
+  FROM jsonb_array_elements(COALESCE(v_conversion.snapshot->'goal_contributions', '[]'::jsonb)) s
+  WHERE gc.id = (s->>'id')::uuid AND gc.user_id = v_user_id;
+
+  UPDATE goals g
+  SET target_amount = (s->>'target_amount')::numeric,
+      current_amount = CASE
+        WHEN v_conversion.snapshot ? 'goal_contributions' THEN g.current_amount
+        ELSE (s->>'current_amount')::numeric
+      END
+  FROM jsonb_array_elements(v_conversion.snapshot->'goals') s
+  WHERE g.id = (s->>'id')::uuid AND g.user_id = v_user_id;
+
+  UPDATE liabilities l
+  SET total_amount = (s->>'total_amount')::numeric,
+      remaining_amount = (s->>'remaining_amount')::numeric,
+      monthly_payment = (s->>'monthly_payment')::numeric
+  FROM jsonb_array_elements(v_conversion.snapshot->'liabilities') s
+  WHERE l.id = (s->>'id')::uuid AND l.user_id = v_user_id;
+
+  UPDATE budgets b
+  SET amount = (s->>'amount')::numeric
+  FROM jsonb_array_elements(v_conversion.snapshot->'budgets') s
+  WHERE b.id = (s->>'id')::uuid AND b.user_id = v_user_id;
+
+  -- Snapshots taken before budget periods, envelope transfers or budget
+  -- templates existed have none to restore
+  UPDATE budget_periods bp
+  SET budgeted = (s->>'budgeted')::numeric,
+      spent = (s->>'spent')::numeric,
+      carried_in = (s->>'carried_in')::numeric,
+      remaining = (s->>'remaining')::numeric
+  FROM jsonb_array_elements(COALESCE(v_conversion.snapshot->'budget_periods', '[]'::jsonb)) s
+  WHERE bp.id = (s->>'id')::uuid AND bp.user_id = v_user_id;
+
+  UPDATE envelope_transfers et
+  SET amount = (s->>'amount')::numeric
+  FROM jsonb_array_elements(COALESCE(v_conversion.snapshot->'envelope_transfers', '[]'::jsonb)) s
+  WHERE et.id = (s->>'id')::uuid AND et.user_id = v_user_id;
+
+  UPDATE budget_templates bt
+  SET items = s->'items'
+  FROM jsonb_array_elements(COALESCE(v_conversion.snapshot->'budget_templates', '[]'::jsonb)) s
+  WHERE bt.id = (s->>'id')::uuid AND bt.user_id = v_user_id;
+
+  UPDATE recurring_transactions r
+  SET amount = (s->>'amount')::numeric
+  FROM jsonb_array_elements(v_conversion.snapshot->'recurring_transactions') s
+  WHERE r.id = (s->>'id')::uuid AND r.user_id = v_user_id;
+
+  UPDATE transactions t
+  SET amount = (s->>'amount')::numeric,
+      original_currency = s->>'original_currency',
+      original_amount = (s->>'original_amount')::numeric,
+      exchange_rate = (s->>'exchange_rate')::numeric
+  FROM jsonb_array_elements(v_conversion.snapshot->'transactions') s
+  WHERE t.id = (s->>'id')::uuid AND t.user_id = v_user_id;
+
+  UPDATE currency_conversions SET undone_at = now() WHERE id = p_conversion_id;
+
+  RETURN jsonb_build_object(
+    'conversion_id', p_conversion_id,
+    'from_currency', v_conversion.from_currency,
+    'to_currency', v_conversion.to_currency
+  );
+END;
+$$;
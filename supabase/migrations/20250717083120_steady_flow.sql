@@ -0,0 +1,629 @@
+/*
+  # Goal Funding Rules
+
+  1. New Tables
+    - `goal_funding_rules`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `goal_id` (uuid, references goals)
+      - `source` (text, `income` for every income transaction or
+        `budget_leftover` for what is left of a budget when its period ends)
+      - `amount_type` (text, `percent` of the money or a `fixed` amount)
+      - `amount` (numeric)
+      - `category` (text, nullable; income rules only fund from income in
+        this category when set)
+      - `priority` (integer, lower runs first)
+      - `is_active` (boolean)
+      - `created_at`, `updated_at` (timestamp)
+
+  2. Changes
+    - Add `funding_rule_id` and `budget_period_id` to `goal_contributions`,
+      the rule that made a contribution and the budget period it came from
+    - `fund_goals` runs the rules of a source over an amount of money in
+      priority order. Each rule is limited to what is left of the money and
+      to what its goal still needs, so the rest flows on to the next rule.
+    - `fund_goals_from_income` funds goals from one income transaction
+    - `record_budget_periods` funds goals from the leftover of every period it
+      records, unless the budget rolls its leftover over
+    - Currency conversion converts fixed rule amounts
+
+  3. Security
+    - Enable RLS on `goal_funding_rules`
+    - Add policies for users to manage their own goal funding rules
+*/
+
+CREATE TABLE IF NOT EXISTS goal_funding_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  goal_id uuid REFERENCES goals(id) ON DELETE CASCADE NOT NULL,
+  source text NOT NULL CHECK (source IN ('income', 'budget_leftover')),
+  amount_type text NOT NULL CHECK (amount_type IN ('percent', 'fixed')),
+  amount numeric NOT NULL CHECK (amount > 0),
+  category text,
+  priority integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (amount_type <> 'percent' OR amount <= 100)
+);
+
+ALTER TABLE goal_funding_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own goal funding rules"
+  ON goal_funding_rules
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own goal funding rules"
+  ON goal_funding_rules
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own goal funding rules"
+  ON goal_funding_rules
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own goal funding rules"
+  ON goal_funding_rules
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS goal_funding_rules_user_id_idx ON goal_funding_rules(user_id);
+
+CREATE TRIGGER update_goal_funding_rules_updated_at BEFORE UPDATE ON goal_funding_rules FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Add funding_rule_id and budget_period_id columns to goal_contributions table
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'goal_contributions' AND column_name = 'funding_rule_id'
+  ) THEN
+    ALTER TABLE goal_contributions ADD COLUMN funding_rule_id uuid REFERENCES goal_funding_rules(id) ON DELETE SET NULL;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'goal_contributions' AND column_name = 'budget_period_id'
+  ) THEN
+    ALTER TABLE goal_contributions ADD COLUMN budget_period_id uuid REFERENCES budget_periods(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+-- A rule funds a goal from the same money only once
+CREATE UNIQUE INDEX IF NOT EXISTS goal_contributions_rule_transaction_idx
+  ON goal_contributions(funding_rule_id, transaction_id)
+  WHERE funding_rule_id IS NOT NULL AND transaction_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS goal_contributions_rule_budget_period_idx
+  ON goal_contributions(funding_rule_id, budget_period_id)
+  WHERE funding_rule_id IS NOT NULL AND budget_period_id IS NOT NULL;
+
+-- Run the calling user's active rules of one source over an amount of money,
+-- in priority order. A percentage is taken of the whole amount. Each rule
+-- gets no more than is left and than its goal still needs.
+CREATE OR REPLACE FUNCTION fund_goals(
+  p_source text,
+  p_amount numeric,
+  p_date date,
+  p_note text,
+  p_category text DEFAULT NULL,
+  p_transaction_id uuid DEFAULT NULL,
+  p_budget_period_id uuid DEFAULT NULL
+)
+RETURNS SETOF goal_contributions
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_rule goal_funding_rules%ROWTYPE;
+  v_left numeric := p_amount;
+  v_needed numeric;
+  v_share numeric;
+  v_contribution goal_contributions%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  FOR v_rule IN
+    SELECT * FROM goal_funding_rules
+    WHERE user_id = v_user_id
+      AND source = p_source
+      AND is_active
+      AND (category IS NULL OR category = p_category)
+      -- Periods that ended before a rule existed are not funded by it
+      AND (p_budget_period_id IS NULL OR created_at::date <= p_date)
+    ORDER BY priority, created_at
+  LOOP
+    EXIT WHEN v_left <= 0;
+
+    -- Read per rule, as an earlier rule may have funded the same goal
+    SELECT target_amount - current_amount INTO v_needed FROM goals WHERE id = v_rule.goal_id;
+
+    v_share := LEAST(
+      CASE WHEN v_rule.amount_type = 'percent' THEN round(p_amount * v_rule.amount / 100, 2) ELSE v_rule.amount END,
+      v_left,
+      v_needed
+    );
+    CONTINUE WHEN v_share IS NULL OR v_share <= 0;
+
+    INSERT INTO goal_contributions (user_id, goal_id, amount, date, note, transaction_id, budget_period_id, funding_rule_id)
+    VALUES (v_user_id, v_rule.goal_id, v_share, p_date, p_note, p_transaction_id, p_budget_period_id, v_rule.id)
+    ON CONFLICT DO NOTHING
+    RETURNING * INTO v_contribution;
+
+    IF FOUND THEN
+      v_left := v_left - v_share;
+      RETURN NEXT v_contribution;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Fund goals from one of the calling user's income transactions
+CREATE OR REPLACE FUNCTION fund_goals_from_income(p_transaction_id uuid)
+RETURNS SETOF goal_contributions
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_transaction transactions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_transaction
+  FROM transactions
+  WHERE id = p_transaction_id AND user_id = auth.uid() AND type = 'income';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Income transaction not found';
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM fund_goals(
+    'income',
+    v_transaction.amount,
+    v_transaction.date,
+    'From income: ' || v_transaction.description,
+    v_transaction.category,
+    v_transaction.id
+  );
+END;
+$$;
+
+-- Record the outcome of every ended, unrecorded period of the calling user's
+-- budgets. What is left of a period that does not roll over funds goals.
+CREATE OR REPLACE FUNCTION record_budget_periods(p_as_of date DEFAULT CURRENT_DATE)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_budget budgets%ROWTYPE;
+  v_unit text;
+  v_length interval;
+  v_last_end date;
+  v_last_remaining numeric;
+  v_start date;
+  v_end date;
+  v_current date;
+  v_carry numeric;
+  v_carried_in numeric;
+  v_spent numeric;
+  v_period_id uuid;
+  v_recorded integer := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  FOR v_budget IN SELECT * FROM budgets WHERE user_id = v_user_id LOOP
+    -- A custom budget has a single period, recorded once it has ended
+    IF v_budget.period = 'custom' THEN
+      IF v_budget.end_date < p_as_of THEN
+        SELECT COALESCE(sum(amount), 0) INTO v_spent
+        FROM transactions
+        WHERE user_id = v_user_id
+          AND type = 'expense'
+          AND category = ANY (v_budget.categories)
+          AND date BETWEEN v_budget.start_date AND v_budget.end_date;
+
+        INSERT INTO budget_periods (user_id, budget_id, period_start, period_end, budgeted, spent, carried_in, remaining)
+        VALUES (v_user_id, v_budget.id, v_budget.start_date, v_budget.end_date, v_budget.amount, v_spent, 0, v_budget.amount - v_spent)
+        ON CONFLICT (budget_id, period_start) DO NOTHING
+        RETURNING id INTO v_period_id;
+
+        IF FOUND THEN
+          v_recorded := v_recorded + 1;
+          IF v_budget.amount - v_spent > 0 THEN
+            PERFORM fund_goals('budget_leftover', v_budget.amount - v_spent, v_budget.end_date,
+              'Left over from ' || v_budget.category, NULL, NULL, v_period_id);
+          END IF;
+        END IF;
+      END IF;
+      CONTINUE;
+    END IF;
+
+    v_unit := CASE v_budget.period WHEN 'weekly' THEN 'week' WHEN 'yearly' THEN 'year' ELSE 'month' END;
+    v_length := CASE v_budget.period WHEN 'weekly' THEN interval '1 week' WHEN 'yearly' THEN interval '1 year' ELSE interval '1 month' END;
+
+    SELECT period_end, remaining INTO v_last_end, v_last_remaining
+    FROM budget_periods
+    WHERE budget_id = v_budget.id
+    ORDER BY period_start DESC
+    LIMIT 1;
+
+    -- Continue after the last recorded period. When the budget's period was
+    -- changed since, the period straddling that date is skipped.
+    v_start := date_trunc(v_unit, COALESCE(v_last_end + 1, v_budget.created_at::date)::timestamp)::date;
+    IF v_last_end IS NOT NULL AND v_start <= v_last_end THEN
+      v_start := (v_start + v_length)::date;
+    END IF;
+    v_carry := COALESCE(v_last_remaining, 0);
+    v_current := date_trunc(v_unit, p_as_of::timestamp)::date;
+
+    WHILE v_start < v_current LOOP
+      v_end := (v_start + v_length)::date - 1;
+
+      SELECT COALESCE(sum(amount), 0) INTO v_spent
+      FROM transactions
+      WHERE user_id = v_user_id
+        AND type = 'expense'
+        AND category = ANY (v_budget.categories)
+        AND date BETWEEN v_start AND v_end;
+
+      v_carried_in := CASE WHEN v_budget.rollover THEN v_carry ELSE 0 END;
+      v_carry := v_budget.amount + v_carried_in - v_spent;
+
+      INSERT INTO budget_periods (user_id, budget_id, period_start, period_end, budgeted, spent, carried_in, remaining)
+      VALUES (v_user_id, v_budget.id, v_start, v_end, v_budget.amount, v_spent, v_carried_in, v_carry)
+      ON CONFLICT (budget_id, period_start) DO NOTHING
+      RETURNING id INTO v_period_id;
+
+      IF FOUND THEN
+        v_recorded := v_recorded + 1;
+        IF NOT v_budget.rollover AND v_carry > 0 THEN
+          PERFORM fund_goals('budget_leftover', v_carry, v_end,
+            'Left over from ' || v_budget.category, NULL, NULL, v_period_id);
+        END IF;
+      END IF;
+      v_start := (v_start + v_length)::date;
+    END LOOP;
+  END LOOP;
+
+  RETURN v_recorded;
+END;
+$$;
+
+-- Convert every stored amount of the calling user to a new base currency
+CREATE OR REPLACE FUNCTION convert_base_currency(
+  p_from_currency text,
+  p_to_currency text,
+  p_rate numeric,
+  p_dry_run boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_snapshot jsonb;
+  v_counts jsonb;
+  v_entities jsonb;
+  v_conversion_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+  IF p_rate IS NULL OR p_rate <= 0 THEN
+    RAISE EXCEPTION 'Exchange rate must be greater than 0';
+  END IF;
+  IF p_from_currency = p_to_currency THEN
+    RAISE EXCEPTION 'Base currency is already %', p_to_currency;
+  END IF;
+
+  -- Amounts before conversion, kept for undo
+  v_snapshot := jsonb_build_object(
+    'goals', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'target_amount', target_amount, 'current_amount', current_amount))
+      FROM goals WHERE user_id = v_user_id
+    ), '[]'::jsonb),
+    'goal_contributions', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'amount', amount))
+      FROM goal_contributions WHERE user_id = v_user_id
+    ), '[]'::jsonb),
+    'liabilities', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'total_amount', total_amount,
+        'remaining_amount', remaining_amount, 'monthly_payment', monthly_payment))
+      FROM liabilities WHERE user_id = v_user_id
+    ), '[]'::jsonb),
+    'budgets', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'amount', amount))
+      FROM budgets WHERE user_id = v_user_id
+    ), '[]'::jsonb),
+    'budget_periods', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'budgeted', budgeted, 'spent', spent,
+        'carried_in', carried_in, 'remaining', remaining))
+      FROM budget_periods WHERE user_id = v_user_id
+    ), '[]'::jsonb),
+    'envelope_transfers', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'amount', amount))
+      FROM envelope_transfers WHERE user_id = v_user_id
+    ), '[]'::jsonb),
+    'budget_templates', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'items', items))
+      FROM budget_templates WHERE user_id = v_user_id
+    ), '[]'::jsonb),
+    'goal_funding_rules', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'amount', amount))
+      FROM goal_funding_rules WHERE user_id = v_user_id AND amount_type = 'fixed'
+    ), '[]'::jsonb),
+    'recurring_transactions', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'amount', amount))
+      FROM recurring_transactions WHERE user_id = v_user_id
+    ), '[]'::jsonb),
+    'transactions', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'amount', amount, 'original_currency', original_currency,
+        'original_amount', original_amount, 'exchange_rate', exchange_rate))
+      FROM transactions WHERE user_id = v_user_id
+    ), '[]'::jsonb)
+  );
+
+  v_counts := jsonb_build_object(
+    'goals', jsonb_array_length(v_snapshot->'goals'),
+    'goal_contributions', jsonb_array_length(v_snapshot->'goal_contributions'),
+    'liabilities', jsonb_array_length(v_snapshot->'liabilities'),
+    'budgets', jsonb_array_length(v_snapshot->'budgets'),
+    'budget_periods', jsonb_array_length(v_snapshot->'budget_periods'),
+    'envelope_transfers', jsonb_array_length(v_snapshot->'envelope_transfers'),
+    'budget_templates', jsonb_array_length(v_snapshot->'budget_templates'),
+    'goal_funding_rules', jsonb_array_length(v_snapshot->'goal_funding_rules'),
+    'recurring_transactions', jsonb_array_length(v_snapshot->'recurring_transactions'),
+    'transactions', jsonb_array_length(v_snapshot->'transactions')
+  );
+
+  -- Per-table count and headline total before and after conversion
+  v_entities := jsonb_build_object(
+    'goals', (
+      SELECT jsonb_build_object('count', count(*), 'before', COALESCE(sum(target_amount), 0),
+        'after', COALESCE(sum(GREATEST(round(target_amount * p_rate, 2), 0.01)), 0))
+      FROM goals WHERE user_id = v_user_id
+    ),
+    'liabilities', (
+      SELECT jsonb_build_object('count', count(*), 'before', COALESCE(sum(remaining_amount), 0),
+        'after', COALESCE(sum(round(remaining_amount * p_rate, 2)), 0))
+      FROM liabilities WHERE user_id = v_user_id
+    ),
+    'budgets', (
+      SELECT jsonb_build_object('count', count(*), 'before', COALESCE(sum(amount), 0),
+        'after', COALESCE(sum(GREATEST(round(amount * p_rate, 2), 0.01)), 0))
+      FROM budgets WHERE user_id = v_user_id
+    ),
+    'recurring_transactions', (
+      SELECT jsonb_build_object('count', count(*), 'before', COALESCE(sum(amount), 0),
+        'after', COALESCE(sum(GREATEST(round(amount * p_rate, 2), 0.01)), 0))
+      FROM recurring_transactions WHERE user_id = v_user_id
+    ),
+    'transactions', (
+      SELECT jsonb_build_object('count', count(*), 'before', COALESCE(sum(amount), 0),
+        'after', COALESCE(sum(GREATEST(CASE
+          WHEN original_currency = p_to_currency THEN original_amount
+          WHEN original_currency IS NOT NULL THEN round(original_amount * exchange_rate * p_rate, 2)
+          ELSE round(amount * p_rate, 2)
+        END, 0.01)), 0))
+      FROM transactions WHERE user_id = v_user_id
+    )
+  );
+
+  IF p_dry_run THEN
+    RETURN jsonb_build_object(
+      'dry_run', true,
+      'from_currency', p_from_currency,
+      'to_currency', p_to_currency,
+      'rate', p_rate,
+      'entities', v_entities
+    );
+  END IF;
+
+  -- current_amount follows the converted contributions
+  UPDATE goal_contributions
+  SET amount = sign(amount) * GREATEST(round(abs(amount) * p_rate, 2), 0.01)
+  WHERE user_id = v_user_id;
+
+  UPDATE goals
+  SET target_amount = GREATEST(round(target_amount * p_rate, 2), 0.01)
+  WHERE user_id = v_user_id;
+
+  UPDATE liabilities
+  SET total_amount = GREATEST(round(total_amount * p_rate, 2), 0.01),
+      remaining_amount = round(remaining_amount * p_rate, 2),
+      monthly_payment = GREATEST(round(monthly_payment * p_rate, 2), 0.01)
+  WHERE user_id = v_user_id;
+
+  UPDATE budgets
+  SET amount = GREATEST(round(amount * p_rate, 2), 0.01)
+  WHERE user_id = v_user_id;
+
+  UPDATE budget_periods
+  SET budgeted = round(budgeted * p_rate, 2),
+      spent = round(spent * p_rate, 2),
+      carried_in = round(carried_in * p_rate, 2),
+      remaining = round(remaining * p_rate, 2)
+  WHERE user_id = v_user_id;
+
+  UPDATE envelope_transfers
+  SET amount = GREATEST(round(amount * p_rate, 2), 0.01)
+  WHERE user_id = v_user_id;
+
+  UPDATE budget_templates
+  SET items = COALESCE((
+    SELECT jsonb_agg(item || jsonb_build_object('amount', GREATEST(round((item->>'amount')::numeric * p_rate, 2), 0.01)))
+    FROM jsonb_array_elements(items) item
+  ), '[]'::jsonb)
+  WHERE user_id = v_user_id;
+
+  -- Percentages stay as they are
+  UPDATE goal_funding_rules
+  SET amount = GREATEST(round(amount * p_rate, 2), 0.01)
+  WHERE user_id = v_user_id AND amount_type = 'fixed';
+
+  UPDATE recurring_transactions
+  SET amount = GREATEST(round(amount * p_rate, 2), 0.01)
+  WHERE user_id = v_user_id;
+
+  -- Right-hand sides all see the row's values from before the update
+  UPDATE transactions
+  SET amount = GREATEST(CASE
+        WHEN original_currency = p_to_currency THEN original_amount
+        WHEN original_currency IS NOT NULL THEN round(original_amount * exchange_rate * p_rate, 2)
+        ELSE round(amount * p_rate, 2)
+      END, 0.01),
+      original_currency = CASE
+        WHEN original_currency = p_to_currency THEN NULL
+        WHEN original_currency IS NOT NULL THEN original_currency
+        ELSE p_from_currency
+      END,
+      original_amount = CASE
+        WHEN original_currency = p_to_currency THEN NULL
+        WHEN original_currency IS NOT NULL THEN original_amount
+        ELSE amount
+      END,
+      exchange_rate = CASE
+        WHEN original_currency = p_to_currency THEN NULL
+        WHEN original_currency IS NOT NULL THEN exchange_rate * p_rate
+        ELSE p_rate
+      END
+  WHERE user_id = v_user_id;
+
+  INSERT INTO currency_conversions (user_id, from_currency, to_currency, rate, row_counts, snapshot)
+  VALUES (v_user_id, p_from_currency, p_to_currency, p_rate, v_counts, v_snapshot)
+  RETURNING id INTO v_conversion_id;
+
+  RETURN jsonb_build_object(
+    'dry_run', false,
+    'conversion_id', v_conversion_id,
+    'from_currency', p_from_currency,
+    'to_currency', p_to_currency,
+    'rate', p_rate,
+    'entities', v_entities
+  );
+END;
+$$;
+
+-- Restore the amounts saved by a conversion. Only the latest conversion that
+-- has not been undone can be reverted, so snapshots are applied in order.
+CREATE OR REPLACE FUNCTION undo_currency_conversion(p_conversion_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_conversion currency_conversions%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  SELECT * INTO v_conversion
+  FROM currency_conversions
+  WHERE id = p_conversion_id AND user_id = v_user_id AND undone_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Currency conversion not found or already undone';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM currency_conversions
+    WHERE user_id = v_user_id AND undone_at IS NULL AND created_at > v_conversion.created_at
+  ) THEN
+    RAISE EXCEPTION 'Undo the more recent currency conversion first';
+  END IF;
+
+  -- current_amount follows the restored contributions. Snapshots taken
+  -- before goal contributions existed have none, so their saved amount is
+  -- restored instead and recorded as an adjustment.
+  UPDATE goal_contributions gc
+  SET amount = (s->>'amount')::numeric
+  FROM jsonb_array_elements(COALESCE(v_conversion.snapshot->'goal_contributions', '[]'::jsonb)) s
+  WHERE gc.id = (s->>'id')::uuid AND gc.user_id = v_user_id;
+
+  UPDATE goals g
+  SET target_amount = (s->>'target_amount')::numeric,
+      current_amount = CASE
+        WHEN v_conversion.snapshot ? 'goal_contributions' THEN g.current_amount
+        ELSE (s->>'current_amount')::numeric
+      END
+  FROM jsonb_array_elements(v_conversion.snapshot->'goals') s
+  WHERE g.id = (s->>'id')::uuid AND g.user_id = v_user_id;
+
+  UPDATE liabilities l
+  SET total_amount = (s->>'total_amount')::numeric,
+      remaining_amount = (s->>'remaining_amount')::numeric,
+      monthly_payment = (s->>'monthly_payment')::numeric
+  FROM jsonb_array_elements(v_conversion.snapshot->'liabilities') s
+  WHERE l.id = (s->>'id')::uuid AND l.user_id = v_user_id;
+
+  UPDATE budgets b
+  SET amount = (s->>'amount')::numeric
+  FROM jsonb_array_elements(v_conversion.snapshot->'budgets') s
+  WHERE b.id = (s->>'id')::uuid AND b.user_id = v_user_id;
+
+  -- Snapshots taken before budget periods, envelope transfers, budget
+  -- templates or goal funding rules existed have none to restore
+  UPDATE budget_periods bp
+  SET budgeted = (s->>'budgeted')::numeric,
+      spent = (s->>'spent')::numeric,
+      carried_in = (s->>'carried_in')::numeric,
+      remaining = (s->>'remaining')::numeric
+  FROM jsonb_array_elements(COALESCE(v_conversion.snapshot->'budget_periods', '[]'::jsonb)) s
+  WHERE bp.id = (s->>'id')::uuid AND bp.user_id = v_user_id;
+
+  UPDATE envelope_transfers et
+  SET amount = (s->>'amount')::numeric
+  FROM jsonb_array_elements(COALESCE(v_conversion.snapshot->'envelope_transfers', '[]'::jsonb)) s
+  WHERE et.id = (s->>'id')::uuid AND et.user_id = v_user_id;
+
+  UPDATE budget_templates bt
+  SET items = s->'items'
+  FROM jsonb_array_elements(COALESCE(v_conversion.snapshot->'budget_templates', '[]'::jsonb)) s
+  WHERE bt.id = (s->>'id')::uuid AND bt.user_id = v_user_id;
+
+  UPDATE goal_funding_rules gfr
+  SET amount = (s->>'amount')::numeric
+  FROM jsonb_array_elements(COALESCE(v_conversion.snapshot->'goal_funding_rules', '[]'::jsonb)) s
+  WHERE gfr.id = (s->>'id')::uuid AND gfr.user_id = v_user_id;
+
+  UPDATE recurring_transactions r
+  SET amount = (s->>'amount')::numeric
+  FROM jsonb_array_elements(v_conversion.snapshot->'recurring_transactions') s
+  WHERE r.id = (s->>'id')::uuid AND r.user_id = v_user_id;
+
+  UPDATE transactions t
+  SET amount = (s->>'amount')::numeric,
+      original_currency = s->>'original_currency',
+      original_amount = (s->>'original_amount')::numeric,
+      exchange_rate = (s->>'exchange_rate')::numeric
+  FROM jsonb_array_elements(v_conversion.snapshot->'transactions') s
+  WHERE t.id = (s->>'id')::uuid AND t.user_id = v_user_id;
+
+  UPDATE currency_conversions SET undone_at = now() WHERE id = p_conversion_id;
+
+  RETURN jsonb_build_object(
+    'conversion_id', p_conversion_id,
+    'from_currency', v_conversion.from_currency,
+    'to_currency', v_conversion.to_currency
+  );
+END;
+$$;
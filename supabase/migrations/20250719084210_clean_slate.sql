@@ -0,0 +1,461 @@
+/*
+  # Liability Payments
+
+  1. New Tables
+    - `liability_payments`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references profiles)
+      - `liability_id` (uuid, references liabilities)
+      - `date` (date)
+      - `amount` (numeric, the amount paid)
+      - `principal` (numeric, the part of the payment that reduced the balance)
+      - `interest` (numeric, the part of the payment that went to interest
+        accrued since the previous payment)
+      - `balance_after` (numeric, the remaining balance after the payment)
+      - `note` (text, nullable)
+      - `transaction_id` (uuid, nullable, references transactions; the
+        expense recorded with the payment, which takes the payment with it
+        when deleted)
+      - `created_at` (timestamp)
+
+  2. Changes
+    - `remaining_amount` of a liability goes down by the principal of every
+      payment recorded and back up when a payment is deleted
+    - Currency conversion converts payments
+
+  3. Security
+    - Enable RLS on `liability_payments`
+    - Add policies for users to manage their own liability payments
+*/
+
+CREATE TABLE IF NOT EXISTS liability_payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+  liability_id uuid REFERENCES liabilities(id) ON DELETE CASCADE NOT NULL,
+  date date NOT NULL DEFAULT CURRENT_DATE,
+  amount numeric NOT NULL CHECK (amount > 0),
+  principal numeric NOT NULL CHECK (principal >= 0),
+  interest numeric NOT NULL CHECK (interest >= 0),
+  balance_after numeric NOT NULL CHECK (balance_after >= 0),
+  note text,
+  transaction_id uuid REFERENCES transactions(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  CHECK (principal + interest = amount)
+);
+
+ALTER TABLE liability_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own liability payments"
+  ON liability_payments
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own liability payments"
+  ON liability_payments
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own liability payments"
+  ON liability_payments
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own liability payments"
+  ON liability_payments
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS liability_payments_liability_id_date_idx ON liability_payments(liability_id, date);
+CREATE INDEX IF NOT EXISTS liability_payments_user_id_idx ON liability_payments(user_id);
+CREATE INDEX IF NOT EXISTS liability_payments_transaction_id_idx ON liability_payments(transaction_id);
+
+-- Pay the principal of a payment off the liability's balance, and put it
+-- back when the payment is deleted
+CREATE OR REPLACE FUNCTION apply_liability_payment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE liabilities
+    SET remaining_amount = GREATEST(remaining_amount - NEW.principal, 0)
+    WHERE id = NEW.liability_id;
+  ELSE
+    UPDATE liabilities
+    SET remaining_amount = remaining_amount + OLD.principal
+    WHERE id = OLD.liability_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER apply_liability_payment
+AFTER INSERT OR DELETE ON liability_payments
+FOR EACH ROW EXECUTE FUNCTION apply_liability_payment();
+
+-- Convert every stored amount of the calling user to a new base currency
+CREATE OR REPLACE FUNCTION convert_base_currency(
+  p_from_currency text,
+  p_to_currency text,
+  p_rate numeric,
+  p_dry_run boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_snapshot jsonb;
+  v_counts jsonb;
+  v_entities jsonb;
+  v_conversion_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+  IF p_rate IS NULL OR p_rate <= 0 THEN
+    RAISE EXCEPTION 'Exchange rate must be greater than 0';
+  END IF;
+  IF p_from_currency = p_to_currency THEN
+    RAISE EXCEPTION 'Base currency is already %', p_to_currency;
+  END IF;
+
+  -- Amounts before conversion, kept for undo
+  v_snapshot := jsonb_build_object(
+    'goals', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'target_amount', target_amount, 'current_amount', current_amount))
+      FROM goals WHERE user_id = v_user_id
+    ), '[]'::jsonb),
+    'goal_contributions', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'amount', amount))
+      FROM goal_contributions WHERE user_id = v_user_id
+    ), '[]'::jsonb),
+    'liabilities', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'total_amount', total_amount,
+        'remaining_amount', remaining_amount, 'monthly_payment', monthly_payment))
+      FROM liabilities WHERE user_id = v_user_id
+    ), '[]'::jsonb),
+    'budgets', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'amount', amount))
+      FROM budgets WHERE user_id = v_user_id
+    ), '[]'::jsonb),
+    'budget_periods', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'budgeted', budgeted, 'spent', spent,
+        'carried_in', carried_in, 'remaining', remaining))
+      FROM budget_periods WHERE user_id = v_user_id
+    ), '[]'::jsonb),
+    'envelope_transfers', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'amount', amount))
+      FROM envelope_transfers WHERE user_id = v_user_id
+    ), '[]'::jsonb),
+    'budget_templates', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'items', items))
+      FROM budget_templates WHERE user_id = v_user_id
+    ), '[]'::jsonb),
+    'goal_funding_rules', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'amount', amount))
+      FROM goal_funding_rules WHERE user_id = v_user_id AND amount_type = 'fixed'
+    ), '[]'::jsonb),
+    'goal_milestones', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'amount', amount))
+      FROM goal_milestones WHERE user_id = v_user_id
+    ), '[]'::jsonb),
+    'liability_payments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'amount', amount, 'principal', principal,
+        'interest', interest, 'balance_after', balance_after))
+      FROM liability_payments WHERE user_id = v_user_id
+    ), '[]'::jsonb),
+    'recurring_transactions', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'amount', amount))
+      FROM recurring_transactions WHERE user_id = v_user_id
+    ), '[]'::jsonb),
+    'transactions', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', id, 'amount', amount, 'original_currency', original_currency,
+        'original_amount', original_amount, 'exchange_rate', exchange_rate))
+      FROM transactions WHERE user_id = v_user_id
+    ), '[]'::jsonb)
+  );
+
+  v_counts := jsonb_build_object(
+    'goals', jsonb_array_length(v_snapshot->'goals'),
+    'goal_contributions', jsonb_array_length(v_snapshot->'goal_contributions'),
+    'liabilities', jsonb_array_length(v_snapshot->'liabilities'),
+    'budgets', jsonb_array_length(v_snapshot->'budgets'),
+    'budget_periods', jsonb_array_length(v_snapshot->'budget_periods'),
+    'envelope_transfers', jsonb_array_length(v_snapshot->'envelope_transfers'),
+    'budget_templates', jsonb_array_length(v_snapshot->'budget_templates'),
+    'goal_funding_rules', jsonb_array_length(v_snapshot->'goal_funding_rules'),
+    'goal_milestones', jsonb_array_length(v_snapshot->'goal_milestones'),
+    'liability_payments', jsonb_array_length(v_snapshot->'liability_payments'),
+    'recurring_transactions', jsonb_array_length(v_snapshot->'recurring_transactions'),
+    'transactions', jsonb_array_length(v_snapshot->'transactions')
+  );
+
+  -- Per-table count and headline total before and after conversion
+  v_entities := jsonb_build_object(
+    'goals', (
+      SELECT jsonb_build_object('count', count(*), 'before', COALESCE(sum(target_amount), 0),
+        'after', COALESCE(sum(GREATEST(round(target_amount * p_rate, 2), 0.01)), 0))
+      FROM goals WHERE user_id = v_user_id
+    ),
+    'liabilities', (
+      SELECT jsonb_build_object('count', count(*), 'before', COALESCE(sum(remaining_amount), 0),
+        'after', COALESCE(sum(round(remaining_amount * p_rate, 2)), 0))
+      FROM liabilities WHERE user_id = v_user_id
+    ),
+    'budgets', (
+      SELECT jsonb_build_object('count', count(*), 'before', COALESCE(sum(amount), 0),
+        'after', COALESCE(sum(GREATEST(round(amount * p_rate, 2), 0.01)), 0))
+      FROM budgets WHERE user_id = v_user_id
+    ),
+    'recurring_transactions', (
+      SELECT jsonb_build_object('count', count(*), 'before', COALESCE(sum(amount), 0),
+        'after', COALESCE(sum(GREATEST(round(amount * p_rate, 2), 0.01)), 0))
+      FROM recurring_transactions WHERE user_id = v_user_id
+    ),
+    'transactions', (
+      SELECT jsonb_build_object('count', count(*), 'before', COALESCE(sum(amount), 0),
+        'after', COALESCE(sum(GREATEST(CASE
+          WHEN original_currency = p_to_currency THEN original_amount
+          WHEN original_currency IS NOT NULL THEN round(original_amount * exchange_rate * p_rate, 2)
+          ELSE round(amount * p_rate, 2)
+        END, 0.01)), 0))
+      FROM transactions WHERE user_id = v_user_id
+    )
+  );
+
+  IF p_dry_run THEN
+    RETURN jsonb_build_object(
+      'dry_run', true,
+      'from_currency', p_from_currency,
+      'to_currency', p_to_currency,
+      'rate', p_rate,
+      'entities', v_entities
+    );
+  END IF;
+
+  -- current_amount follows the converted contributions
+  UPDATE goal_contributions
+  SET amount = sign(amount) * GREATEST(round(abs(amount) * p_rate, 2), 0.01)
+  WHERE user_id = v_user_id;
+
+  UPDATE goals
+  SET target_amount = GREATEST(round(target_amount * p_rate, 2), 0.01)
+  WHERE user_id = v_user_id;
+
+  UPDATE liabilities
+  SET total_amount = GREATEST(round(total_amount * p_rate, 2), 0.01),
+      remaining_amount = round(remaining_amount * p_rate, 2),
+      monthly_payment = GREATEST(round(monthly_payment * p_rate, 2), 0.01)
+  WHERE user_id = v_user_id;
+
+  UPDATE budgets
+  SET amount = GREATEST(round(amount * p_rate, 2), 0.01)
+  WHERE user_id = v_user_id;
+
+  UPDATE budget_periods
+  SET budgeted = round(budgeted * p_rate, 2),
+      spent = round(spent * p_rate, 2),
+      carried_in = round(carried_in * p_rate, 2),
+      remaining = round(remaining * p_rate, 2)
+  WHERE user_id = v_user_id;
+
+  UPDATE envelope_transfers
+  SET amount = GREATEST(round(amount * p_rate, 2), 0.01)
+  WHERE user_id = v_user_id;
+
+  UPDATE budget_templates
+  SET items = COALESCE((
+    SELECT jsonb_agg(item || jsonb_build_object('amount', GREATEST(round((item->>'amount')::numeric * p_rate, 2), 0.01)))
+    FROM jsonb_array_elements(items) item
+  ), '[]'::jsonb)
+  WHERE user_id = v_user_id;
+
+  -- Percentages stay as they are
+  UPDATE goal_funding_rules
+  SET amount = GREATEST(round(amount * p_rate, 2), 0.01)
+  WHERE user_id = v_user_id AND amount_type = 'fixed';
+
+  UPDATE goal_milestones
+  SET amount = GREATEST(round(amount * p_rate, 2), 0.01)
+  WHERE user_id = v_user_id;
+
+  -- Principal takes up the rounding so that it and interest still add up
+  UPDATE liability_payments
+  SET amount = GREATEST(round(amount * p_rate, 2), 0.01),
+      interest = round(interest * p_rate, 2),
+      principal = GREATEST(round(amount * p_rate, 2), 0.01) - round(interest * p_rate, 2),
+      balance_after = round(balance_after * p_rate, 2)
+  WHERE user_id = v_user_id;
+
+  UPDATE recurring_transactions
+  SET amount = GREATEST(round(amount * p_rate, 2), 0.01)
+  WHERE user_id = v_user_id;
+
+  -- Right-hand sides all see the row's values from before the update
+  UPDATE transactions
+  SET amount = GREATEST(CASE
+        WHEN original_currency = p_to_currency THEN original_amount
+        WHEN original_currency IS NOT NULL THEN round(original_amount * exchange_rate * p_rate, 2)
+        ELSE round(amount * p_rate, 2)
+      END, 0.01),
+      original_currency = CASE
+        WHEN original_currency = p_to_currency THEN NULL
+        WHEN original_currency IS NOT NULL THEN original_currency
+        ELSE p_from_currency
+      END,
+      original_amount = CASE
+        WHEN original_currency = p_to_currency THEN NULL
+        WHEN original_currency IS NOT NULL THEN original_amount
+        ELSE amount
+      END,
+      exchange_rate = CASE
+        WHEN original_currency = p_to_currency THEN NULL
+        WHEN original_currency IS NOT NULL THEN exchange_rate * p_rate
+        ELSE p_rate
+      END
+  WHERE user_id = v_user_id;
+
+  INSERT INTO currency_conversions (user_id, from_currency, to_currency, rate, row_counts, snapshot)
+  VALUES (v_user_id, p_from_currency, p_to_currency, p_rate, v_counts, v_snapshot)
+  RETURNING id INTO v_conversion_id;
+
+  RETURN jsonb_build_object(
+    'dry_run', false,
+    'conversion_id', v_conversion_id,
+    'from_currency', p_from_currency,
+    'to_currency', p_to_currency,
+    'rate', p_rate,
+    'entities', v_entities
+  );
+END;
+$$;
+
+-- Restore the amounts saved by a conversion. Only the latest conversion that
+-- has not been undone can be reverted, so snapshots are applied in order.
+CREATE OR REPLACE FUNCTION undo_currency_conversion(p_conversion_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_conversion currency_conversions%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  SELECT * INTO v_conversion
+  FROM currency_conversions
+  WHERE id = p_conversion_id AND user_id = v_user_id AND undone_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Currency conversion not found or already undone';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM currency_conversions
+    WHERE user_id = v_user_id AND undone_at IS NULL AND created_at > v_conversion.created_at
+  ) THEN
+    RAISE EXCEPTION 'Undo the more recent currency conversion first';
+  END IF;
+
+  -- current_amount follows the restored contributions. Snapshots taken
+  -- before goal contributions existed have none, so their saved amount is
+  -- restored instead and recorded as an adjustment.
+  UPDATE goal_contributions gc
+  SET amount = (s->>'amount')::numeric
+  FROM jsonb_array_elements(COALESCE(v_conversion.snapshot->'goal_contributions', '[]'::jsonb)) s
+  WHERE gc.id = (s->>'id')::uuid AND gc.user_id = v_user_id;
+
+  UPDATE goals g
+  SET target_amount = (s->>'target_amount')::numeric,
+      current_amount = CASE
+        WHEN v_conversion.snapshot ? 'goal_contributions' THEN g.current_amount
+        ELSE (s->>'current_amount')::numeric
+      END
+  FROM jsonb_array_elements(v_conversion.snapshot->'goals') s
+  WHERE g.id = (s->>'id')::uuid AND g.user_id = v_user_id;
+
+  UPDATE liabilities l
+  SET total_amount = (s->>'total_amount')::numeric,
+      remaining_amount = (s->>'remaining_amount')::numeric,
+      monthly_payment = (s->>'monthly_payment')::numeric
+  FROM jsonb_array_elements(v_conversion.snapshot->'liabilities') s
+  WHERE l.id = (s->>'id')::uuid AND l.user_id = v_user_id;
+
+  UPDATE budgets b
+  SET amount = (s->>'amount')::numeric
+  FROM jsonb_array_elements(v_conversion.snapshot->'budgets') s
+  WHERE b.id = (s->>'id')::uuid AND b.user_id = v_user_id;
+
+  -- Snapshots taken before budget periods, envelope transfers, budget
+  -- templates or goal funding rules existed have none to restore
+  UPDATE budget_periods bp
+  SET budgeted = (s->>'budgeted')::numeric,
+      spent = (s->>'spent')::numeric,
+      carried_in = (s->>'carried_in')::numeric,
+      remaining = (s->>'remaining')::numeric
+  FROM jsonb_array_elements(COALESCE(v_conversion.snapshot->'budget_periods', '[]'::jsonb)) s
+  WHERE bp.id = (s->>'id')::uuid AND bp.user_id = v_user_id;
+
+  UPDATE envelope_transfers et
+  SET amount = (s->>'amount')::numeric
+  FROM jsonb_array_elements(COALESCE(v_conversion.snapshot->'envelope_transfers', '[]'::jsonb)) s
+  WHERE et.id = (s->>'id')::uuid AND et.user_id = v_user_id;
+
+  UPDATE budget_templates bt
+  SET items = s->'items'
+  FROM jsonb_array_elements(COALESCE(v_conversion.snapshot->'budget_templates', '[]'::jsonb)) s
+  WHERE bt.id = (s->>'id')::uuid AND bt.user_id = v_user_id;
+
+  UPDATE goal_funding_rules gfr
+  SET amount = (s->>'amount')::numeric
+  FROM jsonb_array_elements(COALESCE(v_conversion.snapshot->'goal_funding_rules', '[]'::jsonb)) s
+  WHERE gfr.id = (s->>'id')::uuid AND gfr.user_id = v_user_id;
+
+  UPDATE goal_milestones gm
+  SET amount = (s->>'amount')::numeric
+  FROM jsonb_array_elements(COALESCE(v_conversion.snapshot->'goal_milestones', '[]'::jsonb)) s
+  WHERE gm.id = (s->>'id')::uuid AND gm.user_id = v_user_id;
+
+  UPDATE liability_payments lp
+  SET amount = (s->>'amount')::numeric,
+      principal = (s->>'principal')::numeric,
+      interest = (s->>'interest')::numeric,
+      balance_after = (s->>'balance_after')::numeric
+  FROM jsonb_array_elements(COALESCE(v_conversion.snapshot->'liability_payments', '[]'::jsonb)) s
+  WHERE lp.id = (s->>'id')::uuid AND lp.user_id = v_user_id;
+
+  UPDATE recurring_transactions r
+  SET amount = (s->>'amount')::numeric
+  FROM jsonb_array_elements(v_conversion.snapshot->'recurring_transactions') s
+  WHERE r.id = (s->>'id')::uuid AND r.user_id = v_user_id;
+
+  UPDATE transactions t
+  SET amount = (s->>'amount')::numeric,
+      original_currency = s->>'original_currency',
+      original_amount = (s->>'original_amount')::numeric,
+      exchange_rate = (s->>'exchange_rate')::numeric
+  FROM jsonb_array_elements(v_conversion.snapshot->'transactions') s
+  WHERE t.id = (s->>'id')::uuid AND t.user_id = v_user_id;
+
+  UPDATE currency_conversions SET undone_at = now() WHERE id = p_conversion_id;
+
+  RETURN jsonb_build_object(
+    'conversion_id', p_conversion_id,
+    'from_currency', v_conversion.from_currency,
+    'to_currency', v_conversion.to_currency
+  );
+END;
+$$;
@@ -0,0 +1,74 @@
+/*
+  # Merge Duplicate Transactions
+
+  1. Changes
+    - `merge_duplicate_transactions` keeps one transaction of a duplicate pair
+      and deletes the other in a single database transaction, so a failure
+      part way leaves both as they were. Split parts, linked liabilities,
+      goal contributions and liability payments move to the survivor before
+      the delete, which would otherwise cascade to or unlink them.
+
+  2. Security
+    - Runs as the calling user, so RLS applies to every row it touches
+    - Both transactions must belong to the calling user
+*/
+
+-- Keep one of the calling user's transactions and delete its duplicate.
+-- p_updates holds the columns the survivor takes over from the duplicate:
+-- external_id, recurring_transaction_id, category and description.
+CREATE OR REPLACE FUNCTION merge_duplicate_transactions(
+  p_keep_id uuid,
+  p_remove_id uuid,
+  p_updates jsonb DEFAULT '{}'::jsonb
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_keep_id = p_remove_id THEN
+    RAISE EXCEPTION 'A transaction cannot be merged with itself';
+  END IF;
+
+  IF (SELECT count(*) FROM transactions WHERE id IN (p_keep_id, p_remove_id) AND user_id = v_user_id) <> 2 THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+
+  UPDATE transactions
+  SET parent_transaction_id = p_keep_id
+  WHERE parent_transaction_id = p_remove_id AND user_id = v_user_id;
+
+  UPDATE liabilities
+  SET linked_purchase_id = p_keep_id
+  WHERE linked_purchase_id = p_remove_id AND user_id = v_user_id;
+
+  UPDATE goal_contributions
+  SET transaction_id = p_keep_id
+  WHERE transaction_id = p_remove_id AND user_id = v_user_id;
+
+  UPDATE liability_payments
+  SET transaction_id = p_keep_id
+  WHERE transaction_id = p_remove_id AND user_id = v_user_id;
+
+  -- Delete before updating: the survivor may take over the external id,
+  -- which is unique per user
+  DELETE FROM transactions WHERE id = p_remove_id AND user_id = v_user_id;
+
+  UPDATE transactions
+  SET external_id = CASE WHEN p_updates ? 'external_id' THEN p_updates->>'external_id' ELSE external_id END,
+      recurring_transaction_id = CASE
+        WHEN p_updates ? 'recurring_transaction_id' THEN (p_updates->>'recurring_transaction_id')::uuid
+        ELSE recurring_transaction_id
+      END,
+      category = CASE WHEN p_updates ? 'category' THEN p_updates->>'category' ELSE category END,
+      description = CASE WHEN p_updates ? 'description' THEN p_updates->>'description' ELSE description END
+  WHERE id = p_keep_id AND user_id = v_user_id AND p_updates <> '{}'::jsonb;
+END;
+$$;
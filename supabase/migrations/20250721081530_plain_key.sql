@@ -0,0 +1,9 @@
+/*
+  # Merge Duplicate Transactions Access
+
+  1. Security
+    - Allow authenticated users to call `merge_duplicate_transactions`, which
+      runs as the caller and only merges their own transactions
+*/
+
+GRANT EXECUTE ON FUNCTION merge_duplicate_transactions(uuid, uuid, jsonb) TO authenticated;
@@ -0,0 +1,30 @@
+/*
+  # Transaction Account Ownership
+
+  1. Security
+    - A transaction can only be recorded against one of the user's own
+      accounts. RLS on transactions only checks the transaction's owner, not
+      the account it points at.
+*/
+
+-- Keep transactions within the user's own accounts
+CREATE OR REPLACE FUNCTION check_transaction_accounts()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.account_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM accounts WHERE id = NEW.account_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'A transaction must belong to one of your accounts';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_transaction_accounts
+BEFORE INSERT OR UPDATE OF account_id, user_id ON transactions
+FOR EACH ROW EXECUTE FUNCTION check_transaction_accounts();
@@ -0,0 +1,37 @@
+/*
+  # Transfer Account Ownership
+
+  1. Security
+    - The destination account of a transfer must be one of the user's own
+      accounts, like the source account
+*/
+
+-- Keep both sides of a transfer within the user's own accounts
+CREATE OR REPLACE FUNCTION check_transaction_accounts()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.account_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM accounts WHERE id = NEW.account_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'A transaction must belong to one of your accounts';
+  END IF;
+
+  IF NEW.transfer_account_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM accounts WHERE id = NEW.transfer_account_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'A transfer must go to one of your accounts';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER check_transaction_accounts ON transactions;
+
+CREATE TRIGGER check_transaction_accounts
+BEFORE INSERT OR UPDATE OF account_id, transfer_account_id, user_id ON transactions
+FOR EACH ROW EXECUTE FUNCTION check_transaction_accounts();
@@ -0,0 +1,36 @@
+/*
+  # Envelope Transfer Budget Ownership
+
+  1. Security
+    - An envelope transfer can only move money between the user's own
+      budgets. RLS on envelope_transfers only checks the transfer's owner,
+      not the budgets it points at.
+*/
+
+-- Keep transfers within the user's own budgets
+CREATE OR REPLACE FUNCTION check_envelope_transfer_budgets()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.from_budget_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM budgets WHERE id = NEW.from_budget_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Money can only be moved out of one of your budgets';
+  END IF;
+
+  IF NEW.to_budget_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM budgets WHERE id = NEW.to_budget_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Money can only be moved into one of your budgets';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_envelope_transfer_budgets
+BEFORE INSERT OR UPDATE OF from_budget_id, to_budget_id, user_id ON envelope_transfers
+FOR EACH ROW EXECUTE FUNCTION check_envelope_transfer_budgets();
@@ -0,0 +1,76 @@
+/*
+  # Sub-goal Aware Goal Funding
+
+  1. Changes
+    - `fund_goals` counts a goal's sub-goals in what it still needs, so a
+      funding rule does not overfund a parent whose sub-goals are saving
+*/
+
+-- Run the calling user's active rules of one source over an amount of money,
+-- in priority order. A percentage is taken of the whole amount. Each rule
+-- gets no more than is left and than its goal still needs, counting what its
+-- sub-goals have saved.
+CREATE OR REPLACE FUNCTION fund_goals(
+  p_source text,
+  p_amount numeric,
+  p_date date,
+  p_note text,
+  p_category text DEFAULT NULL,
+  p_transaction_id uuid DEFAULT NULL,
+  p_budget_period_id uuid DEFAULT NULL
+)
+RETURNS SETOF goal_contributions
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_rule goal_funding_rules%ROWTYPE;
+  v_left numeric := p_amount;
+  v_needed numeric;
+  v_share numeric;
+  v_contribution goal_contributions%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  FOR v_rule IN
+    SELECT * FROM goal_funding_rules
+    WHERE user_id = v_user_id
+      AND source = p_source
+      AND is_active
+      AND (category IS NULL OR category = p_category)
+      -- Periods that ended before a rule existed are not funded by it
+      AND (p_budget_period_id IS NULL OR created_at::date <= p_date)
+    ORDER BY priority, created_at
+  LOOP
+    EXIT WHEN v_left <= 0;
+
+    -- Read per rule, as an earlier rule may have funded the same goal or one
+    -- of its sub-goals, whose savings count towards it
+    SELECT g.target_amount - g.current_amount - COALESCE((
+      SELECT SUM(sub.current_amount) FROM goals sub WHERE sub.parent_goal_id = g.id
+    ), 0) INTO v_needed
+    FROM goals g WHERE g.id = v_rule.goal_id;
+
+    v_share := LEAST(
+      CASE WHEN v_rule.amount_type = 'percent' THEN round(p_amount * v_rule.amount / 100, 2) ELSE v_rule.amount END,
+      v_left,
+      v_needed
+    );
+    CONTINUE WHEN v_share IS NULL OR v_share <= 0;
+
+    INSERT INTO goal_contributions (user_id, goal_id, amount, date, note, transaction_id, budget_period_id, funding_rule_id)
+    VALUES (v_user_id, v_rule.goal_id, v_share, p_date, p_note, p_transaction_id, p_budget_period_id, v_rule.id)
+    ON CONFLICT DO NOTHING
+    RETURNING * INTO v_contribution;
+
+    IF FOUND THEN
+      v_left := v_left - v_share;
+      RETURN NEXT v_contribution;
+    END IF;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,32 @@
+/*
+  # Recurring Occurrence Exception Ownership
+
+  1. Security
+    - An occurrence exception can only be recorded against one of the user's
+      own recurring transactions. RLS on recurring_transaction_exceptions
+      only checks the exception's owner, not the series it points at, and
+      the nightly processing reads every user's exceptions.
+*/
+
+-- Keep exceptions within the user's own recurring transactions
+CREATE OR REPLACE FUNCTION check_recurring_exception_series()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM recurring_transactions
+    WHERE id = NEW.recurring_transaction_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'An exception must belong to one of your recurring transactions';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_recurring_exception_series
+BEFORE INSERT OR UPDATE OF recurring_transaction_id, user_id ON recurring_transaction_exceptions
+FOR EACH ROW EXECUTE FUNCTION check_recurring_exception_series();
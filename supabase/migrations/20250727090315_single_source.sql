@@ -0,0 +1,283 @@
+/*
+  # Currency Amount Registry
+
+  1. New Tables
+    - `currency_amount_tables`
+      - `table_name` (text, primary key)
+      - `amounts` (jsonb, each converted column mapped to the expression that
+        gives its converted value; `$1` is the rate, `$2` the currency
+        converted from and `$3` the one converted to)
+      - `row_filter` (text, the rows of the table that hold amounts)
+      - `headline_column` (text, nullable, summed before and after in the
+        conversion preview)
+      - `position` (integer, the order tables are converted in)
+
+  2. Changes
+    - `convert_base_currency` and `undo_currency_conversion` snapshot,
+      convert and restore every table in the registry, so a migration that
+      adds amounts registers its table instead of redefining both functions
+    - Register every table converted so far, including the amounts
+      occurrence exceptions override
+    - While either function runs, `finspire.converting_currency` is set for
+      the transaction, so triggers that keep one amount in step with others
+      can leave the conversion to convert both
+
+  3. Security
+    - Enable RLS on `currency_amount_tables`
+    - Authenticated users can read the registry; only migrations write it
+*/
+
+CREATE TABLE IF NOT EXISTS currency_amount_tables (
+  table_name text PRIMARY KEY,
+  amounts jsonb NOT NULL,
+  row_filter text NOT NULL DEFAULT 'true',
+  headline_column text,
+  position integer NOT NULL
+);
+
+ALTER TABLE currency_amount_tables ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read currency amount tables"
+  ON currency_amount_tables
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- current_amount of goals follows the converted contributions. Principal of
+-- liability payments takes up the rounding so that it and interest still add
+-- up. Percentage funding rules stay as they are, and only exceptions that
+-- override the amount have one to convert. Transactions keep their original
+-- amount: rows in the old base currency become foreign-currency rows at the
+-- rate, rows already in a foreign currency chain their stored rate with it.
+INSERT INTO currency_amount_tables (table_name, amounts, row_filter, headline_column, position) VALUES
+  ('goal_contributions', jsonb_build_object(
+    'amount', 'sign(amount) * GREATEST(round(abs(amount) * $1, 2), 0.01)'
+  ), 'true', NULL, 10),
+  ('goals', jsonb_build_object(
+    'target_amount', 'GREATEST(round(target_amount * $1, 2), 0.01)'
+  ), 'true', 'target_amount', 20),
+  ('liabilities', jsonb_build_object(
+    'total_amount', 'GREATEST(round(total_amount * $1, 2), 0.01)',
+    'remaining_amount', 'round(remaining_amount * $1, 2)',
+    'monthly_payment', 'GREATEST(round(monthly_payment * $1, 2), 0.01)'
+  ), 'true', 'remaining_amount', 30),
+  ('budgets', jsonb_build_object(
+    'amount', 'GREATEST(round(amount * $1, 2), 0.01)'
+  ), 'true', 'amount', 40),
+  ('budget_periods', jsonb_build_object(
+    'budgeted', 'round(budgeted * $1, 2)',
+    'spent', 'round(spent * $1, 2)',
+    'carried_in', 'round(carried_in * $1, 2)',
+    'remaining', 'round(remaining * $1, 2)'
+  ), 'true', NULL, 50),
+  ('envelope_transfers', jsonb_build_object(
+    'amount', 'GREATEST(round(amount * $1, 2), 0.01)'
+  ), 'true', NULL, 60),
+  ('budget_templates', jsonb_build_object(
+    'items', 'COALESCE((
+      SELECT jsonb_agg(item || jsonb_build_object(''amount'', GREATEST(round((item->>''amount'')::numeric * $1, 2), 0.01)))
+      FROM jsonb_array_elements(items) item
+    ), ''[]''::jsonb)'
+  ), 'true', NULL, 70),
+  ('goal_funding_rules', jsonb_build_object(
+    'amount', 'GREATEST(round(amount * $1, 2), 0.01)'
+  ), 'amount_type = ''fixed''', NULL, 80),
+  ('goal_milestones', jsonb_build_object(
+    'amount', 'GREATEST(round(amount * $1, 2), 0.01)'
+  ), 'true', NULL, 90),
+  ('liability_payments', jsonb_build_object(
+    'amount', 'GREATEST(round(amount * $1, 2), 0.01)',
+    'interest', 'round(interest * $1, 2)',
+    'principal', 'GREATEST(round(amount * $1, 2), 0.01) - round(interest * $1, 2)',
+    'balance_after', 'round(balance_after * $1, 2)'
+  ), 'true', NULL, 100),
+  ('recurring_transactions', jsonb_build_object(
+    'amount', 'GREATEST(round(amount * $1, 2), 0.01)'
+  ), 'true', 'amount', 110),
+  ('recurring_transaction_exceptions', jsonb_build_object(
+    'amount', 'GREATEST(round(amount * $1, 2), 0.01)'
+  ), 'amount IS NOT NULL', NULL, 120),
+  ('transactions', jsonb_build_object(
+    'amount', 'GREATEST(CASE
+      WHEN original_currency = $3 THEN original_amount
+      WHEN original_currency IS NOT NULL THEN round(original_amount * exchange_rate * $1, 2)
+      ELSE round(amount * $1, 2)
+    END, 0.01)',
+    'original_currency', 'CASE
+      WHEN original_currency = $3 THEN NULL
+      WHEN original_currency IS NOT NULL THEN original_currency
+      ELSE $2
+    END',
+    'original_amount', 'CASE
+      WHEN original_currency = $3 THEN NULL
+      WHEN original_currency IS NOT NULL THEN original_amount
+      ELSE amount
+    END',
+    'exchange_rate', 'CASE
+      WHEN original_currency = $3 THEN NULL
+      WHEN original_currency IS NOT NULL THEN exchange_rate * $1
+      ELSE $1
+    END'
+  ), 'true', 'amount', 130)
+ON CONFLICT (table_name) DO NOTHING;
+
+-- Convert every stored amount of the calling user to a new base currency
+CREATE OR REPLACE FUNCTION convert_base_currency(
+  p_from_currency text,
+  p_to_currency text,
+  p_rate numeric,
+  p_dry_run boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_table currency_amount_tables%ROWTYPE;
+  v_rows jsonb;
+  v_entity jsonb;
+  v_snapshot jsonb := '{}'::jsonb;
+  v_counts jsonb := '{}'::jsonb;
+  v_entities jsonb := '{}'::jsonb;
+  v_conversion_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+  IF p_rate IS NULL OR p_rate <= 0 THEN
+    RAISE EXCEPTION 'Exchange rate must be greater than 0';
+  END IF;
+  IF p_from_currency = p_to_currency THEN
+    RAISE EXCEPTION 'Base currency is already %', p_to_currency;
+  END IF;
+
+  -- Amounts before conversion, kept for undo, with the per-table count and
+  -- headline total before and after conversion
+  FOR v_table IN SELECT * FROM currency_amount_tables ORDER BY position LOOP
+    EXECUTE format(
+      'SELECT COALESCE(jsonb_agg(jsonb_build_object(''id'', id, %s)), ''[]''::jsonb) FROM %I WHERE user_id = $1 AND (%s)',
+      (SELECT string_agg(format('%L, %I', c, c), ', ') FROM jsonb_object_keys(v_table.amounts) c),
+      v_table.table_name,
+      v_table.row_filter
+    ) INTO v_rows USING v_user_id;
+
+    v_snapshot := v_snapshot || jsonb_build_object(v_table.table_name, v_rows);
+    v_counts := v_counts || jsonb_build_object(v_table.table_name, jsonb_array_length(v_rows));
+
+    IF v_table.headline_column IS NOT NULL THEN
+      EXECUTE format(
+        'SELECT jsonb_build_object(''count'', count(*), ''before'', COALESCE(sum(%I), 0), ''after'', COALESCE(sum(%s), 0)) FROM %I WHERE user_id = $4 AND (%s)',
+        v_table.headline_column,
+        v_table.amounts->>v_table.headline_column,
+        v_table.table_name,
+        v_table.row_filter
+      ) INTO v_entity USING p_rate, p_from_currency, p_to_currency, v_user_id;
+
+      v_entities := v_entities || jsonb_build_object(v_table.table_name, v_entity);
+    END IF;
+  END LOOP;
+
+  IF p_dry_run THEN
+    RETURN jsonb_build_object(
+      'dry_run', true,
+      'from_currency', p_from_currency,
+      'to_currency', p_to_currency,
+      'rate', p_rate,
+      'entities', v_entities
+    );
+  END IF;
+
+  PERFORM set_config('finspire.converting_currency', 'on', true);
+
+  -- Right-hand sides all see the row's values from before the update
+  FOR v_table IN SELECT * FROM currency_amount_tables ORDER BY position LOOP
+    EXECUTE format(
+      'UPDATE %I SET %s WHERE user_id = $4 AND (%s)',
+      v_table.table_name,
+      (SELECT string_agg(format('%I = %s', a.key, a.value), ', ') FROM jsonb_each_text(v_table.amounts) a),
+      v_table.row_filter
+    ) USING p_rate, p_from_currency, p_to_currency, v_user_id;
+  END LOOP;
+
+  PERFORM set_config('finspire.converting_currency', 'off', true);
+
+  INSERT INTO currency_conversions (user_id, from_currency, to_currency, rate, row_counts, snapshot)
+  VALUES (v_user_id, p_from_currency, p_to_currency, p_rate, v_counts, v_snapshot)
+  RETURNING id INTO v_conversion_id;
+
+  RETURN jsonb_build_object(
+    'dry_run', false,
+    'conversion_id', v_conversion_id,
+    'from_currency', p_from_currency,
+    'to_currency', p_to_currency,
+    'rate', p_rate,
+    'entities', v_entities
+  );
+END;
+$$;
+
+-- Restore the amounts saved by a conversion. Only the latest conversion that
+-- has not been undone can be reverted, so snapshots are applied in order.
+CREATE OR REPLACE FUNCTION undo_currency_conversion(p_conversion_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_conversion currency_conversions%ROWTYPE;
+  v_table currency_amount_tables%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  SELECT * INTO v_conversion
+  FROM currency_conversions
+  WHERE id = p_conversion_id AND user_id = v_user_id AND undone_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Currency conversion not found or already undone';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM currency_conversions
+    WHERE user_id = v_user_id AND undone_at IS NULL AND created_at > v_conversion.created_at
+  ) THEN
+    RAISE EXCEPTION 'Undo the more recent currency conversion first';
+  END IF;
+
+  PERFORM set_config('finspire.converting_currency', 'on', true);
+
+  -- Snapshots taken before a table was registered have none of its rows
+  FOR v_table IN SELECT * FROM currency_amount_tables ORDER BY position LOOP
+    EXECUTE format(
+      'UPDATE %1$I x SET %2$s FROM jsonb_populate_recordset(NULL::%1$I, $1) s WHERE x.id = s.id AND x.user_id = $2',
+      v_table.table_name,
+      (SELECT string_agg(format('%1$I = s.%1$I', c), ', ') FROM jsonb_object_keys(v_table.amounts) c)
+    ) USING COALESCE(v_conversion.snapshot->v_table.table_name, '[]'::jsonb), v_user_id;
+  END LOOP;
+
+  -- Snapshots taken before goal contributions existed have none, so their
+  -- saved amount is restored instead and recorded as an adjustment
+  IF NOT v_conversion.snapshot ? 'goal_contributions' THEN
+    UPDATE goals g
+    SET current_amount = (s->>'current_amount')::numeric
+    FROM jsonb_array_elements(v_conversion.snapshot->'goals') s
+    WHERE g.id = (s->>'id')::uuid AND g.user_id = v_user_id;
+  END IF;
+
+  PERFORM set_config('finspire.converting_currency', 'off', true);
+
+  UPDATE currency_conversions SET undone_at = now() WHERE id = p_conversion_id;
+
+  RETURN jsonb_build_object(
+    'conversion_id', p_conversion_id,
+    'from_currency', v_conversion.from_currency,
+    'to_currency', v_conversion.to_currency
+  );
+END;
+$$;
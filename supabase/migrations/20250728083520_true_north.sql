@@ -0,0 +1,255 @@
+/*
+  # Base Currency on the Profile and Careful Undo
+
+  1. Changes
+    - Add `base_currency` to `profiles`, so every device agrees on it.
+      `convert_base_currency` and `undo_currency_conversion` set it in the
+      same transaction as the amounts, and a conversion must start from it.
+    - Add `converted` to `currency_conversions`: the amounts right after the
+      conversion, to tell which rows changed since
+    - `undo_currency_conversion` only restores the saved amounts of rows that
+      have not changed since the conversion. Rows edited or created since are
+      converted back at the inverse rate, so they keep their changes and end
+      up in the restored base currency too. Conversions made before this
+      migration have no `converted` amounts, so their saved rows are restored
+      as before.
+*/
+
+-- Add base_currency column to profiles table
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'profiles' AND column_name = 'base_currency'
+  ) THEN
+    ALTER TABLE profiles ADD COLUMN base_currency text;
+  END IF;
+END $$;
+
+-- Add converted column to currency_conversions table
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'currency_conversions' AND column_name = 'converted'
+  ) THEN
+    ALTER TABLE currency_conversions ADD COLUMN converted jsonb;
+  END IF;
+END $$;
+
+-- The calling user's amounts in every registered table, by table name
+CREATE OR REPLACE FUNCTION currency_amount_snapshot(p_user_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_table currency_amount_tables%ROWTYPE;
+  v_rows jsonb;
+  v_snapshot jsonb := '{}'::jsonb;
+BEGIN
+  FOR v_table IN SELECT * FROM currency_amount_tables ORDER BY position LOOP
+    EXECUTE format(
+      'SELECT COALESCE(jsonb_agg(jsonb_build_object(''id'', id, %s)), ''[]''::jsonb) FROM %I WHERE user_id = $1 AND (%s)',
+      (SELECT string_agg(format('%L, %I', c, c), ', ') FROM jsonb_object_keys(v_table.amounts) c),
+      v_table.table_name,
+      v_table.row_filter
+    ) INTO v_rows USING p_user_id;
+
+    v_snapshot := v_snapshot || jsonb_build_object(v_table.table_name, v_rows);
+  END LOOP;
+
+  RETURN v_snapshot;
+END;
+$$;
+
+-- Convert every stored amount of the calling user to a new base currency
+CREATE OR REPLACE FUNCTION convert_base_currency(
+  p_from_currency text,
+  p_to_currency text,
+  p_rate numeric,
+  p_dry_run boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_base_currency text;
+  v_table currency_amount_tables%ROWTYPE;
+  v_entity jsonb;
+  v_snapshot jsonb;
+  v_counts jsonb;
+  v_entities jsonb := '{}'::jsonb;
+  v_conversion_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+  IF p_rate IS NULL OR p_rate <= 0 THEN
+    RAISE EXCEPTION 'Exchange rate must be greater than 0';
+  END IF;
+  IF p_from_currency = p_to_currency THEN
+    RAISE EXCEPTION 'Base currency is already %', p_to_currency;
+  END IF;
+
+  -- Another device may have changed it meanwhile
+  SELECT base_currency INTO v_base_currency FROM profiles WHERE id = v_user_id;
+  IF v_base_currency IS NOT NULL AND v_base_currency <> p_from_currency THEN
+    RAISE EXCEPTION 'Your base currency is %, not %', v_base_currency, p_from_currency;
+  END IF;
+
+  -- Amounts before conversion, kept for undo
+  v_snapshot := currency_amount_snapshot(v_user_id);
+  SELECT jsonb_object_agg(key, jsonb_array_length(value)) INTO v_counts FROM jsonb_each(v_snapshot);
+
+  -- Per-table count and headline total before and after conversion
+  FOR v_table IN SELECT * FROM currency_amount_tables WHERE headline_column IS NOT NULL ORDER BY position LOOP
+    EXECUTE format(
+      'SELECT jsonb_build_object(''count'', count(*), ''before'', COALESCE(sum(%I), 0), ''after'', COALESCE(sum(%s), 0)) FROM %I WHERE user_id = $4 AND (%s)',
+      v_table.headline_column,
+      v_table.amounts->>v_table.headline_column,
+      v_table.table_name,
+      v_table.row_filter
+    ) INTO v_entity USING p_rate, p_from_currency, p_to_currency, v_user_id;
+
+    v_entities := v_entities || jsonb_build_object(v_table.table_name, v_entity);
+  END LOOP;
+
+  IF p_dry_run THEN
+    RETURN jsonb_build_object(
+      'dry_run', true,
+      'from_currency', p_from_currency,
+      'to_currency', p_to_currency,
+      'rate', p_rate,
+      'entities', v_entities
+    );
+  END IF;
+
+  PERFORM set_config('finspire.converting_currency', 'on', true);
+
+  -- Right-hand sides all see the row's values from before the update
+  FOR v_table IN SELECT * FROM currency_amount_tables ORDER BY position LOOP
+    EXECUTE format(
+      'UPDATE %I SET %s WHERE user_id = $4 AND (%s)',
+      v_table.table_name,
+      (SELECT string_agg(format('%I = %s', a.key, a.value), ', ') FROM jsonb_each_text(v_table.amounts) a),
+      v_table.row_filter
+    ) USING p_rate, p_from_currency, p_to_currency, v_user_id;
+  END LOOP;
+
+  PERFORM set_config('finspire.converting_currency', 'off', true);
+
+  UPDATE profiles SET base_currency = p_to_currency WHERE id = v_user_id;
+
+  INSERT INTO currency_conversions (user_id, from_currency, to_currency, rate, row_counts, snapshot, converted)
+  VALUES (v_user_id, p_from_currency, p_to_currency, p_rate, v_counts, v_snapshot, currency_amount_snapshot(v_user_id))
+  RETURNING id INTO v_conversion_id;
+
+  RETURN jsonb_build_object(
+    'dry_run', false,
+    'conversion_id', v_conversion_id,
+    'from_currency', p_from_currency,
+    'to_currency', p_to_currency,
+    'rate', p_rate,
+    'entities', v_entities
+  );
+END;
+$$;
+
+-- Undo a conversion. Only the latest conversion that has not been undone can
+-- be reverted, so snapshots are applied in order. Rows still as the
+-- conversion left them get their saved amounts back; rows edited or created
+-- since are converted back at the inverse rate.
+CREATE OR REPLACE FUNCTION undo_currency_conversion(p_conversion_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_conversion currency_conversions%ROWTYPE;
+  v_table currency_amount_tables%ROWTYPE;
+  v_unchanged uuid[];
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  SELECT * INTO v_conversion
+  FROM currency_conversions
+  WHERE id = p_conversion_id AND user_id = v_user_id AND undone_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Currency conversion not found or already undone';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM currency_conversions
+    WHERE user_id = v_user_id AND undone_at IS NULL AND created_at > v_conversion.created_at
+  ) THEN
+    RAISE EXCEPTION 'Undo the more recent currency conversion first';
+  END IF;
+
+  PERFORM set_config('finspire.converting_currency', 'on', true);
+
+  -- Tables registered after the conversion was made were not converted by it
+  FOR v_table IN SELECT * FROM currency_amount_tables ORDER BY position LOOP
+    CONTINUE WHEN NOT v_conversion.snapshot ? v_table.table_name;
+
+    -- Saved rows whose amounts are still the converted ones. Without
+    -- converted amounts every saved row counts as unchanged.
+    EXECUTE format(
+      'SELECT COALESCE(array_agg(x.id), ''{}'') FROM %1$I x JOIN jsonb_populate_recordset(NULL::%1$I, $1) s ON s.id = x.id
+       WHERE x.user_id = $3 AND ($2 IS NULL OR EXISTS (
+         SELECT 1 FROM jsonb_populate_recordset(NULL::%1$I, $2) c
+         WHERE c.id = x.id AND ROW(%2$s) IS NOT DISTINCT FROM ROW(%3$s)
+       ))',
+      v_table.table_name,
+      (SELECT string_agg(format('x.%I', c), ', ') FROM jsonb_object_keys(v_table.amounts) c),
+      (SELECT string_agg(format('c.%I', c), ', ') FROM jsonb_object_keys(v_table.amounts) c)
+    ) INTO v_unchanged
+    USING v_conversion.snapshot->v_table.table_name, v_conversion.converted->v_table.table_name, v_user_id;
+
+    -- Converted back first, so the restored rows are not converted again
+    EXECUTE format(
+      'UPDATE %I SET %s WHERE user_id = $4 AND (%s) AND NOT (id = ANY($5))',
+      v_table.table_name,
+      (SELECT string_agg(format('%I = %s', a.key, a.value), ', ') FROM jsonb_each_text(v_table.amounts) a),
+      v_table.row_filter
+    ) USING 1 / v_conversion.rate, v_conversion.to_currency, v_conversion.from_currency, v_user_id, v_unchanged;
+
+    EXECUTE format(
+      'UPDATE %1$I x SET %2$s FROM jsonb_populate_recordset(NULL::%1$I, $1) s WHERE x.id = s.id AND x.id = ANY($2)',
+      v_table.table_name,
+      (SELECT string_agg(format('%1$I = s.%1$I', c), ', ') FROM jsonb_object_keys(v_table.amounts) c)
+    ) USING v_conversion.snapshot->v_table.table_name, v_unchanged;
+  END LOOP;
+
+  -- Snapshots taken before goal contributions existed have none, so their
+  -- saved amount is restored instead and recorded as an adjustment
+  IF NOT v_conversion.snapshot ? 'goal_contributions' THEN
+    UPDATE goals g
+    SET current_amount = (s->>'current_amount')::numeric
+    FROM jsonb_array_elements(v_conversion.snapshot->'goals') s
+    WHERE g.id = (s->>'id')::uuid AND g.user_id = v_user_id;
+  END IF;
+
+  PERFORM set_config('finspire.converting_currency', 'off', true);
+
+  UPDATE profiles SET base_currency = v_conversion.from_currency WHERE id = v_user_id;
+
+  UPDATE currency_conversions SET undone_at = now() WHERE id = p_conversion_id;
+
+  RETURN jsonb_build_object(
+    'conversion_id', p_conversion_id,
+    'from_currency', v_conversion.from_currency,
+    'to_currency', v_conversion.to_currency
+  );
+END;
+$$;
@@ -0,0 +1,37 @@
+/*
+  # Goal Contribution Ownership
+
+  1. Security
+    - A goal contribution can only be recorded towards one of the user's own
+      goals, and only linked to one of the user's own transactions. RLS on
+      goal_contributions only checks the contribution's owner, not the rows
+      it points at.
+*/
+
+-- Keep contributions within the user's own goals and transactions
+CREATE OR REPLACE FUNCTION check_goal_contribution_links()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM goals WHERE id = NEW.goal_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'A contribution must go to one of your goals';
+  END IF;
+
+  IF NEW.transaction_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM transactions WHERE id = NEW.transaction_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'A contribution can only be linked to one of your transactions';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_goal_contribution_links
+BEFORE INSERT OR UPDATE OF goal_id, transaction_id, user_id ON goal_contributions
+FOR EACH ROW EXECUTE FUNCTION check_goal_contribution_links();
@@ -0,0 +1,30 @@
+/*
+  # Budget Period Ownership
+
+  1. Security
+    - A budget period can only be recorded for one of the user's own budgets.
+      RLS on budget_periods only checks the period's owner, not the budget it
+      points at.
+*/
+
+-- Keep periods within the user's own budgets
+CREATE OR REPLACE FUNCTION check_budget_period_budget()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM budgets WHERE id = NEW.budget_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'A budget period must belong to one of your budgets';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_budget_period_budget
+BEFORE INSERT OR UPDATE OF budget_id, user_id ON budget_periods
+FOR EACH ROW EXECUTE FUNCTION check_budget_period_budget();
@@ -0,0 +1,75 @@
+/*
+  # Goal Funding Rule Ownership
+
+  1. Security
+    - A funding rule can only fund one of the user's own goals. RLS on
+      goal_funding_rules only checks the rule's owner, not the goal it
+      points at.
+    - A contribution can only record one of the user's own funding rules and
+      budget periods as its source
+*/
+
+-- Keep funding rules within the user's own goals
+CREATE OR REPLACE FUNCTION check_goal_funding_rule_goal()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM goals WHERE id = NEW.goal_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'A funding rule must fund one of your goals';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_goal_funding_rule_goal
+BEFORE INSERT OR UPDATE OF goal_id, user_id ON goal_funding_rules
+FOR EACH ROW EXECUTE FUNCTION check_goal_funding_rule_goal();
+
+-- Keep contributions within the user's own goals, transactions, funding
+-- rules and budget periods
+CREATE OR REPLACE FUNCTION check_goal_contribution_links()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM goals WHERE id = NEW.goal_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'A contribution must go to one of your goals';
+  END IF;
+
+  IF NEW.transaction_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM transactions WHERE id = NEW.transaction_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'A contribution can only be linked to one of your transactions';
+  END IF;
+
+  IF NEW.funding_rule_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM goal_funding_rules WHERE id = NEW.funding_rule_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'A contribution can only come from one of your funding rules';
+  END IF;
+
+  IF NEW.budget_period_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM budget_periods WHERE id = NEW.budget_period_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'A contribution can only come from one of your budget periods';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER check_goal_contribution_links ON goal_contributions;
+
+CREATE TRIGGER check_goal_contribution_links
+BEFORE INSERT OR UPDATE OF goal_id, transaction_id, funding_rule_id, budget_period_id, user_id ON goal_contributions
+FOR EACH ROW EXECUTE FUNCTION check_goal_contribution_links();
@@ -0,0 +1,77 @@
+/*
+  # Liability Payment Updates and Ownership
+
+  1. Changes
+    - Changing the principal or the liability of a payment moves the
+      liability balances with it, as deleting the payment and recording it
+      again would. Currency conversions convert balances and payments
+      themselves, so their updates are left alone.
+
+  2. Security
+    - A liability payment can only be recorded against one of the user's own
+      liabilities, and only linked to one of the user's own transactions.
+      RLS on liability_payments only checks the payment's owner, not the
+      rows it points at.
+*/
+
+-- Pay the principal of a payment off the liability's balance, put it back
+-- when the payment is deleted and move it when the payment changes
+CREATE OR REPLACE FUNCTION apply_liability_payment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND current_setting('finspire.converting_currency', true) = 'on' THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    UPDATE liabilities
+    SET remaining_amount = remaining_amount + OLD.principal
+    WHERE id = OLD.liability_id;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    UPDATE liabilities
+    SET remaining_amount = GREATEST(remaining_amount - NEW.principal, 0)
+    WHERE id = NEW.liability_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER apply_liability_payment ON liability_payments;
+
+CREATE TRIGGER apply_liability_payment
+AFTER INSERT OR DELETE OR UPDATE OF principal, liability_id ON liability_payments
+FOR EACH ROW EXECUTE FUNCTION apply_liability_payment();
+
+-- Keep payments within the user's own liabilities and transactions
+CREATE OR REPLACE FUNCTION check_liability_payment_links()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM liabilities WHERE id = NEW.liability_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'A payment must go to one of your liabilities';
+  END IF;
+
+  IF NEW.transaction_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM transactions WHERE id = NEW.transaction_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'A payment can only be linked to one of your transactions';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_liability_payment_links
+BEFORE INSERT OR UPDATE OF liability_id, transaction_id, user_id ON liability_payments
+FOR EACH ROW EXECUTE FUNCTION check_liability_payment_links();